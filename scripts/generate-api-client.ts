@@ -0,0 +1,12 @@
+// Regenerates src/lib/api/client.ts from the OpenAPI document. Run after changing a route schema:
+//   npm run generate:api-client
+import { writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { generateApiClient } from '../src/lib/api/clientGenerator';
+import { buildOpenApiDocument } from '../src/lib/api/openapi';
+
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../src/lib/api/client.ts');
+writeFileSync(target, generateApiClient(buildOpenApiDocument()));
+console.log(`Wrote ${path.relative(process.cwd(), target)}`);
@@ -0,0 +1,29 @@
+-- Adds plan completion details and a cooking history log fed by completed plans.
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS completed_at timestamp;
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS notes text;
+
+CREATE TABLE IF NOT EXISTS cooking_history (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  meal_id TEXT NOT NULL REFERENCES meals(id) ON DELETE CASCADE,
+  plan_id TEXT REFERENCES plans(id) ON DELETE SET NULL,
+  cooked_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  cooked_on TEXT NOT NULL,
+  servings INTEGER,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS cooking_history_household_id_meal_id_idx
+  ON cooking_history(household_id, meal_id);
+
+-- A plan is cooked at most once; NULLs (plan deleted later) don't collide.
+CREATE UNIQUE INDEX IF NOT EXISTS cooking_history_plan_id_uniq
+  ON cooking_history(plan_id);
+
+CREATE INDEX IF NOT EXISTS cooking_history_cooked_by_idx
+  ON cooking_history(cooked_by);
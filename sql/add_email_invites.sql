@@ -0,0 +1,8 @@
+-- Adds invites addressed to an email address, which show up as pending invitations for that user.
+
+ALTER TABLE invites
+  ADD COLUMN IF NOT EXISTS email TEXT,
+  ADD COLUMN IF NOT EXISTS declined_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS invites_email_idx
+  ON invites(email);
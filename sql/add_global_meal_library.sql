@@ -0,0 +1,33 @@
+-- Adds what the global meal library admin API curates: nutrition, ordering and retirement on
+-- global meals, plus ordered collections (global_meals.collection holds the collection name).
+-- Safe to run multiple times.
+
+ALTER TABLE public.global_meals
+  ADD COLUMN IF NOT EXISTS nutrition jsonb,
+  ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS retired_at timestamp,
+  ADD COLUMN IF NOT EXISTS updated_at timestamp;
+
+CREATE TABLE IF NOT EXISTS public.global_meal_collections (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  image TEXT,
+  sort_order integer NOT NULL DEFAULT 0,
+  retired_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS global_meal_collections_name_uniq
+  ON public.global_meal_collections(name);
+
+-- Backfill one collection per name already in use, alphabetically.
+INSERT INTO public.global_meal_collections (id, name, sort_order)
+SELECT gen_random_uuid()::text, name, (row_number() OVER (ORDER BY name))::integer - 1
+FROM (
+  SELECT DISTINCT btrim(collection) AS name
+  FROM public.global_meals
+  WHERE collection IS NOT NULL AND btrim(collection) <> ''
+) existing
+ON CONFLICT (name) DO NOTHING;
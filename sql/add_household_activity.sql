@@ -0,0 +1,14 @@
+-- Adds the append-only household activity feed (who added, planned, edited or deleted what).
+
+CREATE TABLE IF NOT EXISTS household_activity (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  entity_id TEXT,
+  metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS household_activity_household_id_created_at_idx
+  ON household_activity(household_id, created_at);
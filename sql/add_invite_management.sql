@@ -0,0 +1,18 @@
+-- Adds invite management: the role an invite grants, revocation, and a record of redemptions.
+
+ALTER TABLE invites
+  ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'member',
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS revoked_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS invite_redemptions (
+  id TEXT PRIMARY KEY,
+  invite_id TEXT NOT NULL REFERENCES invites(id) ON DELETE CASCADE,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  role TEXT NOT NULL,
+  redeemed_at TIMESTAMP NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS invite_redemptions_invite_id_idx
+  ON invite_redemptions(invite_id);
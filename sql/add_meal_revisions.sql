@@ -0,0 +1,20 @@
+-- Adds meal versioning for optimistic concurrency and a revision history table.
+-- PUT /api/meals/:id with a stale `version` returns 409 instead of overwriting another member's edit.
+
+ALTER TABLE meals
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS meal_revisions (
+  id TEXT PRIMARY KEY,
+  meal_id TEXT NOT NULL REFERENCES meals(id) ON DELETE CASCADE,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  edited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  restored_from_version integer,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS meal_revisions_meal_id_version_uniq
+  ON meal_revisions(meal_id, version);
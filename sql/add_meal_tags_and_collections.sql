@@ -0,0 +1,34 @@
+-- Adds free-form meal tags and household-curated meal collections.
+-- GET /api/meals?tag= filters with `tags @> '["tag"]'`, which the GIN index serves.
+
+ALTER TABLE meals
+  ADD COLUMN IF NOT EXISTS tags jsonb DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS meals_tags_gin_idx
+  ON meals USING gin (tags);
+
+CREATE TABLE IF NOT EXISTS meal_collections (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS meal_collections_household_id_idx
+  ON meal_collections(household_id);
+
+CREATE TABLE IF NOT EXISTS meal_collection_items (
+  id TEXT PRIMARY KEY,
+  collection_id TEXT NOT NULL REFERENCES meal_collections(id) ON DELETE CASCADE,
+  meal_id TEXT NOT NULL REFERENCES meals(id) ON DELETE CASCADE,
+  added_at TIMESTAMP DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS meal_collection_items_collection_id_meal_id_uniq
+  ON meal_collection_items(collection_id, meal_id);
+
+CREATE INDEX IF NOT EXISTS meal_collection_items_meal_id_idx
+  ON meal_collection_items(meal_id);
@@ -0,0 +1,5 @@
+-- Adds the number of servings a meal's ingredient quantities are written for.
+-- Used to scale recipes (GET /api/meals/:id?servings=N) and to derive per-serving nutrition.
+
+ALTER TABLE meals
+  ADD COLUMN IF NOT EXISTS servings integer;
@@ -0,0 +1,8 @@
+-- Adds prep/cook/total time (minutes) and difficulty to meals.
+-- GET /api/meals?maxTotalTime=N filters on total time, falling back to prep + cook.
+
+ALTER TABLE meals
+  ADD COLUMN IF NOT EXISTS prep_time_minutes integer,
+  ADD COLUMN IF NOT EXISTS cook_time_minutes integer,
+  ADD COLUMN IF NOT EXISTS total_time_minutes integer,
+  ADD COLUMN IF NOT EXISTS difficulty text;
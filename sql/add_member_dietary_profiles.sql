@@ -0,0 +1,14 @@
+-- Adds structured dietary profiles (allergens, diets, ingredients to avoid) per household member.
+
+CREATE TABLE IF NOT EXISTS member_dietary_profiles (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  allergens jsonb DEFAULT '[]'::jsonb,
+  diets jsonb DEFAULT '[]'::jsonb,
+  avoid_ingredients jsonb DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS member_dietary_profiles_household_id_user_id_uniq
+  ON member_dietary_profiles(household_id, user_id);
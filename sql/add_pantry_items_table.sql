@@ -0,0 +1,22 @@
+-- Adds per-household pantry inventory, one row per normalized ingredient name.
+
+CREATE TABLE IF NOT EXISTS pantry_items (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  name_normalized TEXT NOT NULL,
+  category TEXT,
+  quantity REAL,
+  unit TEXT,
+  low_stock_threshold REAL,
+  expires_on TEXT,
+  added_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pantry_items_household_id_idx
+  ON pantry_items(household_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS pantry_items_household_id_name_normalized_uniq
+  ON pantry_items(household_id, name_normalized);
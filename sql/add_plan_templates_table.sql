@@ -0,0 +1,27 @@
+-- Adds recurring plan templates and links materialized plans back to their template.
+
+CREATE TABLE IF NOT EXISTS plan_templates (
+  id TEXT PRIMARY KEY,
+  household_id TEXT NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  name TEXT,
+  weekday INTEGER NOT NULL,
+  slot TEXT NOT NULL DEFAULT 'dinner',
+  servings INTEGER,
+  meal_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  materialized_through TEXT,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS plan_templates_household_id_idx
+  ON plan_templates(household_id);
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS template_id TEXT REFERENCES plan_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS plans_template_id_idx
+  ON plans(template_id);
@@ -0,0 +1,15 @@
+-- Adds a meal slot (breakfast/lunch/dinner/snack) and an optional servings override to plans.
+-- Existing plans become dinner, which is what the planner modeled before slots existed.
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS slot text NOT NULL DEFAULT 'dinner';
+
+ALTER TABLE plans
+  ADD COLUMN IF NOT EXISTS servings integer;
+
+CREATE INDEX IF NOT EXISTS plans_household_id_date_idx
+  ON plans(household_id, date);
+
+-- Which slots the reminder sweep should nag about when they are empty.
+ALTER TABLE notification_settings
+  ADD COLUMN IF NOT EXISTS reminder_slots jsonb NOT NULL DEFAULT '["dinner"]'::jsonb;
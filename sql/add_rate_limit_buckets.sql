@@ -0,0 +1,11 @@
+-- Shared fixed-window rate limit counters (src/lib/rateLimit). Until this runs, limits are kept
+-- in memory per server instance.
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_reset_at_idx
+  ON rate_limit_buckets(reset_at);
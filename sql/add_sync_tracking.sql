@@ -0,0 +1,94 @@
+-- Adds change tracking for GET /api/sync: an updated_at on households, plans and household_members
+-- (meals have one since add_meal_revisions.sql) and a table of deleted rows.
+-- Triggers keep both current, so every write path is covered, including FK cascades (deleting a
+-- household removes its members) and raw SQL. They use the database clock, which sync cursors are
+-- taken from too.
+
+ALTER TABLE households ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+ALTER TABLE household_members ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+ALTER TABLE meals ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT now();
+
+-- One row per deleted household, member, meal or plan. No foreign keys: tombstones outlive the
+-- household they belonged to. user_id is set for members.
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+  entity TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  household_id TEXT NOT NULL,
+  user_id TEXT,
+  deleted_at TIMESTAMP NOT NULL DEFAULT now(),
+  PRIMARY KEY (entity, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS sync_tombstones_household_id_deleted_at_idx
+  ON sync_tombstones(household_id, deleted_at);
+
+CREATE INDEX IF NOT EXISTS sync_tombstones_user_id_deleted_at_idx
+  ON sync_tombstones(user_id, deleted_at);
+
+CREATE INDEX IF NOT EXISTS meals_household_id_updated_at_idx
+  ON meals(household_id, updated_at);
+
+CREATE INDEX IF NOT EXISTS plans_household_id_updated_at_idx
+  ON plans(household_id, updated_at);
+
+CREATE INDEX IF NOT EXISTS household_members_household_id_updated_at_idx
+  ON household_members(household_id, updated_at);
+
+CREATE OR REPLACE FUNCTION sync_touch_updated_at() RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_record_tombstone() RETURNS trigger AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'households' THEN
+    INSERT INTO sync_tombstones (entity, entity_id, household_id)
+    VALUES ('household', OLD.id, OLD.id)
+    ON CONFLICT (entity, entity_id) DO UPDATE SET deleted_at = now();
+  ELSIF TG_TABLE_NAME = 'household_members' THEN
+    INSERT INTO sync_tombstones (entity, entity_id, household_id, user_id)
+    VALUES ('member', OLD.id, OLD.household_id, OLD.user_id)
+    ON CONFLICT (entity, entity_id) DO UPDATE SET deleted_at = now();
+  ELSIF TG_TABLE_NAME = 'meals' THEN
+    INSERT INTO sync_tombstones (entity, entity_id, household_id)
+    VALUES ('meal', OLD.id, OLD.household_id)
+    ON CONFLICT (entity, entity_id) DO UPDATE SET deleted_at = now();
+  ELSIF TG_TABLE_NAME = 'plans' THEN
+    INSERT INTO sync_tombstones (entity, entity_id, household_id)
+    VALUES ('plan', OLD.id, OLD.household_id)
+    ON CONFLICT (entity, entity_id) DO UPDATE SET deleted_at = now();
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS households_sync_touch ON households;
+CREATE TRIGGER households_sync_touch BEFORE INSERT OR UPDATE ON households
+  FOR EACH ROW EXECUTE FUNCTION sync_touch_updated_at();
+DROP TRIGGER IF EXISTS households_sync_tombstone ON households;
+CREATE TRIGGER households_sync_tombstone AFTER DELETE ON households
+  FOR EACH ROW EXECUTE FUNCTION sync_record_tombstone();
+
+DROP TRIGGER IF EXISTS household_members_sync_touch ON household_members;
+CREATE TRIGGER household_members_sync_touch BEFORE INSERT OR UPDATE ON household_members
+  FOR EACH ROW EXECUTE FUNCTION sync_touch_updated_at();
+DROP TRIGGER IF EXISTS household_members_sync_tombstone ON household_members;
+CREATE TRIGGER household_members_sync_tombstone AFTER DELETE ON household_members
+  FOR EACH ROW EXECUTE FUNCTION sync_record_tombstone();
+
+DROP TRIGGER IF EXISTS meals_sync_touch ON meals;
+CREATE TRIGGER meals_sync_touch BEFORE INSERT OR UPDATE ON meals
+  FOR EACH ROW EXECUTE FUNCTION sync_touch_updated_at();
+DROP TRIGGER IF EXISTS meals_sync_tombstone ON meals;
+CREATE TRIGGER meals_sync_tombstone AFTER DELETE ON meals
+  FOR EACH ROW EXECUTE FUNCTION sync_record_tombstone();
+
+DROP TRIGGER IF EXISTS plans_sync_touch ON plans;
+CREATE TRIGGER plans_sync_touch BEFORE INSERT OR UPDATE ON plans
+  FOR EACH ROW EXECUTE FUNCTION sync_touch_updated_at();
+DROP TRIGGER IF EXISTS plans_sync_tombstone ON plans;
+CREATE TRIGGER plans_sync_tombstone AFTER DELETE ON plans
+  FOR EACH ROW EXECUTE FUNCTION sync_record_tombstone();
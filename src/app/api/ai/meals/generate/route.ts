@@ -1,172 +1,64 @@
 import { NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
 
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '@/db';
-import { isBodyTooLarge } from '@/lib/validation';
-import {
-  AiConfigError,
-  AiProviderError,
-  AiTimeoutError,
-  AiValidationError,
-  generateMeal,
-  validateGenerateMealInput,
-} from '@/lib/ai/generateMeal';
-import { requireProSubscriptionForAi, SubscriptionRequiredError } from '@/lib/ai/requireProSubscription';
-import { AiCreditsLimitError, AiUsageLimitError, consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { generateMealBody } from '@/lib/api/schemas/ai';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { household_members } from '@/db/schema';
+import { loadHouseholdDietaryProfiles } from '@/lib/dietary/householdProfiles';
+import { getMealDietaryWarnings, mergeDietaryProfiles, type MemberDietaryProfile } from '@/lib/dietary/restrictions';
+import { generateMeal } from '@/lib/ai/generateMeal';
+import { requireProSubscriptionForAi } from '@/lib/ai/requireProSubscription';
+import { consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
+import { and, eq } from 'drizzle-orm';
 
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 10;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
 const MAX_BODY_BYTES = 16_384;
 
-function jsonError(
-  status: number,
-  error: string,
-  message: string,
-  requestId: string,
-  meta?: Record<string, unknown>,
-) {
-  const res = NextResponse.json({ error, message, requestId, ...meta }, { status });
-  res.headers.set('x-request-id', requestId);
-  res.headers.set('cache-control', 'no-store');
-  return res;
-}
-
-export async function POST(req: Request) {
-  const requestId = randomUUID();
-
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return jsonError(401, 'unauthorized', 'You must be signed in to generate a meal.', requestId);
-    }
-
-    if (!db) {
-      return jsonError(500, 'server_misconfigured', 'Database is not configured.', requestId);
-    }
-
-    if (isBodyTooLarge(req, MAX_BODY_BYTES)) {
-      return jsonError(413, 'payload_too_large', 'Request body is too large.', requestId);
-    }
-
+export const POST = apiRoute(
+  {
+    tag: 'AI_GENERATE_MEAL',
+    json: { maxBytes: MAX_BODY_BYTES },
+    body: generateMealBody,
+    messages: {
+      unauthorized: 'You must be signed in to generate a meal.',
+      subscription_required: 'Upgrade to Pro to generate meals with AI.',
+      internal_error: 'Something went wrong generating your meal.',
+    },
+  },
+  async ({ req, db, userId, body }) => {
     await requireProSubscriptionForAi(db, userId, 'ai_generate_meal');
 
-    const nowMs = Date.now();
-    const existing = rateLimitByUser.get(userId);
-    if (!existing || existing.resetAtMs <= nowMs) {
-      rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    } else if (existing.count >= RATE_LIMIT_MAX_REQUESTS) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-      const res = jsonError(
-        429,
-        'rate_limited',
-        `Too many requests. Try again in ${retryAfterSeconds}s.`,
-        requestId,
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    } else {
-      existing.count += 1;
-      rateLimitByUser.set(userId, existing);
-    }
-
-    const body = await req.json().catch(() => null);
-    if (!body || typeof body !== 'object') {
-      return jsonError(400, 'invalid_request', 'Invalid JSON body.', requestId);
+    const limit = await checkRateLimit(db, 'ai.generateMeal', { userId, ip: getClientIp(req) });
+    if (!limit.allowed) {
+      throw rateLimitError(limit);
     }
 
-    let sanitizedInput: ReturnType<typeof validateGenerateMealInput>;
-    try {
-      sanitizedInput = validateGenerateMealInput(body as any);
-    } catch (error) {
-      if (error instanceof AiValidationError) {
-        return jsonError(400, 'invalid_request', error.message, requestId);
+    const { householdId, input: sanitizedInput } = body;
+
+    // With a householdId, the members' dietary profiles constrain the recipe.
+    let profiles: MemberDietaryProfile[] = [];
+    if (householdId) {
+      const membership = await db
+        .select({ id: household_members.id })
+        .from(household_members)
+        .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)))
+        .limit(1);
+      if (membership.length === 0) {
+        throw new ApiError(403, 'forbidden', 'You are not a member of this household.');
       }
-      throw error;
+      profiles = await loadHouseholdDietaryProfiles(db, householdId);
     }
+    const restrictions = profiles.length > 0 ? mergeDietaryProfiles(profiles) : undefined;
 
     await consumeAiCredits(db, userId, 'ai_generate_meal');
     await consumeAiUsage(db, userId, 'ai_generate_meal');
 
-    const generated = await generateMeal(sanitizedInput);
+    const generated = await generateMeal({ ...sanitizedInput, restrictions });
+    // The model is told the constraints, but its output is still checked.
+    const dietaryWarnings = getMealDietaryWarnings(generated.ingredients, profiles);
 
-    const res = NextResponse.json({ meal: generated }, { status: 200 });
-    res.headers.set('x-request-id', requestId);
+    const res = NextResponse.json({ meal: generated, dietaryWarnings }, { status: 200 });
     res.headers.set('cache-control', 'no-store');
     return res;
-  } catch (error) {
-    if (error instanceof AiTimeoutError) {
-      return jsonError(504, 'ai_timeout', 'AI provider timed out. Please try again.', requestId);
-    }
-
-    if (error instanceof AiProviderError) {
-      return jsonError(502, 'ai_provider_error', 'AI provider error. Please try again.', requestId);
-    }
-
-    if (error instanceof AiValidationError) {
-      return jsonError(502, 'invalid_ai_response', error.message, requestId);
-    }
-
-    if (error instanceof AiConfigError) {
-      console.error('[AI_GENERATE_MEAL_CONFIG]', { requestId, error });
-      return jsonError(500, 'server_misconfigured', 'AI provider is not configured.', requestId);
-    }
-
-    if (error instanceof SubscriptionRequiredError) {
-      return jsonError(
-        error.status,
-        error.code,
-        'Upgrade to Pro to generate meals with AI.',
-        requestId,
-        { feature: error.feature },
-      );
-    }
-
-    if (error instanceof AiUsageLimitError) {
-      const retryAfterSeconds = Math.max(
-        1,
-        Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000),
-      );
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          feature: error.feature,
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    if (error instanceof AiCreditsLimitError) {
-      const retryAfterSeconds = Math.max(
-        1,
-        Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000),
-      );
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI credits limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    console.error('[AI_GENERATE_MEAL]', { requestId, error });
-    return jsonError(500, 'internal_error', 'Something went wrong generating your meal.', requestId);
-  }
-}
+  },
+);
@@ -1,21 +1,14 @@
 import { NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
 
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '@/db';
-import {
-  AiConfigError,
-  AiProviderError,
-  AiTimeoutError,
-  AiValidationError,
-} from '@/lib/ai/generateMeal';
-import { importMealFromVideo, validateImportVideoMealInput } from '@/lib/ai/importVideoMeal';
-import { requireProSubscriptionForAi, SubscriptionRequiredError } from '@/lib/ai/requireProSubscription';
-import { AiCreditsLimitError, AiUsageLimitError, consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { importVideoMealBody } from '@/lib/api/schemas/ai';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { AiValidationError } from '@/lib/ai/generateMeal';
+import { importMealFromVideo } from '@/lib/ai/importVideoMeal';
+import { requireProSubscriptionForAi } from '@/lib/ai/requireProSubscription';
+import { consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
 
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 6;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
 const DEBUG_IMPORT_VIDEO = process.env.AI_IMPORT_VIDEO_DEBUG === '1' || process.env.NODE_ENV !== 'production';
 
 function sanitizeUrlForLog(input: string): { url: string; queryKeys: string[] } {
@@ -28,72 +21,26 @@ function sanitizeUrlForLog(input: string): { url: string; queryKeys: string[] }
   }
 }
 
-function jsonError(
-  status: number,
-  error: string,
-  message: string,
-  requestId: string,
-  meta?: Record<string, unknown>,
-) {
-  const res = NextResponse.json({ error, message, requestId, ...meta }, { status });
-  res.headers.set('x-request-id', requestId);
-  res.headers.set('cache-control', 'no-store');
-  return res;
-}
-
-export async function POST(req: Request) {
-  const requestId = randomUUID();
-  let userIdForLog: string | null = null;
-  let urlForLog: ReturnType<typeof sanitizeUrlForLog> | null = null;
-
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return jsonError(401, 'unauthorized', 'You must be signed in to import a meal.', requestId);
-    }
-    userIdForLog = userId;
-
-    if (!db) {
-      return jsonError(500, 'server_misconfigured', 'Database is not configured.', requestId);
-    }
-
+export const POST = apiRoute(
+  {
+    tag: 'AI_IMPORT_VIDEO',
+    json: { maxBytes: 16_384 },
+    body: importVideoMealBody,
+    messages: {
+      unauthorized: 'You must be signed in to import a meal.',
+      subscription_required: 'Upgrade to Pro to import meals from videos.',
+      internal_error: 'Something went wrong importing your meal.',
+    },
+  },
+  async ({ req, db, userId, requestId, body: sanitizedInput }) => {
     await requireProSubscriptionForAi(db, userId, 'ai_import_video_meal');
 
-    const nowMs = Date.now();
-    const existing = rateLimitByUser.get(userId);
-    if (!existing || existing.resetAtMs <= nowMs) {
-      rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    } else if (existing.count >= RATE_LIMIT_MAX_REQUESTS) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-      const res = jsonError(
-        429,
-        'rate_limited',
-        `Too many requests. Try again in ${retryAfterSeconds}s.`,
-        requestId,
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    } else {
-      existing.count += 1;
-      rateLimitByUser.set(userId, existing);
+    const limit = await checkRateLimit(db, 'ai.importVideo', { userId, ip: getClientIp(req) });
+    if (!limit.allowed) {
+      throw rateLimitError(limit);
     }
 
-    const body = await req.json().catch(() => null);
-    if (!body || typeof body !== 'object') {
-      return jsonError(400, 'invalid_request', 'Invalid JSON body.', requestId);
-    }
-
-    let sanitizedInput: ReturnType<typeof validateImportVideoMealInput>;
-    try {
-      sanitizedInput = validateImportVideoMealInput(body as any);
-    } catch (error) {
-      if (error instanceof AiValidationError) {
-        return jsonError(400, 'invalid_request', error.message, requestId);
-      }
-      throw error;
-    }
-
-    urlForLog = sanitizeUrlForLog(sanitizedInput.url);
+    const urlForLog = sanitizeUrlForLog(sanitizedInput.url);
 
     if (DEBUG_IMPORT_VIDEO) {
       console.log(
@@ -105,28 +52,18 @@ export async function POST(req: Request) {
     await consumeAiCredits(db, userId, 'ai_import_video_meal');
     await consumeAiUsage(db, userId, 'ai_import_video_meal');
 
-    const result = await importMealFromVideo(sanitizedInput, { requestId });
-
-    const res = NextResponse.json({ recipes: result.recipes, meta: result.meta }, { status: 200 });
-    res.headers.set('x-request-id', requestId);
-    res.headers.set('cache-control', 'no-store');
-    return res;
-  } catch (error) {
-    if (error instanceof AiTimeoutError) {
-      return jsonError(504, 'ai_timeout', 'AI provider timed out. Please try again.', requestId);
-    }
-
-    if (error instanceof AiProviderError) {
-      return jsonError(502, 'ai_provider_error', 'AI provider error. Please try again.', requestId);
-    }
+    let result: Awaited<ReturnType<typeof importMealFromVideo>>;
+    try {
+      result = await importMealFromVideo(sanitizedInput, { requestId });
+    } catch (error) {
+      if (!(error instanceof AiValidationError)) throw error;
 
-    if (error instanceof AiValidationError) {
       // Validation errors here are typically URL issues or inaccessible videos.
       const trace = (error as any)?.aiImportVideoTrace;
       const reason = (error as any)?.aiImportVideoReason;
       const payload = {
         requestId,
-        userId: userIdForLog,
+        userId,
         url: urlForLog,
         message: error.message,
         trace: Array.isArray(trace) ? trace.slice(-40) : undefined,
@@ -138,58 +75,11 @@ export async function POST(req: Request) {
           ? 'We couldn’t find a recipe in that link.'
           : 'We couldn’t process that link right now. Please try again later.';
 
-      return jsonError(400, 'invalid_request', publicMessage, requestId);
-    }
-
-    if (error instanceof AiConfigError) {
-      console.error('[AI_IMPORT_VIDEO_CONFIG]', { requestId, error });
-      return jsonError(500, 'server_misconfigured', 'AI provider is not configured.', requestId);
+      throw new ApiError(400, 'invalid_request', publicMessage);
     }
 
-    if (error instanceof SubscriptionRequiredError) {
-      return jsonError(error.status, error.code, 'Upgrade to Pro to import meals from videos.', requestId, {
-        feature: error.feature,
-      });
-    }
-
-    if (error instanceof AiUsageLimitError) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000));
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          feature: error.feature,
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    if (error instanceof AiCreditsLimitError) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000));
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI credits limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    console.error('[AI_IMPORT_VIDEO]', { requestId, error });
-    return jsonError(500, 'internal_error', 'Something went wrong importing your meal.', requestId);
-  }
-}
+    const res = NextResponse.json({ recipes: result.recipes, meta: result.meta }, { status: 200 });
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  },
+);
@@ -1,34 +1,18 @@
 import { NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
-
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '@/db';
-import {
-  AiConfigError,
-  AiProviderError,
-  AiTimeoutError,
-  AiValidationError,
-} from '@/lib/ai/generateMeal';
+
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { AiValidationError } from '@/lib/ai/generateMeal';
 import { scanMealFromImage } from '@/lib/ai/scanMeal';
-import { requireProSubscriptionForAi, SubscriptionRequiredError } from '@/lib/ai/requireProSubscription';
-import { AiCreditsLimitError, AiUsageLimitError, consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
+import { requireProSubscriptionForAi } from '@/lib/ai/requireProSubscription';
+import { consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
 import { getImageSizeFromBytes } from '@/lib/imageSize';
 
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 6;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
-
 const MAX_IMAGE_BYTES = 6 * 1024 * 1024; // 6MB
 const ALLOWED_IMAGE_TYPES = new Set(['image/jpeg', 'image/jpg', 'image/png', 'image/webp']);
 type NormalizedBBox = { x: number; y: number; width: number; height: number };
 
-function jsonError(status: number, error: string, message: string, requestId: string, meta?: Record<string, unknown>) {
-  const res = NextResponse.json({ error, message, requestId, ...meta }, { status });
-  res.headers.set('x-request-id', requestId);
-  res.headers.set('cache-control', 'no-store');
-  return res;
-}
-
 function parseMaxIngredients(formData: FormData): number | undefined {
   const raw = formData.get('maxIngredients');
   if (typeof raw !== 'string') return undefined;
@@ -77,54 +61,44 @@ function parseFocusBbox(formData: FormData): NormalizedBBox | undefined {
   return { x: clampedX, y: clampedY, width: clampedWidth, height: clampedHeight };
 }
 
-export async function POST(req: Request) {
-  const requestId = randomUUID();
-
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return jsonError(401, 'unauthorized', 'You must be signed in to scan a meal.', requestId);
-    }
-
-    if (!db) {
-      return jsonError(500, 'server_misconfigured', 'Database is not configured.', requestId);
-    }
-
+// Takes multipart form data (the photo plus optional fields), so the body is read here rather
+// than by apiRoute.
+export const POST = apiRoute(
+  {
+    tag: 'AI_SCAN_MEAL',
+    messages: {
+      unauthorized: 'You must be signed in to scan a meal.',
+      subscription_required: 'Upgrade to Pro to scan meals with AI.',
+      internal_error: 'Something went wrong scanning your meal.',
+    },
+  },
+  async ({ req, db, userId }) => {
     await requireProSubscriptionForAi(db, userId, 'ai_scan_meal');
 
-    const nowMs = Date.now();
-    const existing = rateLimitByUser.get(userId);
-    if (!existing || existing.resetAtMs <= nowMs) {
-      rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    } else if (existing.count >= RATE_LIMIT_MAX_REQUESTS) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-      const res = jsonError(429, 'rate_limited', `Too many requests. Try again in ${retryAfterSeconds}s.`, requestId);
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    } else {
-      existing.count += 1;
-      rateLimitByUser.set(userId, existing);
+    const limit = await checkRateLimit(db, 'ai.scanMeal', { userId, ip: getClientIp(req) });
+    if (!limit.allowed) {
+      throw rateLimitError(limit);
     }
 
     const formData = await req.formData().catch(() => null);
     if (!formData) {
-      return jsonError(400, 'invalid_request', 'Expected multipart form data.', requestId);
+      throw new ApiError(400, 'invalid_request', 'Expected multipart form data.');
     }
 
     const image = formData.get('image');
     if (!image || typeof image !== 'object' || typeof (image as any).arrayBuffer !== 'function') {
-      return jsonError(400, 'invalid_request', 'Missing required field: image.', requestId);
+      throw new ApiError(400, 'invalid_request', 'Missing required field: image.');
     }
 
     const file = image as File;
     if (typeof file.size === 'number' && file.size > MAX_IMAGE_BYTES) {
-      return jsonError(413, 'payload_too_large', 'Image is too large. Please try a smaller photo.', requestId);
+      throw new ApiError(413, 'payload_too_large', 'Image is too large. Please try a smaller photo.');
     }
 
     const mimeType = typeof file.type === 'string' ? file.type.trim().toLowerCase() : '';
     const normalizedType = mimeType === 'image/jpg' ? 'image/jpeg' : mimeType;
     if (!normalizedType || !ALLOWED_IMAGE_TYPES.has(normalizedType)) {
-      return jsonError(415, 'unsupported_media_type', 'Unsupported image type. Use JPG or PNG.', requestId);
+      throw new ApiError(415, 'unsupported_media_type', 'Unsupported image type. Use JPG or PNG.');
     }
 
     const maxIngredients = parseMaxIngredients(formData);
@@ -145,6 +119,11 @@ export async function POST(req: Request) {
       imageSize: imageSize ?? undefined,
       note,
       focusBbox,
+    }).catch((error: unknown) => {
+      if (error instanceof AiValidationError && (error as any)?.aiScanReason === 'not_food') {
+        throw new ApiError(422, 'not_food', 'We couldn’t find food in that photo. Try scanning a meal or recipe.');
+      }
+      throw error;
     });
 
     const res = NextResponse.json(
@@ -161,78 +140,7 @@ export async function POST(req: Request) {
       },
       { status: 200 },
     );
-    res.headers.set('x-request-id', requestId);
     res.headers.set('cache-control', 'no-store');
     return res;
-  } catch (error) {
-    if (error instanceof AiTimeoutError) {
-      return jsonError(504, 'ai_timeout', 'AI provider timed out. Please try again.', requestId);
-    }
-
-    if (error instanceof AiProviderError) {
-      console.error('[AI_SCAN_MEAL_PROVIDER]', { requestId, message: error.message });
-      return jsonError(502, 'ai_provider_error', 'AI provider error. Please try again.', requestId);
-    }
-
-    if (error instanceof AiValidationError) {
-      const reason = (error as any)?.aiScanReason;
-      if (reason === 'not_food') {
-        return jsonError(422, 'not_food', 'We couldn’t find food in that photo. Try scanning a meal or recipe.', requestId);
-      }
-
-      console.error('[AI_SCAN_MEAL_VALIDATION]', { requestId, message: error.message });
-      return jsonError(502, 'invalid_ai_response', error.message, requestId);
-    }
-
-    if (error instanceof AiConfigError) {
-      console.error('[AI_SCAN_MEAL_CONFIG]', { requestId, error });
-      return jsonError(500, 'server_misconfigured', 'AI provider is not configured.', requestId);
-    }
-
-    if (error instanceof SubscriptionRequiredError) {
-      return jsonError(error.status, error.code, 'Upgrade to Pro to scan meals with AI.', requestId, {
-        feature: error.feature,
-      });
-    }
-
-    if (error instanceof AiUsageLimitError) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000));
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          feature: error.feature,
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    if (error instanceof AiCreditsLimitError) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((error.period.endsAt.getTime() - Date.now()) / 1000));
-      const res = jsonError(
-        error.status,
-        error.code,
-        `Monthly AI credits limit reached. Try again after ${error.period.endsAt.toISOString()}.`,
-        requestId,
-        {
-          period: error.period.key,
-          limit: error.limit,
-          used: error.used,
-          resetsAt: error.period.endsAt.toISOString(),
-        },
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    }
-
-    console.error('[AI_SCAN_MEAL]', { requestId, error });
-    return jsonError(500, 'internal_error', 'Something went wrong scanning your meal.', requestId);
-  }
-}
+  },
+);
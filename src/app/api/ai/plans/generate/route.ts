@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { and, eq, gte, lte } from 'drizzle-orm';
+
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { generatePlanBody } from '@/lib/api/schemas/ai';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { getPlansSelect } from '@/db/compat';
+import { household_members, meals, plans, users } from '@/db/schema';
+import {
+  generatePlan,
+  listOpenPlanCells,
+  preferencesFromOnboardingProfile,
+} from '@/lib/ai/generatePlan';
+import { requireProSubscriptionForAi } from '@/lib/ai/requireProSubscription';
+import { consumeAiCredits, consumeAiUsage } from '@/lib/ai/aiUsage';
+
+const MAX_BODY_BYTES = 16_384;
+
+/**
+ * Proposes meals from the household's library for the open slots in a date range.
+ * Nothing is written to `plans`; the client accepts a proposal through POST /api/plans/batch
+ * with an `add` operation.
+ */
+export const POST = apiRoute(
+  {
+    tag: 'AI_GENERATE_PLAN',
+    json: { maxBytes: MAX_BODY_BYTES },
+    body: generatePlanBody,
+    messages: {
+      unauthorized: 'You must be signed in to generate a meal plan.',
+      subscription_required: 'Upgrade to Pro to generate meal plans with AI.',
+      internal_error: 'Something went wrong generating your meal plan.',
+    },
+  },
+  async ({ req, db, userId, body }) => {
+    await requireProSubscriptionForAi(db, userId, 'ai_generate_plan');
+
+    const limit = await checkRateLimit(db, 'ai.generatePlan', { userId, ip: getClientIp(req) });
+    if (!limit.allowed) {
+      throw rateLimitError(limit);
+    }
+
+    const { householdId, range, slots, notes } = body;
+
+    const membership = await db
+      .select()
+      .from(household_members)
+      .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+    if (membership.length === 0) {
+      throw new ApiError(403, 'forbidden', 'You are not a member of this household.');
+    }
+
+    const library = await db
+      .select({ id: meals.id, name: meals.name, cuisine: meals.cuisine, ingredients: meals.ingredients })
+      .from(meals)
+      .where(eq(meals.householdId, householdId));
+    if (library.length === 0) {
+      throw new ApiError(400, 'empty_library', 'Add some meals to your household before generating a plan.');
+    }
+
+    const plansSelect = await getPlansSelect(db);
+    const alreadyPlanned = await db
+      .select({ date: plans.date, slot: plansSelect.slot })
+      .from(plans)
+      .where(and(eq(plans.householdId, householdId), gte(plans.date, range.startDate), lte(plans.date, range.endDate)));
+
+    // Nothing left to fill: answer without spending credits.
+    if (listOpenPlanCells({ ...range, slots, alreadyPlanned }).length === 0) {
+      const res = NextResponse.json({ ...range, slots, proposal: [], unfilled: [] }, { status: 200 });
+      res.headers.set('cache-control', 'no-store');
+      return res;
+    }
+
+    const [user] = await db
+      .select({ onboardingProfile: users.onboardingProfile })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    await consumeAiCredits(db, userId, 'ai_generate_plan');
+    await consumeAiUsage(db, userId, 'ai_generate_plan');
+
+    const generated = await generatePlan({
+      ...range,
+      slots,
+      library,
+      alreadyPlanned,
+      preferences: preferencesFromOnboardingProfile(user?.onboardingProfile),
+      notes,
+    });
+
+    const res = NextResponse.json({ ...range, slots, ...generated }, { status: 200 });
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  },
+);
@@ -1,41 +1,21 @@
 import { NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
 import { eq } from 'drizzle-orm';
 
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '@/db';
+import { apiRoute } from '@/lib/api/apiRoute';
 import { subscriptions, users } from '@/db/schema';
 import { getAiCreditCost, getAiCreditsForPeriod, getAiUsageForPeriod, getAiUsagePeriodForSubscription } from '@/lib/ai/aiUsage';
 
-function jsonError(status: number, error: string, message: string, requestId: string) {
-  const res = NextResponse.json({ error, message, requestId }, { status });
-  res.headers.set('x-request-id', requestId);
-  res.headers.set('cache-control', 'no-store');
-  return res;
-}
-
-export async function GET(req: Request) {
-  const requestId = randomUUID();
-
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return jsonError(401, 'unauthorized', 'You must be signed in.', requestId);
-    }
-
-    if (!db) {
-      return jsonError(500, 'server_misconfigured', 'Database is not configured.', requestId);
-    }
-    const database = db;
-
+export const GET = apiRoute(
+  { tag: 'AI_USAGE_GET', messages: { internal_error: 'Something went wrong fetching usage.' } },
+  async ({ db, userId }) => {
     const [userRow, subscription] = await Promise.all([
-      database
+      db
         .select({ proOverride: users.proOverride })
         .from(users)
         .where(eq(users.id, userId))
         .limit(1)
         .then((rows) => rows[0] ?? null),
-      database
+      db
         .select()
         .from(subscriptions)
         .where(eq(subscriptions.userId, userId))
@@ -54,8 +34,8 @@ export async function GET(req: Request) {
       isActive ? (!hasProOverride && subscriptionIsActive && subscription?.isTrial ? 'trial' : 'pro') : 'free';
     const period = getAiUsagePeriodForSubscription({ subscription, now });
 
-    const features = await getAiUsageForPeriod(database, userId, period, { tier });
-    const credits = await getAiCreditsForPeriod(database, userId, period, { tier });
+    const features = await getAiUsageForPeriod(db, userId, period, { tier });
+    const credits = await getAiCreditsForPeriod(db, userId, period, { tier });
 
     const res = NextResponse.json(
       {
@@ -71,16 +51,13 @@ export async function GET(req: Request) {
           ai_generate_meal: getAiCreditCost('ai_generate_meal'),
           ai_scan_meal: getAiCreditCost('ai_scan_meal'),
           ai_import_video_meal: getAiCreditCost('ai_import_video_meal'),
+          ai_generate_plan: getAiCreditCost('ai_generate_plan'),
         },
         features,
       },
       { status: 200 },
     );
-    res.headers.set('x-request-id', requestId);
     res.headers.set('cache-control', 'no-store');
     return res;
-  } catch (error) {
-    console.error('[AI_USAGE_GET]', { requestId, error });
-    return jsonError(500, 'internal_error', 'Something went wrong fetching usage.', requestId);
-  }
-}
+  },
+);
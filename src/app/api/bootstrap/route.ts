@@ -1,213 +1,231 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { getMealsSelect, hasUsersHasHadTrialColumn } from '@/db/compat';
-import { db } from '../../../db';
-import { globalMeals, households, household_members, meals, plans, subscriptions, users } from '../../../db/schema';
-import { eq, inArray, sql } from 'drizzle-orm';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { bootstrapQuery } from '@/lib/api/schemas/users';
+import { listGlobalMeals } from '@/lib/globalMeals/catalog';
+import { getInviteStatus } from '@/lib/households/invites';
+import { getVerifiedEmails } from '@/lib/requestAuth';
+import { getInvitesSelect, getMealsSelect, getPlansSelect, hasInviteEmailColumns, hasUsersHasHadTrialColumn } from '@/db/compat';
+import { households, household_members, invites, meals, plans, subscriptions, users } from '../../../db/schema';
+import { desc, eq, inArray, sql } from 'drizzle-orm';
 
 export const dynamic = 'force-dynamic';
 
-function parseBoolean(value: string | null): boolean {
-  if (!value) return false;
-  const normalized = value.trim().toLowerCase();
-  return normalized === '1' || normalized === 'true' || normalized === 'yes';
-}
-
-export async function GET(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse('Unauthorized', { status: 401 });
-    }
-
-    if (!db) {
-      return new NextResponse('Database not configured', { status: 500 });
-    }
-    const database = db;
-
-    const { searchParams } = new URL(req.url);
-    const includeGlobalMeals = parseBoolean(searchParams.get('includeGlobalMeals'));
-
-    // Resolve household ids once and reuse across payload sections.
-    //
-    // IMPORTANT: only households the user is currently a member of should be returned.
-    // Using an owner_id fallback causes a "left" household to reappear for the former owner,
-    // which breaks the leave-group UX (especially for 1-member groups).
-    const idResult = await database.execute(sql`
-      SELECT household_id AS id
-      FROM household_members
-      WHERE user_id = ${userId}
-    `);
-    const householdIds = Array.from(
-      new Set(
-        (idResult.rows ?? [])
-          .map((row) => (row as { id?: unknown }).id)
-          .filter((id): id is string => typeof id === 'string' && id.length > 0),
-      ),
-    );
-
-    const hasHadTrialColumn = await hasUsersHasHadTrialColumn(database);
-    const userRowPromise = hasHadTrialColumn
-      ? database.select().from(users).where(eq(users.id, userId)).limit(1)
-      : database
-          .select({
-            id: users.id,
-            name: users.name,
-            email: users.email,
-            avatar: users.avatar,
-            proOverride: users.proOverride,
-            onboardingProfile: users.onboardingProfile,
-            createdAt: users.createdAt,
-          })
-          .from(users)
-          .where(eq(users.id, userId))
-          .limit(1);
-    const subscriptionPromise = database.select().from(subscriptions).where(eq(subscriptions.userId, userId)).limit(1);
-
-    const householdsPromise = householdIds.length
-      ? database.select().from(households).where(inArray(households.id, householdIds))
-      : Promise.resolve([]);
-
-    const plansPromise = householdIds.length
-      ? database.select().from(plans).where(inArray(plans.householdId, householdIds))
-      : Promise.resolve([]);
-
-    const membersPromise = householdIds.length
-      ? database
-          .select({
-            householdId: household_members.householdId,
-            user: users,
-            role: household_members.role,
-          })
-          .from(household_members)
-          .innerJoin(users, eq(household_members.userId, users.id))
-          .where(inArray(household_members.householdId, householdIds))
-      : Promise.resolve([]);
-
-    const mealsSelect = await getMealsSelect(database);
-    const mealsPromise = householdIds.length
-      ? database.select(mealsSelect).from(meals).where(inArray(meals.householdId, householdIds))
-      : Promise.resolve([]);
-
-    const globalMealsPromise = includeGlobalMeals ? database.select().from(globalMeals) : Promise.resolve(null);
-
-    const [userRows, subscriptionRows, householdRows, planRows, memberRows, mealRows, globalMealRows] =
-      await Promise.all([
-        userRowPromise,
-        subscriptionPromise,
-        householdsPromise,
-        plansPromise,
-        membersPromise,
-        mealsPromise,
-        globalMealsPromise,
-      ]);
-
-    const plansByHouseholdId = new Map<string, typeof planRows>();
-    for (const plan of planRows) {
-      const list = plansByHouseholdId.get(plan.householdId) ?? [];
-      list.push({ ...plan, isCompleted: plan.isCompleted ?? false });
-      plansByHouseholdId.set(plan.householdId, list);
-    }
-
-    const membersByHouseholdId = new Map<
-      string,
-      Array<{ id: string; name: string; email: string; avatarUrl: string | null; role: string }>
-    >();
-    for (const row of memberRows) {
-      const list = membersByHouseholdId.get(row.householdId) ?? [];
-      list.push({
-        id: row.user.id,
-        name: row.user.name,
-        email: row.user.email,
-        avatarUrl: row.user.avatar,
-        role: row.role,
-      });
-      membersByHouseholdId.set(row.householdId, list);
-    }
-
-    const householdsWithDetails = householdRows.map((h) => {
-      const householdPlans = plansByHouseholdId.get(h.id) ?? [];
-      const members = membersByHouseholdId.get(h.id) ?? [];
-      return {
-        ...h,
-        memberIds: members.map((m) => m.id),
-        plannedMeals: householdPlans.map((p) => ({ ...p, createdAt: p.createdAt })),
-        members,
-      };
-    });
-
-    const formattedMeals = mealRows.map((m) => ({
-      ...m,
-      ingredients: m.ingredients,
-      instructions: m.instructions,
-    }));
-
-    const formattedGlobalMeals = (globalMealRows ?? []).map((m) => ({
-      ...m,
-      ingredients: m.ingredients,
-      instructions: m.instructions,
-      isPredefined: true,
-    }));
-
-    const user = userRows[0] ?? null;
-    const subscription = subscriptionRows[0] ?? null;
-    const hasProOverride = Boolean(user?.proOverride);
-    const now = new Date();
-
-    // Best-effort activity signal for notification "miss you" nudges.
-    // Keep this optional so older DBs (without notification tables) don't break bootstrap.
+export const GET = apiRoute({ tag: 'BOOTSTRAP_GET', query: bootstrapQuery }, async ({ db, userId, query }) => {
+  const { includeGlobalMeals } = query;
+
+  // Resolve household ids once and reuse across payload sections.
+  //
+  // IMPORTANT: only households the user is currently a member of should be returned.
+  // Using an owner_id fallback causes a "left" household to reappear for the former owner,
+  // which breaks the leave-group UX (especially for 1-member groups).
+  const idResult = await db.execute(sql`
+    SELECT household_id AS id
+    FROM household_members
+    WHERE user_id = ${userId}
+  `);
+  const householdIds = Array.from(
+    new Set(
+      (idResult.rows ?? [])
+        .map((row) => (row as { id?: unknown }).id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0),
+    ),
+  );
+
+  const hasHadTrialColumn = await hasUsersHasHadTrialColumn(db);
+  const userRowPromise = hasHadTrialColumn
+    ? db.select().from(users).where(eq(users.id, userId)).limit(1)
+    : db
+        .select({
+          id: users.id,
+          name: users.name,
+          email: users.email,
+          avatar: users.avatar,
+          proOverride: users.proOverride,
+          onboardingProfile: users.onboardingProfile,
+          createdAt: users.createdAt,
+        })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+  const subscriptionPromise = db.select().from(subscriptions).where(eq(subscriptions.userId, userId)).limit(1);
+
+  const householdsPromise = householdIds.length
+    ? db.select().from(households).where(inArray(households.id, householdIds))
+    : Promise.resolve([]);
+
+  const plansSelect = await getPlansSelect(db);
+  const plansPromise = householdIds.length
+    ? db.select(plansSelect).from(plans).where(inArray(plans.householdId, householdIds))
+    : Promise.resolve([]);
+
+  const membersPromise = householdIds.length
+    ? db
+        .select({
+          householdId: household_members.householdId,
+          user: users,
+          role: household_members.role,
+        })
+        .from(household_members)
+        .innerJoin(users, eq(household_members.userId, users.id))
+        .where(inArray(household_members.householdId, householdIds))
+    : Promise.resolve([]);
+
+  const mealsSelect = await getMealsSelect(db);
+  const mealsPromise = householdIds.length
+    ? db.select(mealsSelect).from(meals).where(inArray(meals.householdId, householdIds))
+    : Promise.resolve([]);
+
+  const globalMealsPromise = includeGlobalMeals ? listGlobalMeals(db, { includeRetired: false }) : Promise.resolve(null);
+
+  const [userRows, subscriptionRows, householdRows, planRows, memberRows, mealRows, globalMealRows] =
+    await Promise.all([
+      userRowPromise,
+      subscriptionPromise,
+      householdsPromise,
+      plansPromise,
+      membersPromise,
+      mealsPromise,
+      globalMealsPromise,
+    ]);
+
+  const user = userRows[0] ?? null;
+  const now = new Date();
+
+  // Email invites addressed to one of this user's verified emails that they can still accept or
+  // decline. A Clerk outage only hides them; the rest of the payload doesn't depend on it.
+  let verifiedEmails: string[] = [];
+  if (await hasInviteEmailColumns(db)) {
     try {
-      await database.execute(sql`
-        UPDATE notification_settings
-        SET last_seen_at = ${now}, updated_at = ${now}
-        WHERE user_id = ${userId}
-      `);
-    } catch {
-      // ignore
+      verifiedEmails = await getVerifiedEmails(userId);
+    } catch (error) {
+      console.error('[BOOTSTRAP_GET] verified email lookup failed', error);
     }
+  }
+  const pendingInvitations =
+    verifiedEmails.length > 0
+      ? (
+          await db
+            .select({ ...(await getInvitesSelect(db)), householdName: households.name, invitedByName: users.name })
+            .from(invites)
+            .innerJoin(households, eq(households.id, invites.householdId))
+            .leftJoin(users, eq(users.id, invites.createdBy))
+            .where(inArray(invites.email, verifiedEmails))
+            .orderBy(desc(invites.createdAt))
+        )
+          .filter((row) => getInviteStatus(row, now) === 'active' && !householdIds.includes(row.householdId))
+          .map((row) => ({
+            id: row.id,
+            householdId: row.householdId,
+            householdName: row.householdName,
+            invitedBy: row.createdBy,
+            invitedByName: row.invitedByName,
+            role: row.role,
+            expiresAt: row.expiresAt,
+            createdAt: row.createdAt,
+          }))
+      : [];
+
+  const plansByHouseholdId = new Map<string, typeof planRows>();
+  for (const plan of planRows) {
+    const list = plansByHouseholdId.get(plan.householdId) ?? [];
+    list.push({ ...plan, isCompleted: plan.isCompleted ?? false });
+    plansByHouseholdId.set(plan.householdId, list);
+  }
 
-    const subscriptionExpiresAt = subscription?.expiresAt instanceof Date ? subscription.expiresAt : null;
-    const subscriptionIsActive =
-      Boolean(subscription?.isActive) && Boolean(subscriptionExpiresAt && subscriptionExpiresAt > now);
+  const membersByHouseholdId = new Map<
+    string,
+    Array<{ id: string; name: string; email: string; avatarUrl: string | null; role: string }>
+  >();
+  for (const row of memberRows) {
+    const list = membersByHouseholdId.get(row.householdId) ?? [];
+    list.push({
+      id: row.user.id,
+      name: row.user.name,
+      email: row.user.email,
+      avatarUrl: row.user.avatar,
+      role: row.role,
+    });
+    membersByHouseholdId.set(row.householdId, list);
+  }
 
-    const effectiveIsActive = hasProOverride || subscriptionIsActive;
-    const effectiveIsTrial = !hasProOverride && subscriptionIsActive && Boolean(subscription?.isTrial);
-    const effectiveExpiresAt =
-      subscriptionIsActive ? subscriptionExpiresAt : hasProOverride ? null : subscriptionExpiresAt;
+  const householdsWithDetails = householdRows.map((h) => {
+    const householdPlans = plansByHouseholdId.get(h.id) ?? [];
+    const members = membersByHouseholdId.get(h.id) ?? [];
+    return {
+      ...h,
+      memberIds: members.map((m) => m.id),
+      plannedMeals: householdPlans.map((p) => ({ ...p, createdAt: p.createdAt })),
+      members,
+    };
+  });
+
+  const formattedMeals = mealRows.map((m) => ({
+    ...m,
+    ingredients: m.ingredients,
+    instructions: m.instructions,
+  }));
+
+  const formattedGlobalMeals = (globalMealRows ?? []).map((m) => ({
+    ...m,
+    ingredients: m.ingredients,
+    instructions: m.instructions,
+    isPredefined: true,
+  }));
+
+  const subscription = subscriptionRows[0] ?? null;
+  const hasProOverride = Boolean(user?.proOverride);
+
+  // Best-effort activity signal for notification "miss you" nudges.
+  // Keep this optional so older DBs (without notification tables) don't break bootstrap.
+  try {
+    await db.execute(sql`
+      UPDATE notification_settings
+      SET last_seen_at = ${now}, updated_at = ${now}
+      WHERE user_id = ${userId}
+    `);
+  } catch {
+    // ignore
+  }
 
-    const res = NextResponse.json({
-      user,
-      subscription: subscription
+  const subscriptionExpiresAt = subscription?.expiresAt instanceof Date ? subscription.expiresAt : null;
+  const subscriptionIsActive =
+    Boolean(subscription?.isActive) && Boolean(subscriptionExpiresAt && subscriptionExpiresAt > now);
+
+  const effectiveIsActive = hasProOverride || subscriptionIsActive;
+  const effectiveIsTrial = !hasProOverride && subscriptionIsActive && Boolean(subscription?.isTrial);
+  const effectiveExpiresAt =
+    subscriptionIsActive ? subscriptionExpiresAt : hasProOverride ? null : subscriptionExpiresAt;
+
+  const res = NextResponse.json({
+    user,
+    subscription: subscription
+      ? {
+          productId: subscription.productId,
+          currentPeriodStart: subscription.currentPeriodStart,
+          expiresAt: effectiveExpiresAt,
+          isTrial: effectiveIsTrial,
+          isActive: effectiveIsActive,
+          autoRenewStatus: Boolean(subscription.autoRenewStatus),
+          updatedAt: subscription.updatedAt,
+          proOverride: hasProOverride,
+        }
+      : hasProOverride
         ? {
-            productId: subscription.productId,
-            currentPeriodStart: subscription.currentPeriodStart,
-            expiresAt: effectiveExpiresAt,
-            isTrial: effectiveIsTrial,
-            isActive: effectiveIsActive,
-            autoRenewStatus: Boolean(subscription.autoRenewStatus),
-            updatedAt: subscription.updatedAt,
-            proOverride: hasProOverride,
+            productId: 'pro_override',
+            currentPeriodStart: null,
+            expiresAt: null,
+            isTrial: false,
+            isActive: true,
+            autoRenewStatus: false,
+            updatedAt: new Date(),
+            proOverride: true,
           }
-        : hasProOverride
-          ? {
-              productId: 'pro_override',
-              currentPeriodStart: null,
-              expiresAt: null,
-              isTrial: false,
-              isActive: true,
-              autoRenewStatus: false,
-              updatedAt: new Date(),
-              proOverride: true,
-            }
-          : null,
-      households: householdsWithDetails,
-      meals: formattedMeals,
-      globalMeals: includeGlobalMeals ? formattedGlobalMeals : undefined,
-    });
-    res.headers.set('cache-control', 'no-store');
-    return res;
-  } catch (error) {
-    console.error('[BOOTSTRAP_GET]', error);
-    return new NextResponse('Internal Error', { status: 500 });
-  }
-}
+        : null,
+    households: householdsWithDetails,
+    meals: formattedMeals,
+    globalMeals: includeGlobalMeals ? formattedGlobalMeals : undefined,
+    pendingInvitations,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { activityQuery } from '@/lib/api/schemas/households';
+import {
+  describeActivity,
+  toActivityPage,
+} from '@/lib/activity/activityLog';
+import { hasHouseholdActivityTable } from '@/db/compat';
+import { household_members, householdActivity, users } from '../../../../../db/schema';
+import { and, desc, eq, inArray, lt, or } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Household activity feed, newest first. Paginate with `?cursor=` from the previous page's
+ * `nextCursor`; filter with `?type=meal` or `?type=meal.deleted` (repeatable).
+ */
+export const GET = apiRoute({ tag: 'HOUSEHOLD_ACTIVITY_GET', query: activityQuery }, async ({ db, userId, params, query }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const userMembership = await db
+    .select({ id: household_members.id })
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)))
+    .limit(1);
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  if (!(await hasHouseholdActivityTable(db))) {
+    const res = NextResponse.json({ items: [], nextCursor: null });
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  }
+
+  const { cursor, limit, type: types } = query;
+  const rows = await db
+    .select({
+      id: householdActivity.id,
+      type: householdActivity.type,
+      actorId: householdActivity.actorId,
+      actorName: users.name,
+      entityId: householdActivity.entityId,
+      metadata: householdActivity.metadata,
+      createdAt: householdActivity.createdAt,
+    })
+    .from(householdActivity)
+    .leftJoin(users, eq(users.id, householdActivity.actorId))
+    .where(
+      and(
+        eq(householdActivity.householdId, householdId),
+        types ? inArray(householdActivity.type, types) : undefined,
+        cursor
+          ? or(
+              lt(householdActivity.createdAt, cursor.createdAt),
+              and(eq(householdActivity.createdAt, cursor.createdAt), lt(householdActivity.id, cursor.id)),
+            )
+          : undefined,
+      ),
+    )
+    .orderBy(desc(householdActivity.createdAt), desc(householdActivity.id))
+    .limit(limit + 1);
+
+  const page = toActivityPage(rows, limit);
+  const res = NextResponse.json({
+    items: page.items.map((row) => ({ ...row, summary: describeActivity(row) })),
+    nextCursor: page.nextCursor,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
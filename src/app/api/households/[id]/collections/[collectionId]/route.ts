@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updateCollectionBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { MAX_MEALS_PER_COLLECTION } from '@/lib/meals/collections';
+import { mealCollectionItems, mealCollections, meals } from '../../../../../../db/schema';
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Renames a collection, edits its description, or adds/removes meals (`addMealIds`, `removeMealIds`).
+ */
+export const PATCH = apiRoute({ tag: 'COLLECTION_PATCH', json: { maxBytes: 20_000 }, body: updateCollectionBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw, collectionId: collectionIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const collectionId = validateUuid(collectionIdRaw);
+  if (!householdId || !collectionId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  if (Object.keys(fields).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'library.organize')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('library.organize'));
+  }
+
+  const [existing] = await db
+    .select({ id: mealCollections.id })
+    .from(mealCollections)
+    .where(and(eq(mealCollections.id, collectionId), eq(mealCollections.householdId, householdId)))
+    .limit(1);
+  if (!existing) {
+    throw new ApiError(404, 'not_found', 'Collection not found');
+  }
+
+  if (fields.name) {
+    const duplicate = await db
+      .select({ id: mealCollections.id })
+      .from(mealCollections)
+      .where(
+        and(
+          eq(mealCollections.householdId, householdId),
+          sql`lower(${mealCollections.name}) = lower(${fields.name})`,
+          ne(mealCollections.id, collectionId),
+        ),
+      )
+      .limit(1);
+    if (duplicate.length > 0) {
+      throw new ApiError(409, 'conflict', 'A collection with this name already exists');
+    }
+  }
+
+  const removeMealIds = fields.removeMealIds ?? [];
+  const addMealIds = (fields.addMealIds ?? []).filter((mealId) => !removeMealIds.includes(mealId));
+
+  if (addMealIds.length > 0) {
+    const ownedMeals = await db
+      .select({ id: meals.id })
+      .from(meals)
+      .where(and(eq(meals.householdId, householdId), inArray(meals.id, addMealIds)));
+    if (ownedMeals.length !== addMealIds.length) {
+      throw new ApiError(400, 'invalid_request', 'One or more meals were not found in this household');
+    }
+
+    const current = await db
+      .select({ mealId: mealCollectionItems.mealId })
+      .from(mealCollectionItems)
+      .where(eq(mealCollectionItems.collectionId, collectionId));
+    const resulting = new Set(current.map((item) => item.mealId));
+    for (const mealId of removeMealIds) resulting.delete(mealId);
+    for (const mealId of addMealIds) resulting.add(mealId);
+    if (resulting.size > MAX_MEALS_PER_COLLECTION) {
+      throw new ApiError(400, 'invalid_request', `Too many meals in collection (max ${MAX_MEALS_PER_COLLECTION})`);
+    }
+  }
+
+  const now = new Date();
+  const updateCollection = db
+    .update(mealCollections)
+    .set({
+      ...(fields.name !== undefined ? { name: fields.name } : {}),
+      ...(fields.description !== undefined ? { description: fields.description } : {}),
+      updatedAt: now,
+    })
+    .where(eq(mealCollections.id, collectionId))
+    .returning();
+  const itemQueries = [];
+  if (removeMealIds.length > 0) {
+    itemQueries.push(
+      db
+        .delete(mealCollectionItems)
+        .where(and(eq(mealCollectionItems.collectionId, collectionId), inArray(mealCollectionItems.mealId, removeMealIds))),
+    );
+  }
+  if (addMealIds.length > 0) {
+    itemQueries.push(
+      db
+        .insert(mealCollectionItems)
+        .values(addMealIds.map((mealId) => ({ id: uuidv4(), collectionId, mealId, addedAt: now })))
+        .onConflictDoNothing(),
+    );
+  }
+  const [[collection]] = await db.batch([updateCollection, ...itemQueries]);
+
+  const items = await db
+    .select({ mealId: mealCollectionItems.mealId })
+    .from(mealCollectionItems)
+    .where(eq(mealCollectionItems.collectionId, collectionId))
+    .orderBy(asc(mealCollectionItems.addedAt));
+  const mealIds = items.map((item) => item.mealId);
+
+  const res = NextResponse.json({ ...collection, mealIds, mealCount: mealIds.length });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Deletes a collection. Its meals stay in the household library.
+ */
+export const DELETE = apiRoute({ tag: 'COLLECTION_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw, collectionId: collectionIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const collectionId = validateUuid(collectionIdRaw);
+  if (!householdId || !collectionId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'library.organize')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('library.organize'));
+  }
+
+  const deleted = await db
+    .delete(mealCollections)
+    .where(and(eq(mealCollections.id, collectionId), eq(mealCollections.householdId, householdId)))
+    .returning({ id: mealCollections.id });
+
+  if (deleted.length === 0) {
+    throw new ApiError(404, 'not_found', 'Collection not found');
+  }
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
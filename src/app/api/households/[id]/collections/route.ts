@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createCollectionBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import {
+  MAX_COLLECTIONS_PER_HOUSEHOLD,
+  MAX_MEALS_PER_COLLECTION,
+} from '@/lib/meals/collections';
+import { household_members, mealCollectionItems, mealCollections, meals } from '../../../../../db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Lists the household's meal collections with the meal ids in each.
+ */
+export const GET = apiRoute({ tag: 'COLLECTIONS_GET' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const collections = await db
+    .select()
+    .from(mealCollections)
+    .where(eq(mealCollections.householdId, householdId))
+    .orderBy(asc(mealCollections.name));
+
+  const items =
+    collections.length > 0
+      ? await db
+          .select({ collectionId: mealCollectionItems.collectionId, mealId: mealCollectionItems.mealId })
+          .from(mealCollectionItems)
+          .where(
+            inArray(
+              mealCollectionItems.collectionId,
+              collections.map((collection) => collection.id),
+            ),
+          )
+          .orderBy(asc(mealCollectionItems.addedAt))
+      : [];
+
+  const mealIdsByCollection = new Map<string, string[]>();
+  for (const item of items) {
+    const list = mealIdsByCollection.get(item.collectionId) ?? [];
+    list.push(item.mealId);
+    mealIdsByCollection.set(item.collectionId, list);
+  }
+
+  const res = NextResponse.json(
+    collections.map((collection) => {
+      const mealIds = mealIdsByCollection.get(collection.id) ?? [];
+      return { ...collection, mealIds, mealCount: mealIds.length };
+    }),
+  );
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Creates a collection, optionally seeded with `mealIds` from the same household.
+ */
+export const POST = apiRoute({ tag: 'COLLECTIONS_POST', json: { maxBytes: 20_000 }, body: createCollectionBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const name = fields.name as string;
+  const mealIds = fields.addMealIds ?? [];
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'library.organize')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('library.organize'));
+  }
+
+  const existing = await db
+    .select({ id: mealCollections.id, name: mealCollections.name })
+    .from(mealCollections)
+    .where(eq(mealCollections.householdId, householdId));
+  if (existing.some((collection) => collection.name.toLowerCase() === name.toLowerCase())) {
+    throw new ApiError(409, 'conflict', 'A collection with this name already exists');
+  }
+  if (existing.length >= MAX_COLLECTIONS_PER_HOUSEHOLD) {
+    throw new ApiError(400, 'invalid_request', `Too many collections (max ${MAX_COLLECTIONS_PER_HOUSEHOLD})`);
+  }
+  if (mealIds.length > MAX_MEALS_PER_COLLECTION) {
+    throw new ApiError(400, 'invalid_request', `Too many meals in collection (max ${MAX_MEALS_PER_COLLECTION})`);
+  }
+
+  if (mealIds.length > 0) {
+    const ownedMeals = await db
+      .select({ id: meals.id })
+      .from(meals)
+      .where(and(eq(meals.householdId, householdId), inArray(meals.id, mealIds)));
+    if (ownedMeals.length !== mealIds.length) {
+      throw new ApiError(400, 'invalid_request', 'One or more meals were not found in this household');
+    }
+  }
+
+  const now = new Date();
+  const collectionId = uuidv4();
+  const insertCollection = db
+    .insert(mealCollections)
+    .values({
+      id: collectionId,
+      householdId,
+      name,
+      description: fields.description ?? null,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  let collection;
+  if (mealIds.length > 0) {
+    const insertItems = db
+      .insert(mealCollectionItems)
+      .values(mealIds.map((mealId) => ({ id: uuidv4(), collectionId, mealId, addedAt: now })));
+    [[collection]] = await db.batch([insertCollection, insertItems]);
+  } else {
+    [collection] = await insertCollection;
+  }
+
+  const res = NextResponse.json({ ...collection, mealIds, mealCount: mealIds.length });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
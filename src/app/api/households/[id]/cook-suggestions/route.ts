@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { cookSuggestionsBody } from '@/lib/api/schemas/households';
+import { listGlobalMeals } from '@/lib/globalMeals/catalog';
+import { MAX_ON_HAND_INGREDIENTS, rankMealsByCoverage, toOnHandSet, type MatchableMeal } from '@/lib/pantry/matchMeals';
+import { household_members, meals, pantryItems } from '../../../../../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * "Cook from what I have": ranks the household's meals and the global library by how many of
+ * their ingredients are on hand, listing what is missing for each.
+ * On-hand ingredients come from the body (`ingredients`), the pantry (`usePantry`), or both.
+ */
+export const POST = apiRoute({ tag: 'COOK_SUGGESTIONS_POST', json: { maxBytes: 20_000, optional: true }, body: cookSuggestionsBody }, async ({ db, userId, params, body }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const { usePantry, includeGlobal, maxMissing, limit } = body;
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const onHandNames: unknown[] = [...(body.ingredients ?? [])];
+  if (usePantry) {
+    const pantry = await db
+      .select({ name: pantryItems.name, quantity: pantryItems.quantity })
+      .from(pantryItems)
+      .where(eq(pantryItems.householdId, householdId));
+    // Items tracked at zero are used up; unmeasured items count as on hand.
+    onHandNames.push(...pantry.filter((item) => item.quantity == null || item.quantity > 0).map((item) => item.name));
+  }
+
+  const onHand = toOnHandSet(onHandNames);
+  if (onHand.size === 0) {
+    throw new ApiError(400, 'invalid_request', 'Provide ingredients or set usePantry');
+  }
+
+  const householdMeals = await db
+    .select({ id: meals.id, name: meals.name, ingredients: meals.ingredients, image: meals.image, cuisine: meals.cuisine })
+    .from(meals)
+    .where(eq(meals.householdId, householdId));
+  const candidates: MatchableMeal[] = householdMeals.map((meal) => ({ ...meal, source: 'household' }));
+
+  if (includeGlobal) {
+    const global = await listGlobalMeals(db, { includeRetired: false });
+    candidates.push(
+      ...global.map(
+        (meal): MatchableMeal => ({
+          id: meal.id,
+          name: meal.name,
+          ingredients: meal.ingredients,
+          image: meal.image,
+          cuisine: meal.cuisine,
+          source: 'global',
+        }),
+      ),
+    );
+  }
+
+  const suggestions = rankMealsByCoverage(candidates, onHand, {
+    maxMissing,
+    limit,
+  });
+
+  const res = NextResponse.json({
+    onHandCount: onHand.size,
+    onHandLimit: MAX_ON_HAND_INGREDIENTS,
+    suggestions,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
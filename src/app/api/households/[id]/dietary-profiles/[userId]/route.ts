@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { dietaryProfileBody } from '@/lib/api/schemas/households';
+import { toDietaryProfile } from '@/lib/dietary/restrictions';
+import { describeMissingPermission, hasHouseholdPermission, normalizeHouseholdRole } from '@/lib/households/roles';
+import type { db } from '../../../../../../db';
+import { household_members, memberDietaryProfiles } from '../../../../../../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateUuid } from '@/lib/validation';
+
+// Everyone manages their own profile; owners and admins can also set one up for anyone in the household.
+async function assertCanEditProfile(database: NonNullable<typeof db>, householdId: string, actorId: string, targetId: string) {
+  const memberships = await database
+    .select({ userId: household_members.userId, role: household_members.role })
+    .from(household_members)
+    .where(eq(household_members.householdId, householdId));
+  const actor = memberships.find((member) => member.userId === actorId);
+  if (!actor) throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  if (!memberships.some((member) => member.userId === targetId)) {
+    throw new ApiError(404, 'not_found', 'Member not found');
+  }
+  if (actorId !== targetId && !hasHouseholdPermission(normalizeHouseholdRole(actor.role), 'dietary.manageOthers')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('dietary.manageOthers'));
+  }
+}
+
+/**
+ * Replaces a member's dietary profile (`allergens`, `diets`, `avoidIngredients`).
+ */
+export const PUT = apiRoute({ tag: 'DIETARY_PROFILE_PUT', json: { maxBytes: 10_000 }, body: dietaryProfileBody }, async ({ db, userId, params, body: profile }) => {
+  const { id: idRaw, userId: targetUserId } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId || !targetUserId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  await assertCanEditProfile(db, householdId, userId, targetUserId);
+
+  const now = new Date();
+  const values = {
+    allergens: profile.allergens ?? [],
+    diets: profile.diets ?? [],
+    avoidIngredients: profile.avoidIngredients ?? [],
+    updatedAt: now,
+  };
+  const [row] = await db
+    .insert(memberDietaryProfiles)
+    .values({ id: uuidv4(), householdId, userId: targetUserId, ...values })
+    .onConflictDoUpdate({
+      target: [memberDietaryProfiles.householdId, memberDietaryProfiles.userId],
+      set: values,
+    })
+    .returning();
+
+  const res = NextResponse.json({ userId: targetUserId, ...toDietaryProfile(row), updatedAt: row.updatedAt });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const DELETE = apiRoute({ tag: 'DIETARY_PROFILE_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw, userId: targetUserId } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId || !targetUserId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  await assertCanEditProfile(db, householdId, userId, targetUserId);
+
+  await db
+    .delete(memberDietaryProfiles)
+    .where(and(eq(memberDietaryProfiles.householdId, householdId), eq(memberDietaryProfiles.userId, targetUserId)));
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { loadHouseholdDietaryProfiles } from '@/lib/dietary/householdProfiles';
+import { mergeDietaryProfiles } from '@/lib/dietary/restrictions';
+import { household_members, users } from '../../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Lists every member's dietary profile plus the merged household profile that AI generation and
+ * meal warnings enforce.
+ */
+export const GET = apiRoute({ tag: 'DIETARY_PROFILES_GET' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const members = await db
+    .select({ userId: household_members.userId, name: users.name })
+    .from(household_members)
+    .leftJoin(users, eq(users.id, household_members.userId))
+    .where(eq(household_members.householdId, householdId));
+
+  if (!members.some((member) => member.userId === userId)) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const profiles = await loadHouseholdDietaryProfiles(db, householdId);
+  const byUser = new Map(profiles.map((profile) => [profile.userId, profile]));
+
+  const res = NextResponse.json({
+    members: members.map((member) => {
+      const profile = byUser.get(member.userId);
+      return {
+        userId: member.userId,
+        name: member.name,
+        allergens: profile?.allergens ?? [],
+        diets: profile?.diets ?? [],
+        avoidIngredients: profile?.avoidIngredients ?? [],
+      };
+    }),
+    household: mergeDietaryProfiles(profiles),
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
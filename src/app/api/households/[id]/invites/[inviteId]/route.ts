@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { hasInviteManagementSchema } from '@/db/compat';
+import { invites } from '../../../../../../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Revokes an invite. The row is kept so the invite list still shows who joined through it.
+ */
+export const DELETE = apiRoute({ tag: 'HOUSEHOLD_INVITE_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw, inviteId: inviteIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const inviteId = validateUuid(inviteIdRaw);
+  if (!householdId || !inviteId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'invites.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('invites.manage'));
+  }
+
+  const [invite] = await db
+    .select({ id: invites.id })
+    .from(invites)
+    .where(and(eq(invites.id, inviteId), eq(invites.householdId, householdId)))
+    .limit(1);
+  if (!invite) {
+    throw new ApiError(404, 'not_found', 'Invite not found');
+  }
+
+  // Without the revocation columns the only way to stop a link working is to let it run out.
+  const now = new Date();
+  if (await hasInviteManagementSchema(db)) {
+    const revoked = await db
+      .update(invites)
+      .set({ revokedAt: now, revokedBy: userId })
+      .where(and(eq(invites.id, inviteId), isNull(invites.revokedAt)))
+      .returning({ id: invites.id });
+    if (revoked.length === 0) {
+      throw new ApiError(409, 'conflict', 'Invite already revoked');
+    }
+  } else {
+    await db.update(invites).set({ usesLeft: 0 }).where(eq(invites.id, inviteId));
+  }
+
+  await recordActivity(
+    db,
+    { householdId, actorId: userId, type: 'invite.revoked', entityId: inviteId },
+    'HOUSEHOLD_INVITE_DELETE_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ success: true, revokedAt: now });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
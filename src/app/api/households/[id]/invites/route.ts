@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { listInvitesQuery } from '@/lib/api/schemas/households';
+import { buildInviteUrl, getInviteStatus } from '@/lib/households/invites';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { getInvitesSelect, hasInviteManagementSchema } from '@/db/compat';
+import { inviteRedemptions, invites, users } from '../../../../../db/schema';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+const MAX_LISTED_INVITES = 100;
+
+/**
+ * Lists the household's invites, newest first, with their status and who redeemed them.
+ * Owners only. `?status=active` (or expired, used_up, revoked, declined) narrows the list.
+ */
+export const GET = apiRoute({ tag: 'HOUSEHOLD_INVITES_GET', query: listInvitesQuery }, async ({ db, userId, params, query }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'invites.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('invites.manage'));
+  }
+
+  const invitesSelect = await getInvitesSelect(db);
+  const rows = await db
+    .select({ ...invitesSelect, createdByName: users.name })
+    .from(invites)
+    .leftJoin(users, eq(users.id, invites.createdBy))
+    .where(eq(invites.householdId, householdId))
+    .orderBy(desc(invites.createdAt))
+    .limit(MAX_LISTED_INVITES);
+
+  const redemptionsByInvite = new Map<string, Array<{ userId: string | null; name: string | null; role: string; redeemedAt: Date }>>();
+  if (rows.length > 0 && (await hasInviteManagementSchema(db))) {
+    const redemptions = await db
+      .select({
+        inviteId: inviteRedemptions.inviteId,
+        userId: inviteRedemptions.userId,
+        name: users.name,
+        role: inviteRedemptions.role,
+        redeemedAt: inviteRedemptions.redeemedAt,
+      })
+      .from(inviteRedemptions)
+      .leftJoin(users, eq(users.id, inviteRedemptions.userId))
+      .where(inArray(inviteRedemptions.inviteId, rows.map((row) => row.id)))
+      .orderBy(inviteRedemptions.redeemedAt);
+    for (const { inviteId, ...redemption } of redemptions) {
+      const list = redemptionsByInvite.get(inviteId) ?? [];
+      list.push(redemption);
+      redemptionsByInvite.set(inviteId, list);
+    }
+  }
+
+  const now = new Date();
+  const items = rows
+    .map((row) => ({
+      id: row.id,
+      inviteUrl: buildInviteUrl(row.token),
+      email: row.email,
+      role: row.role,
+      status: getInviteStatus(row, now),
+      expiresAt: row.expiresAt,
+      usesLeft: row.usesLeft,
+      revokedAt: row.revokedAt,
+      declinedAt: row.declinedAt,
+      createdBy: row.createdBy,
+      createdByName: row.createdByName,
+      createdAt: row.createdAt,
+      redemptions: redemptionsByInvite.get(row.id) ?? [],
+    }))
+    .filter((item) => !query.status || item.status === query.status);
+
+  const res = NextResponse.json(items);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
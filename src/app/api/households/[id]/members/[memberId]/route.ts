@@ -1,62 +1,135 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../../../../db';
-import { household_members } from '../../../../../../db/schema';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { changeMemberRoleBody } from '@/lib/api/schemas/households';
+import { recordActivity } from '@/lib/activity/activityLog';
+import {
+  canAssignRole,
+  canRemoveMember,
+  describeMissingPermission,
+  normalizeHouseholdRole,
+} from '@/lib/households/roles';
+import type { db } from '../../../../../../db';
+import { household_members, users } from '../../../../../../db/schema';
 import { eq, and } from 'drizzle-orm';
 
-export async function DELETE(req: Request, { params }: { params: Promise<{ id: string; memberId: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-
-    const { id, memberId } = await params; // id = householdId
-
-    // 1. Verify acting user is owner (unless leaving self?)
-    // If removing self, it's "leave". If removing other, must be owner.
-    
-    if (memberId === userId) {
-        // Leaving household
-        // Just delete the membership
-        await db.delete(household_members).where(
-            and(
-                eq(household_members.householdId, id),
-                eq(household_members.userId, userId)
-            )
-        );
-        return NextResponse.json({ success: true });
-    }
-
-    // Removing another member
-    const actorMembership = await db.select().from(household_members).where(
-        and(
-            eq(household_members.householdId, id),
-            eq(household_members.userId, userId),
-            eq(household_members.role, 'owner')
-        )
-    );
+async function loadMemberRoles(database: NonNullable<typeof db>, householdId: string) {
+  const rows = await database
+    .select({ userId: household_members.userId, role: household_members.role })
+    .from(household_members)
+    .where(eq(household_members.householdId, householdId));
+  return new Map(rows.map((row) => [row.userId, normalizeHouseholdRole(row.role)]));
+}
+
+/**
+ * Changes a member's role (`{ role: "admin" | "member" | "viewer" }`). Owners can assign any of
+ * these; admins can only move members and viewers between member and viewer.
+ */
+export const PATCH = apiRoute({ tag: 'MEMBER_PATCH', json: { maxBytes: 2_000 }, body: changeMemberRoleBody }, async ({ db, userId, params, body: nextRole }) => {
+  const { id, memberId } = params; // id = householdId
+
 
-    if (actorMembership.length === 0) {
-        return new NextResponse("Only owners can remove members", { status: 403 });
-    }
+  const roles = await loadMemberRoles(db, id);
+  const actorRole = roles.get(userId);
+  if (!actorRole) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const targetRole = roles.get(memberId);
+  if (!targetRole) {
+    throw new ApiError(404, 'not_found', 'Member not found');
+  }
 
-    // Remove the member
-    await db.delete(household_members).where(
-        and(
-            eq(household_members.householdId, id),
-            eq(household_members.userId, memberId)
-        )
+  if (memberId === userId) {
+    throw new ApiError(403, 'forbidden', 'You cannot change your own role');
+  }
+
+  if (!canAssignRole(actorRole, targetRole, nextRole)) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('members.changeRole'));
+  }
+
+  if (targetRole !== nextRole) {
+    await db
+      .update(household_members)
+      .set({ role: nextRole })
+      .where(and(eq(household_members.householdId, id), eq(household_members.userId, memberId)));
+
+    const [member] = await db.select({ name: users.name }).from(users).where(eq(users.id, memberId)).limit(1);
+    await recordActivity(
+      db,
+      {
+        householdId: id,
+        actorId: userId,
+        type: 'member.roleChanged',
+        entityId: memberId,
+        metadata: { memberName: member?.name ?? null, fromRole: targetRole, toRole: nextRole },
+      },
+      'MEMBER_PATCH_ACTIVITY',
     );
+  }
 
-    return NextResponse.json({ success: true });
+  const res = NextResponse.json({ userId: memberId, role: nextRole });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
 
-  } catch (error) {
-    console.error('[MEMBER_DELETE]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+export const DELETE = apiRoute({ tag: 'MEMBER_DELETE' }, async ({ db, userId, params }) => {
+  const { id, memberId } = params; // id = householdId
+
+  // If removing self, it's "leave". Removing someone else needs a higher role than theirs.
+  const roles = await loadMemberRoles(db, id);
+
+  if (memberId === userId) {
+      // An owner leaving would strand everyone else without one; they must transfer ownership first.
+      // A sole owner can still leave their own one-person household.
+      if (roles.get(userId) === 'owner' && roles.size > 1) {
+        throw new ApiError(409, 'conflict', 'Transfer ownership before leaving this household');
+      }
+
+      // Leaving household
+      // Just delete the membership
+      const left = await db.delete(household_members).where(
+          and(
+              eq(household_members.householdId, id),
+              eq(household_members.userId, userId)
+          )
+      ).returning({ userId: household_members.userId });
+      if (left.length > 0) {
+          await recordActivity(
+              db,
+              { householdId: id, actorId: userId, type: 'member.left', entityId: userId },
+              'MEMBER_DELETE_ACTIVITY',
+          );
+      }
+      return NextResponse.json({ success: true });
   }
-}
+
+  // Removing another member
+  const actorRole = roles.get(userId);
+  if (!actorRole) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  if (!canRemoveMember(actorRole, roles.get(memberId) ?? 'viewer')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('members.remove'));
+  }
+
+  // Remove the member
+  const removed = await db.delete(household_members).where(
+      and(
+          eq(household_members.householdId, id),
+          eq(household_members.userId, memberId)
+      )
+  ).returning({ userId: household_members.userId });
+
+  if (removed.length > 0) {
+      const [member] = await db.select({ name: users.name }).from(users).where(eq(users.id, memberId)).limit(1);
+      await recordActivity(
+          db,
+          { householdId: id, actorId: userId, type: 'member.removed', entityId: memberId, metadata: { memberName: member?.name ?? null } },
+          'MEMBER_DELETE_ACTIVITY',
+      );
+  }
+
+  return NextResponse.json({ success: true });
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updatePantryItemBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { getPantryItemStatus } from '@/lib/pantry/pantry';
+import { todayDateKey } from '@/lib/plans/templates';
+import { pantryItems } from '../../../../../../db/schema';
+import { and, eq, ne } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Updates quantity, unit, threshold, expiry, category or name of a pantry item.
+ */
+export const PATCH = apiRoute({ tag: 'PANTRY_ITEM_PATCH', json: { maxBytes: 10_000 }, body: updatePantryItemBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw, itemId: itemIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const itemId = validateUuid(itemIdRaw);
+  if (!householdId || !itemId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  if (Object.keys(fields).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'pantry.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('pantry.manage'));
+  }
+
+  if (fields.nameNormalized) {
+    const duplicate = await db
+      .select({ id: pantryItems.id })
+      .from(pantryItems)
+      .where(
+        and(
+          eq(pantryItems.householdId, householdId),
+          eq(pantryItems.nameNormalized, fields.nameNormalized),
+          ne(pantryItems.id, itemId),
+        ),
+      )
+      .limit(1);
+    if (duplicate.length > 0) {
+      throw new ApiError(409, 'conflict', 'Item is already in the pantry');
+    }
+  }
+
+  const now = new Date();
+  const [item] = await db
+    .update(pantryItems)
+    .set({ ...fields, updatedAt: now })
+    .where(and(eq(pantryItems.id, itemId), eq(pantryItems.householdId, householdId)))
+    .returning();
+
+  if (!item) {
+    throw new ApiError(404, 'not_found', 'Pantry item not found');
+  }
+
+  const res = NextResponse.json({ ...item, ...getPantryItemStatus(item, todayDateKey(now)) });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const DELETE = apiRoute({ tag: 'PANTRY_ITEM_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw, itemId: itemIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const itemId = validateUuid(itemIdRaw);
+  if (!householdId || !itemId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'pantry.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('pantry.manage'));
+  }
+
+  const deleted = await db
+    .delete(pantryItems)
+    .where(and(eq(pantryItems.id, itemId), eq(pantryItems.householdId, householdId)))
+    .returning({ id: pantryItems.id });
+
+  if (deleted.length === 0) {
+    throw new ApiError(404, 'not_found', 'Pantry item not found');
+  }
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createPantryItemBody, pantryQuery } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { getPantryItemStatus, MAX_PANTRY_ITEMS } from '@/lib/pantry/pantry';
+import { todayDateKey } from '@/lib/plans/templates';
+import { household_members, ingredients, pantryItems } from '../../../../../db/schema';
+import { and, asc, desc, eq, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Lists the household's pantry with low-stock and expiry flags.
+ * `?filter=low|expiring|attention` narrows the list; `?days=N` sets the "expiring soon" window.
+ */
+export const GET = apiRoute({ tag: 'PANTRY_GET', query: pantryQuery }, async ({ db, userId, params, query }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const { filter, days: expiringSoonDays } = query;
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const rows = await db
+    .select()
+    .from(pantryItems)
+    .where(eq(pantryItems.householdId, householdId))
+    .orderBy(asc(pantryItems.nameNormalized));
+
+  const today = todayDateKey();
+  const items = rows.map((row) => ({ ...row, ...getPantryItemStatus(row, today, expiringSoonDays) }));
+  const summary = {
+    total: items.length,
+    low: items.filter((item) => item.isLow).length,
+    expiringSoon: items.filter((item) => item.isExpiringSoon).length,
+    expired: items.filter((item) => item.isExpired).length,
+  };
+
+  const filtered = items.filter((item) => {
+    if (filter === 'low') return item.isLow;
+    if (filter === 'expiring') return item.isExpiringSoon || item.isExpired;
+    if (filter === 'attention') return item.isLow || item.isExpiringSoon || item.isExpired;
+    return true;
+  });
+
+  const res = NextResponse.json({ items: filtered, summary, expiringSoonDays });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const POST = apiRoute({ tag: 'PANTRY_POST', json: { maxBytes: 10_000 }, body: createPantryItemBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const nameNormalized = fields.nameNormalized as string;
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'pantry.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('pantry.manage'));
+  }
+
+  const existing = await db
+    .select({ id: pantryItems.id, nameNormalized: pantryItems.nameNormalized })
+    .from(pantryItems)
+    .where(eq(pantryItems.householdId, householdId));
+  if (existing.some((item) => item.nameNormalized === nameNormalized)) {
+    throw new ApiError(409, 'conflict', 'Item is already in the pantry');
+  }
+  if (existing.length >= MAX_PANTRY_ITEMS) {
+    throw new ApiError(400, 'invalid_request', `Too many pantry items (max ${MAX_PANTRY_ITEMS})`);
+  }
+
+  // Prefer the catalog's display name and category (the user's own entry over the global one).
+  const [catalogEntry] = await db
+    .select({ name: ingredients.name, category: ingredients.category })
+    .from(ingredients)
+    .where(
+      and(
+        eq(ingredients.nameNormalized, nameNormalized),
+        or(eq(ingredients.isGlobal, true), eq(ingredients.createdBy, userId)),
+      ),
+    )
+    .orderBy(asc(ingredients.isGlobal), desc(ingredients.useCount))
+    .limit(1);
+
+  const now = new Date();
+  const [item] = await db
+    .insert(pantryItems)
+    .values({
+      id: uuidv4(),
+      householdId,
+      name: catalogEntry?.name ?? (fields.name as string),
+      nameNormalized,
+      category: fields.category !== undefined ? fields.category : catalogEntry?.category ?? null,
+      quantity: fields.quantity ?? null,
+      unit: fields.unit ?? null,
+      lowStockThreshold: fields.lowStockThreshold ?? null,
+      expiresOn: fields.expiresOn ?? null,
+      addedBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  const res = NextResponse.json({ ...item, ...getPantryItemStatus(item, todayDateKey(now)) });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updatePlanTemplateBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import {
+  deleteFutureTemplatePlans,
+  materializePlanTemplates,
+  todayDateKey,
+} from '@/lib/plans/templates';
+import type { db } from '../../../../../../db';
+import { meals, planTemplates } from '../../../../../../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+async function loadTemplateForMember(database: NonNullable<typeof db>, householdId: string, templateId: string, userId: string) {
+  const role = await getHouseholdRole(database, householdId, userId);
+  if (!role) throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
+  }
+
+  const rows = await database
+    .select()
+    .from(planTemplates)
+    .where(and(eq(planTemplates.id, templateId), eq(planTemplates.householdId, householdId)))
+    .limit(1);
+  if (rows.length === 0) throw new ApiError(404, 'not_found', 'Template not found');
+
+  return rows[0];
+}
+
+/**
+ * Edits or pauses/resumes a template. Future plans it already created are replaced so they match
+ * the new rule; past and completed plans are left alone.
+ */
+export const PATCH = apiRoute({ tag: 'PLAN_TEMPLATE_PATCH', json: { maxBytes: 10_000 }, body: updatePlanTemplateBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw, templateId: templateIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const templateId = validateUuid(templateIdRaw);
+  if (!householdId || !templateId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  if (Object.keys(fields).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
+
+  const current = await loadTemplateForMember(db, householdId, templateId, userId);
+
+  if (fields.mealIds) {
+    const householdMeals = await db
+      .select({ id: meals.id })
+      .from(meals)
+      .where(and(eq(meals.householdId, householdId), inArray(meals.id, fields.mealIds)));
+    if (new Set(householdMeals.map((m) => m.id)).size !== new Set(fields.mealIds).size) {
+      throw new ApiError(400, 'invalid_request', 'Meals must be imported into this household before they can be scheduled');
+    }
+  }
+
+  const startDate = fields.startDate ?? current.startDate;
+  const endDate = fields.endDate !== undefined ? fields.endDate : current.endDate;
+  if (endDate && endDate < startDate) {
+    throw new ApiError(400, 'invalid_request', 'endDate must not be before startDate');
+  }
+
+  const now = new Date();
+  // A name-only edit doesn't change the schedule, so keep the plans it already created.
+  const scheduleChanged = Object.keys(fields).some((key) => key !== 'name');
+
+  const update = db
+    .update(planTemplates)
+    .set({
+      ...fields,
+      ...(scheduleChanged ? { materializedThrough: todayDateKey(now) } : null),
+      updatedAt: now,
+    })
+    .where(eq(planTemplates.id, templateId))
+    .returning();
+
+  const [updated] = scheduleChanged
+    ? (await db.batch([deleteFutureTemplatePlans(db, templateId, now), update]))[1]
+    : await update;
+
+  const materialized =
+    scheduleChanged && !updated.isPaused ? await materializePlanTemplates(db, { templateId, now }) : { created: 0 };
+
+  const res = NextResponse.json({ template: updated, materializedPlans: materialized.created });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const DELETE = apiRoute({ tag: 'PLAN_TEMPLATE_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw, templateId: templateIdRaw } = params;
+  const householdId = validateUuid(idRaw);
+  const templateId = validateUuid(templateIdRaw);
+  if (!householdId || !templateId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  await loadTemplateForMember(db, householdId, templateId, userId);
+
+  // Past plans stay in history; their template_id is cleared by the FK.
+  await db.batch([
+    deleteFutureTemplatePlans(db, templateId),
+    db.delete(planTemplates).where(eq(planTemplates.id, templateId)),
+  ]);
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createPlanTemplateBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import {
+  materializePlanTemplates,
+  todayDateKey,
+} from '@/lib/plans/templates';
+import { household_members, meals, planTemplates } from '../../../../../db/schema';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { validateUuid } from '@/lib/validation';
+
+const MAX_TEMPLATES_PER_HOUSEHOLD = 50;
+
+export const GET = apiRoute({ tag: 'PLAN_TEMPLATES_GET' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const templates = await db
+    .select()
+    .from(planTemplates)
+    .where(eq(planTemplates.householdId, householdId))
+    .orderBy(asc(planTemplates.weekday), asc(planTemplates.createdAt));
+
+  const res = NextResponse.json(templates);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const POST = apiRoute({ tag: 'PLAN_TEMPLATES_POST', json: { maxBytes: 10_000 }, body: createPlanTemplateBody }, async ({ db, userId, params, body: fields }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
+  }
+
+  const mealIds = fields.mealIds ?? [];
+  const householdMeals = await db
+    .select({ id: meals.id })
+    .from(meals)
+    .where(and(eq(meals.householdId, householdId), inArray(meals.id, mealIds)));
+  if (new Set(householdMeals.map((m) => m.id)).size !== new Set(mealIds).size) {
+    throw new ApiError(400, 'invalid_request', 'Meals must be imported into this household before they can be scheduled');
+  }
+
+  const existing = await db
+    .select({ id: planTemplates.id })
+    .from(planTemplates)
+    .where(eq(planTemplates.householdId, householdId));
+  if (existing.length >= MAX_TEMPLATES_PER_HOUSEHOLD) {
+    throw new ApiError(400, 'invalid_request', `Too many templates (max ${MAX_TEMPLATES_PER_HOUSEHOLD})`);
+  }
+
+  const now = new Date();
+  const startDate = fields.startDate ?? todayDateKey(now);
+  if (fields.endDate && fields.endDate < startDate) {
+    throw new ApiError(400, 'invalid_request', 'endDate must not be before startDate');
+  }
+
+  const id = uuidv4();
+  const [template] = await db
+    .insert(planTemplates)
+    .values({
+      id,
+      householdId,
+      createdBy: userId,
+      name: fields.name ?? null,
+      weekday: fields.weekday ?? 0,
+      slot: fields.slot ?? 'dinner',
+      servings: fields.servings ?? null,
+      mealIds,
+      startDate,
+      endDate: fields.endDate ?? null,
+      isPaused: fields.isPaused ?? false,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  const materialized = await materializePlanTemplates(db, { templateId: id, now });
+
+  const res = NextResponse.json({ template, materializedPlans: materialized.created });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,146 +1,68 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../../db';
-import { households, household_members } from '../../../../db/schema';
-import { eq, and } from 'drizzle-orm';
-import {
-  isBodyTooLarge,
-  sanitizeShoppingList,
-  validateHouseholdName,
-  validatePlanDate,
-  validateUuid,
-} from '@/lib/validation';
-
-export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updateHouseholdBody } from '@/lib/api/schemas/households';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { households } from '../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+export const PUT = apiRoute({ tag: 'HOUSEHOLD_PUT', json: { maxBytes: 300_000 }, body: updateHouseholdBody }, async ({ db, userId, params, body }) => {
+  const { id: idRaw } = params;
+  const id = validateUuid(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
 
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
+  // Verify membership
+  const role = await getHouseholdRole(db, id, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'household.update')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('household.update'));
+  }
 
-    const { id: idRaw } = await params;
-    const id = validateUuid(idRaw);
-    if (!id) {
-      return new NextResponse("Invalid id", { status: 400 });
-    }
+  // The schema keeps only the allowed fields that were sent.
+  const updateData: Partial<typeof households.$inferInsert> = { ...body };
 
-    if (isBodyTooLarge(req, 300_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
+  if (Object.keys(updateData).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
 
-    const body = await req.json().catch(() => null);
-    if (!body || typeof body !== 'object') {
-      return new NextResponse('Invalid JSON body', { status: 400 });
-    }
+  await db.update(households).set(updateData).where(eq(households.id, id));
 
-    // Verify membership
-    const userMembership = await db.select().from(household_members).where(
-        and(
-            eq(household_members.householdId, id),
-            eq(household_members.userId, userId)
-        )
+  // Shopping-list ticks and period changes are too frequent to be interesting in the feed.
+  if (updateData.name !== undefined) {
+    await recordActivity(
+      db,
+      { householdId: id, actorId: userId, type: 'household.updated', entityId: id, metadata: { householdName: updateData.name } },
+      'HOUSEHOLD_PUT_ACTIVITY',
     );
+  }
 
-    if (userMembership.length === 0) {
-         return new NextResponse("You are not a member of this household", { status: 403 });
-    }
-
-    // Extract allowed fields to update
-    const { name, shoppingList, currentPeriodStart, currentPeriodEnd } = body as Partial<typeof households.$inferInsert>;
-    const updateData: Partial<typeof households.$inferInsert> = {};
-
-    if (name !== undefined) {
-      const cleaned = validateHouseholdName(name);
-      if (!cleaned) return new NextResponse('Invalid name', { status: 400 });
-      updateData.name = cleaned;
-    }
-
-    if (shoppingList !== undefined) {
-      const sanitized = sanitizeShoppingList(shoppingList);
-      if (!sanitized) return new NextResponse('Invalid shoppingList', { status: 400 });
-      updateData.shoppingList = sanitized as any;
-    }
-
-    if (currentPeriodStart !== undefined) {
-      if (currentPeriodStart == null) {
-        updateData.currentPeriodStart = null;
-      } else {
-        const cleaned = validatePlanDate(currentPeriodStart);
-        if (!cleaned) return new NextResponse('Invalid currentPeriodStart', { status: 400 });
-        updateData.currentPeriodStart = cleaned;
-      }
-    }
-
-    if (currentPeriodEnd !== undefined) {
-      if (currentPeriodEnd == null) {
-        updateData.currentPeriodEnd = null;
-      } else {
-        const cleaned = validatePlanDate(currentPeriodEnd);
-        if (!cleaned) return new NextResponse('Invalid currentPeriodEnd', { status: 400 });
-        updateData.currentPeriodEnd = cleaned;
-      }
-    }
-
-    if (Object.keys(updateData).length === 0) {
-        return new NextResponse("No valid fields to update", { status: 400 });
-    }
-
-    await db.update(households).set(updateData).where(eq(households.id, id));
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
 
-    const res = NextResponse.json({ success: true });
-    res.headers.set('cache-control', 'no-store');
-    return res;
+export const DELETE = apiRoute({ tag: 'HOUSEHOLD_DELETE' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const id = validateUuid(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
 
-  } catch (error) {
-    console.error('[HOUSEHOLD_PUT]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+  // Only the owner can delete a household.
+  const role = await getHouseholdRole(db, id, userId);
+  if (!role || !hasHouseholdPermission(role, 'household.delete')) {
+    throw new ApiError(403, 'forbidden', 'Only owners can delete a household');
   }
-}
 
-export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
-    try {
-        const userId = await getUserIdFromRequest(req);
-        if (!userId) {
-          return new NextResponse("Unauthorized", { status: 401 });
-        }
-    
-        if (!db) {
-            return new NextResponse("Database not configured", { status: 500 });
-        }
-    
-        const { id: idRaw } = await params;
-        const id = validateUuid(idRaw);
-        if (!id) {
-          return new NextResponse("Invalid id", { status: 400 });
-        }
+  await db.delete(households).where(eq(households.id, id));
 
-        // Verify ownership - only owners can delete?
-        // The original code didn't strictly enforce owner for deleteHousehold, but it's safer.
-        // Let's enforce owner.
-        const ownerMembership = await db.select().from(household_members).where(
-            and(
-                eq(household_members.householdId, id),
-                eq(household_members.userId, userId),
-                eq(household_members.role, 'owner')
-            )
-        );
-    
-        if (ownerMembership.length === 0) {
-             return new NextResponse("Only owners can delete a household", { status: 403 });
-        }
-    
-        await db.delete(households).where(eq(households.id, id));
-    
-        const res = NextResponse.json({ success: true });
-        res.headers.set('cache-control', 'no-store');
-        return res;
-    
-      } catch (error) {
-        console.error('[HOUSEHOLD_DELETE]', error);
-        return new NextResponse("Internal Error", { status: 500 });
-      }
-}
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { generateShoppingListBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { getMealsColumnAvailability, getPlansSelect } from '@/db/compat';
+import { buildShoppingList } from '@/lib/shoppingList/buildShoppingList';
+import { households, meals, pantryItems, plans } from '../../../../../../db/schema';
+import { and, eq, gte, lte, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { sanitizeShoppingList, validatePlanDate, validateUuid } from '@/lib/validation';
+
+const MAX_RANGE_DAYS = 62;
+
+function daysBetween(start: string, end: string): number {
+  const startMs = Date.parse(`${start}T00:00:00Z`);
+  const endMs = Date.parse(`${end}T00:00:00Z`);
+  return Math.round((endMs - startMs) / (24 * 60 * 60 * 1000));
+}
+
+// Body is optional: without a range we fall back to the household's current period.
+export const POST = apiRoute({ tag: 'SHOPPING_LIST_GENERATE_POST', json: { maxBytes: 10_000, optional: true }, body: generateShoppingListBody }, async ({ db, userId, params, body: payload }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'household.update')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('household.update'));
+  }
+
+  const householdRows = await db
+    .select({
+      shoppingList: households.shoppingList,
+      currentPeriodStart: households.currentPeriodStart,
+      currentPeriodEnd: households.currentPeriodEnd,
+    })
+    .from(households)
+    .where(eq(households.id, householdId))
+    .limit(1);
+
+  const household = householdRows[0];
+  if (!household) {
+    throw new ApiError(404, 'not_found', 'Household not found');
+  }
+
+  const startDate = payload.startDate ?? validatePlanDate(household.currentPeriodStart);
+  const endDate = payload.endDate ?? validatePlanDate(household.currentPeriodEnd);
+  if (!startDate || !endDate) {
+    throw new ApiError(400, 'invalid_request', 'Missing date range (no current period set)');
+  }
+
+  const rangeDays = daysBetween(startDate, endDate);
+  if (rangeDays < 0) {
+    throw new ApiError(400, 'invalid_request', 'endDate must not be before startDate');
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    throw new ApiError(400, 'invalid_request', `Date range is too long (max ${MAX_RANGE_DAYS} days)`);
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const plansSelect = await getPlansSelect(db);
+  const plannedRows = await db
+    .select({
+      mealName: meals.name,
+      ingredients: meals.ingredients,
+      mealServings: mealsColumns.servings ? meals.servings : sql<number | null>`NULL::integer`,
+      planServings: plansSelect.servings,
+    })
+    .from(plans)
+    .innerJoin(meals, eq(plans.mealId, meals.id))
+    .where(and(eq(plans.householdId, householdId), gte(plans.date, startDate), lte(plans.date, endDate)));
+
+  const pantry = await db
+    .select({ nameNormalized: pantryItems.nameNormalized, quantity: pantryItems.quantity, unit: pantryItems.unit })
+    .from(pantryItems)
+    .where(eq(pantryItems.householdId, householdId));
+
+  const shoppingList = buildShoppingList({
+    // A plan's servings override only scales when we know what the recipe is written for.
+    planned: plannedRows.map((row) => ({
+      mealName: row.mealName,
+      ingredients: row.ingredients,
+      scale: row.planServings && row.mealServings ? row.planServings / row.mealServings : undefined,
+    })),
+    existing: sanitizeShoppingList(household.shoppingList) ?? [],
+    pantry,
+    createId: uuidv4,
+  });
+
+  await db.update(households).set({ shoppingList }).where(eq(households.id, householdId));
+
+  const res = NextResponse.json({
+    startDate,
+    endDate,
+    planCount: plannedRows.length,
+    shoppingList,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
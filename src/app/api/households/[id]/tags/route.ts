@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { deleteTagQuery, renameTagBody } from '@/lib/api/schemas/households';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { countTags, renameTagInList } from '@/lib/meals/collections';
+import { getMealsColumnAvailability } from '@/db/compat';
+import type { db } from '../../../../../db';
+import { household_members, meals } from '../../../../../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+async function isHouseholdMember(database: NonNullable<typeof db>, householdId: string, userId: string) {
+  const membership = await database
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+  return membership.length > 0;
+}
+
+// Rewrites the tag on every household meal that has it; `to = null` removes it.
+async function rewriteTag(database: NonNullable<typeof db>, householdId: string, from: string, to: string | null) {
+  const tagged = await database
+    .select({ id: meals.id, tags: meals.tags })
+    .from(meals)
+    .where(and(eq(meals.householdId, householdId), sql`${meals.tags} @> ${JSON.stringify([from])}::jsonb`));
+  if (tagged.length === 0) return 0;
+
+  const [first, ...rest] = tagged.map((meal) =>
+    database.update(meals).set({ tags: renameTagInList(meal.tags, from, to) }).where(eq(meals.id, meal.id)),
+  );
+  await database.batch([first, ...rest]);
+  return tagged.length;
+}
+
+/**
+ * Lists the tags used by the household's meals, with how many meals carry each.
+ */
+export const GET = apiRoute({ tag: 'TAGS_GET' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  if (!(await isHouseholdMember(db, householdId, userId))) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const rows = mealsColumns.tags
+    ? await db.select({ tags: meals.tags }).from(meals).where(eq(meals.householdId, householdId))
+    : [];
+
+  const res = NextResponse.json(countTags(rows.map((row) => row.tags)));
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Renames a tag across the household's meals (`{ from, to }`); renaming onto an existing tag merges them.
+ */
+export const PATCH = apiRoute({ tag: 'TAGS_PATCH', json: { maxBytes: 2_000 }, body: renameTagBody }, async ({ db, userId, params, body: rename }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'library.organize')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('library.organize'));
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const updated = mealsColumns.tags ? await rewriteTag(db, householdId, rename.from, rename.to) : 0;
+
+  const res = NextResponse.json({ ...rename, updated });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Removes a tag (`?tag=`) from every meal in the household.
+ */
+export const DELETE = apiRoute({ tag: 'TAGS_DELETE', query: deleteTagQuery }, async ({ db, userId, params, query }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const { tag } = query;
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'library.organize')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('library.organize'));
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const updated = mealsColumns.tags ? await rewriteTag(db, householdId, tag, null) : 0;
+
+  const res = NextResponse.json({ success: true, updated });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { transferOwnershipBody } from '@/lib/api/schemas/households';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, hasHouseholdPermission, normalizeHouseholdRole } from '@/lib/households/roles';
+import { household_members, households, users } from '../../../../../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Hands the household to another member (`{ userId }`). The new owner takes over `households.owner_id`
+ * and the previous owner stays on as an admin.
+ */
+export const POST = apiRoute({ tag: 'HOUSEHOLD_TRANSFER_POST', json: { maxBytes: 2_000 }, body: transferOwnershipBody }, async ({ db, userId, params, body }) => {
+  const { id: idRaw } = params;
+  const householdId = validateUuid(idRaw);
+  if (!householdId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const newOwnerId = body.userId;
+
+  const members = await db
+    .select({ userId: household_members.userId, role: household_members.role, name: users.name })
+    .from(household_members)
+    .leftJoin(users, eq(users.id, household_members.userId))
+    .where(eq(household_members.householdId, householdId));
+
+  const actor = members.find((member) => member.userId === userId);
+  if (!actor) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(normalizeHouseholdRole(actor.role), 'household.transferOwnership')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('household.transferOwnership'));
+  }
+
+  const target = members.find((member) => member.userId === newOwnerId);
+  if (!target) {
+    throw new ApiError(404, 'not_found', 'Member not found');
+  }
+  if (target.userId === userId) {
+    throw new ApiError(400, 'invalid_request', 'You already own this household');
+  }
+
+  // One batch so the household never ends up with zero or two owners.
+  await db.batch([
+    db
+      .update(household_members)
+      .set({ role: 'admin' })
+      .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId))),
+    db
+      .update(household_members)
+      .set({ role: 'owner' })
+      .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, target.userId))),
+    db.update(households).set({ ownerId: target.userId }).where(eq(households.id, householdId)),
+  ]);
+
+  await recordActivity(
+    db,
+    {
+      householdId,
+      actorId: userId,
+      type: 'household.ownershipTransferred',
+      entityId: target.userId,
+      metadata: { memberName: target.name ?? null },
+    },
+    'HOUSEHOLD_TRANSFER_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ ownerId: target.userId, previousOwnerRole: 'admin' });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,217 +1,185 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError, isForeignKeyViolation } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createHouseholdBody } from '@/lib/api/schemas/households';
 import { ensureDbUser } from '@/lib/ensureDbUser';
-import { db } from '../../../db';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { getPlansSelect } from '@/db/compat';
 import { households, household_members, users, plans } from '../../../db/schema';
 import { eq, inArray, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { isBodyTooLarge, validateHouseholdName } from '@/lib/validation';
 
-export async function GET(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-    const database = db;
-
-    // 1) Resolve household ids in one round trip.
-    //
-    // IMPORTANT: only households the user is currently a member of should be returned.
-    // Using an owner_id fallback causes a "left" household to reappear for the former owner,
-    // which breaks the leave-group UX (especially for 1-member groups).
-    const idResult = await database.execute(sql`
-      SELECT household_id AS id
-      FROM household_members
-      WHERE user_id = ${userId}
-    `);
-    const allIds = Array.from(
-      new Set(
-        (idResult.rows ?? [])
-          .map((row) => (row as { id?: unknown }).id)
-          .filter((id): id is string => typeof id === 'string' && id.length > 0),
-      ),
-    );
-
-    if (allIds.length === 0) {
-      return NextResponse.json([]);
-    }
-
-    // 2) Fetch household details + related data in bulk (avoid N+1 queries).
-    const [userHouseholds, allPlans, membersRel] = await Promise.all([
-      database.select().from(households).where(inArray(households.id, allIds)),
-      database.select().from(plans).where(inArray(plans.householdId, allIds)),
-      database
-        .select({
-          householdId: household_members.householdId,
-          user: users,
-          role: household_members.role,
-        })
-        .from(household_members)
-        .innerJoin(users, eq(household_members.userId, users.id))
-        .where(inArray(household_members.householdId, allIds)),
-    ]);
-
-    const plansByHouseholdId = new Map<string, typeof allPlans>();
-    for (const plan of allPlans) {
-      const list = plansByHouseholdId.get(plan.householdId) ?? [];
-      list.push({
-        ...plan,
-        isCompleted: plan.isCompleted ?? false,
-      });
-      plansByHouseholdId.set(plan.householdId, list);
-    }
-
-    const membersByHouseholdId = new Map<
-      string,
-      Array<{ id: string; name: string; email: string; avatarUrl: string | null; role: string }>
-    >();
-    for (const row of membersRel) {
-      const list = membersByHouseholdId.get(row.householdId) ?? [];
-      list.push({
-        id: row.user.id,
-        name: row.user.name,
-        email: row.user.email,
-        avatarUrl: row.user.avatar,
-        role: row.role,
-      });
-      membersByHouseholdId.set(row.householdId, list);
-    }
+export const GET = apiRoute({ tag: 'HOUSEHOLDS_GET' }, async ({ db, userId }) => {
+  // 1) Resolve household ids in one round trip.
+  //
+  // IMPORTANT: only households the user is currently a member of should be returned.
+  // Using an owner_id fallback causes a "left" household to reappear for the former owner,
+  // which breaks the leave-group UX (especially for 1-member groups).
+  const idResult = await db.execute(sql`
+    SELECT household_id AS id
+    FROM household_members
+    WHERE user_id = ${userId}
+  `);
+  const allIds = Array.from(
+    new Set(
+      (idResult.rows ?? [])
+        .map((row) => (row as { id?: unknown }).id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0),
+    ),
+  );
+
+  if (allIds.length === 0) {
+    return NextResponse.json([]);
+  }
 
-    const householdsWithDetails = userHouseholds.map((h) => {
-      const householdPlans = plansByHouseholdId.get(h.id) ?? [];
-      const members = membersByHouseholdId.get(h.id) ?? [];
-      return {
-        ...h,
-        memberIds: members.map((m) => m.id),
-        shoppingList: h.shoppingList,
-        plannedMeals: householdPlans.map((p) => ({
-          ...p,
-          createdAt: p.createdAt,
-        })),
-        members,
-      };
+  // 2) Fetch household details + related data in bulk (avoid N+1 queries).
+  const plansSelect = await getPlansSelect(db);
+  const [userHouseholds, allPlans, membersRel] = await Promise.all([
+    db.select().from(households).where(inArray(households.id, allIds)),
+    db.select(plansSelect).from(plans).where(inArray(plans.householdId, allIds)),
+    db
+      .select({
+        householdId: household_members.householdId,
+        user: users,
+        role: household_members.role,
+      })
+      .from(household_members)
+      .innerJoin(users, eq(household_members.userId, users.id))
+      .where(inArray(household_members.householdId, allIds)),
+  ]);
+
+  const plansByHouseholdId = new Map<string, typeof allPlans>();
+  for (const plan of allPlans) {
+    const list = plansByHouseholdId.get(plan.householdId) ?? [];
+    list.push({
+      ...plan,
+      isCompleted: plan.isCompleted ?? false,
     });
-
-    return NextResponse.json(householdsWithDetails);
-
-  } catch (error) {
-    console.error('[HOUSEHOLDS_GET]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+    plansByHouseholdId.set(plan.householdId, list);
   }
-}
-
-export async function POST(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-    const database = db;
-
-    if (isBodyTooLarge(req, 10_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
 
-    const body = await req.json().catch(() => null);
-    const name = validateHouseholdName((body as any)?.name);
-    if (!name) {
-      return new NextResponse('Invalid name', { status: 400 });
-    }
-
-    // Ensure the authenticated user exists in the DB before inserting FK-dependent rows.
-    await ensureDbUser(userId);
+  const membersByHouseholdId = new Map<
+    string,
+    Array<{ id: string; name: string; email: string; avatarUrl: string | null; role: string }>
+  >();
+  for (const row of membersRel) {
+    const list = membersByHouseholdId.get(row.householdId) ?? [];
+    list.push({
+      id: row.user.id,
+      name: row.user.name,
+      email: row.user.email,
+      avatarUrl: row.user.avatar,
+      role: row.role,
+    });
+    membersByHouseholdId.set(row.householdId, list);
+  }
 
-    const id = uuidv4();
-    const now = new Date();
-    const newHousehold = {
-      id,
-      name,
-      ownerId: userId,
-      createdBy: userId,
-      memberIds: [userId],
-      shoppingList: [],
-      currency: 'USD',
-      createdAt: now,
+  const householdsWithDetails = userHouseholds.map((h) => {
+    const householdPlans = plansByHouseholdId.get(h.id) ?? [];
+    const members = membersByHouseholdId.get(h.id) ?? [];
+    return {
+      ...h,
+      memberIds: members.map((m) => m.id),
+      shoppingList: h.shoppingList,
+      plannedMeals: householdPlans.map((p) => ({
+        ...p,
+        createdAt: p.createdAt,
+      })),
+      members,
     };
-
-    // neon-http (HTTP) driver does not support multi-statement transactions.
-    // Use a single atomic SQL statement (CTEs) so both inserts succeed or fail together.
-    const insertResult = await database.execute(sql`
-      WITH inserted_household AS (
-        INSERT INTO households (
-          id,
-          name,
-          owner_id,
-          created_by,
-          member_ids,
-          shopping_list,
-          currency,
-          created_at
-        )
-        VALUES (
-          ${id},
-          ${name},
-          ${userId},
-          ${userId},
-          ${JSON.stringify([userId])}::jsonb,
-          ${JSON.stringify([])}::jsonb,
-          ${'USD'},
-          ${now}
-        )
-        RETURNING *
-      ),
-      inserted_member AS (
-        INSERT INTO household_members (
-          id,
-          household_id,
-          user_id,
-          role,
-          joined_at
-        )
-        SELECT
-          ${uuidv4()},
-          inserted_household.id,
-          ${userId},
-          'owner',
-          ${now}
-        FROM inserted_household
-        RETURNING 1
-      )
-      SELECT
+  });
+
+  return NextResponse.json(householdsWithDetails);
+});
+
+export const POST = apiRoute({ tag: 'HOUSEHOLDS_POST', json: { maxBytes: 10_000 }, body: createHouseholdBody }, async ({ db, userId, body }) => {
+  const { name } = body;
+
+  // Ensure the authenticated user exists in the DB before inserting FK-dependent rows.
+  await ensureDbUser(userId);
+
+  const id = uuidv4();
+  const now = new Date();
+  const newHousehold = {
+    id,
+    name,
+    ownerId: userId,
+    createdBy: userId,
+    memberIds: [userId],
+    shoppingList: [],
+    currency: 'USD',
+    createdAt: now,
+  };
+
+  // neon-http (HTTP) driver does not support multi-statement transactions.
+  // Use a single atomic SQL statement (CTEs) so both inserts succeed or fail together.
+  const insertResult = await db.execute(sql`
+    WITH inserted_household AS (
+      INSERT INTO households (
         id,
         name,
-        owner_id AS "ownerId",
-        created_by AS "createdBy",
-        member_ids AS "memberIds",
-        current_period_start AS "currentPeriodStart",
-        current_period_end AS "currentPeriodEnd",
-        shopping_list AS "shoppingList",
+        owner_id,
+        created_by,
+        member_ids,
+        shopping_list,
         currency,
-        created_at AS "createdAt"
-      FROM inserted_household;
-    `);
-
-    const insertedHousehold = insertResult.rows?.[0] ?? newHousehold;
-
-    const res = NextResponse.json(insertedHousehold);
-    res.headers.set('cache-control', 'no-store');
-    return res;
-
-  } catch (error) {
-    console.error('[HOUSEHOLDS_POST]', error);
-    const code = (error as { code?: unknown } | null)?.code;
-    if (code === "23503") {
-      return new NextResponse("Missing required user record", { status: 409 });
-    }
-    return new NextResponse("Internal Error", { status: 500 });
-  }
-}
+        created_at
+      )
+      VALUES (
+        ${id},
+        ${name},
+        ${userId},
+        ${userId},
+        ${JSON.stringify([userId])}::jsonb,
+        ${JSON.stringify([])}::jsonb,
+        ${'USD'},
+        ${now}
+      )
+      RETURNING *
+    ),
+    inserted_member AS (
+      INSERT INTO household_members (
+        id,
+        household_id,
+        user_id,
+        role,
+        joined_at
+      )
+      SELECT
+        ${uuidv4()},
+        inserted_household.id,
+        ${userId},
+        'owner',
+        ${now}
+      FROM inserted_household
+      RETURNING 1
+    )
+    SELECT
+      id,
+      name,
+      owner_id AS "ownerId",
+      created_by AS "createdBy",
+      member_ids AS "memberIds",
+      current_period_start AS "currentPeriodStart",
+      current_period_end AS "currentPeriodEnd",
+      shopping_list AS "shoppingList",
+      currency,
+      created_at AS "createdAt"
+    FROM inserted_household;
+  `).catch((error: unknown) => {
+    if (isForeignKeyViolation(error)) throw new ApiError(409, 'conflict', 'Missing required user record');
+    throw error;
+  });
+
+  const insertedHousehold = insertResult.rows?.[0] ?? newHousehold;
+
+  await recordActivity(
+    db,
+    { householdId: id, actorId: userId, type: 'household.created', entityId: id, metadata: { householdName: name } },
+    'HOUSEHOLDS_POST_ACTIVITY',
+  );
+
+  const res = NextResponse.json(insertedHousehold);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
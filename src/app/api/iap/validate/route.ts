@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server';
-import { randomUUID, createHash } from 'crypto';
-import { db } from '@/db';
+import { createHash } from 'crypto';
 import { subscriptions, users } from '@/db/schema';
 import { eq } from 'drizzle-orm';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { isBodyTooLarge } from '@/lib/validation';
-import { GooglePlayValidationError, validateGooglePlaySubscription } from '@/lib/googlePlay';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { validateReceiptBody } from '@/lib/api/schemas/iap';
+import { applyRateLimitHeaders, checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { validateGooglePlaySubscription } from '@/lib/googlePlay';
 import { hasUsersHasHadTrialColumn } from '@/db/compat';
 
 const APPLE_VERIFY_RECEIPT_URL = 'https://buy.itunes.apple.com/verifyReceipt';
@@ -17,10 +18,6 @@ const MAX_ANDROID_PURCHASE_TOKEN_LENGTH = 4_096;
 const MAX_ANDROID_PRODUCT_ID_LENGTH = 200;
 const GOOGLE_PLAY_PACKAGE_NAME = process.env.GOOGLE_PLAY_PACKAGE_NAME;
 
-const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
-const RATE_LIMIT_MAX_REQUESTS = 12;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
-
 function mask(value: string, prefix = 6, suffix = 4) {
   if (!value) return '';
   if (value.length <= prefix + suffix) return value;
@@ -35,83 +32,39 @@ function isRetryableAppleStatus(status: unknown): boolean {
   return code === 21005 || (code >= 21100 && code <= 21199);
 }
 
-function jsonError(status: number, payload: Record<string, unknown>, requestId: string) {
-  const res = NextResponse.json({ ...payload, requestId }, { status });
-  res.headers.set('x-request-id', requestId);
-  res.headers.set('cache-control', 'no-store');
-  return res;
-}
-
-export async function POST(request: Request) {
-  const requestId = randomUUID();
-
-  try {
-    const userId = await getUserIdFromRequest(request);
-    if (!userId) {
-      return jsonError(401, { error: 'Unauthorized' }, requestId);
+export const POST = apiRoute(
+  { tag: 'IAP_VALIDATE', json: { maxBytes: 250_000, optional: true }, body: validateReceiptBody },
+  async ({ req, db, userId, requestId, body }) => {
+    const limit = await checkRateLimit(db, 'iap.validate', { userId, ip: getClientIp(req) });
+    if (!limit.allowed) {
+      throw rateLimitError(limit);
     }
 
-    if (isBodyTooLarge(request, 250_000)) {
-      return jsonError(413, { error: 'Payload too large' }, requestId);
-    }
-
-    const nowMs = Date.now();
-    const existing = rateLimitByUser.get(userId);
-    if (!existing || existing.resetAtMs <= nowMs) {
-      rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    } else if (existing.count >= RATE_LIMIT_MAX_REQUESTS) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-      const res = jsonError(
-        429,
-        { error: 'Too many requests. Please try again later.' },
-        requestId,
-      );
-      res.headers.set('retry-after', String(retryAfterSeconds));
-      return res;
-    } else {
-      existing.count += 1;
-      rateLimitByUser.set(userId, existing);
-    }
-
-    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
-    const platformRaw = typeof body?.platform === 'string' ? body.platform.trim() : '';
-    const platform: 'ios' | 'android' = platformRaw === 'android' ? 'android' : 'ios';
-    const receipt = typeof body?.receipt === 'string' ? body.receipt.trim() : '';
-    const claimedUserId = typeof body?.userId === 'string' ? body.userId.trim() : null;
-    const requestedProductId = typeof body?.productId === 'string' ? body.productId.trim() : '';
-    const packageName = typeof body?.packageName === 'string' ? body.packageName.trim() : '';
+    const { platform, receipt, userId: claimedUserId, productId: requestedProductId, packageName } = body;
 
     if (claimedUserId && claimedUserId !== userId) {
-      return jsonError(403, { error: 'Forbidden' }, requestId);
-    }
-
-    if (!receipt) {
-      return jsonError(400, { error: 'Missing receipt' }, requestId);
+      throw new ApiError(403, 'forbidden', 'Forbidden');
     }
 
     if (platform === 'android') {
       if (receipt.length > MAX_ANDROID_PURCHASE_TOKEN_LENGTH) {
-        return jsonError(413, { error: 'Receipt is too large' }, requestId);
+        throw new ApiError(413, 'payload_too_large', 'Receipt is too large');
       }
 
       if (!requestedProductId) {
-        return jsonError(400, { error: 'Missing productId' }, requestId);
+        throw new ApiError(400, 'invalid_request', 'Missing productId');
       }
       if (requestedProductId.length > MAX_ANDROID_PRODUCT_ID_LENGTH) {
-        return jsonError(413, { error: 'productId is too large' }, requestId);
+        throw new ApiError(413, 'payload_too_large', 'productId is too large');
       }
 
       if (!GOOGLE_PLAY_PACKAGE_NAME) {
         console.error('[IAP_VALIDATE] GOOGLE_PLAY_PACKAGE_NAME is not set', { requestId });
-        return jsonError(
-          500,
-          { error: 'Server misconfigured: Android receipt validation unavailable.' },
-          requestId,
-        );
+        throw new ApiError(500, 'server_misconfigured', 'Server misconfigured: Android receipt validation unavailable.');
       }
 
       if (packageName && packageName !== GOOGLE_PLAY_PACKAGE_NAME) {
-        return jsonError(400, { error: 'Invalid packageName' }, requestId);
+        throw new ApiError(400, 'invalid_request', 'Invalid packageName');
       }
 
       console.log('[IAP_VALIDATE] request', {
@@ -122,10 +75,6 @@ export async function POST(request: Request) {
         productId: requestedProductId,
       });
 
-      if (!db) {
-        throw new Error('Database connection not available');
-      }
-
       const tokenHash = createHash('sha256').update(receipt).digest('hex');
       const originalTransactionId = `google:token:${tokenHash}`;
 
@@ -135,32 +84,14 @@ export async function POST(request: Request) {
         .where(eq(subscriptions.originalTransactionId, originalTransactionId))
         .limit(1);
       if (existingForToken.length && existingForToken[0].userId !== userId) {
-        return jsonError(409, { error: 'Receipt already linked to another account.' }, requestId);
+        throw new ApiError(409, 'conflict', 'Receipt already linked to another account.');
       }
 
-      let googleStatus: {
-        currentPeriodStart: Date | null;
-        expiresAt: Date;
-        isTrial: boolean;
-        isActive: boolean;
-        autoRenewStatus: boolean;
-      };
-      try {
-        googleStatus = await validateGooglePlaySubscription({
-          packageName: GOOGLE_PLAY_PACKAGE_NAME,
-          subscriptionId: requestedProductId,
-          purchaseToken: receipt,
-        });
-      } catch (err: unknown) {
-        if (err instanceof GooglePlayValidationError) {
-          return jsonError(
-            err.status,
-            { error: err.message, retryable: err.retryable || undefined },
-            requestId,
-          );
-        }
-        throw err;
-      }
+      const googleStatus = await validateGooglePlaySubscription({
+        packageName: GOOGLE_PLAY_PACKAGE_NAME,
+        subscriptionId: requestedProductId,
+        purchaseToken: receipt,
+      });
 
       await db
         .insert(subscriptions)
@@ -207,24 +138,19 @@ export async function POST(request: Request) {
         },
         { status: 200 },
       );
-      res.headers.set('x-request-id', requestId);
       res.headers.set('cache-control', 'no-store');
-      return res;
+      return applyRateLimitHeaders(res, limit);
     }
 
     if (receipt.length > MAX_RECEIPT_LENGTH) {
-      return jsonError(413, { error: 'Receipt is too large' }, requestId);
+      throw new ApiError(413, 'payload_too_large', 'Receipt is too large');
     }
 
     console.log('[IAP_VALIDATE] request', { requestId, userId: mask(userId), platform, receiptLen: receipt.length });
 
     if (!SHARED_SECRET) {
       console.error('[IAP_VALIDATE] APPLE_SHARED_SECRET is not set', { requestId });
-      return jsonError(
-        500,
-        { error: 'Server misconfigured: receipt validation unavailable.' },
-        requestId,
-      );
+      throw new ApiError(500, 'server_misconfigured', 'Server misconfigured: receipt validation unavailable.');
     }
 
     // 1. Validate with Apple (Production first)
@@ -250,22 +176,13 @@ export async function POST(request: Request) {
       });
 
       if (isRetryableAppleStatus(appleResponse.status)) {
-        return jsonError(
-          503,
-          {
-            error: 'Receipt validation temporarily unavailable. Please try again.',
-            status: appleResponse.status,
-            retryable: true,
-          },
-          requestId,
-        );
+        throw new ApiError(503, 'store_unavailable', 'Receipt validation temporarily unavailable. Please try again.', {
+          status: appleResponse.status,
+          retryable: true,
+        });
       }
 
-      return jsonError(
-        400,
-        { error: 'Receipt validation failed', status: appleResponse.status },
-        requestId,
-      );
+      throw new ApiError(400, 'invalid_request', 'Receipt validation failed', { status: appleResponse.status });
     }
 
     // 3. Parse receipt info (pick the most recent transaction by expiry time)
@@ -275,7 +192,7 @@ export async function POST(request: Request) {
       return bMs - aMs;
     })[0];
     if (!latestReceiptInfo) {
-      return jsonError(400, { error: 'No receipt info found' }, requestId);
+      throw new ApiError(400, 'invalid_request', 'No receipt info found');
     }
 
     const expiresDateMs = parseInt(latestReceiptInfo.expires_date_ms, 10);
@@ -291,10 +208,6 @@ export async function POST(request: Request) {
       latestReceiptInfo.is_trial_period === 'true' || latestReceiptInfo.is_in_intro_offer_period === 'true';
     const isActive = expiresAt > new Date();
 
-    if (!db) {
-      throw new Error('Database connection not available');
-    }
-
     console.log('[IAP_VALIDATE] parsed', {
       requestId,
       userId: mask(userId),
@@ -313,7 +226,7 @@ export async function POST(request: Request) {
       .where(eq(subscriptions.originalTransactionId, originalTransactionId))
       .limit(1);
     if (existingForTransaction.length && existingForTransaction[0].userId !== userId) {
-      return jsonError(409, { error: 'Receipt already linked to another account.' }, requestId);
+      throw new ApiError(409, 'conflict', 'Receipt already linked to another account.');
     }
 
     // 4. Update Database
@@ -369,15 +282,10 @@ export async function POST(request: Request) {
       },
       { status: 200 },
     );
-    res.headers.set('x-request-id', requestId);
     res.headers.set('cache-control', 'no-store');
-    return res;
-
-  } catch (error: unknown) {
-    console.error('[IAP_VALIDATE] Error validating receipt', { requestId, error });
-    return jsonError(500, { error: 'Internal Server Error' }, requestId);
-  }
-}
+    return applyRateLimitHeaders(res, limit);
+  },
+);
 
 async function validateReceipt(receipt: string, url: string, attempt = 0): Promise<any> {
   try {
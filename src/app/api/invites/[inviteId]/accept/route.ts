@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { isInviteRecipient } from '@/lib/households/invites';
+import { redeemInvite } from '@/lib/households/redeemInvite';
+import { getVerifiedEmails } from '@/lib/requestAuth';
+import { getInvitesSelect } from '@/db/compat';
+import { invites } from '../../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Accepts a pending invitation addressed to one of the signed-in user's verified emails (see `pendingInvitations`
+ * in `/api/bootstrap`). Shareable link invites are redeemed by token instead.
+ */
+export const POST = apiRoute({ tag: 'INVITE_ACCEPT_POST' }, async ({ db, userId, params }) => {
+  const { inviteId: inviteIdRaw } = params;
+  const inviteId = validateUuid(inviteIdRaw);
+  if (!inviteId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const invitesSelect = await getInvitesSelect(db);
+  const [[invite], verifiedEmails] = await Promise.all([
+    db.select(invitesSelect).from(invites).where(eq(invites.id, inviteId)).limit(1),
+    getVerifiedEmails(userId),
+  ]);
+
+  // Someone else's invitation is indistinguishable from a missing one.
+  if (!invite || !invite.email || !isInviteRecipient(invite, verifiedEmails)) {
+    throw new ApiError(404, 'not_found', 'Invite not found');
+  }
+
+  const result = await redeemInvite(db, invite, { userId, verifiedEmails }, 'INVITE_ACCEPT_ACTIVITY');
+
+  const res = NextResponse.json({ success: true, householdId: result.householdId, role: result.role });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { getInviteStatus, isInviteRecipient } from '@/lib/households/invites';
+import { getVerifiedEmails } from '@/lib/requestAuth';
+import { getInvitesSelect } from '@/db/compat';
+import { invites } from '../../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { validateUuid } from '@/lib/validation';
+
+/**
+ * Declines a pending invitation addressed to one of the signed-in user's verified emails. The invite stays in the
+ * household's invite list as `declined` and can no longer be redeemed.
+ */
+export const POST = apiRoute({ tag: 'INVITE_DECLINE_POST' }, async ({ db, userId, params }) => {
+  const { inviteId: inviteIdRaw } = params;
+  const inviteId = validateUuid(inviteIdRaw);
+  if (!inviteId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const invitesSelect = await getInvitesSelect(db);
+  const [[invite], verifiedEmails] = await Promise.all([
+    db.select(invitesSelect).from(invites).where(eq(invites.id, inviteId)).limit(1),
+    getVerifiedEmails(userId),
+  ]);
+
+  // Someone else's invitation is indistinguishable from a missing one.
+  if (!invite || !invite.email || !isInviteRecipient(invite, verifiedEmails)) {
+    throw new ApiError(404, 'not_found', 'Invite not found');
+  }
+
+  if (getInviteStatus(invite) !== 'active') {
+    throw new ApiError(410, 'gone', 'This invite is no longer pending');
+  }
+
+  const declinedAt = new Date();
+  await db.update(invites).set({ declinedAt }).where(eq(invites.id, invite.id));
+
+  await recordActivity(
+    db,
+    { householdId: invite.householdId, actorId: userId, type: 'invite.declined', entityId: invite.id, metadata: { email: invite.email } },
+    'INVITE_DECLINE_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ success: true, declinedAt });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,98 +1,126 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../db';
-import { invites, household_members } from '../../../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createInviteBody } from '@/lib/api/schemas/invites';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { buildInviteUrl, getInviteStatus } from '@/lib/households/invites';
+import { canInviteWithRole, describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { sendMail } from '@/lib/mail/mailer';
+import { applyRateLimitHeaders, checkRateLimit, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+import { buildHouseholdInviteEmail } from '@/lib/mail/templates';
+import { getInvitesSelect, hasInviteEmailColumns, hasInviteManagementSchema, insertInviteCompat } from '@/db/compat';
+import { household_members, households, invites, users } from '../../../db/schema';
+import { and, eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { addDays } from 'date-fns';
-import { isBodyTooLarge, validateUuid } from '@/lib/validation';
+import { addHours } from 'date-fns';
 
-const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
-const RATE_LIMIT_MAX_PER_USER = 30;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
-
-function checkRateLimit(userId: string) {
-  const nowMs = Date.now();
-  const existing = rateLimitByUser.get(userId);
-  if (!existing || existing.resetAtMs <= nowMs) {
-    rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    return { allowed: true as const };
-  }
-  if (existing.count >= RATE_LIMIT_MAX_PER_USER) {
-    const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-    return { allowed: false as const, retryAfterSeconds };
+export const POST = apiRoute({ tag: 'INVITES_POST', json: { maxBytes: 10_000 }, body: createInviteBody }, async ({ db, userId, body }) => {
+  const limit = await checkRateLimit(db, 'invites.create', { userId });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
   }
-  existing.count += 1;
-  rateLimitByUser.set(userId, existing);
-  return { allowed: true as const };
-}
 
-export async function POST(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+  const { householdId, ...options } = body;
 
-    const limit = checkRateLimit(userId);
-    if (!limit.allowed) {
-      const res = new NextResponse('Too many requests. Please try again later.', { status: 429 });
-      res.headers.set('retry-after', String(limit.retryAfterSeconds));
-      return res;
-    }
+  // Viewers can't invite; everyone from member up can.
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'members.invite')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('members.invite'));
+  }
+  if (!canInviteWithRole(role, options.role)) {
+    throw new ApiError(403, 'forbidden', 'Only the household owner can invite an admin');
+  }
 
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
+  // Before add_invite_management.sql every invite is a member invite.
+  const managed = await hasInviteManagementSchema(db);
+  if (!managed && options.role !== 'member') {
+    throw new ApiError(400, 'invalid_request', 'Role-bound invites are not available yet');
+  }
 
-    if (isBodyTooLarge(req, 10_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
+  // Email invites need add_email_invites.sql, and one person only needs one pending invite.
+  if (options.email) {
+    if (!(await hasInviteEmailColumns(db))) {
+      throw new ApiError(400, 'invalid_request', 'Email invites are not available yet');
     }
 
-    const body = await req.json().catch(() => null);
-    const householdId = validateUuid((body as any)?.householdId);
-    if (!householdId) {
-      return new NextResponse('Invalid householdId', { status: 400 });
+    const existingMember = await db
+      .select({ id: household_members.id })
+      .from(household_members)
+      .innerJoin(users, eq(users.id, household_members.userId))
+      .where(and(eq(household_members.householdId, householdId), eq(users.email, options.email)))
+      .limit(1);
+    if (existingMember.length > 0) {
+      throw new ApiError(409, 'conflict', 'That person is already a member of this household');
     }
 
-    // Verify user is a member (or owner?) of the household
-    // Ideally only owners can invite? The original code didn't strictly enforce owner for creating invites, 
-    // but `removeMember` did. Let's enforce membership at least.
-    const userMembership = await db.select().from(household_members).where(
-        and(
-            eq(household_members.householdId, householdId),
-            eq(household_members.userId, userId)
-        )
-    );
-
-    if (userMembership.length === 0) {
-         return new NextResponse("You are not a member of this household", { status: 403 });
+    const invitesSelect = await getInvitesSelect(db);
+    const pending = await db
+      .select(invitesSelect)
+      .from(invites)
+      .where(and(eq(invites.householdId, householdId), eq(invites.email, options.email)));
+    if (pending.some((invite) => getInviteStatus(invite) === 'active')) {
+      throw new ApiError(409, 'conflict', 'There is already a pending invite for that email address');
     }
+  }
 
-    const token = uuidv4();
-    const expiresAt = addDays(new Date(), 2); // 48 hours
+  const token = uuidv4();
+  const expiresAt = addHours(new Date(), options.expiresInHours);
 
-    const newInvite = {
-        id: uuidv4(),
-        householdId,
-        token,
-        expiresAt,
-        usesLeft: null, // null = multi-use
-        createdBy: userId,
-        createdAt: new Date()
-    };
+  const newInvite = {
+    id: uuidv4(),
+    householdId,
+    token,
+    expiresAt,
+    usesLeft: options.maxUses, // null = multi-use
+    role: options.role,
+    email: options.email,
+    createdBy: userId,
+    createdAt: new Date()
+  };
 
-    await db.insert(invites).values(newInvite);
+  await insertInviteCompat(db, newInvite);
 
-    const webUrl = process.env.EXPO_PUBLIC_WEB_APP_URL || 'https://mealo.website';
-    const inviteUrl = `${webUrl}/invite/${token}`;
+  await recordActivity(
+    db,
+    { householdId, actorId: userId, type: 'invite.created', entityId: newInvite.id, metadata: { expiresAt, role: options.role, email: options.email } },
+    'INVITES_POST_ACTIVITY',
+  );
 
-    const res = NextResponse.json({ inviteUrl, expiresAt });
-    res.headers.set('cache-control', 'no-store');
-    return res;
+  const inviteUrl = buildInviteUrl(token);
 
-  } catch (error) {
-    console.error('[INVITES_POST]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+  let emailSent = false;
+  if (options.email) {
+    const [details] = await db
+      .select({ householdName: households.name, inviterName: users.name })
+      .from(households)
+      .leftJoin(users, eq(users.id, userId))
+      .where(eq(households.id, householdId))
+      .limit(1);
+    emailSent = await sendMail(
+      buildHouseholdInviteEmail({
+        to: options.email,
+        householdName: details?.householdName ?? 'a household',
+        inviterName: details?.inviterName ?? null,
+        role: options.role,
+        inviteUrl,
+        expiresAt,
+      }),
+      'INVITES_POST_MAIL',
+    );
   }
-}
+
+  const res = NextResponse.json({
+    id: newInvite.id,
+    inviteUrl,
+    expiresAt,
+    role: options.role,
+    usesLeft: options.maxUses,
+    email: options.email,
+    emailSent,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return applyRateLimitHeaders(res, limit);
+});
@@ -1,97 +1,73 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
 import { validateRecordId } from '@/lib/validation';
 import { ensureMealsNutritionColumn, getMealsSelect } from '@/db/compat';
-import { db } from '../../../../../../db';
-import { meals, household_members } from '../../../../../../db/schema';
-import { and, eq } from 'drizzle-orm';
+import { meals } from '../../../../../../db/schema';
+import { eq } from 'drizzle-orm';
 import {
   buildNutritionCacheKey,
   computeMealNutritionFromIngredients,
   hasIngredientQuantities,
 } from '@/lib/nutrition/computeMealNutrition';
-import { AiTimeoutError, AiValidationError, AiProviderError } from '@/lib/ai/generateMeal';
-import { canRecomputeNutritionForUser } from '@/lib/nutrition/recomputeRateLimit';
+import { AiValidationError } from '@/lib/ai/generateMeal';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
 
-export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) return new NextResponse('Unauthorized', { status: 401 });
-
-    if (!db) return new NextResponse('Database not configured', { status: 500 });
-
-    const hasNutrition = await ensureMealsNutritionColumn(db);
-    if (!hasNutrition) {
-      return NextResponse.json(
-        {
-          error: 'nutrition_unavailable',
-          message: 'Nutrition facts are not available yet.',
-        },
-        { status: 501 },
-      );
-    }
-
-    const { id: idRaw } = await params;
-    const id = validateRecordId(idRaw);
-    if (!id) return new NextResponse('Invalid id', { status: 400 });
+export const POST = apiRoute({ tag: 'MEAL_NUTRITION_RECOMPUTE' }, async ({ req, db, userId, params }) => {
+  const hasNutrition = await ensureMealsNutritionColumn(db);
+  if (!hasNutrition) {
+    throw new ApiError(501, 'nutrition_unavailable', 'Nutrition facts are not available yet.');
+  }
 
-    if (!canRecomputeNutritionForUser(userId)) {
-      const res = new NextResponse('Too many requests', { status: 429 });
-      res.headers.set('retry-after', '25');
-      return res;
-    }
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) throw new ApiError(400, 'invalid_request', 'Invalid id');
 
-    const mealsSelect = await getMealsSelect(db);
-    const mealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
-    const meal = mealRows[0];
-    if (!meal) return new NextResponse('Meal not found', { status: 404 });
+  const limit = await checkRateLimit(db, 'nutrition.recompute', { userId, ip: getClientIp(req) });
+  if (!limit.allowed) throw rateLimitError(limit);
 
-    const membership = await db
-      .select()
-      .from(household_members)
-      .where(and(eq(household_members.householdId, meal.householdId), eq(household_members.userId, userId)))
-      .limit(1);
+  const mealsSelect = await getMealsSelect(db);
+  const mealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
+  const meal = mealRows[0];
+  if (!meal) throw new ApiError(404, 'not_found', 'Meal not found');
 
-    if (membership.length === 0) return new NextResponse('Forbidden', { status: 403 });
+  const role = await getHouseholdRole(db, meal.householdId, userId);
+  if (!role) throw new ApiError(403, 'forbidden', 'Forbidden');
+  if (!hasHouseholdPermission(role, 'meals.edit')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('meals.edit'));
+  }
 
-    const ingredients = Array.isArray(meal.ingredients) ? meal.ingredients : [];
-    const hasSomeQuantity = hasIngredientQuantities(ingredients);
+  const ingredients = Array.isArray(meal.ingredients) ? meal.ingredients : [];
+  const hasSomeQuantity = hasIngredientQuantities(ingredients);
 
-    if (!hasSomeQuantity) {
-      return NextResponse.json(
-        {
-          error: 'missing_quantities',
-          message: 'Add ingredient quantities to calculate nutrition.',
-        },
-        { status: 422 },
-      );
-    }
+  if (!hasSomeQuantity) {
+    throw new ApiError(422, 'missing_quantities', 'Add ingredient quantities to calculate nutrition.');
+  }
 
-    const nutrition = await computeMealNutritionFromIngredients(
-      { mealName: meal.name, ingredients },
+  const servings = meal.servings ?? undefined;
+  let nutrition;
+  try {
+    nutrition = await computeMealNutritionFromIngredients(
+      { mealName: meal.name, ingredients, servings },
       {
-        cacheKey: buildNutritionCacheKey({ mealName: meal.name, ingredients }),
+        cacheKey: buildNutritionCacheKey({ mealName: meal.name, ingredients, servings }),
       },
     );
-
-    await db.update(meals).set({ nutrition }).where(eq(meals.id, id));
-
-    const res = NextResponse.json({ nutrition });
-    res.headers.set('cache-control', 'no-store');
-    return res;
   } catch (error) {
-    if (error instanceof AiTimeoutError) {
-      return NextResponse.json({ error: 'ai_timeout', message: error.message }, { status: 504 });
-    }
+    // Here a validation error means the meal itself lacks detail, not that the model misbehaved.
     if (error instanceof AiValidationError) {
-      const reason = typeof (error as any).nutritionReason === 'string' ? (error as any).nutritionReason : 'invalid';
-      const status = reason === 'missing_quantities' ? 422 : 400;
-      return NextResponse.json({ error: reason, message: error.message }, { status });
-    }
-    if (error instanceof AiProviderError) {
-      return NextResponse.json({ error: 'ai_provider', message: error.message }, { status: 502 });
+      const reason = (error as AiValidationError & { nutritionReason?: unknown }).nutritionReason;
+      if (reason === 'missing_quantities') throw new ApiError(422, 'missing_quantities', error.message);
+      if (reason === 'missing_ingredients') throw new ApiError(400, 'missing_ingredients', error.message);
+      throw new ApiError(400, 'invalid_request', error.message);
     }
-    console.error('[MEAL_NUTRITION_RECOMPUTE]', error);
-    return new NextResponse('Internal Error', { status: 500 });
+    throw error;
   }
-}
+
+  await db.update(meals).set({ nutrition }).where(eq(meals.id, id));
+
+  const res = NextResponse.json({ nutrition });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
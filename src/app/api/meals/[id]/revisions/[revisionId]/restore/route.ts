@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { restoreRevisionBody } from '@/lib/api/schemas/meals';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { parseExpectedVersion, snapshotToUpdate, updateMealWithRevision } from '@/lib/meals/revisions';
+import { getMealsColumnAvailability, getMealsSelect } from '@/db/compat';
+import { autoRecomputeAndPersistMealNutrition } from '@/lib/nutrition/recomputeWorkflow';
+import { mealRevisions, meals } from '../../../../../../../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { validateRecordId, validateUuid } from '@/lib/validation';
+
+/**
+ * Restores a revision by writing its content as a new version, so the restore itself can be undone.
+ * Send the meal's current `version` to guard against restoring over someone else's edit.
+ */
+export const POST = apiRoute({ tag: 'MEAL_REVISION_RESTORE', json: { maxBytes: 2_000 }, body: restoreRevisionBody }, async ({ db, userId, params, body }) => {
+  const { id: idRaw, revisionId: revisionIdRaw } = params;
+  const mealId = validateRecordId(idRaw);
+  const revisionId = validateUuid(revisionIdRaw);
+  if (!mealId || !revisionId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const expectedVersion = parseExpectedVersion(body);
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  if (!mealsColumns.versioning) {
+    throw new ApiError(404, 'not_found', 'Revision not found');
+  }
+
+  const mealsSelect = await getMealsSelect(db);
+  const [meal] = await db.select(mealsSelect).from(meals).where(eq(meals.id, mealId)).limit(1);
+  if (!meal) {
+    throw new ApiError(404, 'not_found', 'Meal not found');
+  }
+
+  const role = await getHouseholdRole(db, meal.householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'meals.edit')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('meals.edit'));
+  }
+
+  const [revision] = await db
+    .select({ version: mealRevisions.version, snapshot: mealRevisions.snapshot })
+    .from(mealRevisions)
+    .where(and(eq(mealRevisions.id, revisionId), eq(mealRevisions.mealId, mealId)))
+    .limit(1);
+  if (!revision) {
+    throw new ApiError(404, 'not_found', 'Revision not found');
+  }
+  if (revision.version === meal.version) {
+    throw new ApiError(400, 'invalid_request', 'This revision is already the current version');
+  }
+
+  const updateData = snapshotToUpdate(revision.snapshot, mealsColumns);
+  const result = await updateMealWithRevision(db, {
+    current: meal,
+    updateData,
+    userId,
+    expectedVersion,
+    restoredFromVersion: revision.version,
+  });
+
+  if (mealsColumns.nutrition && updateData.ingredients !== undefined) {
+    await autoRecomputeAndPersistMealNutrition({
+      db,
+      mealId,
+      mealName: updateData.name ?? meal.name,
+      ingredients: updateData.ingredients,
+      servings: updateData.servings ?? meal.servings ?? undefined,
+      loggerTag: 'MEAL_REVISION_RESTORE_NUTRITION',
+    });
+  }
+
+  await recordActivity(
+    db,
+    {
+      householdId: meal.householdId,
+      actorId: userId,
+      type: 'meal.restored',
+      entityId: mealId,
+      metadata: { mealName: updateData.name ?? meal.name, version: result.version, restoredFromVersion: revision.version },
+    },
+    'MEAL_REVISION_RESTORE_ACTIVITY',
+  );
+
+  const [restored] = await db.select(mealsSelect).from(meals).where(eq(meals.id, mealId)).limit(1);
+
+  const res = NextResponse.json({ ...restored, version: result.version, restoredFromVersion: revision.version });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { diffRevisionSnapshots, type MealRevisionSnapshot } from '@/lib/meals/revisions';
+import { getMealsColumnAvailability } from '@/db/compat';
+import { household_members, mealRevisions, meals, users } from '../../../../../db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { validateRecordId } from '@/lib/validation';
+
+/**
+ * Lists a meal's revisions, newest first, with the fields each one changed.
+ */
+export const GET = apiRoute({ tag: 'MEAL_REVISIONS_GET' }, async ({ db, userId, params }) => {
+  const { id: idRaw } = params;
+  const mealId = validateRecordId(idRaw);
+  if (!mealId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  const [meal] = await db.select({ householdId: meals.householdId }).from(meals).where(eq(meals.id, mealId)).limit(1);
+  if (!meal) {
+    throw new ApiError(404, 'not_found', 'Meal not found');
+  }
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, meal.householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const rows = mealsColumns.versioning
+    ? await db
+        .select({
+          id: mealRevisions.id,
+          version: mealRevisions.version,
+          snapshot: mealRevisions.snapshot,
+          editedBy: mealRevisions.editedBy,
+          editorName: users.name,
+          restoredFromVersion: mealRevisions.restoredFromVersion,
+          createdAt: mealRevisions.createdAt,
+        })
+        .from(mealRevisions)
+        .leftJoin(users, eq(users.id, mealRevisions.editedBy))
+        .where(eq(mealRevisions.mealId, mealId))
+        .orderBy(asc(mealRevisions.version))
+    : [];
+
+  const revisions = rows.map((row, index) => ({
+    ...row,
+    changedFields: diffRevisionSnapshots(
+      index > 0 ? (rows[index - 1].snapshot as MealRevisionSnapshot) : null,
+      row.snapshot as MealRevisionSnapshot,
+    ),
+  }));
+
+  const res = NextResponse.json(revisions.reverse());
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
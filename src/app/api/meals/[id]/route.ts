@@ -1,21 +1,27 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { mealQuery, updateMealBody } from '@/lib/api/schemas/meals';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
 import { recordIngredientUsage } from '@/lib/ingredients';
-import { normalizeCuisine, normalizeIngredients, normalizeMealName } from '@/lib/normalizeMeal';
+import { removeMealFromPlanTemplates } from '@/lib/plans/templates';
+import { normalizeIngredients, normalizeMealName } from '@/lib/normalizeMeal';
 import {
-  isBodyTooLarge,
   normalizeWhitespace,
   sanitizeStringArray,
   stripControlChars,
-  validateMealName,
   validateRecordId,
+  validateServings,
   validateUuid,
 } from '@/lib/validation';
-import { getMealsColumnAvailability, getMealsSelect } from '@/db/compat';
+import { parseMealTimingFields } from '@/lib/meals/timing';
+import { parseExpectedVersion, touchesRevisionFields, updateMealWithRevision } from '@/lib/meals/revisions';
+import { getMealsColumnAvailability, getMealsSelect, hasCookingHistoryTable, hasPlanTemplatesTable } from '@/db/compat';
 import { autoRecomputeAndPersistMealNutrition } from '@/lib/nutrition/recomputeWorkflow';
-import { db } from '../../../../db';
-import { meals, household_members, plans } from '../../../../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { scaleIngredients, scaleNutrition } from '@/lib/units/scaleRecipe';
+import { cookingHistory, meals, household_members, plans } from '../../../../db/schema';
+import { eq, and, count, max } from 'drizzle-orm';
 
 const MAX_INGREDIENTS = 100;
 const MAX_INSTRUCTIONS = 60;
@@ -94,219 +100,242 @@ function sanitizeIngredients(input: unknown): Array<Record<string, unknown>> {
   return out;
 }
 
-export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-
-    const mealsSelect = await getMealsSelect(db);
-    const mealsColumns = await getMealsColumnAvailability(db);
+export const GET = apiRoute({ tag: 'MEAL_GET', query: mealQuery }, async ({ db, userId, params, query }) => {
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
 
-    const { id: idRaw } = await params;
-    const id = validateRecordId(idRaw);
-    if (!id) {
-      return new NextResponse("Invalid id", { status: 400 });
-    }
+  const targetServings = query.servings ?? null;
 
-    if (isBodyTooLarge(req, 200_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
+  const mealsSelect = await getMealsSelect(db);
+  const mealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
+  const meal = mealRows[0];
+  if (!meal) {
+    throw new ApiError(404, 'not_found', 'Meal not found');
+  }
 
-    const body = await req.json().catch(() => null);
-    if (!body || typeof body !== 'object') {
-      return new NextResponse('Invalid JSON body', { status: 400 });
-    }
+  const membershipRows = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, meal.householdId), eq(household_members.userId, userId)));
 
-    // 1. Fetch meal to check household ownership
-    const meal = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
-    if (meal.length === 0) {
-        return new NextResponse("Meal not found", { status: 404 });
-    }
-    const householdId = meal[0].householdId;
-
-    // 2. Verify membership
-    const userMembership = await db.select().from(household_members).where(
-        and(
-            eq(household_members.householdId, householdId),
-            eq(household_members.userId, userId)
-        )
-    );
+  if (membershipRows.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
 
-    if (userMembership.length === 0) {
-         return new NextResponse("You are not a member of this household", { status: 403 });
-    }
+  const [cooked] = (await hasCookingHistoryTable(db))
+    ? await db
+        .select({ lastCookedOn: max(cookingHistory.cookedOn), timesCooked: count() })
+        .from(cookingHistory)
+        .where(eq(cookingHistory.mealId, id))
+    : [];
+  const cookingStats = { lastCookedOn: cooked?.lastCookedOn ?? null, timesCooked: cooked?.timesCooked ?? 0 };
 
-    // 3. Update meal
-    // Extract allowed fields
-    const { name, description, ingredients, instructions, image, cuisine, rating, isFavorite, userNotes, sourceUrl } =
-      body as Partial<typeof meals.$inferInsert>;
-    const updateData: Partial<typeof meals.$inferInsert> = {};
-    
-    if (name !== undefined) {
-      const cleanedName = validateMealName(name);
-      if (!cleanedName) return new NextResponse('Invalid name', { status: 400 });
-      updateData.name = normalizeMealName(cleanedName) ?? cleanedName;
-    }
+  if (targetServings == null) {
+    const res = NextResponse.json({ ...meal, ...cookingStats });
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  }
 
-    if (description !== undefined) {
-      if (typeof description !== 'string') return new NextResponse('Invalid description', { status: 400 });
-      updateData.description = stripControlChars(description).trim().slice(0, 280);
-    }
+  // Fall back to the servings the nutrition was computed for when the meal predates the servings column.
+  const nutritionServings = (meal.nutrition as { servings?: unknown } | null)?.servings;
+  const baseServings = validateServings(meal.servings) ?? validateServings(nutritionServings);
+  if (!baseServings) {
+    throw new ApiError(422, 'missing_servings', 'Set how many servings this recipe makes before scaling it.');
+  }
 
-    if (ingredients !== undefined) {
-      if (!Array.isArray(ingredients)) return new NextResponse('Invalid ingredients', { status: 400 });
-      updateData.ingredients = sanitizeIngredients(normalizeIngredients(ingredients));
-    }
+  const scaleFactor = targetServings / baseServings;
+  const nutrition = scaleNutrition(meal.nutrition, baseServings, targetServings);
+
+  const res = NextResponse.json({
+    ...meal,
+    ...cookingStats,
+    ingredients: scaleIngredients(meal.ingredients, scaleFactor),
+    servings: targetServings,
+    baseServings,
+    scaleFactor,
+    nutrition: nutrition?.total ?? null,
+    nutritionPerServing: nutrition?.perServing ?? null,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+export const PUT = apiRoute({ tag: 'MEAL_PUT', json: { maxBytes: 200_000 }, body: updateMealBody }, async ({ db, userId, params, body }) => {
+  const mealsSelect = await getMealsSelect(db);
+  const mealsColumns = await getMealsColumnAvailability(db);
+
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
 
-    if (instructions !== undefined) {
-      updateData.instructions = sanitizeStringArray(instructions, { maxItems: MAX_INSTRUCTIONS, maxItemLength: 400 });
-    }
+  // 1. Fetch meal to check household ownership
+  const meal = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
+  if (meal.length === 0) {
+    throw new ApiError(404, 'not_found', 'Meal not found');
+  }
+  const householdId = meal[0].householdId;
 
-    if (image !== undefined) {
-      if (image == null) {
-        updateData.image = null;
-      } else if (typeof image === 'string') {
-        const cleaned = stripControlChars(image).trim().slice(0, 2048);
-        updateData.image = cleaned || null;
-      } else {
-        return new NextResponse('Invalid image', { status: 400 });
-      }
-    }
+  // 2. Verify membership
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'meals.edit')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('meals.edit'));
+  }
 
-    if (cuisine !== undefined) {
-      if (cuisine == null) {
-        updateData.cuisine = null;
-      } else if (typeof cuisine === 'string') {
-        const cleaned = normalizeWhitespace(stripControlChars(cuisine)).slice(0, 60);
-        updateData.cuisine = cleaned ? normalizeCuisine(cleaned) ?? cleaned : null;
-      } else {
-        return new NextResponse('Invalid cuisine', { status: 400 });
-      }
-    }
+  // 3. Update meal. The schema keeps only the allowed fields that were sent.
+  const {
+    ingredients,
+    instructions,
+    sourceUrl,
+    servings,
+    tags,
+    prepTimeMinutes,
+    cookTimeMinutes,
+    totalTimeMinutes,
+    difficulty,
+    version: expectedVersion,
+    ...fields
+  } = body;
+  const updateData: Partial<typeof meals.$inferInsert> = { ...fields };
+
+  if (ingredients !== undefined) {
+    updateData.ingredients = sanitizeIngredients(normalizeIngredients(ingredients));
+  }
 
-    if (rating !== undefined) {
-      if (rating == null) {
-        updateData.rating = null;
-      } else if (typeof rating === 'number' && Number.isFinite(rating)) {
-        updateData.rating = Math.max(0, Math.min(5, rating));
-      } else {
-        return new NextResponse('Invalid rating', { status: 400 });
-      }
-    }
+  if (instructions !== undefined) {
+    updateData.instructions = sanitizeStringArray(instructions, { maxItems: MAX_INSTRUCTIONS, maxItemLength: 400 });
+  }
 
-    if (isFavorite !== undefined) {
-      if (typeof isFavorite !== 'boolean') return new NextResponse('Invalid isFavorite', { status: 400 });
-      updateData.isFavorite = isFavorite;
-    }
+  if (sourceUrl !== undefined) {
+    const cleaned = sanitizeSourceUrl(sourceUrl);
+    if (cleaned === undefined) throw new ApiError(400, 'invalid_request', 'Invalid sourceUrl');
+    if (mealsColumns.sourceUrl) updateData.sourceUrl = cleaned;
+  }
 
-    if (userNotes !== undefined) {
-      if (userNotes == null) {
-        updateData.userNotes = null;
-      } else if (typeof userNotes === 'string') {
-        const cleaned = stripControlChars(userNotes).trim().slice(0, 2000);
-        updateData.userNotes = cleaned || null;
-      } else {
-        return new NextResponse('Invalid userNotes', { status: 400 });
-      }
-    }
+  if (servings !== undefined && mealsColumns.servings) updateData.servings = servings;
+  if (tags !== undefined && mealsColumns.tags) updateData.tags = tags;
 
-    if (sourceUrl !== undefined) {
-      const cleaned = sanitizeSourceUrl(sourceUrl);
-      if (cleaned === undefined) return new NextResponse('Invalid sourceUrl', { status: 400 });
-      if (mealsColumns.sourceUrl) updateData.sourceUrl = cleaned;
-    }
+  const timing = parseMealTimingFields({ prepTimeMinutes, cookTimeMinutes, totalTimeMinutes, difficulty });
+  if (mealsColumns.timing) Object.assign(updateData, timing);
 
-    if (Object.keys(updateData).length === 0) {
-        return new NextResponse("No valid fields to update", { status: 400 });
-    }
+  if (Object.keys(updateData).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
 
+  let version = meal[0].version;
+  let updatedAt = meal[0].updatedAt;
+  if (mealsColumns.versioning && touchesRevisionFields(updateData)) {
+    ({ version, updatedAt } = await updateMealWithRevision(db, {
+      current: meal[0],
+      updateData,
+      userId,
+      expectedVersion: parseExpectedVersion({ version: expectedVersion }),
+    }));
+  } else {
     await db.update(meals).set(updateData).where(eq(meals.id, id));
-
-    if (updateData.ingredients !== undefined) {
-      try {
-        await recordIngredientUsage(db, userId, updateData.ingredients);
-      } catch (error) {
-        console.error('[MEAL_PUT_INGREDIENT_USAGE]', error);
-      }
-
-      if (mealsColumns.nutrition) {
-        await autoRecomputeAndPersistMealNutrition({
-          db,
-          mealId: id,
-          mealName: typeof updateData.name === 'string' ? updateData.name : meal[0].name,
-          ingredients: updateData.ingredients,
-          loggerTag: 'MEAL_PUT_NUTRITION',
-        });
-      }
-    }
-
-    const res = NextResponse.json({ success: true });
-    res.headers.set('cache-control', 'no-store');
-    return res;
-
-  } catch (error) {
-    console.error('[MEAL_PUT]', error);
-    return new NextResponse("Internal Error", { status: 500 });
   }
-}
 
-export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse('Unauthorized', { status: 401 });
+  if (updateData.ingredients !== undefined) {
+    try {
+      await recordIngredientUsage(db, userId, updateData.ingredients);
+    } catch (error) {
+      console.error('[MEAL_PUT_INGREDIENT_USAGE]', error);
     }
 
-    if (!db) {
-      return new NextResponse('Database not configured', { status: 500 });
+    if (mealsColumns.nutrition) {
+      await autoRecomputeAndPersistMealNutrition({
+        db,
+        mealId: id,
+        mealName: typeof updateData.name === 'string' ? updateData.name : meal[0].name,
+        ingredients: updateData.ingredients,
+        servings: updateData.servings ?? meal[0].servings ?? undefined,
+        loggerTag: 'MEAL_PUT_NUTRITION',
+      });
     }
+  }
 
-    const mealsSelect = await getMealsSelect(db);
+  // Rating and favorite toggles are personal preferences, not edits worth showing the household.
+  if (touchesRevisionFields(updateData)) {
+    await recordActivity(
+      db,
+      {
+        householdId,
+        actorId: userId,
+        type: 'meal.updated',
+        entityId: id,
+        metadata: {
+          mealName: typeof updateData.name === 'string' ? updateData.name : meal[0].name,
+          changedFields: Object.keys(updateData),
+          version,
+        },
+      },
+      'MEAL_PUT_ACTIVITY',
+    );
+  }
 
-    const { id: idRaw } = await params;
-    const id = validateRecordId(idRaw);
-    if (!id) {
-      return new NextResponse('Invalid id', { status: 400 });
-    }
+  const res = NextResponse.json({ success: true, version, updatedAt });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
 
-    const mealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
-    if (mealRows.length === 0) {
-      return new NextResponse('Meal not found', { status: 404 });
-    }
+export const DELETE = apiRoute({ tag: 'MEAL_DELETE' }, async ({ db, userId, params }) => {
+  const mealsSelect = await getMealsSelect(db);
 
-    const meal = mealRows[0];
-    const householdId = meal.householdId;
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
 
-    const membershipRows = await db
-      .select()
-      .from(household_members)
-      .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)));
+  const mealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
+  if (mealRows.length === 0) {
+    throw new ApiError(404, 'not_found', 'Meal not found');
+  }
 
-    if (membershipRows.length === 0) {
-      return new NextResponse('You are not a member of this household', { status: 403 });
-    }
+  const meal = mealRows[0];
+  const householdId = meal.householdId;
 
-    const role = membershipRows[0].role;
-    const canDelete = role === 'owner' || meal.createdBy === userId;
-    if (!canDelete) {
-      return new NextResponse('Only the recipe creator or household owner can delete this meal', { status: 403 });
-    }
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
 
-    // Plans reference meals via a FK. Delete dependent plans first.
-    await db.delete(plans).where(eq(plans.mealId, id));
-    await db.delete(meals).where(eq(meals.id, id));
+  const canDelete =
+    hasHouseholdPermission(role, 'meals.deleteAny') ||
+    (meal.createdBy === userId && hasHouseholdPermission(role, 'meals.deleteOwn'));
+  if (!canDelete) {
+    throw new ApiError(403, 'forbidden', 'Only the recipe creator or a household owner or admin can delete this meal');
+  }
 
-    const res = NextResponse.json({ success: true });
-    res.headers.set('cache-control', 'no-store');
-    return res;
-  } catch (error) {
-    console.error('[MEAL_DELETE]', error);
-    return new NextResponse('Internal Error', { status: 500 });
+  // Templates would otherwise keep planning the deleted meal (and fail on the FK below).
+  if (await hasPlanTemplatesTable(db)) {
+    await removeMealFromPlanTemplates(db, id);
   }
-}
+
+  // Plans reference meals via a FK. Delete dependent plans first.
+  const deletedPlans = await db.delete(plans).where(eq(plans.mealId, id)).returning({ id: plans.id });
+  await db.delete(meals).where(eq(meals.id, id));
+
+  await recordActivity(
+    db,
+    {
+      householdId,
+      actorId: userId,
+      type: 'meal.deleted',
+      entityId: id,
+      metadata: { mealName: meal.name, createdBy: meal.createdBy, plansRemoved: deletedPlans.length },
+    },
+    'MEAL_DELETE_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
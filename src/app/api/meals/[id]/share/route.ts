@@ -1,17 +1,14 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { applyRateLimitHeaders, checkRateLimit, rateLimitError } from '@/lib/rateLimit/rateLimiter';
 import { isBodyTooLarge, validateRecordId } from '@/lib/validation';
 import { getMealsSelect } from '@/db/compat';
-import { db } from '@/db';
 import { globalMeals, household_members, mealShares, meals } from '@/db/schema';
 import { and, eq } from 'drizzle-orm';
 import { addDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 
-const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
-const RATE_LIMIT_MAX_PER_USER = 30;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
-
 type ShareSnapshot = {
   name: string;
   description: string | null;
@@ -20,24 +17,9 @@ type ShareSnapshot = {
   image: string | null;
   cuisine: string | null;
   sourceUrl: string | null;
+  tags: string[];
 };
 
-function checkRateLimit(userId: string) {
-  const nowMs = Date.now();
-  const existing = rateLimitByUser.get(userId);
-  if (!existing || existing.resetAtMs <= nowMs) {
-    rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    return { allowed: true as const };
-  }
-  if (existing.count >= RATE_LIMIT_MAX_PER_USER) {
-    const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-    return { allowed: false as const, retryAfterSeconds };
-  }
-  existing.count += 1;
-  rateLimitByUser.set(userId, existing);
-  return { allowed: true as const };
-}
-
 function toSnapshot(payload: {
   name: unknown;
   description: unknown;
@@ -46,6 +28,7 @@ function toSnapshot(payload: {
   image: unknown;
   cuisine: unknown;
   sourceUrl?: unknown;
+  tags?: unknown;
 }): ShareSnapshot {
   return {
     name: typeof payload.name === 'string' ? payload.name.trim() : '',
@@ -55,6 +38,7 @@ function toSnapshot(payload: {
     image: typeof payload.image === 'string' ? payload.image.trim() || null : null,
     cuisine: typeof payload.cuisine === 'string' ? payload.cuisine.trim() || null : null,
     sourceUrl: typeof payload.sourceUrl === 'string' ? payload.sourceUrl.trim() || null : null,
+    tags: Array.isArray(payload.tags) ? payload.tags.filter((tag): tag is string => typeof tag === 'string') : [],
   };
 }
 
@@ -63,118 +47,103 @@ function buildShareUrl(token: string): string {
   return `${base}/recipe/${encodeURIComponent(token)}`;
 }
 
-export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse('Unauthorized', { status: 401 });
-    }
+export const POST = apiRoute({ tag: 'MEAL_SHARE_POST' }, async ({ req, db, userId, params }) => {
+  const limit = await checkRateLimit(db, 'meals.share', { userId });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
+  }
 
-    const limit = checkRateLimit(userId);
-    if (!limit.allowed) {
-      const res = new NextResponse('Too many requests. Please try again later.', { status: 429 });
-      res.headers.set('retry-after', String(limit.retryAfterSeconds));
-      return res;
-    }
+  if (isBodyTooLarge(req, 10_000)) {
+    throw new ApiError(413, 'payload_too_large', 'Payload too large');
+  }
 
-    if (!db) {
-      return new NextResponse('Database not configured', { status: 500 });
-    }
+  const { id: idRaw } = params;
+  const mealId = validateRecordId(idRaw);
+  if (!mealId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid meal id');
+  }
 
-    if (isBodyTooLarge(req, 10_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
+  const mealsSelect = await getMealsSelect(db);
 
-    const { id: idRaw } = await params;
-    const mealId = validateRecordId(idRaw);
-    if (!mealId) {
-      return new NextResponse('Invalid meal id', { status: 400 });
-    }
+  let sourceMealId: string | null = null;
+  let sourceGlobalMealId: string | null = null;
+  let sourceHouseholdId: string | null = null;
+  let snapshot: ShareSnapshot | null = null;
 
-    const mealsSelect = await getMealsSelect(db);
-
-    let sourceMealId: string | null = null;
-    let sourceGlobalMealId: string | null = null;
-    let sourceHouseholdId: string | null = null;
-    let snapshot: ShareSnapshot | null = null;
-
-    const householdMealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, mealId)).limit(1);
-    if (householdMealRows.length > 0) {
-      const sourceMeal = householdMealRows[0];
-      const memberRows = await db
-        .select({ id: household_members.id })
-        .from(household_members)
-        .where(and(eq(household_members.householdId, sourceMeal.householdId), eq(household_members.userId, userId)))
-        .limit(1);
-
-      if (memberRows.length === 0) {
-        return new NextResponse('You are not allowed to share this recipe', { status: 403 });
-      }
-
-      sourceMealId = sourceMeal.id;
-      sourceHouseholdId = sourceMeal.householdId;
-      snapshot = toSnapshot({
-        name: sourceMeal.name,
-        description: sourceMeal.description,
-        ingredients: sourceMeal.ingredients,
-        instructions: sourceMeal.instructions,
-        image: sourceMeal.image,
-        cuisine: sourceMeal.cuisine,
-        sourceUrl: sourceMeal.sourceUrl,
-      });
-    }
+  const householdMealRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, mealId)).limit(1);
+  if (householdMealRows.length > 0) {
+    const sourceMeal = householdMealRows[0];
+    const memberRows = await db
+      .select({ id: household_members.id })
+      .from(household_members)
+      .where(and(eq(household_members.householdId, sourceMeal.householdId), eq(household_members.userId, userId)))
+      .limit(1);
 
-    if (!snapshot) {
-      const globalRows = await db
-        .select({
-          id: globalMeals.id,
-          name: globalMeals.name,
-          description: globalMeals.description,
-          ingredients: globalMeals.ingredients,
-          instructions: globalMeals.instructions,
-          image: globalMeals.image,
-          cuisine: globalMeals.cuisine,
-        })
-        .from(globalMeals)
-        .where(eq(globalMeals.id, mealId))
-        .limit(1);
-
-      if (globalRows.length === 0) {
-        return new NextResponse('Recipe not found', { status: 404 });
-      }
-
-      sourceGlobalMealId = globalRows[0].id;
-      snapshot = toSnapshot(globalRows[0]);
+    if (memberRows.length === 0) {
+      throw new ApiError(403, 'forbidden', 'You are not allowed to share this recipe');
     }
 
-    if (!snapshot || !snapshot.name) {
-      return new NextResponse('Recipe could not be shared', { status: 400 });
+    sourceMealId = sourceMeal.id;
+    sourceHouseholdId = sourceMeal.householdId;
+    snapshot = toSnapshot({
+      name: sourceMeal.name,
+      description: sourceMeal.description,
+      ingredients: sourceMeal.ingredients,
+      instructions: sourceMeal.instructions,
+      image: sourceMeal.image,
+      cuisine: sourceMeal.cuisine,
+      sourceUrl: sourceMeal.sourceUrl,
+      tags: sourceMeal.tags,
+    });
+  }
+
+  if (!snapshot) {
+    const globalRows = await db
+      .select({
+        id: globalMeals.id,
+        name: globalMeals.name,
+        description: globalMeals.description,
+        ingredients: globalMeals.ingredients,
+        instructions: globalMeals.instructions,
+        image: globalMeals.image,
+        cuisine: globalMeals.cuisine,
+      })
+      .from(globalMeals)
+      .where(eq(globalMeals.id, mealId))
+      .limit(1);
+
+    if (globalRows.length === 0) {
+      throw new ApiError(404, 'not_found', 'Recipe not found');
     }
 
-    const token = uuidv4();
-    const expiresAt = addDays(new Date(), 30);
-
-    await db.insert(mealShares).values({
-      id: uuidv4(),
-      token,
-      createdBy: userId,
-      sourceMealId,
-      sourceGlobalMealId,
-      sourceHouseholdId,
-      snapshot,
-      expiresAt,
-      createdAt: new Date(),
-    });
+    sourceGlobalMealId = globalRows[0].id;
+    snapshot = toSnapshot(globalRows[0]);
+  }
 
-    const res = NextResponse.json({
-      token,
-      shareUrl: buildShareUrl(token),
-      expiresAt,
-    });
-    res.headers.set('cache-control', 'no-store');
-    return res;
-  } catch (error) {
-    console.error('[MEAL_SHARE_POST]', error);
-    return new NextResponse('Internal Error', { status: 500 });
+  if (!snapshot || !snapshot.name) {
+    throw new ApiError(400, 'invalid_request', 'Recipe could not be shared');
   }
-}
+
+  const token = uuidv4();
+  const expiresAt = addDays(new Date(), 30);
+
+  await db.insert(mealShares).values({
+    id: uuidv4(),
+    token,
+    createdBy: userId,
+    sourceMealId,
+    sourceGlobalMealId,
+    sourceHouseholdId,
+    snapshot,
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  const res = NextResponse.json({
+    token,
+    shareUrl: buildShareUrl(token),
+    expiresAt,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return applyRateLimitHeaders(res, limit);
+});
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updateGlobalMealBody } from '@/lib/api/schemas/meals';
+import { hasGlobalMealCollection } from '@/lib/globalMeals/catalog';
+import { isGlobalMealsAdmin, toLibraryUpdate } from '@/lib/globalMeals/library';
+import { getGlobalMealsSelect, hasGlobalMealLibrarySchema } from '@/db/compat';
+import { globalMeals } from '../../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { validateRecordId } from '@/lib/validation';
+
+/**
+ * Edits a global meal. `{ "retired": false }` brings a retired meal back. Library admins only.
+ */
+export const PATCH = apiRoute({ tag: 'GLOBAL_MEAL_PATCH', json: { maxBytes: 200_000 }, body: updateGlobalMealBody }, async ({ db, userId, params, body: fields }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  if (fields.collection && !(await hasGlobalMealCollection(db, fields.collection))) {
+    throw new ApiError(400, 'invalid_request', 'Unknown collection');
+  }
+
+  const updated = await db
+    .update(globalMeals)
+    .set(toLibraryUpdate(fields, new Date()))
+    .where(eq(globalMeals.id, id))
+    .returning({ id: globalMeals.id });
+  if (updated.length === 0) {
+    throw new ApiError(404, 'not_found', 'Global meal not found');
+  }
+
+  const globalMealsSelect = await getGlobalMealsSelect(db);
+  const [meal] = await db.select(globalMealsSelect).from(globalMeals).where(eq(globalMeals.id, id)).limit(1);
+
+  const res = NextResponse.json({ ...meal, isPredefined: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Retires a global meal: it leaves the library, but households that already imported it keep
+ * their copy. Library admins only.
+ */
+export const DELETE = apiRoute({ tag: 'GLOBAL_MEAL_DELETE' }, async ({ db, userId, params }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+  const { id: idRaw } = params;
+  const id = validateRecordId(idRaw);
+  if (!id) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  const now = new Date();
+  const retired = await db
+    .update(globalMeals)
+    .set(toLibraryUpdate({ retired: true }, now))
+    .where(eq(globalMeals.id, id))
+    .returning({ id: globalMeals.id });
+  if (retired.length === 0) {
+    throw new ApiError(404, 'not_found', 'Global meal not found');
+  }
+
+  const res = NextResponse.json({ success: true, retiredAt: now });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updateGlobalCollectionBody } from '@/lib/api/schemas/meals';
+import { hasGlobalMealCollection } from '@/lib/globalMeals/catalog';
+import { isGlobalMealsAdmin, toLibraryUpdate } from '@/lib/globalMeals/library';
+import { hasGlobalMealLibrarySchema } from '@/db/compat';
+import { globalMealCollections, globalMeals } from '../../../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { validateRecordId } from '@/lib/validation';
+
+/**
+ * Edits a collection. Renaming moves its meals along with it; `{ "retired": false }` brings a
+ * retired collection back. Library admins only.
+ */
+export const PATCH = apiRoute({ tag: 'GLOBAL_MEAL_COLLECTION_PATCH', json: { maxBytes: 20_000 }, body: updateGlobalCollectionBody }, async ({ db, userId, params, body: fields }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+  const { collectionId: collectionIdRaw } = params;
+  const collectionId = validateRecordId(collectionIdRaw);
+  if (!collectionId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  const [current] = await db
+    .select({ name: globalMealCollections.name })
+    .from(globalMealCollections)
+    .where(eq(globalMealCollections.id, collectionId))
+    .limit(1);
+  if (!current) {
+    throw new ApiError(404, 'not_found', 'Collection not found');
+  }
+
+  const nextName = fields.name;
+  const renamed = nextName !== undefined && nextName !== current.name;
+  if (renamed && (await hasGlobalMealCollection(db, nextName))) {
+    throw new ApiError(409, 'conflict', 'A collection with that name already exists');
+  }
+
+  const now = new Date();
+  const queries: BatchItem<'pg'>[] = [
+    db.update(globalMealCollections).set(toLibraryUpdate(fields, now)).where(eq(globalMealCollections.id, collectionId)),
+  ];
+  if (renamed) {
+    queries.push(
+      db.update(globalMeals).set({ collection: nextName, updatedAt: now }).where(eq(globalMeals.collection, current.name)),
+    );
+  }
+  const [first, ...rest] = queries;
+  await db.batch([first, ...rest]);
+
+  const [collection] = await db
+    .select()
+    .from(globalMealCollections)
+    .where(eq(globalMealCollections.id, collectionId))
+    .limit(1);
+
+  const res = NextResponse.json(collection);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Retires a collection, which also hides its meals from the library. Library admins only.
+ */
+export const DELETE = apiRoute({ tag: 'GLOBAL_MEAL_COLLECTION_DELETE' }, async ({ db, userId, params }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+  const { collectionId: collectionIdRaw } = params;
+  const collectionId = validateRecordId(collectionIdRaw);
+  if (!collectionId) {
+    throw new ApiError(400, 'invalid_request', 'Invalid id');
+  }
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  const now = new Date();
+  const retired = await db
+    .update(globalMealCollections)
+    .set(toLibraryUpdate({ retired: true }, now))
+    .where(eq(globalMealCollections.id, collectionId))
+    .returning({ id: globalMealCollections.id });
+  if (retired.length === 0) {
+    throw new ApiError(404, 'not_found', 'Collection not found');
+  }
+
+  const res = NextResponse.json({ success: true, retiredAt: now });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
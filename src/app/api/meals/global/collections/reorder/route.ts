@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { reorderBody } from '@/lib/api/schemas/meals';
+import { isGlobalMealsAdmin } from '@/lib/globalMeals/library';
+import { hasGlobalMealLibrarySchema } from '@/db/compat';
+import { globalMealCollections } from '../../../../../../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+
+/**
+ * Sets the collection order from `{ ids: [...] }`: each collection's position becomes its sort order.
+ * Library admins only.
+ */
+export const POST = apiRoute({ tag: 'GLOBAL_MEAL_COLLECTIONS_REORDER_POST', json: { maxBytes: 100_000 }, body: reorderBody }, async ({ db, userId, body: ids }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  const existing = await db.select({ id: globalMealCollections.id }).from(globalMealCollections).where(inArray(globalMealCollections.id, ids));
+  if (existing.length !== ids.length) {
+    throw new ApiError(400, 'invalid_request', 'Unknown collection id');
+  }
+
+  const now = new Date();
+  const [first, ...rest] = ids.map((id, index) =>
+    db.update(globalMealCollections).set({ sortOrder: index, updatedAt: now }).where(eq(globalMealCollections.id, id)),
+  );
+  await db.batch([first, ...rest]);
+
+  const res = NextResponse.json({ success: true, ids });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
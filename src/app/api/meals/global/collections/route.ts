@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createGlobalCollectionBody, globalLibraryQuery } from '@/lib/api/schemas/meals';
+import { hasGlobalMealCollection, listGlobalMealCollections } from '@/lib/globalMeals/catalog';
+import { isGlobalMealsAdmin } from '@/lib/globalMeals/library';
+import { hasGlobalMealLibrarySchema } from '@/db/compat';
+import { globalMealCollections } from '../../../../../db/schema';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Global meal collections in library order. Library admins can pass `?includeRetired=1`.
+ */
+export const GET = apiRoute({ tag: 'GLOBAL_MEAL_COLLECTIONS_GET', query: globalLibraryQuery }, async ({ db, userId, query }) => {
+  const includeRetired = query.includeRetired && isGlobalMealsAdmin(userId);
+  const collections = await listGlobalMealCollections(db, { includeRetired });
+
+  return NextResponse.json(collections);
+});
+
+/**
+ * Creates a collection. Meals join it by setting their `collection` to its name. Library admins only.
+ */
+export const POST = apiRoute({ tag: 'GLOBAL_MEAL_COLLECTIONS_POST', json: { maxBytes: 20_000 }, body: createGlobalCollectionBody }, async ({ db, userId, body: fields }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
+
+  const name = fields.name!;
+  if (await hasGlobalMealCollection(db, name)) {
+    throw new ApiError(409, 'conflict', 'A collection with that name already exists');
+  }
+
+  const now = new Date();
+  const [created] = await db
+    .insert(globalMealCollections)
+    .values({
+      id: uuidv4(),
+      name,
+      description: fields.description ?? null,
+      image: fields.image ?? null,
+      sortOrder: fields.sortOrder ?? 0,
+      retiredAt: fields.retired ? now : null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  const res = NextResponse.json(created, { status: 201 });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,32 +1,72 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../../db';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createGlobalMealBody, globalLibraryQuery } from '@/lib/api/schemas/meals';
+import { hasGlobalMealCollection, listGlobalMeals } from '@/lib/globalMeals/catalog';
+import { isGlobalMealsAdmin } from '@/lib/globalMeals/library';
+import { getGlobalMealsSelect, hasGlobalMealLibrarySchema } from '@/db/compat';
 import { globalMeals } from '../../../../db/schema';
+import { eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
 
-export async function GET(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+/**
+ * The global meal library in curated order. Library admins can pass `?includeRetired=1` to see
+ * retired meals too.
+ */
+export const GET = apiRoute({ tag: 'GLOBAL_MEALS_GET', query: globalLibraryQuery }, async ({ db, userId, query }) => {
+  const includeRetired = query.includeRetired && isGlobalMealsAdmin(userId);
+  const allGlobalMeals = await listGlobalMeals(db, { includeRetired });
 
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
+  const formatted = allGlobalMeals.map(m => ({
+      ...m,
+      ingredients: m.ingredients,
+      instructions: m.instructions,
+      isPredefined: true
+  }));
 
-    const allGlobalMeals = await db.select().from(globalMeals);
+  return NextResponse.json(formatted);
+});
+
+/**
+ * Adds a meal to the global library. Library admins only (`GLOBAL_MEALS_ADMIN_USER_IDS`).
+ */
+export const POST = apiRoute({ tag: 'GLOBAL_MEALS_POST', json: { maxBytes: 200_000 }, body: createGlobalMealBody }, async ({ db, userId, body: fields }) => {
+  if (!isGlobalMealsAdmin(userId)) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
 
-    const formatted = allGlobalMeals.map(m => ({
-        ...m,
-        ingredients: m.ingredients,
-        instructions: m.instructions,
-        isPredefined: true
-    }));
 
-    return NextResponse.json(formatted);
+  // Writes need every column add_global_meal_library.sql adds.
+  if (!(await hasGlobalMealLibrarySchema(db))) {
+    throw new ApiError(400, 'invalid_request', 'Library curation is not available yet');
+  }
 
-  } catch (error) {
-    console.error('[GLOBAL_MEALS_GET]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+  if (fields.collection && !(await hasGlobalMealCollection(db, fields.collection))) {
+    throw new ApiError(400, 'invalid_request', 'Unknown collection');
   }
-}
+
+  const id = uuidv4();
+  const now = new Date();
+  await db.insert(globalMeals).values({
+    id,
+    name: fields.name!,
+    description: fields.description ?? null,
+    collection: fields.collection ?? null,
+    ingredients: fields.ingredients ?? [],
+    instructions: fields.instructions ?? [],
+    image: fields.image ?? null,
+    cuisine: fields.cuisine ?? null,
+    nutrition: fields.nutrition ?? null,
+    sortOrder: fields.sortOrder ?? 0,
+    retiredAt: fields.retired ? now : null,
+    updatedAt: now,
+    createdAt: now,
+  });
+
+  const globalMealsSelect = await getGlobalMealsSelect(db);
+  const [created] = await db.select(globalMealsSelect).from(globalMeals).where(eq(globalMeals.id, id)).limit(1);
+
+  const res = NextResponse.json({ ...created, isPredefined: true }, { status: 201 });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,21 +1,22 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createMealBody, listMealsQuery } from '@/lib/api/schemas/meals';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
 import { recordIngredientUsage } from '@/lib/ingredients';
-import { normalizeCuisine, normalizeIngredients, normalizeMealName } from '@/lib/normalizeMeal';
+import { normalizeIngredients, normalizeMealName } from '@/lib/normalizeMeal';
 import {
-  isBodyTooLarge,
   normalizeWhitespace,
   sanitizeStringArray,
   stripControlChars,
-  validateMealDescription,
-  validateMealName,
   validateUuid,
 } from '@/lib/validation';
-import { getMealsColumnAvailability, getMealsSelect, insertMealCompat } from '@/db/compat';
+import { getMealsColumnAvailability, getMealsSelect, hasCookingHistoryTable, insertMealCompat } from '@/db/compat';
 import { autoRecomputeAndPersistMealNutrition } from '@/lib/nutrition/recomputeWorkflow';
-import { db } from '../../../db';
-import { meals, household_members } from '../../../db/schema';
-import { eq, and, isNull, sql } from 'drizzle-orm';
+import { hasMealTimingFilters, parseMealTimingFields } from '@/lib/meals/timing';
+import { meals } from '../../../db/schema';
+import { eq, and, isNull, sql, type SQL } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
 function normalizeText(value: unknown): string {
@@ -118,217 +119,230 @@ function sanitizeIngredients(input: unknown): Array<Record<string, unknown>> {
   return out;
 }
 
-export async function GET(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-
-    const mealsColumns = await getMealsColumnAvailability(db);
-    const nutritionSelect = mealsColumns.nutrition ? sql`m.nutrition AS "nutrition",` : sql`NULL::jsonb AS "nutrition",`;
-    const sourceUrlSelect = mealsColumns.sourceUrl ? sql`m.source_url AS "sourceUrl",` : sql`NULL::text AS "sourceUrl",`;
-
-    // Fetch all meals in households the user belongs to, in one round trip.
-    // Note: We alias snake_case DB columns to the camelCase shape used by the mobile app.
-    const mealsResult = await db.execute(sql`
-      SELECT
-        m.id,
-        m.household_id AS "householdId",
-        m.name,
-        m.description,
-        m.created_by AS "createdBy",
-        m.ingredients,
-        m.instructions,
-        ${nutritionSelect}
-        m.from_global_meal_id AS "fromGlobalMealId",
-        ${sourceUrlSelect}
-        m.rating,
-        m.is_favorite AS "isFavorite",
-        m.user_notes AS "userNotes",
-        m.image,
-        m.cuisine,
-        m.created_at AS "createdAt"
-      FROM meals m
-      WHERE m.household_id IN (
-        SELECT household_id
-        FROM household_members
-        WHERE user_id = ${userId}
-      );
-    `);
-
-    // 3. Format for client
-    const formattedMeals = (mealsResult.rows ?? []).map((m) => ({
-      ...m,
-      ingredients: (m as any).ingredients,
-      instructions: (m as any).instructions,
-    }));
-
-    return NextResponse.json(formattedMeals);
+// Optional filters: ?tag= (repeatable, all must match), ?collectionId= and the timing filters.
+export const GET = apiRoute({ tag: 'MEALS_GET', query: listMealsQuery }, async ({ db, userId, query }) => {
+  const { tags: tagFilter, collectionId, timing: timingFilters } = query;
 
-  } catch (error) {
-    console.error('[MEALS_GET]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+  const mealsColumns = await getMealsColumnAvailability(db);
+  if (
+    (tagFilter.length > 0 && !mealsColumns.tags) ||
+    (hasMealTimingFilters(timingFilters) && !mealsColumns.timing)
+  ) {
+    return NextResponse.json([]);
   }
-}
-
-export async function POST(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
-
-    const mealsSelect = await getMealsSelect(db);
-    const mealsColumns = await getMealsColumnAvailability(db);
-
-    if (isBodyTooLarge(req, 200_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
-
-    const body = await req.json().catch(() => null);
-    if (!body || typeof body !== 'object') {
-      return new NextResponse('Invalid JSON body', { status: 400 });
-    }
-
-    const householdId = validateUuid((body as any)?.householdId) ?? '';
-    const nameBase = validateMealName((body as any)?.name);
-    const name = nameBase ? normalizeMealName(nameBase) ?? nameBase : '';
-    const fromGlobalMealId = validateUuid((body as any)?.fromGlobalMealId);
-    const normalizedIngredients = sanitizeIngredients(normalizeIngredients((body as any)?.ingredients));
-    const normalizedCuisineRaw =
-      typeof (body as any)?.cuisine === 'string'
-        ? normalizeWhitespace(stripControlChars((body as any).cuisine)).slice(0, 60)
-        : '';
-    const normalizedCuisine = normalizedCuisineRaw ? normalizeCuisine(normalizedCuisineRaw) ?? normalizedCuisineRaw : undefined;
-
-    if (!householdId || !name) {
-      return new NextResponse("Missing required fields", { status: 400 });
-    }
-    
-    // Verify user belongs to the target household
-    const userMembership = await db.select().from(household_members).where(
-      and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)),
+  const nutritionSelect = mealsColumns.nutrition ? sql`m.nutrition AS "nutrition",` : sql`NULL::jsonb AS "nutrition",`;
+  const sourceUrlSelect = mealsColumns.sourceUrl ? sql`m.source_url AS "sourceUrl",` : sql`NULL::text AS "sourceUrl",`;
+  const servingsSelect = mealsColumns.servings ? sql`m.servings,` : sql`NULL::integer AS "servings",`;
+  const tagsSelect = mealsColumns.tags ? sql`COALESCE(m.tags, '[]'::jsonb) AS "tags",` : sql`'[]'::jsonb AS "tags",`;
+  const tagWhere = tagFilter.length > 0 ? sql`AND m.tags @> ${JSON.stringify(tagFilter)}::jsonb` : sql``;
+  const timingSelect = mealsColumns.timing
+    ? sql`m.prep_time_minutes AS "prepTimeMinutes", m.cook_time_minutes AS "cookTimeMinutes", m.total_time_minutes AS "totalTimeMinutes", m.difficulty,`
+    : sql`NULL::integer AS "prepTimeMinutes", NULL::integer AS "cookTimeMinutes", NULL::integer AS "totalTimeMinutes", NULL::text AS "difficulty",`;
+  const versionSelect = mealsColumns.versioning
+    ? sql`m.version, m.updated_at AS "updatedAt",`
+    : sql`1 AS "version", NULL::timestamp AS "updatedAt",`;
+  // Meals without a stored total fall back to prep + cook; meals with no timing at all never match a max-time filter.
+  const timingWhere: SQL[] = [];
+  if (timingFilters.maxPrepTime !== undefined) timingWhere.push(sql`AND m.prep_time_minutes <= ${timingFilters.maxPrepTime}`);
+  if (timingFilters.maxCookTime !== undefined) timingWhere.push(sql`AND m.cook_time_minutes <= ${timingFilters.maxCookTime}`);
+  if (timingFilters.maxTotalTime !== undefined) {
+    timingWhere.push(
+      sql`AND COALESCE(m.total_time_minutes, m.prep_time_minutes + m.cook_time_minutes) <= ${timingFilters.maxTotalTime}`,
     );
+  }
+  if (timingFilters.difficulties.length > 0) {
+    timingWhere.push(sql`AND m.difficulty IN (${sql.join(timingFilters.difficulties.map((d) => sql`${d}`), sql`, `)})`);
+  }
+  const collectionWhere = collectionId
+    ? sql`AND m.id IN (SELECT meal_id FROM meal_collection_items WHERE collection_id = ${collectionId})`
+    : sql``;
+  const hasCookingHistory = await hasCookingHistoryTable(db);
+  const cookedSelect = hasCookingHistory
+    ? sql`ch.last_cooked_on AS "lastCookedOn", COALESCE(ch.times_cooked, 0)::int AS "timesCooked",`
+    : sql`NULL::text AS "lastCookedOn", 0 AS "timesCooked",`;
+  const cookedJoin = hasCookingHistory
+    ? sql`LEFT JOIN (
+        SELECT meal_id, MAX(cooked_on) AS last_cooked_on, COUNT(*) AS times_cooked
+        FROM cooking_history
+        GROUP BY meal_id
+      ) ch ON ch.meal_id = m.id`
+    : sql``;
+
+  // Fetch all meals in households the user belongs to, in one round trip.
+  // Note: We alias snake_case DB columns to the camelCase shape used by the mobile app.
+  const mealsResult = await db.execute(sql`
+    SELECT
+      m.id,
+      m.household_id AS "householdId",
+      m.name,
+      m.description,
+      m.created_by AS "createdBy",
+      m.ingredients,
+      m.instructions,
+      ${nutritionSelect}
+      m.from_global_meal_id AS "fromGlobalMealId",
+      ${sourceUrlSelect}
+      m.rating,
+      m.is_favorite AS "isFavorite",
+      m.user_notes AS "userNotes",
+      m.image,
+      m.cuisine,
+      ${servingsSelect}
+      ${tagsSelect}
+      ${timingSelect}
+      ${versionSelect}
+      ${cookedSelect}
+      m.created_at AS "createdAt"
+    FROM meals m
+    ${cookedJoin}
+    WHERE m.household_id IN (
+      SELECT household_id
+      FROM household_members
+      WHERE user_id = ${userId}
+    )
+    ${tagWhere}
+    ${collectionWhere}
+    ${sql.join(timingWhere, sql` `)};
+  `);
+
+  // 3. Format for client
+  const formattedMeals = (mealsResult.rows ?? []).map((m) => ({
+    ...m,
+    ingredients: (m as any).ingredients,
+    instructions: (m as any).instructions,
+  }));
+
+  return NextResponse.json(formattedMeals);
+});
+
+export const POST = apiRoute({ tag: 'MEALS_POST', json: { maxBytes: 200_000 }, body: createMealBody }, async ({ db, userId, body }) => {
+  const mealsSelect = await getMealsSelect(db);
+  const mealsColumns = await getMealsColumnAvailability(db);
+
+  const { householdId, name, fromGlobalMealId } = body;
+  const normalizedIngredients = sanitizeIngredients(normalizeIngredients(body.ingredients));
+  
+  // Verify user belongs to the target household
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'meals.create')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('meals.create'));
+  }
 
-    if (userMembership.length === 0) {
-      return new NextResponse("You are not a member of this household", { status: 403 });
+  // De-dupe:
+  // 1) Imported meals should be unique per household+from_global_meal_id.
+  if (fromGlobalMealId) {
+    const existingImported = await db
+      .select(mealsSelect)
+      .from(meals)
+      .where(and(eq(meals.householdId, householdId), eq(meals.fromGlobalMealId, fromGlobalMealId)))
+      .limit(1);
+
+    if (existingImported.length > 0) {
+      return NextResponse.json({
+        ...existingImported[0],
+        ingredients: existingImported[0].ingredients,
+        instructions: existingImported[0].instructions,
+      });
     }
+  } else {
+    // 2) Custom meals should be unique per household+created_by+name+ingredients.
+    const candidates = await db
+      .select(mealsSelect)
+      .from(meals)
+      .where(
+        and(
+          eq(meals.householdId, householdId),
+          eq(meals.createdBy, userId),
+          isNull(meals.fromGlobalMealId),
+          sql`lower(${meals.name}) = ${name.toLowerCase()}`,
+        ),
+      );
 
-    // De-dupe:
-    // 1) Imported meals should be unique per household+from_global_meal_id.
-    if (fromGlobalMealId) {
-      const existingImported = await db
-        .select(mealsSelect)
-        .from(meals)
-        .where(and(eq(meals.householdId, householdId), eq(meals.fromGlobalMealId, fromGlobalMealId)))
-        .limit(1);
-
-      if (existingImported.length > 0) {
-        return NextResponse.json({
-          ...existingImported[0],
-          ingredients: existingImported[0].ingredients,
-          instructions: existingImported[0].instructions,
-        });
-      }
-    } else {
-      // 2) Custom meals should be unique per household+created_by+name+ingredients.
-      const candidates = await db
-        .select(mealsSelect)
-        .from(meals)
-        .where(
-          and(
-            eq(meals.householdId, householdId),
-            eq(meals.createdBy, userId),
-            isNull(meals.fromGlobalMealId),
-            sql`lower(${meals.name}) = ${name.toLowerCase()}`,
-          ),
-        );
-
-      const bodyKey = canonicalIngredientsKey(normalizedIngredients);
-      const match = candidates.find((m) => canonicalIngredientsKey(m.ingredients) === bodyKey);
-      if (match) {
-        return NextResponse.json({
-          ...match,
-          ingredients: match.ingredients,
-          instructions: match.instructions,
-        });
-      }
-    }
-    
-    const id = validateUuid((body as any)?.id) ?? uuidv4();
-
-    const description = validateMealDescription((body as any)?.description);
-    const userNotesRaw = typeof (body as any)?.userNotes === 'string' ? stripControlChars((body as any).userNotes).trim() : '';
-    const userNotes = userNotesRaw ? userNotesRaw.slice(0, 2000) : undefined;
-    const imageRaw = typeof (body as any)?.image === 'string' ? stripControlChars((body as any).image).trim() : '';
-    const image = imageRaw ? imageRaw.slice(0, 2048) : undefined;
-    const ratingRaw = (body as any)?.rating;
-    const rating = typeof ratingRaw === 'number' && Number.isFinite(ratingRaw) ? Math.max(0, Math.min(5, ratingRaw)) : undefined;
-    const instructions = sanitizeStringArray((body as any)?.instructions, { maxItems: MAX_INSTRUCTIONS, maxItemLength: 400 });
-    const sourceUrlInput = sanitizeSourceUrl((body as any)?.sourceUrl);
-    if ((body as any)?.sourceUrl !== undefined && sourceUrlInput === undefined) {
-      return new NextResponse('Invalid sourceUrl', { status: 400 });
+    const bodyKey = canonicalIngredientsKey(normalizedIngredients);
+    const match = candidates.find((m) => canonicalIngredientsKey(m.ingredients) === bodyKey);
+    if (match) {
+      return NextResponse.json({
+        ...match,
+        ingredients: match.ingredients,
+        instructions: match.instructions,
+      });
     }
+  }
+  
+  const id = body.id ?? uuidv4();
 
-    const newMeal: typeof meals.$inferInsert = {
-      id,
-      householdId,
-      name,
-      description,
-      ingredients: normalizedIngredients,
-      instructions,
-      fromGlobalMealId,
-      sourceUrl: mealsColumns.sourceUrl ? sourceUrlInput : undefined,
-      rating,
-      isFavorite: typeof (body as any)?.isFavorite === 'boolean' ? (body as any).isFavorite : undefined,
-      userNotes,
-      image,
-      cuisine: normalizedCuisine,
-      createdBy: userId, // Enforce creator
-      createdAt: new Date(),
-    };
-
-    await insertMealCompat(db, newMeal);
-
-    try {
-      await recordIngredientUsage(db, userId, newMeal.ingredients);
-    } catch (error) {
-      console.error('[MEALS_POST_INGREDIENT_USAGE]', error);
-    }
+  const instructions = sanitizeStringArray(body.instructions, { maxItems: MAX_INSTRUCTIONS, maxItemLength: 400 });
+  const sourceUrlInput = sanitizeSourceUrl(body.sourceUrl);
+  if (body.sourceUrl !== undefined && sourceUrlInput === undefined) {
+    throw new ApiError(400, 'invalid_request', 'Invalid sourceUrl');
+  }
 
-    await autoRecomputeAndPersistMealNutrition({
-      db,
-      mealId: id,
-      mealName: newMeal.name,
-      ingredients: newMeal.ingredients,
-      loggerTag: 'MEALS_POST_NUTRITION',
-    });
-
-    const createdRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
-    const createdMeal = createdRows[0];
-    const payload = createdMeal
-      ? {
-          ...createdMeal,
-          ingredients: createdMeal.ingredients,
-          instructions: createdMeal.instructions,
-        }
-      : newMeal;
-
-    const res = NextResponse.json(payload);
-    res.headers.set('cache-control', 'no-store');
-    return res;
+  const timing = parseMealTimingFields(body);
+
+  const newMeal: typeof meals.$inferInsert = {
+    id,
+    householdId,
+    name,
+    description: body.description,
+    ingredients: normalizedIngredients,
+    instructions,
+    fromGlobalMealId,
+    sourceUrl: mealsColumns.sourceUrl ? sourceUrlInput : undefined,
+    rating: body.rating,
+    isFavorite: body.isFavorite,
+    userNotes: body.userNotes,
+    image: body.image,
+    cuisine: body.cuisine,
+    servings: mealsColumns.servings ? body.servings : undefined,
+    tags: mealsColumns.tags ? body.tags : undefined,
+    ...(mealsColumns.timing ? timing : {}),
+    createdBy: userId, // Enforce creator
+    createdAt: new Date(),
+  };
+
+  await insertMealCompat(db, newMeal);
 
+  try {
+    await recordIngredientUsage(db, userId, newMeal.ingredients);
   } catch (error) {
-    console.error('[MEALS_POST]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+    console.error('[MEALS_POST_INGREDIENT_USAGE]', error);
   }
-}
+
+  await autoRecomputeAndPersistMealNutrition({
+    db,
+    mealId: id,
+    mealName: newMeal.name,
+    ingredients: newMeal.ingredients,
+    servings: newMeal.servings ?? undefined,
+    loggerTag: 'MEALS_POST_NUTRITION',
+  });
+
+  await recordActivity(
+    db,
+    {
+      householdId,
+      actorId: userId,
+      type: fromGlobalMealId ? 'meal.imported' : 'meal.created',
+      entityId: id,
+      metadata: { mealName: newMeal.name, fromGlobalMealId: fromGlobalMealId ?? null },
+    },
+    'MEALS_POST_ACTIVITY',
+  );
+
+  const createdRows = await db.select(mealsSelect).from(meals).where(eq(meals.id, id)).limit(1);
+  const createdMeal = createdRows[0];
+  const payload = createdMeal
+    ? {
+        ...createdMeal,
+        ingredients: createdMeal.ingredients,
+        instructions: createdMeal.instructions,
+      }
+    : newMeal;
+
+  const res = NextResponse.json(payload);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { mealSearchQuery } from '@/lib/api/schemas/meals';
+import { getMealsColumnAvailability } from '@/db/compat';
+import { buildMealSearchQuery } from '@/lib/meals/search';
+import { household_members } from '../../../../db/schema';
+import { and, eq } from 'drizzle-orm';
+
+type FacetValue = { value: string | number; count: number };
+
+function asFacetList(value: unknown): FacetValue[] {
+  return Array.isArray(value) ? (value as FacetValue[]) : [];
+}
+
+/**
+ * Server-side meal search for one household: text match over name, description, cuisine,
+ * ingredient names and notes, with facet filters and pagination. `includeGlobal=true` adds
+ * the global library (optionally narrowed by `collection`).
+ */
+export const GET = apiRoute({ tag: 'MEALS_SEARCH_GET', query: mealSearchQuery }, async ({ db, userId, query: params }) => {
+
+  const userMembership = await db
+    .select()
+    .from(household_members)
+    .where(and(eq(household_members.householdId, params.householdId), eq(household_members.userId, userId)));
+
+  if (userMembership.length === 0) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+
+  const mealsColumns = await getMealsColumnAvailability(db);
+  const result = await db.execute(buildMealSearchQuery(params, mealsColumns));
+  const row = (result.rows?.[0] ?? {}) as Record<string, unknown>;
+  const total = Number(row.total ?? 0);
+
+  const res = NextResponse.json({
+    items: Array.isArray(row.items) ? row.items : [],
+    total,
+    page: params.page,
+    pageSize: params.pageSize,
+    hasMore: params.page * params.pageSize < total,
+    facets: {
+      cuisine: asFacetList(row.cuisines),
+      rating: asFacetList(row.ratings),
+      source: asFacetList(row.sources),
+      collection: asFacetList(row.collections),
+      favorite: Number(row.favoriteCount ?? 0),
+      hasNutrition: Number(row.withNutritionCount ?? 0),
+    },
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
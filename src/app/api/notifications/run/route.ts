@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
-import { randomUUID } from 'crypto';
 
-import { db } from '@/db';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { runRemindersQuery } from '@/lib/api/schemas/notifications';
 import { runNotificationReminderSweep } from '@/lib/notifications/reminders';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
 
 function timingSafeEqual(a: string, b: string): boolean {
   if (a.length !== b.length) return false;
@@ -11,36 +13,26 @@ function timingSafeEqual(a: string, b: string): boolean {
   return out === 0;
 }
 
-export async function POST(req: Request) {
-  const requestId = randomUUID();
-  try {
-    const secretExpected = process.env.NOTIFICATIONS_RUN_SECRET || '';
-    if (!secretExpected) {
-      return NextResponse.json({ error: 'server_misconfigured', requestId }, { status: 500 });
-    }
-
-    const url = new URL(req.url);
-    const secretHeader = req.headers.get('x-notifications-secret') ?? '';
-    const secretQuery = url.searchParams.get('secret') ?? '';
-    const provided = secretHeader || secretQuery;
+export const POST = apiRoute({ tag: 'NOTIFICATIONS_RUN', auth: false, query: runRemindersQuery }, async ({ req, requestId, db, query }) => {
+  const limit = await checkRateLimit(db, 'jobs.run', { ip: getClientIp(req) });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
+  }
 
-    if (!provided || !timingSafeEqual(provided, secretExpected)) {
-      return NextResponse.json({ error: 'unauthorized', requestId }, { status: 401 });
-    }
+  const secretExpected = process.env.NOTIFICATIONS_RUN_SECRET || '';
+  if (!secretExpected) {
+    throw new ApiError(500, 'server_misconfigured', 'The reminder job is not configured.');
+  }
 
-    if (!db) {
-      return NextResponse.json({ error: 'server_misconfigured', requestId }, { status: 500 });
-    }
+  const secretHeader = req.headers.get('x-notifications-secret') ?? '';
+  const provided = secretHeader || query.secret;
 
-    const result = await runNotificationReminderSweep(db);
-    const res = NextResponse.json({ ok: true, requestId, result }, { status: 200 });
-    res.headers.set('cache-control', 'no-store');
-    return res;
-  } catch (error) {
-    console.error('[NOTIFICATIONS_RUN]', { requestId, error });
-    const res = NextResponse.json({ error: 'internal_error', requestId }, { status: 500 });
-    res.headers.set('cache-control', 'no-store');
-    return res;
+  if (!provided || !timingSafeEqual(provided, secretExpected)) {
+    throw new ApiError(401, 'unauthorized', 'Invalid or missing secret.');
   }
-}
 
+  const result = await runNotificationReminderSweep(db);
+  const res = NextResponse.json({ ok: true, requestId, result }, { status: 200 });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+
+// Public and database-free, so it doesn't go through apiRoute.
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
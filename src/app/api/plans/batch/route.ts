@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { batchPlansBody } from '@/lib/api/schemas/plans';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { syncUserAchievements } from '@/lib/achievements/engine';
+import { recordActivity } from '@/lib/activity/activityLog';
+import {
+  applyBulkPlanOperations,
+  getOperationsDateWindow,
+} from '@/lib/plans/bulkPlanOperations';
+import { getPlansColumnAvailability, getPlansSelect, insertPlansCompat } from '@/db/compat';
+import { plans, meals } from '../../../../db/schema';
+import { and, eq, gte, inArray, lte } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Applies a list of plan operations (copy range, move, swap, clear range, add) for one household.
+ * All resulting writes go out in a single batch, which neon-http runs as one transaction.
+ */
+export const POST = apiRoute({ tag: 'PLANS_BATCH_POST', json: { maxBytes: 50_000 }, body: batchPlansBody }, async ({ db, userId, body }) => {
+  const { householdId, operations } = body;
+
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
+  }
+
+  const addedMealIds = Array.from(
+    new Set(operations.flatMap((op) => (op.type === 'add' ? op.plans.map((plan) => plan.mealId) : []))),
+  );
+  if (addedMealIds.length > 0) {
+    const householdMeals = await db
+      .select({ id: meals.id })
+      .from(meals)
+      .where(and(eq(meals.householdId, householdId), inArray(meals.id, addedMealIds)));
+    if (householdMeals.length !== addedMealIds.length) {
+      throw new ApiError(400, 'invalid_request', 'Meals must be imported into this household before they can be scheduled');
+    }
+  }
+
+  const window = getOperationsDateWindow(operations);
+  const existing = await db
+    .select(await getPlansSelect(db))
+    .from(plans)
+    .where(and(eq(plans.householdId, householdId), gte(plans.date, window.start), lte(plans.date, window.end)));
+
+  const result = applyBulkPlanOperations({
+    householdId,
+    plans: existing,
+    operations,
+    createId: uuidv4,
+    now: new Date(),
+  });
+
+  const queries: BatchItem<'pg'>[] = [];
+  if (result.deletedIds.length > 0) {
+    queries.push(db.delete(plans).where(inArray(plans.id, result.deletedIds)));
+  }
+  for (const plan of result.updated) {
+    queries.push(db.update(plans).set({ date: plan.date }).where(eq(plans.id, plan.id)));
+  }
+  if (result.created.length > 0) {
+    queries.push(insertPlansCompat(db, await getPlansColumnAvailability(db), result.created));
+  }
+
+  if (queries.length > 0) {
+    const [first, ...rest] = queries;
+    await db.batch([first, ...rest]);
+
+    // One entry for the whole batch rather than one per plan touched.
+    await recordActivity(
+      db,
+      {
+        householdId,
+        actorId: userId,
+        type: 'plan.batch',
+        metadata: {
+          operations: operations.map((op) => op.type),
+          created: result.created.length,
+          updated: result.updated.length,
+          deleted: result.deletedIds.length,
+        },
+      },
+      'PLANS_BATCH_ACTIVITY',
+    );
+  }
+
+  // Sync once for the whole batch; a failure here shouldn't undo the plan changes.
+  let unlocked: Awaited<ReturnType<typeof syncUserAchievements>>['unlocked'] = [];
+  if (queries.length > 0) {
+    try {
+      unlocked = (await syncUserAchievements(db, userId)).unlocked;
+    } catch (error) {
+      console.error('[PLANS_BATCH_ACHIEVEMENTS]', error);
+    }
+  }
+
+  const res = NextResponse.json({
+    created: result.created,
+    updated: result.updated,
+    deletedIds: result.deletedIds,
+    unlocked,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -1,128 +1,227 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../db';
-import { plans, household_members } from '../../../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { ApiError, isForeignKeyViolation } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { createPlanBody, planIdQuery, updatePlanBody } from '@/lib/api/schemas/plans';
+import { describeMissingPermission, getHouseholdRole, hasHouseholdPermission } from '@/lib/households/roles';
+import { syncUserAchievements } from '@/lib/achievements/engine';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { checkMealForHousehold } from '@/lib/dietary/householdProfiles';
+import { getCookingHistoryChange } from '@/lib/plans/cookingHistory';
+import { todayDateKey } from '@/lib/plans/templates';
+import { getPlansColumnAvailability, getPlansSelect, hasCookingHistoryTable, insertPlansCompat } from '@/db/compat';
+import { cookingHistory, meals, plans } from '../../../db/schema';
+import { eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
-import { isBodyTooLarge, validatePlanDate, validateRecordId, validateUuid } from '@/lib/validation';
 
-export async function POST(req: Request) {
+export const POST = apiRoute({ tag: 'PLANS_POST', json: { maxBytes: 25_000 }, body: createPlanBody }, async ({ db, userId, body }) => {
+  const { householdId, mealId, date, slot, isCompleted } = body;
+  const servings = body.servings ?? null;
+
+  // Verify membership
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
+  }
+
+  const id = uuidv4();
+  const newPlan = {
+    id,
+    householdId,
+    mealId,
+    date,
+    slot,
+    servings,
+    isCompleted,
+    createdAt: new Date()
+  };
+
   try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
+    await insertPlansCompat(db, await getPlansColumnAvailability(db), [newPlan]);
+  } catch (error) {
+    // Common: mealId is a global meal ID (not imported), which violates FK plans.meal_id -> meals.id.
+    if (isForeignKeyViolation(error)) {
+      throw new ApiError(400, 'invalid_request', 'Meal must be imported before it can be scheduled');
     }
+    throw error;
+  }
 
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
+  const [plannedMeal] = await db
+    .select({ name: meals.name, ingredients: meals.ingredients })
+    .from(meals)
+    .where(eq(meals.id, mealId))
+    .limit(1);
+  const dietaryWarnings = plannedMeal
+    ? await checkMealForHousehold(db, householdId, plannedMeal.ingredients, 'PLANS_POST_DIETARY')
+    : [];
+
+  await recordActivity(
+    db,
+    {
+      householdId,
+      actorId: userId,
+      type: 'plan.created',
+      entityId: id,
+      metadata: { mealId, mealName: plannedMeal?.name ?? null, date, slot },
+    },
+    'PLANS_POST_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ ...newPlan, dietaryWarnings });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
+
+/**
+ * Updates a plan's completion, notes or servings actually cooked (`?id=`).
+ * Completing a plan records a cooking-history event; un-completing removes it.
+ */
+export const PATCH = apiRoute({ tag: 'PLANS_PATCH', json: { maxBytes: 10_000 }, body: updatePlanBody, query: planIdQuery }, async ({ db, userId, body: fields, query }) => {
+  const { id } = query;
+
+  if (Object.keys(fields).length === 0) {
+    throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+  }
 
-    if (isBodyTooLarge(req, 25_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
+  const plansSelect = await getPlansSelect(db);
+  const [plan] = await db.select(plansSelect).from(plans).where(eq(plans.id, id)).limit(1);
+  if (!plan) {
+    throw new ApiError(404, 'not_found', 'Plan not found');
+  }
+
+  const role = await getHouseholdRole(db, plan.householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
+  }
 
-    const body = await req.json().catch(() => null);
-    const householdId = validateUuid((body as any)?.householdId);
-    const mealId = validateRecordId((body as any)?.mealId);
-    const date = validatePlanDate((body as any)?.date);
-    const isCompleted = (body as any)?.isCompleted;
+  const now = new Date();
+  const change = getCookingHistoryChange(plan.isCompleted === true, fields);
+  // Before add_cooking_history.sql there is no history to keep in step with the plan.
+  const historyChange = (await hasCookingHistoryTable(db)) ? change : null;
+  // completed_at and notes come with add_cooking_history.sql; without them only completion is kept.
+  const { completion } = await getPlansColumnAvailability(db);
+
+  const updatePlan = db
+    .update(plans)
+    .set({
+      isCompleted: fields.isCompleted ?? plan.isCompleted ?? false,
+      ...(!completion ? null : change === 'record' ? { completedAt: now } : change === 'remove' ? { completedAt: null } : null),
+      ...(completion && fields.notes !== undefined ? { notes: fields.notes } : null),
+    })
+    .where(eq(plans.id, id))
+    .returning(plansSelect);
+
+  let updated;
+  if (historyChange === 'record') {
+    // Plans ticked off ahead of time count as cooked today.
+    const today = todayDateKey(now);
+    const [result] = await db.batch([
+      updatePlan,
+      db
+        .insert(cookingHistory)
+        .values({
+          id: uuidv4(),
+          householdId: plan.householdId,
+          mealId: plan.mealId,
+          planId: plan.id,
+          cookedBy: userId,
+          cookedOn: plan.date < today ? plan.date : today,
+          servings: fields.servingsCooked !== undefined ? fields.servingsCooked : plan.servings,
+          notes: fields.notes !== undefined ? fields.notes : plan.notes,
+          createdAt: now,
+        })
+        .onConflictDoNothing(),
+    ]);
+    [updated] = result;
+  } else if (historyChange === 'remove') {
+    [[updated]] = await db.batch([updatePlan, db.delete(cookingHistory).where(eq(cookingHistory.planId, id))]);
+  } else if (historyChange === 'update') {
+    [[updated]] = await db.batch([
+      updatePlan,
+      db
+        .update(cookingHistory)
+        .set({
+          ...(fields.notes !== undefined ? { notes: fields.notes } : null),
+          ...(fields.servingsCooked !== undefined ? { servings: fields.servingsCooked } : null),
+        })
+        .where(eq(cookingHistory.planId, id)),
+    ]);
+  } else {
+    [updated] = await updatePlan;
+  }
 
-    if (!householdId || !mealId || !date) {
-      return new NextResponse('Missing or invalid required fields', { status: 400 });
+  const [plannedMeal] = await db.select({ name: meals.name }).from(meals).where(eq(meals.id, plan.mealId)).limit(1);
+  await recordActivity(
+    db,
+    {
+      householdId: plan.householdId,
+      actorId: userId,
+      type: change === 'record' ? 'plan.completed' : 'plan.updated',
+      entityId: plan.id,
+      metadata: { mealId: plan.mealId, mealName: plannedMeal?.name ?? null, date: plan.date, slot: plan.slot },
+    },
+    'PLANS_PATCH_ACTIVITY',
+  );
+
+  // A failed achievements sync shouldn't fail the update.
+  let unlocked: Awaited<ReturnType<typeof syncUserAchievements>>['unlocked'] = [];
+  if (change === 'record') {
+    try {
+      unlocked = (await syncUserAchievements(db, userId)).unlocked;
+    } catch (error) {
+      console.error('[PLANS_PATCH_ACHIEVEMENTS]', error);
     }
+  }
 
-    // Verify membership
-    const userMembership = await db.select().from(household_members).where(
-        and(
-            eq(household_members.householdId, householdId),
-            eq(household_members.userId, userId)
-        )
-    );
+  const res = NextResponse.json({ ...updated, unlocked });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
 
-    if (userMembership.length === 0) {
-         return new NextResponse("You are not a member of this household", { status: 403 });
-    }
+export const DELETE = apiRoute({ tag: 'PLANS_DELETE', query: planIdQuery }, async ({ db, userId, query }) => {
+  const { id } = query;
 
-    const id = uuidv4();
-    const newPlan = {
-      id,
-      householdId,
-      mealId,
-      date,
-      isCompleted: typeof isCompleted === 'boolean' ? isCompleted : false,
-      createdAt: new Date()
-    };
+  // We need to verify that the plan belongs to a household the user is in.
+  // This is a bit tricky with just the plan ID.
+  // 1. Fetch the plan to get householdId
+  const plan = await db.select(await getPlansSelect(db)).from(plans).where(eq(plans.id, id));
 
-    try {
-      await db.insert(plans).values(newPlan);
-    } catch (e: any) {
-      // Common: mealId is a global meal ID (not imported), which violates FK plans.meal_id -> meals.id.
-      const code = e?.code as string | undefined;
-      if (code === '23503' || /foreign key/i.test(String(e?.message ?? ''))) {
-        return new NextResponse("Meal must be imported before it can be scheduled", { status: 400 });
-      }
-      throw e;
-    }
+  if (plan.length === 0) {
+    throw new ApiError(404, 'not_found', 'Plan not found');
+  }
 
-    const res = NextResponse.json(newPlan);
-    res.headers.set('cache-control', 'no-store');
-    return res;
+  const householdId = plan[0].householdId;
 
-  } catch (error) {
-    console.error('[PLANS_POST]', error);
-    return new NextResponse("Internal Error", { status: 500 });
+  // 2. Verify membership
+  const role = await getHouseholdRole(db, householdId, userId);
+  if (!role) {
+    throw new ApiError(403, 'forbidden', 'You are not a member of this household');
+  }
+  if (!hasHouseholdPermission(role, 'plans.manage')) {
+    throw new ApiError(403, 'forbidden', describeMissingPermission('plans.manage'));
   }
-}
 
-export async function DELETE(req: Request) {
-    try {
-        const userId = await getUserIdFromRequest(req);
-        if (!userId) {
-          return new NextResponse("Unauthorized", { status: 401 });
-        }
-    
-        if (!db) {
-            return new NextResponse("Database not configured", { status: 500 });
-        }
-
-        const { searchParams } = new URL(req.url);
-        const id = validateUuid(searchParams.get('id'));
-
-        if (!id) {
-            return new NextResponse("Invalid id", { status: 400 });
-        }
-
-        // We need to verify that the plan belongs to a household the user is in.
-        // This is a bit tricky with just the plan ID.
-        // 1. Fetch the plan to get householdId
-        const plan = await db.select().from(plans).where(eq(plans.id, id));
-        
-        if (plan.length === 0) {
-            return new NextResponse("Plan not found", { status: 404 });
-        }
-
-        const householdId = plan[0].householdId;
-
-        // 2. Verify membership
-        const userMembership = await db.select().from(household_members).where(
-            and(
-                eq(household_members.householdId, householdId),
-                eq(household_members.userId, userId)
-            )
-        );
-    
-        if (userMembership.length === 0) {
-             return new NextResponse("You are not a member of this household", { status: 403 });
-        }
-
-        await db.delete(plans).where(eq(plans.id, id));
-
-        const res = NextResponse.json({ success: true });
-        res.headers.set('cache-control', 'no-store');
-        return res;
+  await db.delete(plans).where(eq(plans.id, id));
 
-    } catch (error) {
-        console.error('[PLANS_DELETE]', error);
-        return new NextResponse("Internal Error", { status: 500 });
-    }
-}
+  const [plannedMeal] = await db.select({ name: meals.name }).from(meals).where(eq(meals.id, plan[0].mealId)).limit(1);
+  await recordActivity(
+    db,
+    {
+      householdId,
+      actorId: userId,
+      type: 'plan.deleted',
+      entityId: id,
+      metadata: { mealId: plan[0].mealId, mealName: plannedMeal?.name ?? null, date: plan[0].date, slot: plan[0].slot },
+    },
+    'PLANS_DELETE_ACTIVITY',
+  );
+
+  const res = NextResponse.json({ success: true });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { runPlanTemplatesQuery } from '@/lib/api/schemas/plans';
+import { materializePlanTemplates } from '@/lib/plans/templates';
+import { checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let out = 0;
+  for (let i = 0; i < a.length; i += 1) out |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return out === 0;
+}
+
+// Scheduled job: keeps every active plan template materialized PLAN_TEMPLATES_WEEKS_AHEAD weeks ahead.
+export const POST = apiRoute({ tag: 'PLAN_TEMPLATES_RUN', auth: false, query: runPlanTemplatesQuery }, async ({ req, requestId, db, query }) => {
+  const limit = await checkRateLimit(db, 'jobs.run', { ip: getClientIp(req) });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
+  }
+
+  const secretExpected = process.env.PLAN_TEMPLATES_RUN_SECRET || '';
+  if (!secretExpected) {
+    throw new ApiError(500, 'server_misconfigured', 'The plan template job is not configured.');
+  }
+
+  const secretHeader = req.headers.get('x-plan-templates-secret') ?? '';
+  const provided = secretHeader || query.secret;
+
+  if (!provided || !timingSafeEqual(provided, secretExpected)) {
+    throw new ApiError(401, 'unauthorized', 'Invalid or missing secret.');
+  }
+
+  const result = await materializePlanTemplates(db);
+  const res = NextResponse.json({ ok: true, requestId, result }, { status: 200 });
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
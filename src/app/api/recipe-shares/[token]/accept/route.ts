@@ -1,26 +1,27 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { acceptRecipeShareBody } from '@/lib/api/schemas/meals';
+import { applyRateLimitHeaders, checkRateLimit, getClientIp, rateLimitError } from '@/lib/rateLimit/rateLimiter';
 import { recordIngredientUsage } from '@/lib/ingredients';
 import { normalizeCuisine, normalizeIngredients, normalizeMealName } from '@/lib/normalizeMeal';
 import {
-  isBodyTooLarge,
+  MAX_MEAL_TAGS,
   sanitizeStringArray,
   stripControlChars,
   validateMealName,
+  validateMealTag,
   validateShareToken,
-  validateUuid,
 } from '@/lib/validation';
+import type { db } from '@/db';
 import { getMealsColumnAvailability, insertMealCompat } from '@/db/compat';
 import { autoRecomputeAndPersistMealNutrition } from '@/lib/nutrition/recomputeWorkflow';
-import { db } from '@/db';
+import { checkMealForHousehold } from '@/lib/dietary/householdProfiles';
+import { hasHouseholdPermission, normalizeHouseholdRole } from '@/lib/households/roles';
 import { household_members, mealShareAcceptances, mealShares, meals } from '@/db/schema';
 import { and, eq } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
-const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
-const RATE_LIMIT_MAX_PER_USER = 20;
-const rateLimitByUser = new Map<string, { resetAtMs: number; count: number }>();
-
 const MAX_SOURCE_URL_LENGTH = 2048;
 const MAX_INSTRUCTIONS = 60;
 
@@ -32,24 +33,9 @@ type ParsedSnapshot = {
   image: string | null;
   cuisine: string | null;
   sourceUrl: string | null;
+  tags: string[];
 };
 
-function checkRateLimit(userId: string) {
-  const nowMs = Date.now();
-  const existing = rateLimitByUser.get(userId);
-  if (!existing || existing.resetAtMs <= nowMs) {
-    rateLimitByUser.set(userId, { resetAtMs: nowMs + RATE_LIMIT_WINDOW_MS, count: 1 });
-    return { allowed: true as const };
-  }
-  if (existing.count >= RATE_LIMIT_MAX_PER_USER) {
-    const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAtMs - nowMs) / 1000));
-    return { allowed: false as const, retryAfterSeconds };
-  }
-  existing.count += 1;
-  rateLimitByUser.set(userId, existing);
-  return { allowed: true as const };
-}
-
 function sanitizeSourceUrl(value: unknown): string | null {
   if (typeof value !== 'string') return null;
   const trimmed = stripControlChars(value).trim();
@@ -90,6 +76,13 @@ function parseSnapshot(value: unknown): ParsedSnapshot | null {
   const cuisine = cuisineRaw ? normalizeCuisine(cuisineRaw) ?? cuisineRaw : null;
   const sourceUrl = sanitizeSourceUrl(snapshot.sourceUrl);
 
+  // Shares created before tags existed have none; invalid entries are dropped rather than failing the accept.
+  const tags: string[] = [];
+  for (const raw of Array.isArray(snapshot.tags) ? snapshot.tags : []) {
+    const tag = validateMealTag(raw);
+    if (tag && !tags.includes(tag) && tags.length < MAX_MEAL_TAGS) tags.push(tag);
+  }
+
   return {
     name,
     description,
@@ -98,88 +91,154 @@ function parseSnapshot(value: unknown): ParsedSnapshot | null {
     image,
     cuisine,
     sourceUrl,
+    tags,
   };
 }
 
-async function resolveTargetHousehold(userId: string, requestedHouseholdId: string | null): Promise<string | null> {
-  if (!db) return null;
+// Viewers can't add meals, so only households where the user may create one are candidates.
+async function resolveTargetHousehold(
+  database: NonNullable<typeof db>,
+  userId: string,
+  requestedHouseholdId: string | null,
+): Promise<string | null> {
+  const membershipRows = await database
+    .select({ householdId: household_members.householdId, role: household_members.role })
+    .from(household_members)
+    .where(
+      requestedHouseholdId
+        ? and(eq(household_members.householdId, requestedHouseholdId), eq(household_members.userId, userId))
+        : eq(household_members.userId, userId),
+    );
+
+  const target = membershipRows.find((row) => hasHouseholdPermission(normalizeHouseholdRole(row.role), 'meals.create'));
+  return target?.householdId ?? null;
+}
 
-  if (requestedHouseholdId) {
-    const membershipRows = await db
-      .select({ householdId: household_members.householdId })
-      .from(household_members)
-      .where(and(eq(household_members.householdId, requestedHouseholdId), eq(household_members.userId, userId)))
-      .limit(1);
-    return membershipRows[0]?.householdId ?? null;
+export const POST = apiRoute({ tag: 'RECIPE_SHARE_ACCEPT_POST', json: { maxBytes: 25_000, optional: true }, body: acceptRecipeShareBody }, async ({ req, db, userId, params, body }) => {
+  const limit = await checkRateLimit(db, 'recipeShares.accept', { userId, ip: getClientIp(req) });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
   }
 
-  const membershipRows = await db
-    .select({ householdId: household_members.householdId })
-    .from(household_members)
-    .where(eq(household_members.userId, userId))
+  const { token: tokenRaw } = params;
+  const token = validateShareToken(tokenRaw);
+  if (!token) {
+    throw new ApiError(400, 'invalid_request', 'Invalid token');
+  }
+
+  const requestedHouseholdId = body.householdId ?? null;
+
+  const shareRows = await db
+    .select({
+      id: mealShares.id,
+      snapshot: mealShares.snapshot,
+      expiresAt: mealShares.expiresAt,
+      revokedAt: mealShares.revokedAt,
+    })
+    .from(mealShares)
+    .where(eq(mealShares.token, token))
     .limit(1);
 
-  return membershipRows[0]?.householdId ?? null;
-}
+  if (shareRows.length === 0) {
+    throw new ApiError(404, 'not_found', 'Recipe share not found');
+  }
 
-export async function POST(req: Request, { params }: { params: Promise<{ token: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse('Unauthorized', { status: 401 });
-    }
+  const share = shareRows[0];
+  if (share.revokedAt) {
+    throw new ApiError(410, 'gone', 'Recipe share was revoked');
+  }
+  if (share.expiresAt && new Date() > share.expiresAt) {
+    throw new ApiError(410, 'gone', 'Recipe share has expired');
+  }
 
-    const limit = checkRateLimit(userId);
-    if (!limit.allowed) {
-      const res = new NextResponse('Too many requests. Please try again later.', { status: 429 });
-      res.headers.set('retry-after', String(limit.retryAfterSeconds));
-      return res;
-    }
+  const existingAcceptanceRows = await db
+    .select({
+      id: mealShareAcceptances.id,
+      createdMealId: mealShareAcceptances.createdMealId,
+      householdId: mealShareAcceptances.householdId,
+    })
+    .from(mealShareAcceptances)
+    .where(and(eq(mealShareAcceptances.shareId, share.id), eq(mealShareAcceptances.acceptedBy, userId)))
+    .limit(1);
 
-    if (!db) {
-      return new NextResponse('Database not configured', { status: 500 });
-    }
+  if (existingAcceptanceRows.length > 0 && existingAcceptanceRows[0].createdMealId) {
+    const existing = existingAcceptanceRows[0];
+    const res = NextResponse.json({
+      mealId: existing.createdMealId,
+      householdId: existing.householdId,
+      alreadyAccepted: true,
+    });
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  }
 
-    if (isBodyTooLarge(req, 25_000)) {
-      return new NextResponse('Payload too large', { status: 413 });
-    }
+  const targetHouseholdId = await resolveTargetHousehold(db, userId, requestedHouseholdId);
+  if (!targetHouseholdId) {
+    throw new ApiError(400, 'invalid_request', 'No available household to accept this recipe');
+  }
 
-    const { token: tokenRaw } = await params;
-    const token = validateShareToken(tokenRaw);
-    if (!token) {
-      return new NextResponse('Invalid token', { status: 400 });
-    }
+  const parsedSnapshot = parseSnapshot(share.snapshot);
+  if (!parsedSnapshot) {
+    throw new ApiError(400, 'invalid_request', 'Shared recipe payload is invalid');
+  }
 
-    const body = await req.json().catch(() => null);
-    const payload = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
-    const requestedHouseholdId = validateUuid(payload.householdId) ?? null;
+  const mealId = uuidv4();
+  const mealsColumns = await getMealsColumnAvailability(db);
+
+  await insertMealCompat(db, {
+    id: mealId,
+    householdId: targetHouseholdId,
+    name: parsedSnapshot.name,
+    description: parsedSnapshot.description,
+    ingredients: parsedSnapshot.ingredients,
+    instructions: parsedSnapshot.instructions,
+    image: parsedSnapshot.image,
+    cuisine: parsedSnapshot.cuisine,
+    sourceUrl: mealsColumns.sourceUrl ? parsedSnapshot.sourceUrl : undefined,
+    tags: mealsColumns.tags ? parsedSnapshot.tags : undefined,
+    createdBy: userId,
+    isFavorite: false,
+    rating: 0,
+    createdAt: new Date(),
+  });
 
-    const shareRows = await db
-      .select({
-        id: mealShares.id,
-        snapshot: mealShares.snapshot,
-        expiresAt: mealShares.expiresAt,
-        revokedAt: mealShares.revokedAt,
-      })
-      .from(mealShares)
-      .where(eq(mealShares.token, token))
-      .limit(1);
+  try {
+    await recordIngredientUsage(db, userId, parsedSnapshot.ingredients);
+  } catch (error) {
+    console.error('[RECIPE_SHARE_ACCEPT_INGREDIENT_USAGE]', error);
+  }
 
-    if (shareRows.length === 0) {
-      return new NextResponse('Recipe share not found', { status: 404 });
-    }
+  await autoRecomputeAndPersistMealNutrition({
+    db,
+    mealId,
+    mealName: parsedSnapshot.name,
+    ingredients: parsedSnapshot.ingredients,
+    loggerTag: 'RECIPE_SHARE_ACCEPT_NUTRITION',
+  });
 
-    const share = shareRows[0];
-    if (share.revokedAt) {
-      return new NextResponse('Recipe share was revoked', { status: 410 });
-    }
-    if (share.expiresAt && new Date() > share.expiresAt) {
-      return new NextResponse('Recipe share has expired', { status: 410 });
-    }
+  const insertedAcceptances = await db
+    .insert(mealShareAcceptances)
+    .values({
+      id: uuidv4(),
+      shareId: share.id,
+      acceptedBy: userId,
+      createdMealId: mealId,
+      householdId: targetHouseholdId,
+      acceptedAt: new Date(),
+    })
+    .onConflictDoNothing({ target: [mealShareAcceptances.shareId, mealShareAcceptances.acceptedBy] })
+    .returning({
+      id: mealShareAcceptances.id,
+      createdMealId: mealShareAcceptances.createdMealId,
+      householdId: mealShareAcceptances.householdId,
+    });
+
+  if (insertedAcceptances.length === 0) {
+    // Concurrent accept race: clean up duplicate meal and return the existing acceptance.
+    await db.delete(meals).where(eq(meals.id, mealId)).catch(() => undefined);
 
-    const existingAcceptanceRows = await db
+    const acceptedRows = await db
       .select({
-        id: mealShareAcceptances.id,
         createdMealId: mealShareAcceptances.createdMealId,
         householdId: mealShareAcceptances.householdId,
       })
@@ -187,113 +246,33 @@ export async function POST(req: Request, { params }: { params: Promise<{ token:
       .where(and(eq(mealShareAcceptances.shareId, share.id), eq(mealShareAcceptances.acceptedBy, userId)))
       .limit(1);
 
-    if (existingAcceptanceRows.length > 0 && existingAcceptanceRows[0].createdMealId) {
-      const existing = existingAcceptanceRows[0];
-      const res = NextResponse.json({
-        mealId: existing.createdMealId,
-        householdId: existing.householdId,
-        alreadyAccepted: true,
-      });
-      res.headers.set('cache-control', 'no-store');
-      return res;
-    }
-
-    const targetHouseholdId = await resolveTargetHousehold(userId, requestedHouseholdId);
-    if (!targetHouseholdId) {
-      return new NextResponse('No available household to accept this recipe', { status: 400 });
-    }
-
-    const parsedSnapshot = parseSnapshot(share.snapshot);
-    if (!parsedSnapshot) {
-      return new NextResponse('Shared recipe payload is invalid', { status: 400 });
-    }
-
-    const mealId = uuidv4();
-    const mealsColumns = await getMealsColumnAvailability(db);
-
-    await insertMealCompat(db, {
-      id: mealId,
-      householdId: targetHouseholdId,
-      name: parsedSnapshot.name,
-      description: parsedSnapshot.description,
-      ingredients: parsedSnapshot.ingredients,
-      instructions: parsedSnapshot.instructions,
-      image: parsedSnapshot.image,
-      cuisine: parsedSnapshot.cuisine,
-      sourceUrl: mealsColumns.sourceUrl ? parsedSnapshot.sourceUrl : undefined,
-      createdBy: userId,
-      isFavorite: false,
-      rating: 0,
-      createdAt: new Date(),
-    });
-
-    try {
-      await recordIngredientUsage(db, userId, parsedSnapshot.ingredients);
-    } catch (error) {
-      console.error('[RECIPE_SHARE_ACCEPT_INGREDIENT_USAGE]', error);
-    }
-
-    await autoRecomputeAndPersistMealNutrition({
-      db,
-      mealId,
-      mealName: parsedSnapshot.name,
-      ingredients: parsedSnapshot.ingredients,
-      loggerTag: 'RECIPE_SHARE_ACCEPT_NUTRITION',
-    });
-
-    const insertedAcceptances = await db
-      .insert(mealShareAcceptances)
-      .values({
-        id: uuidv4(),
-        shareId: share.id,
-        acceptedBy: userId,
-        createdMealId: mealId,
-        householdId: targetHouseholdId,
-        acceptedAt: new Date(),
-      })
-      .onConflictDoNothing({ target: [mealShareAcceptances.shareId, mealShareAcceptances.acceptedBy] })
-      .returning({
-        id: mealShareAcceptances.id,
-        createdMealId: mealShareAcceptances.createdMealId,
-        householdId: mealShareAcceptances.householdId,
-      });
-
-    if (insertedAcceptances.length === 0) {
-      // Concurrent accept race: clean up duplicate meal and return the existing acceptance.
-      await db.delete(meals).where(eq(meals.id, mealId)).catch(() => undefined);
-
-      const acceptedRows = await db
-        .select({
-          createdMealId: mealShareAcceptances.createdMealId,
-          householdId: mealShareAcceptances.householdId,
-        })
-        .from(mealShareAcceptances)
-        .where(and(eq(mealShareAcceptances.shareId, share.id), eq(mealShareAcceptances.acceptedBy, userId)))
-        .limit(1);
-
-      const accepted = acceptedRows[0];
-      if (!accepted?.createdMealId) {
-        return new NextResponse('Could not resolve accepted recipe', { status: 409 });
-      }
-
-      const res = NextResponse.json({
-        mealId: accepted.createdMealId,
-        householdId: accepted.householdId,
-        alreadyAccepted: true,
-      });
-      res.headers.set('cache-control', 'no-store');
-      return res;
+    const accepted = acceptedRows[0];
+    if (!accepted?.createdMealId) {
+      throw new ApiError(409, 'conflict', 'Could not resolve accepted recipe');
     }
 
     const res = NextResponse.json({
-      mealId,
-      householdId: targetHouseholdId,
-      alreadyAccepted: false,
+      mealId: accepted.createdMealId,
+      householdId: accepted.householdId,
+      alreadyAccepted: true,
     });
     res.headers.set('cache-control', 'no-store');
     return res;
-  } catch (error) {
-    console.error('[RECIPE_SHARE_ACCEPT_POST]', error);
-    return new NextResponse('Internal Error', { status: 500 });
   }
-}
+
+  const dietaryWarnings = await checkMealForHousehold(
+    db,
+    targetHouseholdId,
+    parsedSnapshot.ingredients,
+    'RECIPE_SHARE_ACCEPT_DIETARY',
+  );
+
+  const res = NextResponse.json({
+    mealId,
+    householdId: targetHouseholdId,
+    alreadyAccepted: false,
+    dietaryWarnings,
+  });
+  res.headers.set('cache-control', 'no-store');
+  return applyRateLimitHeaders(res, limit);
+});
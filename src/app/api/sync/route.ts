@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { syncQuery } from '@/lib/api/schemas/sync';
+import { loadSyncChanges } from '@/lib/sync/changes';
+
+export const dynamic = 'force-dynamic';
+
+// The incremental counterpart of /api/bootstrap: only the households, members, meals and plans
+// that changed since `since`, what was deleted, and the cursor to send next time.
+export const GET = apiRoute({ tag: 'SYNC_GET', query: syncQuery }, async ({ db, userId, query }) => {
+  const res = NextResponse.json(await loadSyncChanges(db, userId, query.since ?? null));
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
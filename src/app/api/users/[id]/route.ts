@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
-import { getUserIdFromRequest } from '@/lib/requestAuth';
-import { db } from '../../../../db';
+import { ApiError } from '@/lib/api/apiError';
+import { apiRoute } from '@/lib/api/apiRoute';
+import { updateUserBody } from '@/lib/api/schemas/users';
 import { users } from '../../../../db/schema';
 import { eq } from 'drizzle-orm';
-import { isBodyTooLarge, stripControlChars } from '@/lib/validation';
+import { stripControlChars } from '@/lib/validation';
 
 const ONBOARDING_GOALS = new Set(['plan_meals', 'eat_healthier', 'save_time', 'save_money', 'family_meals', 'other']);
 const ONBOARDING_FOOD_PREFERENCES = new Set(['flexible', 'vegetarian', 'vegan', 'pescatarian', 'other']);
@@ -70,115 +71,55 @@ function normalizeOnboardingProfile(value: unknown): Record<string, unknown> | n
   return out;
 }
 
-export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
+export const GET = apiRoute({ tag: 'USER_GET' }, async ({ db, userId, params }) => {
+  const { id } = params;
 
-    if (!db) {
-        return new NextResponse("Database not configured", { status: 500 });
-    }
+  // Privacy: limit this endpoint to self. Household membership lookups should go through
+  // /api/households/:id/members which is already membership-gated.
+  if (id !== userId) {
+    throw new ApiError(403, 'forbidden', 'Forbidden');
+  }
+
+  const user = await db.select().from(users).where(eq(users.id, id)).limit(1);
+
+  if (user.length === 0) {
+    throw new ApiError(404, 'not_found', 'User not found');
+  }
 
-    const { id } = await params;
+  const res = NextResponse.json(user[0]);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+});
 
-    // Privacy: limit this endpoint to self. Household membership lookups should go through
-    // /api/households/:id/members which is already membership-gated.
+export const PUT = apiRoute(
+  { tag: 'USER_PUT', json: { maxBytes: 25_000 }, body: updateUserBody },
+  async ({ db, userId, params, body }) => {
+    const { id } = params;
     if (id !== userId) {
-      return new NextResponse("Forbidden", { status: 403 });
+      throw new ApiError(403, 'forbidden', 'Forbidden');
     }
-    
-    const user = await db.select().from(users).where(eq(users.id, id)).limit(1);
-    
-    if (user.length === 0) {
-        return new NextResponse("User not found", { status: 404 });
+
+    const { onboardingProfile, ...profile } = body;
+    const updateData: Partial<typeof users.$inferInsert> = { ...profile };
+
+    if (onboardingProfile !== undefined) {
+      const normalized = normalizeOnboardingProfile(onboardingProfile);
+      if (normalized === undefined) {
+        throw new ApiError(400, 'invalid_request', 'Invalid onboardingProfile');
+      }
+      updateData.onboardingProfile = normalized;
     }
 
-    const res = NextResponse.json(user[0]);
-    res.headers.set('cache-control', 'no-store');
-    return res;
+    if (Object.keys(updateData).length === 0) {
+      throw new ApiError(400, 'invalid_request', 'No valid fields to update');
+    }
 
-  } catch (error) {
-    console.error('[USER_GET]', error);
-    return new NextResponse("Internal Error", { status: 500 });
-  }
-}
+    await db.update(users).set(updateData).where(eq(users.id, id));
 
-export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
-    try {
-        const userId = await getUserIdFromRequest(req);
-        if (!userId) {
-          return new NextResponse("Unauthorized", { status: 401 });
-        }
-    
-        if (!db) {
-            return new NextResponse("Database not configured", { status: 500 });
-        }
-    
-        const { id } = await params;
-        if (isBodyTooLarge(req, 25_000)) {
-          return new NextResponse('Payload too large', { status: 413 });
-        }
-
-        const body = await req.json().catch(() => null);
-        if (!body || typeof body !== 'object') {
-          return new NextResponse('Invalid JSON body', { status: 400 });
-        }
-
-        if (id !== userId) {
-            return new NextResponse("Forbidden", { status: 403 });
-        }
-
-        const { name, email, avatar, onboardingProfile } = body as Partial<typeof users.$inferInsert> & {
-          onboardingProfile?: unknown;
-        };
-        const updateData: Partial<typeof users.$inferInsert> = {};
-        if (name !== undefined) {
-          if (typeof name !== 'string') return new NextResponse('Invalid name', { status: 400 });
-          const cleaned = stripControlChars(name).trim().slice(0, 120);
-          if (!cleaned) return new NextResponse('Invalid name', { status: 400 });
-          updateData.name = cleaned;
-        }
-        if (email !== undefined) {
-          if (typeof email !== 'string') return new NextResponse('Invalid email', { status: 400 });
-          const cleaned = stripControlChars(email).trim().slice(0, 320);
-          if (!cleaned) return new NextResponse('Invalid email', { status: 400 });
-          updateData.email = cleaned;
-        }
-        if (avatar !== undefined) {
-          if (avatar == null) {
-            updateData.avatar = null;
-          } else if (typeof avatar === 'string') {
-            const cleaned = stripControlChars(avatar).trim().slice(0, 2048);
-            updateData.avatar = cleaned || null;
-          } else {
-            return new NextResponse('Invalid avatar', { status: 400 });
-          }
-        }
-
-        if (onboardingProfile !== undefined) {
-          const normalized = normalizeOnboardingProfile(onboardingProfile);
-          if (normalized === undefined) {
-            return new NextResponse('Invalid onboardingProfile', { status: 400 });
-          }
-          updateData.onboardingProfile = normalized;
-        }
-
-        if (Object.keys(updateData).length === 0) {
-            return new NextResponse("No valid fields to update", { status: 400 });
-        }
-
-        await db.update(users).set(updateData).where(eq(users.id, id));
-        
-        const updatedUser = await db.select().from(users).where(eq(users.id, id));
-
-        const res = NextResponse.json(updatedUser[0]);
-        res.headers.set('cache-control', 'no-store');
-        return res;
-    
-      } catch (error) {
-        console.error('[USER_PUT]', error);
-        return new NextResponse("Internal Error", { status: 500 });
-      }
-}
+    const updatedUser = await db.select().from(users).where(eq(users.id, id));
+
+    const res = NextResponse.json(updatedUser[0]);
+    res.headers.set('cache-control', 'no-store');
+    return res;
+  },
+);
@@ -1,10 +1,13 @@
 import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api/apiError";
+import { apiRoute } from "@/lib/api/apiRoute";
+import { createUserBody } from "@/lib/api/schemas/users";
+import { checkRateLimit, getClientIp, rateLimitError } from "@/lib/rateLimit/rateLimiter";
 import { getUserIdFromRequest } from "@/lib/requestAuth";
 import { clerkClient } from "@clerk/nextjs/server";
-import { db } from "../../../db";
 import { users } from "../../../db/schema";
 import { eq } from "drizzle-orm";
-import { isBodyTooLarge, stripControlChars } from "@/lib/validation";
+import { stripControlChars } from "@/lib/validation";
 
 function normalizeString(value: unknown, maxLen: number): string | undefined {
   if (typeof value !== "string") return undefined;
@@ -13,99 +16,89 @@ function normalizeString(value: unknown, maxLen: number): string | undefined {
   return trimmed.slice(0, maxLen);
 }
 
-export async function POST(req: Request) {
-  try {
-    const userId = await getUserIdFromRequest(req);
-    if (!userId) {
-      const authHeader = req.headers.get("authorization") ?? req.headers.get("Authorization");
-      const bearer = authHeader?.toLowerCase().startsWith("bearer ") ? authHeader.slice(7).trim() : null;
-      const dotCount = bearer ? (bearer.match(/\./g) || []).length : 0;
-
-      if (process.env.NODE_ENV !== "production") {
-        console.error("[USERS_POST] Unauthorized", {
-          hasAuthHeader: !!authHeader,
-          bearerLike: !!bearer,
-          tokenDots: dotCount,
-        });
-      } else {
-        console.error("[USERS_POST] Unauthorized");
-      }
-
-      const reason = !authHeader ? "missing_authorization" : !bearer ? "not_bearer" : "invalid_token";
-      return new NextResponse(`Unauthorized (${reason})`, { status: 401 });
-    }
+// Signs in on its own so a 401 can say why the token was refused; the body is optional so a
+// request without one still gets that 401.
+export const POST = apiRoute({ tag: "USERS_POST", auth: false, json: { maxBytes: 25_000, optional: true }, body: createUserBody }, async ({ req, db, body }) => {
+  const limit = await checkRateLimit(db, "users.create", { ip: getClientIp(req) });
+  if (!limit.allowed) {
+    throw rateLimitError(limit);
+  }
 
-    if (!db) {
-      console.error("[USERS_POST] db not configured");
-      return new NextResponse("Database not configured", { status: 500 });
-    }
+  const userId = await getUserIdFromRequest(req);
+  if (!userId) {
+    const authHeader = req.headers.get("authorization") ?? req.headers.get("Authorization");
+    const bearer = authHeader?.toLowerCase().startsWith("bearer ") ? authHeader.slice(7).trim() : null;
+    const dotCount = bearer ? (bearer.match(/\./g) || []).length : 0;
 
-    if (isBodyTooLarge(req, 25_000)) {
-      return new NextResponse("Payload too large", { status: 413 });
+    if (process.env.NODE_ENV !== "production") {
+      console.error("[USERS_POST] Unauthorized", {
+        hasAuthHeader: !!authHeader,
+        bearerLike: !!bearer,
+        tokenDots: dotCount,
+      });
+    } else {
+      console.error("[USERS_POST] Unauthorized");
     }
 
-    const body = (await req.json()) as Partial<typeof users.$inferInsert>;
-    const requestedId = normalizeString(body.id, 128);
-    const effectiveId = requestedId ?? userId;
-
-    if (effectiveId !== userId) {
-      if (process.env.NODE_ENV !== "production") {
-        console.error("[USERS_POST] Forbidden: id mismatch", { requestedId, userId });
-      } else {
-        console.error("[USERS_POST] Forbidden: id mismatch");
-      }
-      return new NextResponse("Forbidden", { status: 403 });
-    }
+    const reason = !authHeader ? "missing_authorization" : !bearer ? "not_bearer" : "invalid_token";
+    throw new ApiError(401, "unauthorized", `Unauthorized (${reason})`);
+  }
 
-    let name = normalizeString(body.name, 120);
-    let email = normalizeString(body.email, 320);
-    let avatar = normalizeString(body.avatar, 2048);
+  const requestedId = body.id;
+  const effectiveId = requestedId ?? userId;
 
-    if (!name || !email) {
-      const client = await clerkClient();
-      const clerkUser = await client.users.getUser(userId);
+  if (effectiveId !== userId) {
+    if (process.env.NODE_ENV !== "production") {
+      console.error("[USERS_POST] Forbidden: id mismatch", { requestedId, userId });
+    } else {
+      console.error("[USERS_POST] Forbidden: id mismatch");
+    }
+    throw new ApiError(403, "forbidden", "Forbidden");
+  }
 
-      name =
-        name ??
-        normalizeString(clerkUser.fullName, 120) ??
-        normalizeString([clerkUser.firstName, clerkUser.lastName].filter(Boolean).join(" "), 120) ??
-        "User";
+  let { name, email, avatar } = body;
 
-      const primaryEmail =
-        clerkUser.primaryEmailAddress?.emailAddress ??
-        clerkUser.emailAddresses?.find((e) => e.id === clerkUser.primaryEmailAddressId)?.emailAddress ??
-        clerkUser.emailAddresses?.[0]?.emailAddress;
+  if (!name || !email) {
+    const client = await clerkClient();
+    const clerkUser = await client.users.getUser(userId);
 
-      email = email ?? normalizeString(primaryEmail, 320);
-      avatar = avatar ?? normalizeString(clerkUser.imageUrl, 2048);
-    }
+    name =
+      name ??
+      normalizeString(clerkUser.fullName, 120) ??
+      normalizeString([clerkUser.firstName, clerkUser.lastName].filter(Boolean).join(" "), 120) ??
+      "User";
 
-    if (!email) {
-      console.error("[USERS_POST] Missing email for user", { userId });
-      return new NextResponse("Missing required fields (email)", { status: 400 });
-    }
+    const primaryEmail =
+      clerkUser.primaryEmailAddress?.emailAddress ??
+      clerkUser.emailAddresses?.find((e) => e.id === clerkUser.primaryEmailAddressId)?.emailAddress ??
+      clerkUser.emailAddresses?.[0]?.emailAddress;
 
-    if (process.env.NODE_ENV !== "production") {
-      console.log("[USERS_POST] Auth ok", { userId });
-    }
+    email = email ?? normalizeString(primaryEmail, 320);
+    avatar = avatar ?? normalizeString(clerkUser.imageUrl, 2048);
+  }
 
-    const existing = await db.select().from(users).where(eq(users.id, effectiveId));
-
-    if (existing.length === 0) {
-      const newUser = {
-        id: effectiveId,
-        name,
-        email,
-        avatar,
-        createdAt: new Date(),
-      };
-      await db.insert(users).values(newUser);
-      return NextResponse.json(newUser);
-    }
+  if (!email) {
+    console.error("[USERS_POST] Missing email for user", { userId });
+    throw new ApiError(400, "invalid_request", "Missing required fields (email)");
+  }
 
-    return NextResponse.json(existing[0]);
-  } catch (error) {
-    console.error("[USERS_POST]", error);
-    return new NextResponse("Internal Error", { status: 500 });
+  if (process.env.NODE_ENV !== "production") {
+    console.log("[USERS_POST] Auth ok", { userId });
   }
-}
+
+  const existing = await db.select().from(users).where(eq(users.id, effectiveId));
+
+  if (existing.length === 0) {
+    const newUser = {
+      id: effectiveId,
+      name,
+      email,
+      avatar,
+      createdAt: new Date(),
+    };
+    await db.insert(users).values(newUser);
+    return NextResponse.json(newUser);
+  }
+
+  return NextResponse.json(existing[0]);
+});
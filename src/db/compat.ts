@@ -1,15 +1,33 @@
 import { sql } from 'drizzle-orm';
 import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
 import * as schema from './schema';
-import { meals } from './schema';
+import { globalMeals, invites, meals, notificationSettings, plans } from './schema';
 
 type MealsColumnAvailability = {
   nutrition: boolean;
   sourceUrl: boolean;
+  servings: boolean;
+  tags: boolean;
+  // prep/cook/total time and difficulty are added together by add_meals_timing.sql.
+  timing: boolean;
+  // meals.version/updated_at and the meal_revisions table are added together by add_meal_revisions.sql.
+  versioning: boolean;
+};
+
+type PlansColumnAvailability = {
+  // slot and servings are added together by add_plans_slot_and_servings.sql.
+  slots: boolean;
+  // template_id is added by add_plan_templates_table.sql.
+  templates: boolean;
+  // completed_at and notes are added together by add_cooking_history.sql.
+  completion: boolean;
 };
 
 let cachedMealsColumns: MealsColumnAvailability | null = null;
+let cachedPlansColumns: PlansColumnAvailability | null = null;
 let cachedUsersHasHadTrialColumn: boolean | null = null;
+const cachedTables = new Map<string, boolean>();
+const cachedColumns = new Map<string, boolean>();
 
 export async function hasUsersHasHadTrialColumn(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
   if (cachedUsersHasHadTrialColumn !== null) return cachedUsersHasHadTrialColumn;
@@ -32,6 +50,148 @@ export async function hasUsersHasHadTrialColumn(db: NeonHttpDatabase<typeof sche
   return cachedUsersHasHadTrialColumn;
 }
 
+async function hasPublicTable(db: NeonHttpDatabase<typeof schema>, tableName: string): Promise<boolean> {
+  const cached = cachedTables.get(tableName);
+  if (cached !== undefined) return cached;
+
+  let exists = false;
+  try {
+    const result = await db.execute(sql`
+      SELECT 1
+      FROM information_schema.tables
+      WHERE table_schema = 'public'
+        AND table_name = ${tableName}
+      LIMIT 1
+    `);
+
+    exists = Boolean(result.rows && result.rows.length > 0);
+  } catch {
+    exists = false;
+  }
+
+  cachedTables.set(tableName, exists);
+  return exists;
+}
+
+async function hasPublicColumn(
+  db: NeonHttpDatabase<typeof schema>,
+  tableName: string,
+  columnName: string,
+): Promise<boolean> {
+  const key = `${tableName}.${columnName}`;
+  const cached = cachedColumns.get(key);
+  if (cached !== undefined) return cached;
+
+  let exists = false;
+  try {
+    const result = await db.execute(sql`
+      SELECT 1
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+        AND table_name = ${tableName}
+        AND column_name = ${columnName}
+      LIMIT 1
+    `);
+
+    exists = Boolean(result.rows && result.rows.length > 0);
+  } catch {
+    exists = false;
+  }
+
+  cachedColumns.set(key, exists);
+  return exists;
+}
+
+export async function hasCookingHistoryTable(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'cooking_history');
+}
+
+export async function hasPlanTemplatesTable(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'plan_templates');
+}
+
+export async function hasDietaryProfilesTable(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'member_dietary_profiles');
+}
+
+export async function hasHouseholdActivityTable(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'household_activity');
+}
+
+export async function hasRateLimitTable(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'rate_limit_buckets');
+}
+
+// households/plans/household_members.updated_at, the sync_tombstones table and the triggers that
+// maintain them are added together by add_sync_tracking.sql.
+export async function hasSyncTrackingSchema(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'sync_tombstones');
+}
+
+// invites.role/revoked_at/revoked_by and the invite_redemptions table are added together by
+// add_invite_management.sql.
+export async function hasInviteManagementSchema(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'invite_redemptions');
+}
+
+// invites.email/declined_at are added together by add_email_invites.sql.
+export async function hasInviteEmailColumns(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicColumn(db, 'invites', 'email');
+}
+
+/**
+ * Columns of `invites` that exist before and after add_invite_management.sql and
+ * add_email_invites.sql; the newer ones fall back to what an old invite means (a shareable member
+ * link that was never revoked or declined).
+ */
+export async function getInvitesSelect(db: NeonHttpDatabase<typeof schema>) {
+  const [managed, addressed] = await Promise.all([hasInviteManagementSchema(db), hasInviteEmailColumns(db)]);
+
+  return {
+    id: invites.id,
+    householdId: invites.householdId,
+    token: invites.token,
+    expiresAt: invites.expiresAt,
+    usesLeft: invites.usesLeft,
+    role: managed ? invites.role : sql<string>`'member'`,
+    revokedAt: managed ? invites.revokedAt : sql<Date | null>`NULL::timestamp`,
+    email: addressed ? invites.email : sql<string | null>`NULL::text`,
+    declinedAt: addressed ? invites.declinedAt : sql<Date | null>`NULL::timestamp`,
+    createdBy: invites.createdBy,
+    createdAt: invites.createdAt,
+  };
+}
+
+// global_meals.nutrition/sort_order/retired_at/updated_at and the global_meal_collections table are
+// added together by add_global_meal_library.sql.
+export async function hasGlobalMealLibrarySchema(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicTable(db, 'global_meal_collections');
+}
+
+/**
+ * Columns of `global_meals` that exist before and after add_global_meal_library.sql; before it
+ * every global meal is live, unordered and has no stored nutrition.
+ */
+export async function getGlobalMealsSelect(db: NeonHttpDatabase<typeof schema>) {
+  const curated = await hasGlobalMealLibrarySchema(db);
+
+  return {
+    id: globalMeals.id,
+    name: globalMeals.name,
+    description: globalMeals.description,
+    collection: globalMeals.collection,
+    ingredients: globalMeals.ingredients,
+    instructions: globalMeals.instructions,
+    image: globalMeals.image,
+    cuisine: globalMeals.cuisine,
+    nutrition: curated ? globalMeals.nutrition : sql<unknown>`NULL::jsonb`,
+    sortOrder: curated ? globalMeals.sortOrder : sql<number>`0`,
+    retiredAt: curated ? globalMeals.retiredAt : sql<Date | null>`NULL::timestamp`,
+    updatedAt: curated ? globalMeals.updatedAt : sql<Date | null>`NULL::timestamp`,
+    createdAt: globalMeals.createdAt,
+  };
+}
+
 function safeJsonStringify(value: unknown): string {
   const serialized = JSON.stringify(value);
   if (typeof serialized !== 'string') {
@@ -43,7 +203,7 @@ function safeJsonStringify(value: unknown): string {
 }
 
 function normalizeJsonColumnValue(
-  column: 'ingredients' | 'instructions' | 'nutrition',
+  column: 'ingredients' | 'instructions' | 'nutrition' | 'tags',
   value: unknown,
 ): string | null {
   if (value === null) return null;
@@ -81,7 +241,7 @@ export async function getMealsColumnAvailability(db: NeonHttpDatabase<typeof sch
       FROM information_schema.columns
       WHERE table_schema = 'public'
         AND table_name = 'meals'
-        AND column_name IN ('nutrition', 'source_url')
+        AND column_name IN ('nutrition', 'source_url', 'servings', 'tags', 'total_time_minutes', 'version')
     `);
 
     const names = new Set(
@@ -93,9 +253,13 @@ export async function getMealsColumnAvailability(db: NeonHttpDatabase<typeof sch
     cachedMealsColumns = {
       nutrition: names.has('nutrition'),
       sourceUrl: names.has('source_url'),
+      servings: names.has('servings'),
+      tags: names.has('tags'),
+      timing: names.has('total_time_minutes'),
+      versioning: names.has('version'),
     };
   } catch {
-    cachedMealsColumns = { nutrition: false, sourceUrl: false };
+    cachedMealsColumns = { nutrition: false, sourceUrl: false, servings: false, tags: false, timing: false, versioning: false };
   }
 
   return cachedMealsColumns;
@@ -139,7 +303,7 @@ export async function insertMealCompat(
     if (normalizedValue instanceof Date) {
       normalizedValue = normalizedValue.toISOString();
     }
-    if (column === 'ingredients' || column === 'instructions' || column === 'nutrition') {
+    if (column === 'ingredients' || column === 'instructions' || column === 'nutrition' || column === 'tags') {
       normalizedValue = normalizeJsonColumnValue(column, normalizedValue);
     }
 
@@ -170,6 +334,22 @@ export async function insertMealCompat(
   push('user_notes', meal.userNotes);
   push('image', meal.image);
   push('cuisine', meal.cuisine);
+
+  if (availability.servings) {
+    push('servings', meal.servings);
+  }
+
+  if (availability.tags) {
+    push('tags', meal.tags);
+  }
+
+  if (availability.timing) {
+    push('prep_time_minutes', meal.prepTimeMinutes);
+    push('cook_time_minutes', meal.cookTimeMinutes);
+    push('total_time_minutes', meal.totalTimeMinutes);
+    push('difficulty', meal.difficulty);
+  }
+
   push('created_at', meal.createdAt);
 
   if (columns.length === 0) {
@@ -202,6 +382,248 @@ export async function getMealsSelect(db: NeonHttpDatabase<typeof schema>) {
     userNotes: meals.userNotes,
     image: meals.image,
     cuisine: meals.cuisine,
+    servings: availability.servings ? meals.servings : sql<number | null>`NULL::integer`,
+    tags: availability.tags ? meals.tags : sql<unknown>`'[]'::jsonb`,
+    prepTimeMinutes: availability.timing ? meals.prepTimeMinutes : sql<number | null>`NULL::integer`,
+    cookTimeMinutes: availability.timing ? meals.cookTimeMinutes : sql<number | null>`NULL::integer`,
+    totalTimeMinutes: availability.timing ? meals.totalTimeMinutes : sql<number | null>`NULL::integer`,
+    difficulty: availability.timing ? meals.difficulty : sql<string | null>`NULL::text`,
+    version: availability.versioning ? meals.version : sql<number>`1`,
+    updatedAt: availability.versioning ? meals.updatedAt : sql<Date | null>`NULL::timestamp`,
     createdAt: meals.createdAt,
   };
 }
+
+/**
+ * Inserts an invite, leaving out the columns add_invite_management.sql and add_email_invites.sql
+ * add when they don't exist yet (a plain drizzle insert names every column).
+ */
+export async function insertInviteCompat(
+  db: NeonHttpDatabase<typeof schema>,
+  invite: typeof invites.$inferInsert,
+): Promise<void> {
+  const [managed, addressed] = await Promise.all([hasInviteManagementSchema(db), hasInviteEmailColumns(db)]);
+
+  const columns: string[] = [];
+  const values: unknown[] = [];
+
+  function push(column: string, value: unknown) {
+    if (value === undefined) return;
+    columns.push(column);
+    values.push(value instanceof Date ? value.toISOString() : value);
+  }
+
+  push('id', invite.id);
+  push('household_id', invite.householdId);
+  push('token', invite.token);
+  push('expires_at', invite.expiresAt);
+  push('uses_left', invite.usesLeft);
+
+  if (managed) {
+    push('role', invite.role);
+  }
+
+  if (addressed) {
+    push('email', invite.email);
+  }
+
+  push('created_by', invite.createdBy);
+  push('created_at', invite.createdAt);
+
+  await db.execute(sql`
+    INSERT INTO ${sql.identifier('invites')}
+    (${sql.join(columns.map((c) => sql.identifier(c)), sql`, `)})
+    VALUES (${sql.join(values.map((v) => sql.param(v)), sql`, `)})
+  `);
+}
+
+export async function getPlansColumnAvailability(db: NeonHttpDatabase<typeof schema>): Promise<PlansColumnAvailability> {
+  if (cachedPlansColumns) return cachedPlansColumns;
+
+  try {
+    const result = await db.execute(sql`
+      SELECT column_name
+      FROM information_schema.columns
+      WHERE table_schema = 'public'
+        AND table_name = 'plans'
+        AND column_name IN ('slot', 'template_id', 'completed_at')
+    `);
+
+    const names = new Set(
+      (result.rows ?? [])
+        .map((row) => (row as { column_name?: unknown }).column_name)
+        .filter((value): value is string => typeof value === 'string' && value.length > 0),
+    );
+
+    cachedPlansColumns = {
+      slots: names.has('slot'),
+      templates: names.has('template_id'),
+      completion: names.has('completed_at'),
+    };
+  } catch {
+    cachedPlansColumns = { slots: false, templates: false, completion: false };
+  }
+
+  return cachedPlansColumns;
+}
+
+/**
+ * Columns of `plans` that exist before and after the slot, template and cooking-history
+ * migrations; before them every plan is an uncooked dinner with no servings override or notes.
+ */
+export async function getPlansSelect(db: NeonHttpDatabase<typeof schema>) {
+  const availability = await getPlansColumnAvailability(db);
+
+  return {
+    id: plans.id,
+    householdId: plans.householdId,
+    mealId: plans.mealId,
+    date: plans.date,
+    slot: availability.slots ? plans.slot : sql<string>`'dinner'`,
+    servings: availability.slots ? plans.servings : sql<number | null>`NULL::integer`,
+    templateId: availability.templates ? plans.templateId : sql<string | null>`NULL::text`,
+    isCompleted: plans.isCompleted,
+    completedAt: availability.completion ? plans.completedAt : sql<Date | null>`NULL::timestamp`,
+    notes: availability.completion ? plans.notes : sql<string | null>`NULL::text`,
+    createdAt: plans.createdAt,
+  };
+}
+
+/**
+ * An insert of `rows` into `plans` naming only the columns `availability` has (a plain drizzle
+ * insert names every column). Returned unexecuted so it can go into a `db.batch`.
+ */
+export function insertPlansCompat(
+  db: NeonHttpDatabase<typeof schema>,
+  availability: PlansColumnAvailability,
+  rows: Array<typeof plans.$inferInsert>,
+) {
+  const columns: Array<[string, keyof typeof plans.$inferInsert]> = [];
+
+  function push(column: string, key: keyof typeof plans.$inferInsert) {
+    columns.push([column, key]);
+  }
+
+  push('id', 'id');
+  push('household_id', 'householdId');
+  push('meal_id', 'mealId');
+  push('date', 'date');
+
+  if (availability.slots) {
+    push('slot', 'slot');
+    push('servings', 'servings');
+  }
+
+  if (availability.templates) {
+    push('template_id', 'templateId');
+  }
+
+  push('is_completed', 'isCompleted');
+
+  if (availability.completion) {
+    push('completed_at', 'completedAt');
+    push('notes', 'notes');
+  }
+
+  push('created_at', 'createdAt');
+
+  const values = rows.map(
+    (row) =>
+      sql`(${sql.join(
+        columns.map(([, key]) => {
+          const value = row[key];
+          if (value === undefined) return sql`DEFAULT`;
+          return sql.param(value instanceof Date ? value.toISOString() : value);
+        }),
+        sql`, `,
+      )})`,
+  );
+
+  return db.execute(sql`
+    INSERT INTO ${sql.identifier('plans')}
+    (${sql.join(columns.map(([column]) => sql.identifier(column)), sql`, `)})
+    VALUES ${sql.join(values, sql`, `)}
+  `);
+}
+
+// notification_settings.reminder_slots is added by add_plans_slot_and_servings.sql.
+export async function hasReminderSlotsColumn(db: NeonHttpDatabase<typeof schema>): Promise<boolean> {
+  return hasPublicColumn(db, 'notification_settings', 'reminder_slots');
+}
+
+/**
+ * Columns of `notification_settings` that exist before and after add_plans_slot_and_servings.sql;
+ * before it reminders only cover dinner.
+ */
+export async function getNotificationSettingsSelect(db: NeonHttpDatabase<typeof schema>) {
+  const slots = await hasReminderSlotsColumn(db);
+
+  return {
+    userId: notificationSettings.userId,
+    enabled: notificationSettings.enabled,
+    householdId: notificationSettings.householdId,
+    utcOffsetMinutes: notificationSettings.utcOffsetMinutes,
+    quietHoursStart: notificationSettings.quietHoursStart,
+    quietHoursEnd: notificationSettings.quietHoursEnd,
+    maxPerDay: notificationSettings.maxPerDay,
+    remindTodayMissing: notificationSettings.remindTodayMissing,
+    remindTomorrowMissing: notificationSettings.remindTomorrowMissing,
+    remindMissYou: notificationSettings.remindMissYou,
+    reminderSlots: slots ? notificationSettings.reminderSlots : sql<unknown>`'["dinner"]'::jsonb`,
+    lastSeenAt: notificationSettings.lastSeenAt,
+    createdAt: notificationSettings.createdAt,
+    updatedAt: notificationSettings.updatedAt,
+  };
+}
+
+/**
+ * Inserts or replaces a user's notification settings, leaving out reminder_slots when
+ * add_plans_slot_and_servings.sql hasn't run. `createdAt` is only written on insert.
+ */
+export async function upsertNotificationSettingsCompat(
+  db: NeonHttpDatabase<typeof schema>,
+  settings: typeof notificationSettings.$inferInsert,
+): Promise<void> {
+  const slots = await hasReminderSlotsColumn(db);
+
+  const columns: string[] = [];
+  const values: unknown[] = [];
+
+  function push(column: string, value: unknown) {
+    if (value === undefined) return;
+    columns.push(column);
+    if (column === 'reminder_slots') {
+      values.push(JSON.stringify(value));
+    } else {
+      values.push(value instanceof Date ? value.toISOString() : value);
+    }
+  }
+
+  push('user_id', settings.userId);
+  push('enabled', settings.enabled);
+  push('household_id', settings.householdId);
+  push('utc_offset_minutes', settings.utcOffsetMinutes);
+  push('quiet_hours_start', settings.quietHoursStart);
+  push('quiet_hours_end', settings.quietHoursEnd);
+  push('max_per_day', settings.maxPerDay);
+  push('remind_today_missing', settings.remindTodayMissing);
+  push('remind_tomorrow_missing', settings.remindTomorrowMissing);
+  push('remind_miss_you', settings.remindMissYou);
+
+  if (slots) {
+    push('reminder_slots', settings.reminderSlots);
+  }
+
+  push('last_seen_at', settings.lastSeenAt);
+  push('created_at', settings.createdAt);
+  push('updated_at', settings.updatedAt);
+
+  const updated = columns.filter((column) => column !== 'user_id' && column !== 'created_at');
+  await db.execute(sql`
+    INSERT INTO ${sql.identifier('notification_settings')}
+    (${sql.join(columns.map((c) => sql.identifier(c)), sql`, `)})
+    VALUES (${sql.join(values.map((v) => sql.param(v)), sql`, `)})
+    ON CONFLICT (user_id) DO UPDATE SET
+    ${sql.join(updated.map((c) => sql`${sql.identifier(c)} = EXCLUDED.${sql.identifier(c)}`), sql`, `)}
+  `);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, timestamp, integer, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, integer, real, boolean, jsonb, index, primaryKey, uniqueIndex } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: text('id').primaryKey(),
@@ -48,6 +48,15 @@ export const meals = pgTable(
     userNotes: text('user_notes'),
     image: text('image'),
     cuisine: text('cuisine'),
+    servings: integer('servings'),
+    tags: jsonb('tags').default([]), // lowercase labels, e.g. ["kid-friendly", "freezer"]
+    prepTimeMinutes: integer('prep_time_minutes'),
+    cookTimeMinutes: integer('cook_time_minutes'),
+    totalTimeMinutes: integer('total_time_minutes'),
+    difficulty: text('difficulty'), // 'easy' | 'medium' | 'hard'
+    // Bumped on every recipe edit; PUT /api/meals/:id sends it back to detect concurrent edits.
+    version: integer('version').default(1).notNull(),
+    updatedAt: timestamp('updated_at').defaultNow(),
     createdAt: timestamp('created_at').defaultNow(),
   },
   (table) => ({
@@ -63,12 +72,157 @@ export const plans = pgTable(
     householdId: text('household_id').references(() => households.id).notNull(),
     mealId: text('meal_id').references(() => meals.id).notNull(),
     date: text('date').notNull(),
+    slot: text('slot').notNull().default('dinner'), // breakfast | lunch | dinner | snack
+    servings: integer('servings'),
+    templateId: text('template_id').references(() => planTemplates.id, { onDelete: 'set null' }),
     isCompleted: boolean('is_completed').default(false),
+    completedAt: timestamp('completed_at'),
+    notes: text('notes'),
     createdAt: timestamp('created_at').defaultNow(),
   },
   (table) => ({
     householdIdx: index('plans_household_id_idx').on(table.householdId),
     mealIdx: index('plans_meal_id_idx').on(table.mealId),
+    householdDateIdx: index('plans_household_id_date_idx').on(table.householdId, table.date),
+    templateIdx: index('plans_template_id_idx').on(table.templateId),
+  }),
+);
+
+// Recurring plan rules ("meal X every Tuesday", or rotate several meals on one weekday).
+export const planTemplates = pgTable(
+  'plan_templates',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    name: text('name'),
+    weekday: integer('weekday').notNull(), // 0 = Sunday ... 6 = Saturday
+    slot: text('slot').notNull().default('dinner'),
+    servings: integer('servings'),
+    mealIds: jsonb('meal_ids').notNull().default([]), // one meal, or several to rotate week by week
+    startDate: text('start_date').notNull(),
+    endDate: text('end_date'),
+    isPaused: boolean('is_paused').notNull().default(false),
+    materializedThrough: text('materialized_through'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    householdIdx: index('plan_templates_household_id_idx').on(table.householdId),
+  }),
+);
+
+// What a household already has on hand, keyed on the ingredients catalog's normalized name.
+export const pantryItems = pgTable(
+  'pantry_items',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    name: text('name').notNull(),
+    nameNormalized: text('name_normalized').notNull(),
+    category: text('category'),
+    quantity: real('quantity'), // null = "have some", e.g. salt
+    unit: text('unit'),
+    lowStockThreshold: real('low_stock_threshold'),
+    expiresOn: text('expires_on'), // YYYY-MM-DD
+    addedBy: text('added_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    householdIdx: index('pantry_items_household_id_idx').on(table.householdId),
+    householdNameIdx: uniqueIndex('pantry_items_household_id_name_normalized_uniq').on(
+      table.householdId,
+      table.nameNormalized,
+    ),
+  }),
+);
+
+// One row per time a household actually cooked a meal (completing a plan records one).
+export const cookingHistory = pgTable(
+  'cooking_history',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    mealId: text('meal_id')
+      .references(() => meals.id, { onDelete: 'cascade' })
+      .notNull(),
+    planId: text('plan_id').references(() => plans.id, { onDelete: 'set null' }),
+    cookedBy: text('cooked_by').references(() => users.id, { onDelete: 'set null' }),
+    cookedOn: text('cooked_on').notNull(), // YYYY-MM-DD
+    servings: integer('servings'),
+    notes: text('notes'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    householdMealIdx: index('cooking_history_household_id_meal_id_idx').on(table.householdId, table.mealId),
+    planIdx: uniqueIndex('cooking_history_plan_id_uniq').on(table.planId),
+    cookedByIdx: index('cooking_history_cooked_by_idx').on(table.cookedBy),
+  }),
+);
+
+// Snapshot of a meal's recipe content at each version, for history and restore.
+export const mealRevisions = pgTable(
+  'meal_revisions',
+  {
+    id: text('id').primaryKey(),
+    mealId: text('meal_id')
+      .references(() => meals.id, { onDelete: 'cascade' })
+      .notNull(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    version: integer('version').notNull(),
+    snapshot: jsonb('snapshot').notNull(),
+    editedBy: text('edited_by').references(() => users.id, { onDelete: 'set null' }),
+    restoredFromVersion: integer('restored_from_version'),
+    createdAt: timestamp('created_at').defaultNow(),
+  },
+  (table) => ({
+    mealVersionIdx: uniqueIndex('meal_revisions_meal_id_version_uniq').on(table.mealId, table.version),
+  }),
+);
+
+// Named, household-curated groups of meals (e.g. "Christmas", "Sunday lunch").
+export const mealCollections = pgTable(
+  'meal_collections',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    name: text('name').notNull(),
+    description: text('description'),
+    createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    householdIdx: index('meal_collections_household_id_idx').on(table.householdId),
+  }),
+);
+
+export const mealCollectionItems = pgTable(
+  'meal_collection_items',
+  {
+    id: text('id').primaryKey(),
+    collectionId: text('collection_id')
+      .references(() => mealCollections.id, { onDelete: 'cascade' })
+      .notNull(),
+    mealId: text('meal_id')
+      .references(() => meals.id, { onDelete: 'cascade' })
+      .notNull(),
+    addedAt: timestamp('added_at').defaultNow(),
+  },
+  (table) => ({
+    collectionMealIdx: uniqueIndex('meal_collection_items_collection_id_meal_id_uniq').on(table.collectionId, table.mealId),
+    mealIdx: index('meal_collection_items_meal_id_idx').on(table.mealId),
   }),
 );
 
@@ -76,21 +230,42 @@ export const globalMeals = pgTable('global_meals', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   description: text('description'),
-  collection: text('collection'),
+  collection: text('collection'), // name of a global_meal_collections row
   ingredients: jsonb('ingredients').default([]),
   instructions: jsonb('instructions').default([]),
   image: text('image'),
   cuisine: text('cuisine'),
+  nutrition: jsonb('nutrition'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  retiredAt: timestamp('retired_at'), // hidden from the library; existing household copies are untouched
+  updatedAt: timestamp('updated_at'),
   createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const globalMealCollections = pgTable(
+  'global_meal_collections',
+  {
+    id: text('id').primaryKey(),
+    name: text('name').notNull(),
+    description: text('description'),
+    image: text('image'),
+    sortOrder: integer('sort_order').notNull().default(0),
+    retiredAt: timestamp('retired_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at'),
+  },
+  (table) => ({
+    nameIdx: uniqueIndex('global_meal_collections_name_uniq').on(table.name),
+  }),
+);
+
 export const household_members = pgTable(
   'household_members',
   {
     id: text('id').primaryKey(),
     householdId: text('household_id').references(() => households.id, { onDelete: 'cascade' }).notNull(),
     userId: text('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
-    role: text('role').notNull(), // "owner" | "member"
+    role: text('role').notNull(), // "owner" | "admin" | "member" | "viewer"; see src/lib/households/roles.ts
     joinedAt: timestamp('joined_at').defaultNow(),
   },
   (table) => ({
@@ -100,18 +275,86 @@ export const household_members = pgTable(
   }),
 );
 
+// Per-member dietary needs within a household; used to flag meals and constrain AI generation.
+export const memberDietaryProfiles = pgTable(
+  'member_dietary_profiles',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: text('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    allergens: jsonb('allergens').default([]), // e.g. ["peanuts", "shellfish"]
+    diets: jsonb('diets').default([]), // e.g. ["vegetarian", "halal"]
+    avoidIngredients: jsonb('avoid_ingredients').default([]), // free-form dislikes, e.g. ["coriander"]
+    updatedAt: timestamp('updated_at').defaultNow(),
+  },
+  (table) => ({
+    householdUserIdx: uniqueIndex('member_dietary_profiles_household_id_user_id_uniq').on(table.householdId, table.userId),
+  }),
+);
+
+// Append-only log of who did what in a household (meals added/edited/deleted, plans, members, invites).
+// Entity ids are not foreign keys so entries outlive the rows they describe; `metadata` keeps the
+// names needed to render them afterwards.
+export const householdActivity = pgTable(
+  'household_activity',
+  {
+    id: text('id').primaryKey(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    actorId: text('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    type: text('type').notNull(), // e.g. "meal.deleted"
+    entityId: text('entity_id'),
+    metadata: jsonb('metadata').notNull().default({}),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    householdCreatedIdx: index('household_activity_household_id_created_at_idx').on(table.householdId, table.createdAt),
+  }),
+);
+
 export const invites = pgTable('invites', {
   id: text('id').primaryKey(),
   householdId: text('household_id').references(() => households.id, { onDelete: 'cascade' }).notNull(),
   token: text('token').notNull(),
   expiresAt: timestamp('expires_at').notNull(),
   usesLeft: integer('uses_left'),
+  role: text('role').notNull().default('member'), // role the invitee joins with
+  revokedAt: timestamp('revoked_at'),
+  revokedBy: text('revoked_by').references(() => users.id, { onDelete: 'set null' }),
+  email: text('email'), // lowercased; set for invites addressed to one person, null for shareable links
+  declinedAt: timestamp('declined_at'),
   createdBy: text('created_by').references(() => users.id).notNull(),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => ({
   tokenIdx: index('invites_token_idx').on(table.token),
+  emailIdx: index('invites_email_idx').on(table.email),
 }));
 
+// Who joined through which invite, kept after the invite expires or is revoked.
+export const inviteRedemptions = pgTable(
+  'invite_redemptions',
+  {
+    id: text('id').primaryKey(),
+    inviteId: text('invite_id')
+      .references(() => invites.id, { onDelete: 'cascade' })
+      .notNull(),
+    householdId: text('household_id')
+      .references(() => households.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: text('user_id').references(() => users.id, { onDelete: 'set null' }),
+    role: text('role').notNull(),
+    redeemedAt: timestamp('redeemed_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    inviteIdx: index('invite_redemptions_invite_id_idx').on(table.inviteId),
+  }),
+);
+
 export const mealShares = pgTable(
   'meal_shares',
   {
@@ -281,6 +524,7 @@ export const notificationSettings = pgTable('notification_settings', {
   remindTodayMissing: boolean('remind_today_missing').notNull().default(true),
   remindTomorrowMissing: boolean('remind_tomorrow_missing').notNull().default(true),
   remindMissYou: boolean('remind_miss_you').notNull().default(true),
+  reminderSlots: jsonb('reminder_slots').notNull().default(['dinner']),
   lastSeenAt: timestamp('last_seen_at'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
@@ -349,3 +593,36 @@ export const userAchievements = pgTable(
     uniqUserAchievement: uniqueIndex('user_achievements_user_id_achievement_id_uniq').on(table.userId, table.achievementId),
   }),
 );
+
+// Fixed-window counters for src/lib/rateLimit, shared across serverless instances.
+export const rateLimitBuckets = pgTable(
+  'rate_limit_buckets',
+  {
+    key: text('key').primaryKey(), // "<policy>:user:<id>" or "<policy>:ip:<address>"
+    count: integer('count').notNull(),
+    resetAt: timestamp('reset_at').notNull(),
+  },
+  (table) => ({
+    resetAtIdx: index('rate_limit_buckets_reset_at_idx').on(table.resetAt),
+  }),
+);
+
+// Deleted households, members, meals and plans, for GET /api/sync. Written by triggers (see
+// sql/add_sync_tracking.sql), which also maintain an `updated_at` on households, plans and
+// household_members. Those columns are left out of the tables above so plain selects and inserts
+// keep working before that migration; src/lib/sync reads them.
+export const syncTombstones = pgTable(
+  'sync_tombstones',
+  {
+    entity: text('entity').notNull(), // "household" | "member" | "meal" | "plan"
+    entityId: text('entity_id').notNull(),
+    householdId: text('household_id').notNull(),
+    userId: text('user_id'), // members only
+    deletedAt: timestamp('deleted_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.entity, table.entityId] }),
+    householdDeletedIdx: index('sync_tombstones_household_id_deleted_at_idx').on(table.householdId, table.deletedAt),
+    userDeletedIdx: index('sync_tombstones_user_id_deleted_at_idx').on(table.userId, table.deletedAt),
+  }),
+);
@@ -1,4 +1,4 @@
-export type AchievementCategory = 'planning' | 'creation' | 'social' | 'ai';
+export type AchievementCategory = 'planning' | 'cooking' | 'creation' | 'social' | 'ai';
 
 export type AchievementDefinition = {
   id: string;
@@ -66,6 +66,30 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     category: 'planning',
     target: 5,
   },
+  {
+    id: 'cook_first',
+    title: 'First cook',
+    description: 'Mark a planned meal as cooked.',
+    iconName: 'check-square',
+    category: 'cooking',
+    target: 1,
+  },
+  {
+    id: 'cook_total_25',
+    title: 'Home cook',
+    description: 'Cook 25 planned meals.',
+    iconName: 'coffee',
+    category: 'cooking',
+    target: 25,
+  },
+  {
+    id: 'cook_variety_10',
+    title: 'Adventurous cook',
+    description: 'Cook 10 different meals.',
+    iconName: 'compass',
+    category: 'cooking',
+    target: 10,
+  },
   {
     id: 'meal_first',
     title: 'First recipe',
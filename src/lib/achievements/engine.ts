@@ -52,9 +52,9 @@ function isSchemaMissingError(error: unknown, hint?: string): boolean {
   return isUndefinedTableError(error, hint) || isUndefinedColumnError(error, hint);
 }
 
-function parseCountRow(result: { rows?: unknown[] }): number {
-  const row = (result.rows ?? [])[0] as { count?: unknown } | undefined;
-  const raw = row?.count;
+function parseCountRow(result: { rows?: unknown[] }, column = 'count'): number {
+  const row = (result.rows ?? [])[0] as Record<string, unknown> | undefined;
+  const raw = row?.[column];
   const count = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number.parseInt(raw, 10) : 0;
   return Number.isFinite(count) ? count : 0;
 }
@@ -103,6 +103,8 @@ type ComputedSignals = {
   invitesCreated: number;
   aiScanUsed: number;
   aiTotalUsed: number;
+  mealsCooked: number;
+  distinctMealsCooked: number;
 };
 
 async function safeExecute(
@@ -154,6 +156,7 @@ async function computeSignals(database: Database, userId: string): Promise<Compu
     aiTotalRes,
     planAnyRes,
     planWindowRes,
+    cookedRes,
   ] = await Promise.all([
     safeExecute(
       database,
@@ -205,6 +208,16 @@ async function computeSignals(database: Database, userId: string): Promise<Compu
           'plans',
         )
       : Promise.resolve({ rows: [] }),
+    safeExecute(
+      database,
+      sql`
+        SELECT COUNT(*)::int AS count, COUNT(DISTINCT meal_id)::int AS distinct_count
+        FROM cooking_history
+        WHERE cooked_by = ${userId}
+      `,
+      { rows: [{ count: 0, distinct_count: 0 }] },
+      'cooking_history',
+    ),
   ]);
 
   const plansInWindowByHousehold = new Map<string, Set<string>>();
@@ -234,6 +247,8 @@ async function computeSignals(database: Database, userId: string): Promise<Compu
     invitesCreated: parseCountRow(inviteCountRes),
     aiScanUsed: parseCountRow(aiScanRes),
     aiTotalUsed: parseCountRow(aiTotalRes),
+    mealsCooked: parseCountRow(cookedRes),
+    distinctMealsCooked: parseCountRow(cookedRes, 'distinct_count'),
   };
 }
 
@@ -253,6 +268,9 @@ function buildAchievementStatuses(signals: ComputedSignals): Array<Pick<Achievem
     { id: 'invite_first', progress: signals.invitesCreated },
     { id: 'ai_first_scan', progress: signals.aiScanUsed },
     { id: 'ai_power_user_20', progress: signals.aiTotalUsed },
+    { id: 'cook_first', progress: signals.mealsCooked },
+    { id: 'cook_total_25', progress: signals.mealsCooked },
+    { id: 'cook_variety_10', progress: signals.distinctMealsCooked },
   ];
 }
 
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { SchemaValidationError } from '@/lib/api/schema';
+import { activityQuery } from '@/lib/api/schemas/households';
+
+import {
+  ActivityValidationError,
+  decodeActivityCursor,
+  describeActivity,
+  encodeActivityCursor,
+  MAX_ACTIVITY_PAGE_SIZE,
+  toActivityPage,
+} from './activityLog';
+
+test('activity cursors round-trip and reject garbage', () => {
+  const cursor = { createdAt: new Date('2026-03-01T18:30:00.123Z'), id: 'a1b2' };
+  assert.deepEqual(decodeActivityCursor(encodeActivityCursor(cursor)), cursor);
+  assert.throws(() => decodeActivityCursor('not-a-cursor'), ActivityValidationError);
+  assert.throws(() => decodeActivityCursor(Buffer.from('2026-03-01|').toString('base64url')), ActivityValidationError);
+});
+
+test('activityQuery applies defaults, bounds the limit and expands type categories', () => {
+  const defaults = activityQuery.parse({}, 'query');
+  assert.equal(defaults.limit, 30);
+  assert.equal(defaults.cursor, undefined);
+  assert.equal(defaults.type, undefined);
+
+  const filtered = activityQuery.parse({ type: ['member', 'meal.deleted'], limit: '5' }, 'query');
+  assert.equal(filtered.limit, 5);
+  assert.deepEqual(filtered.type, ['meal.deleted', 'member.joined', 'member.left', 'member.removed', 'member.roleChanged']);
+
+  assert.throws(() => activityQuery.parse({ limit: String(MAX_ACTIVITY_PAGE_SIZE + 1) }, 'query'), SchemaValidationError);
+  assert.throws(() => activityQuery.parse({ limit: '0' }, 'query'), SchemaValidationError);
+  assert.throws(() => activityQuery.parse({ type: 'mealz' }, 'query'), /Unknown activity type/);
+});
+
+test('toActivityPage only returns a next cursor when there is another page', () => {
+  const rows = [3, 2, 1].map((n) => ({ id: `id-${n}`, createdAt: new Date(Date.UTC(2026, 0, n)) }));
+
+  const first = toActivityPage(rows, 2);
+  assert.deepEqual(first.items.map((row) => row.id), ['id-3', 'id-2']);
+  assert.deepEqual(decodeActivityCursor(first.nextCursor ?? ''), { createdAt: rows[1].createdAt, id: 'id-2' });
+
+  assert.equal(toActivityPage(rows, 3).nextCursor, null);
+});
+
+test('describeActivity names the actor and the meal even after it is deleted', () => {
+  assert.equal(
+    describeActivity({ type: 'meal.deleted', actorName: 'Sam', metadata: { mealName: 'Lasagna' } }),
+    'Sam deleted "Lasagna"',
+  );
+  assert.equal(
+    describeActivity({ type: 'plan.created', actorName: null, metadata: { mealName: 'Dal', date: '2026-03-02' } }),
+    'Someone planned "Dal" on 2026-03-02',
+  );
+  assert.equal(describeActivity({ type: 'member.removed', actorName: 'Ana', metadata: {} }), 'Ana removed a member');
+  assert.equal(
+    describeActivity({ type: 'invite.created', actorName: 'Ana', metadata: { email: 'sam@example.com' } }),
+    'Ana invited sam@example.com',
+  );
+});
@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { hasHouseholdActivityTable } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { householdActivity } from '@/db/schema';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+export const ACTIVITY_TYPES = [
+  'meal.created',
+  'meal.imported',
+  'meal.updated',
+  'meal.restored',
+  'meal.deleted',
+  'plan.created',
+  'plan.updated',
+  'plan.completed',
+  'plan.deleted',
+  'plan.batch',
+  'household.created',
+  'household.updated',
+  'household.ownershipTransferred',
+  'member.joined',
+  'member.left',
+  'member.removed',
+  'member.roleChanged',
+  'invite.created',
+  'invite.revoked',
+  'invite.declined',
+] as const;
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export type ActivityEntry = {
+  householdId: string;
+  actorId: string | null;
+  type: ActivityType;
+  entityId?: string | null;
+  // Names and other details needed to render the entry after the entity itself is gone.
+  metadata?: Record<string, unknown>;
+};
+
+export type ActivityCursor = { createdAt: Date; id: string };
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 30;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+export class ActivityValidationError extends Error {
+  readonly name = 'ActivityValidationError';
+}
+
+/**
+ * Appends entries to the household activity log. Never throws: the feed is a side record and must
+ * not fail the write it describes, so it is also not part of that write's batch.
+ */
+export async function recordActivity(
+  db: Database,
+  entries: ActivityEntry | ActivityEntry[],
+  loggerTag: string,
+): Promise<void> {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) return;
+
+  try {
+    if (!(await hasHouseholdActivityTable(db))) return;
+
+    const now = new Date();
+    await db.insert(householdActivity).values(
+      list.map((entry) => ({
+        id: uuidv4(),
+        householdId: entry.householdId,
+        actorId: entry.actorId,
+        type: entry.type,
+        entityId: entry.entityId ?? null,
+        metadata: entry.metadata ?? {},
+        createdAt: now,
+      })),
+    );
+  } catch (error) {
+    console.error(`[${loggerTag}]`, error);
+  }
+}
+
+export function encodeActivityCursor(cursor: ActivityCursor): string {
+  return Buffer.from(`${cursor.createdAt.toISOString()}|${cursor.id}`, 'utf8').toString('base64url');
+}
+
+export function decodeActivityCursor(value: string): ActivityCursor {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const separator = decoded.indexOf('|');
+  const createdAt = new Date(separator > 0 ? decoded.slice(0, separator) : '');
+  const id = separator > 0 ? decoded.slice(separator + 1) : '';
+  if (Number.isNaN(createdAt.getTime()) || !id || id.length > 100) {
+    throw new ActivityValidationError('Invalid cursor');
+  }
+  return { createdAt, id };
+}
+
+/**
+ * Expands `type` filter values (full types or categories) to the matching types, in catalogue
+ * order; null when no value was given.
+ */
+export function parseActivityTypes(values: string[]): ActivityType[] | null {
+  const typeValues = values.map((value) => value.trim()).filter(Boolean);
+  if (typeValues.length === 0) return null;
+  const selected = new Set<ActivityType>();
+  for (const value of typeValues) {
+    const matches = ACTIVITY_TYPES.filter((type) => type === value || type.startsWith(`${value}.`));
+    if (matches.length === 0) throw new ActivityValidationError(`Unknown activity type: ${value}`);
+    for (const match of matches) selected.add(match);
+  }
+  return ACTIVITY_TYPES.filter((type) => selected.has(type));
+}
+
+/**
+ * Trims a page fetched with `limit + 1` rows (newest first) and derives the cursor for the next one.
+ */
+export function toActivityPage<T extends { id: string; createdAt: Date }>(
+  rows: T[],
+  limit: number,
+): { items: T[]; nextCursor: string | null } {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > limit && last ? encodeActivityCursor({ createdAt: last.createdAt, id: last.id }) : null,
+  };
+}
+
+function metadataString(metadata: unknown, key: string): string | null {
+  const value = metadata && typeof metadata === 'object' ? (metadata as Record<string, unknown>)[key] : undefined;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * One-line English description of an entry, e.g. `Sam deleted "Lasagna"`.
+ */
+export function describeActivity(entry: { type: string; actorName: string | null; metadata: unknown }): string {
+  const actor = entry.actorName?.trim() || 'Someone';
+  const mealName = metadataString(entry.metadata, 'mealName');
+  const meal = mealName ? `"${mealName}"` : 'a meal';
+  const date = metadataString(entry.metadata, 'date');
+  const onDate = date ? ` on ${date}` : '';
+  const memberName = metadataString(entry.metadata, 'memberName') ?? 'a member';
+
+  switch (entry.type) {
+    case 'meal.created':
+      return `${actor} added ${meal}`;
+    case 'meal.imported':
+      return `${actor} imported ${meal}`;
+    case 'meal.updated':
+      return `${actor} edited ${meal}`;
+    case 'meal.restored':
+      return `${actor} restored an earlier version of ${meal}`;
+    case 'meal.deleted':
+      return `${actor} deleted ${meal}`;
+    case 'plan.created':
+      return `${actor} planned ${meal}${onDate}`;
+    case 'plan.updated':
+      return `${actor} updated the plan for ${meal}${onDate}`;
+    case 'plan.completed':
+      return `${actor} cooked ${meal}${onDate}`;
+    case 'plan.deleted':
+      return `${actor} removed ${meal} from the plan${onDate}`;
+    case 'plan.batch':
+      return `${actor} rearranged the meal plan`;
+    case 'household.created':
+      return `${actor} created the household`;
+    case 'household.updated':
+      return `${actor} updated the household`;
+    case 'household.ownershipTransferred':
+      return `${actor} made ${memberName} the owner`;
+    case 'member.joined':
+      return `${actor} joined the household`;
+    case 'member.left':
+      return `${actor} left the household`;
+    case 'member.removed':
+      return `${actor} removed ${memberName}`;
+    case 'member.roleChanged': {
+      const toRole = metadataString(entry.metadata, 'toRole');
+      return toRole ? `${actor} made ${memberName} ${toRole === 'admin' ? 'an' : 'a'} ${toRole}` : `${actor} changed the role of ${memberName}`;
+    }
+    case 'invite.created': {
+      const email = metadataString(entry.metadata, 'email');
+      return email ? `${actor} invited ${email}` : `${actor} created an invite link`;
+    }
+    case 'invite.revoked':
+      return `${actor} revoked an invite link`;
+    case 'invite.declined':
+      return `${actor} declined an invite`;
+    default:
+      return `${actor} made a change`;
+  }
+}
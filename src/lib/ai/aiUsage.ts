@@ -138,6 +138,9 @@ export function getMonthlyAiLimit(feature: AiFeature): number {
       20,
     );
   }
+  if (feature === "ai_generate_plan") {
+    return parseNonNegativeInt(process.env.AI_GENERATE_PLAN_MONTHLY_LIMIT, 10);
+  }
   return parseNonNegativeInt(process.env.AI_GENERATE_MEAL_MONTHLY_LIMIT, 60);
 }
 
@@ -148,6 +151,9 @@ export function getTrialAiLimit(feature: AiFeature): number {
   if (feature === "ai_import_video_meal") {
     return parseNonNegativeInt(process.env.AI_TRIAL_IMPORT_VIDEO_MEAL_LIMIT, 0);
   }
+  if (feature === "ai_generate_plan") {
+    return parseNonNegativeInt(process.env.AI_TRIAL_GENERATE_PLAN_LIMIT, 1);
+  }
   return parseNonNegativeInt(process.env.AI_TRIAL_GENERATE_MEAL_LIMIT, 5);
 }
 
@@ -167,6 +173,9 @@ export function getAiCreditCost(feature: AiFeature): number {
   if (feature === "ai_import_video_meal") {
     return parseNonNegativeInt(process.env.AI_IMPORT_VIDEO_MEAL_CREDIT_COST, 4);
   }
+  if (feature === "ai_generate_plan") {
+    return parseNonNegativeInt(process.env.AI_GENERATE_PLAN_CREDIT_COST, 5);
+  }
   return parseNonNegativeInt(process.env.AI_GENERATE_MEAL_CREDIT_COST, 1);
 }
 
@@ -181,7 +190,8 @@ export function getMonthlyAiCreditsLimit(): number {
       getAiCreditCost("ai_generate_meal") +
     getMonthlyAiLimit("ai_scan_meal") * getAiCreditCost("ai_scan_meal") +
     getMonthlyAiLimit("ai_import_video_meal") *
-      getAiCreditCost("ai_import_video_meal")
+      getAiCreditCost("ai_import_video_meal") +
+    getMonthlyAiLimit("ai_generate_plan") * getAiCreditCost("ai_generate_plan")
   );
 }
 
@@ -191,7 +201,8 @@ export function getAiCreditsLimitForTier(tier: AiUsageTier): number {
     getTrialAiLimit("ai_generate_meal") * getAiCreditCost("ai_generate_meal") +
     getTrialAiLimit("ai_scan_meal") * getAiCreditCost("ai_scan_meal") +
     getTrialAiLimit("ai_import_video_meal") *
-      getAiCreditCost("ai_import_video_meal")
+      getAiCreditCost("ai_import_video_meal") +
+    getTrialAiLimit("ai_generate_plan") * getAiCreditCost("ai_generate_plan")
   );
 }
 
@@ -372,10 +383,12 @@ export async function getAiUsageForPeriod(
   const scanLimit = getAiLimitForTier("ai_scan_meal", tier);
   const generateLimit = getAiLimitForTier("ai_generate_meal", tier);
   const importVideoLimit = getAiLimitForTier("ai_import_video_meal", tier);
+  const generatePlanLimit = getAiLimitForTier("ai_generate_plan", tier);
 
   const scanUsed = usageByFeature.get("ai_scan_meal") ?? 0;
   const generateUsed = usageByFeature.get("ai_generate_meal") ?? 0;
   const importVideoUsed = usageByFeature.get("ai_import_video_meal") ?? 0;
+  const generatePlanUsed = usageByFeature.get("ai_generate_plan") ?? 0;
 
   return {
     ai_scan_meal: {
@@ -393,6 +406,11 @@ export async function getAiUsageForPeriod(
       limit: importVideoLimit,
       remaining: Math.max(0, importVideoLimit - importVideoUsed),
     },
+    ai_generate_plan: {
+      used: generatePlanUsed,
+      limit: generatePlanLimit,
+      remaining: Math.max(0, generatePlanLimit - generatePlanUsed),
+    },
   };
 }
 
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { AiValidationError } from './generateMeal';
+import { listOpenPlanCells, validateGeneratedPlan, validateGeneratePlanRange } from './generatePlan';
+
+const library = [
+  { id: 'meal-1', name: 'Chana Masala', cuisine: 'indian' },
+  { id: 'meal-2', name: 'Pad Thai', cuisine: 'thai' },
+];
+
+test('listOpenPlanCells skips cells that are already planned', () => {
+  const cells = listOpenPlanCells({
+    startDate: '2025-03-03',
+    endDate: '2025-03-04',
+    slots: ['lunch', 'dinner'],
+    alreadyPlanned: [{ date: '2025-03-03', slot: 'dinner' }],
+  });
+  assert.deepEqual(cells, [
+    { date: '2025-03-03', slot: 'lunch' },
+    { date: '2025-03-04', slot: 'lunch' },
+    { date: '2025-03-04', slot: 'dinner' },
+  ]);
+});
+
+test('validateGeneratedPlan drops unknown meals, closed cells and duplicates', () => {
+  const openCells = [
+    { date: '2025-03-03', slot: 'dinner' as const },
+    { date: '2025-03-04', slot: 'dinner' as const },
+  ];
+  const result = validateGeneratedPlan(
+    {
+      plan: [
+        { date: '2025-03-04', slot: 'dinner', mealId: 'meal-2', reason: 'Uses the leftover coriander' },
+        { date: '2025-03-04', slot: 'dinner', mealId: 'meal-1' },
+        { date: '2025-03-03', slot: 'dinner', mealId: 'made-up' },
+        { date: '2025-03-05', slot: 'dinner', mealId: 'meal-1' },
+        { date: '2025-03-03', slot: 'lunch', mealId: 'meal-1' },
+      ],
+    },
+    library,
+    openCells,
+  );
+
+  assert.deepEqual(result.proposal, [
+    { date: '2025-03-04', slot: 'dinner', mealId: 'meal-2', mealName: 'Pad Thai', reason: 'Uses the leftover coriander' },
+  ]);
+  assert.deepEqual(result.unfilled, [{ date: '2025-03-03', slot: 'dinner' }]);
+  assert.throws(() => validateGeneratedPlan({ meals: [] }, library, openCells), AiValidationError);
+});
+
+test('validateGeneratePlanRange limits the range to two weeks', () => {
+  assert.deepEqual(validateGeneratePlanRange('2025-03-03', '2025-03-09'), { startDate: '2025-03-03', endDate: '2025-03-09' });
+  assert.throws(() => validateGeneratePlanRange('2025-03-09', '2025-03-03'), AiValidationError);
+  assert.throws(() => validateGeneratePlanRange('2025-03-01', '2025-03-20'), /too long/);
+});
@@ -7,6 +7,7 @@ import {
   extractJsonObject,
   validateGeneratedMeal,
 } from './generateMeal';
+import { normalizeMealTiming } from '../meals/timing';
 
 type GeminiGenerateResponse = {
   candidates?: Array<{
@@ -484,9 +485,17 @@ function extractRecipeTextFromJsonLdNode(node: any): {
   description?: string;
   ingredients: string[];
   instructions: string[];
+  prepTimeMinutes?: number;
+  cookTimeMinutes?: number;
+  totalTimeMinutes?: number;
 } {
   const title = safeTrim(node?.name ?? node?.headline, 200);
   const description = safeTrim(node?.description, 600);
+  const { prepTimeMinutes, cookTimeMinutes, totalTimeMinutes } = normalizeMealTiming({
+    prepTimeMinutes: node?.prepTime,
+    cookTimeMinutes: node?.cookTime,
+    totalTimeMinutes: node?.totalTime,
+  });
 
   const ingredientsRaw = node?.recipeIngredient ?? node?.ingredients;
   const ingredients =
@@ -516,7 +525,15 @@ function extractRecipeTextFromJsonLdNode(node: any): {
     .filter(Boolean)
     .slice(0, 80);
 
-  return { title, description, ingredients, instructions };
+  return {
+    title,
+    description,
+    ingredients,
+    instructions,
+    ...(prepTimeMinutes ? { prepTimeMinutes } : null),
+    ...(cookTimeMinutes ? { cookTimeMinutes } : null),
+    ...(totalTimeMinutes ? { totalTimeMinutes } : null),
+  };
 }
 
 function extractVisibleTextFromHtml(html: string): string {
@@ -612,6 +629,9 @@ async function fetchRecipeWebsiteSource(
       const lines: string[] = [`Recipe website: ${finalUrl}`];
       if (recipe.title) lines.push(`Title: ${recipe.title}`);
       if (recipe.description) lines.push(`Description: ${recipe.description}`);
+      if (recipe.prepTimeMinutes) lines.push(`Prep time: ${recipe.prepTimeMinutes} min`);
+      if (recipe.cookTimeMinutes) lines.push(`Cook time: ${recipe.cookTimeMinutes} min`);
+      if (recipe.totalTimeMinutes) lines.push(`Total time: ${recipe.totalTimeMinutes} min`);
       lines.push('', 'Ingredients:');
       for (const ing of recipe.ingredients.slice(0, 120)) lines.push(`- ${ing}`);
       if (recipe.instructions.length) {
@@ -1375,7 +1395,7 @@ export async function importMealFromVideo(
       'You may be given a caption/description and/or a video.',
       'Return ONLY valid JSON (no markdown, no code fences, no explanations).',
       'The JSON MUST match exactly this shape:',
-      '{ "recipes": [ { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[] } ] }',
+      '{ "recipes": [ { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[], "prepTimeMinutes": number|null, "cookTimeMinutes": number|null, "totalTimeMinutes": number|null, "difficulty": "easy"|"medium"|"hard"|null } ] }',
       'Rules:',
       `- recipes must be 0..${maxRecipes} items`,
       `- ingredients must be 1..${maxIngredients} items`,
@@ -1385,6 +1405,8 @@ export async function importMealFromVideo(
       '- category should be one of: Produce, Pantry, Meat, Dairy, Bakery, Other (or null)',
       '- instructions should be an ordered list of steps (0..25). If steps are not present, return an empty array.',
       '- each instruction should be a single step string (no numbering like "1.")',
+      '- prepTimeMinutes/cookTimeMinutes/totalTimeMinutes are whole minutes; use stated times (e.g. "Prep time: 15 min") when present, otherwise estimate or return null',
+      '- difficulty is easy, medium or hard for a home cook (or null)',
     ].join('\n');
 
     const runGemini = async (source: ImportSource): Promise<GeneratedMeal[]> => {
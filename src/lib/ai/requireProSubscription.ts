@@ -4,7 +4,7 @@ import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
 import * as schema from '@/db/schema';
 import { subscriptions, users } from '@/db/schema';
 
-export type AiFeature = 'ai_generate_meal' | 'ai_scan_meal' | 'ai_import_video_meal';
+export type AiFeature = 'ai_generate_meal' | 'ai_scan_meal' | 'ai_import_video_meal' | 'ai_generate_plan';
 
 type DbClient = NeonHttpDatabase<typeof schema>;
 
@@ -390,8 +390,8 @@ export async function scanMealFromImage(input: {
     "The image may show: (a) a cooked meal, (b) meal ingredients, or (c) a recipe (text).",
     "Return ONLY valid JSON (no markdown, no code fences, no explanations).",
     "The JSON MUST be ONE of these shapes:",
-    '- { "kind": "meal", "meal": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[] }, "confidence"?: number, "candidates"?: [ { "name": string, "confidence"?: number } ], "region"?: { "bbox"?: { "x": number, "y": number, "width": number, "height": number } }, "detections": [ { "name": string, "confidence"?: number, "bbox": { "x": number, "y": number, "width": number, "height": number } } ] }',
-    '- OR { "kind": "recipes", "recipes": [ { "id"?: string, "recipe": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[] }, "confidence"?: number, "source"?: { "bbox"?: { "x": number, "y": number, "width": number, "height": number } }, "warnings"?: string[] } ], "warnings"?: string[] }',
+    '- { "kind": "meal", "meal": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[], "prepTimeMinutes": number|null, "cookTimeMinutes": number|null, "totalTimeMinutes": number|null, "difficulty": "easy"|"medium"|"hard"|null }, "confidence"?: number, "candidates"?: [ { "name": string, "confidence"?: number } ], "region"?: { "bbox"?: { "x": number, "y": number, "width": number, "height": number } }, "detections": [ { "name": string, "confidence"?: number, "bbox": { "x": number, "y": number, "width": number, "height": number } } ] }',
+    '- OR { "kind": "recipes", "recipes": [ { "id"?: string, "recipe": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[], "prepTimeMinutes": number|null, "cookTimeMinutes": number|null, "totalTimeMinutes": number|null, "difficulty": "easy"|"medium"|"hard"|null }, "confidence"?: number, "source"?: { "bbox"?: { "x": number, "y": number, "width": number, "height": number } }, "warnings"?: string[] } ], "warnings"?: string[] }',
     '- OR { "error": "not_food" }',
     "Rules:",
     '- If the image contains recipe text (cookbook page, recipe card, recipe on a screen, menu with dish names), return kind="recipes" and extract ALL distinct recipes/dishes you can see (1..5).',
@@ -406,6 +406,7 @@ export async function scanMealFromImage(input: {
     "- unit must never be null; choose a reasonable unit (g, piece, tbsp, tsp, cup, ml, etc.).",
     "- category should be one of: Produce, Pantry, Meat, Dairy, Bakery, Other (or null).",
     "- instructions should be a short list of steps (0..15). If you cannot infer cooking steps from the image, return an empty array.",
+    "- prepTimeMinutes/cookTimeMinutes/totalTimeMinutes are whole minutes: use times printed on recipe text, otherwise estimate or return null. difficulty is easy, medium or hard (or null).",
     "- If the image contains a clear meal subject, include region.bbox as a best-effort bounding box around the FULL dish/drink/food item (normalized 0..1).",
     '- Bbox coordinates MUST be normalized 0..1 floats where x,y is top-left and width,height are sizes. Do NOT use pixels and do NOT use x2/y2 (right/bottom).',
     "- confidence is optional and should be 0..1 for the primary name.",
@@ -440,13 +441,14 @@ export async function scanMealFromImage(input: {
       "You extract recipes from an image for a meal planning app.",
       "The image may show a cookbook page, recipe card, recipe on a screen, or a menu/meal plan with multiple dishes.",
       "Return ONLY valid JSON (no markdown, no code fences, no explanations).",
-      'The JSON MUST be one of: { "recipes": [ { "recipe": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[] }, "confidence"?: number, "warnings"?: string[] } ], "warnings"?: string[] } OR { "error": "not_food" }',
+      'The JSON MUST be one of: { "recipes": [ { "recipe": { "name": string, "cuisines": string[]|null, "ingredients": [ { "name": string, "quantity": number|null, "unit": string, "category": string|null } ], "instructions": string[], "prepTimeMinutes": number|null, "cookTimeMinutes": number|null, "totalTimeMinutes": number|null, "difficulty": "easy"|"medium"|"hard"|null }, "confidence"?: number, "warnings"?: string[] } ], "warnings"?: string[] } OR { "error": "not_food" }',
       "Rules:",
       "- Extract 1..5 distinct recipes/dishes if they are present.",
       `- ingredients must be 1..${maxIngredients} items; infer missing details if needed (best-effort).`,
       "- Each ingredient.name must be a generic ingredient (no brand names).",
       "- unit must never be null.",
       "- instructions can be 0..15 steps; if not available, return an empty array.",
+      "- prepTimeMinutes/cookTimeMinutes/totalTimeMinutes are whole minutes taken from the recipe text when printed (otherwise null); difficulty is easy, medium or hard (or null).",
       '- If the image is not recipe-related at all, return { "error": "not_food" }.',
     ].join("\n");
 
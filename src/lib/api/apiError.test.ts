@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { AiUsageLimitError } from '../ai/aiUsage';
+import { AiTimeoutError } from '../ai/generateMeal';
+import { MealVersionConflictError } from '../meals/revisions';
+import { PantryValidationError } from '../pantry/pantry';
+import { ApiError, apiErrorResponse, codeForStatus, isForeignKeyViolation, toApiError } from './apiError';
+import { getRequestId } from './apiRoute';
+
+test('toApiError maps lib validation errors to 400 invalid_request', () => {
+  const mapped = toApiError(new PantryValidationError('Invalid quantity'));
+  assert.equal(mapped?.status, 400);
+  assert.equal(mapped?.code, 'invalid_request');
+  assert.equal(mapped?.message, 'Invalid quantity');
+});
+
+test('toApiError keeps the current version on a version conflict', () => {
+  const mapped = toApiError(new MealVersionConflictError(7));
+  assert.equal(mapped?.status, 409);
+  assert.equal(mapped?.code, 'version_conflict');
+  assert.deepEqual(mapped?.meta, { currentVersion: 7 });
+});
+
+test('toApiError maps AI limits to 429 with retry-after and timeouts to 504', () => {
+  const nowMs = Date.parse('2026-03-31T23:59:00Z');
+  const period = {
+    key: '2026-03',
+    startsAt: new Date('2026-03-01T00:00:00Z'),
+    endsAt: new Date('2026-04-01T00:00:00Z'),
+  };
+  const limited = toApiError(new AiUsageLimitError({ feature: 'ai_generate_meal', limit: 20, used: 20, period }), nowMs);
+  assert.equal(limited?.status, 429);
+  assert.equal(limited?.code, 'usage_limit_reached');
+  assert.equal(limited?.headers?.['retry-after'], '60');
+  assert.equal(limited?.meta?.resetsAt, '2026-04-01T00:00:00.000Z');
+
+  const timedOut = toApiError(new AiTimeoutError('took too long'));
+  assert.equal(timedOut?.status, 504);
+  assert.equal(timedOut?.code, 'ai_timeout');
+});
+
+test('toApiError leaves unexpected errors to the caller', () => {
+  assert.equal(toApiError(new Error('boom')), null);
+  assert.equal(toApiError('boom'), null);
+});
+
+test('apiErrorResponse writes the envelope with the request id', async () => {
+  const res = apiErrorResponse(new ApiError(409, 'version_conflict', 'Meal was changed', { currentVersion: 3 }), 'req-12345678');
+  assert.equal(res.status, 409);
+  assert.equal(res.headers.get('x-request-id'), 'req-12345678');
+  assert.equal(res.headers.get('cache-control'), 'no-store');
+  assert.deepEqual(await res.json(), {
+    currentVersion: 3,
+    error: 'version_conflict',
+    message: 'Meal was changed',
+    requestId: 'req-12345678',
+  });
+});
+
+test('codeForStatus and isForeignKeyViolation', () => {
+  assert.equal(codeForStatus(404), 'not_found');
+  assert.equal(codeForStatus(418), 'invalid_request');
+  assert.equal(codeForStatus(500), 'internal_error');
+  assert.equal(isForeignKeyViolation({ code: '23503' }), true);
+  assert.equal(isForeignKeyViolation(new Error('Failed query', { cause: { code: '23503' } })), true);
+  assert.equal(isForeignKeyViolation(new Error('nope')), false);
+});
+
+test('getRequestId reuses a well-formed incoming id', () => {
+  const incoming = new Request('https://mealo.website/api', { headers: { 'x-request-id': 'client-req-0001' } });
+  assert.equal(getRequestId(incoming), 'client-req-0001');
+
+  const malformed = new Request('https://mealo.website/api', { headers: { 'x-request-id': 'bad id' } });
+  assert.match(getRequestId(malformed), /^[0-9a-f-]{36}$/);
+});
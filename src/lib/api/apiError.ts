@@ -0,0 +1,210 @@
+import { AiCreditsLimitError, AiUsageLimitError } from '@/lib/ai/aiUsage';
+import { AiConfigError, AiProviderError, AiTimeoutError, AiValidationError } from '@/lib/ai/generateMeal';
+import { SubscriptionRequiredError } from '@/lib/ai/requireProSubscription';
+import { ActivityValidationError } from '@/lib/activity/activityLog';
+import { SchemaValidationError } from '@/lib/api/schema';
+import { DietaryValidationError } from '@/lib/dietary/restrictions';
+import { GlobalMealValidationError } from '@/lib/globalMeals/library';
+import { GooglePlayValidationError } from '@/lib/googlePlay';
+import { InviteValidationError } from '@/lib/households/invites';
+import { InviteRedemptionError } from '@/lib/households/redeemInvite';
+import { HouseholdRoleValidationError } from '@/lib/households/roles';
+import { CollectionValidationError } from '@/lib/meals/collections';
+import { MealRevisionValidationError, MealVersionConflictError } from '@/lib/meals/revisions';
+import { MealSearchValidationError } from '@/lib/meals/search';
+import { MealTimingValidationError } from '@/lib/meals/timing';
+import { PantryValidationError } from '@/lib/pantry/pantry';
+import { BulkPlanValidationError } from '@/lib/plans/bulkPlanOperations';
+import { PlanUpdateValidationError } from '@/lib/plans/cookingHistory';
+import { PlanTemplateValidationError } from '@/lib/plans/templates';
+import { SyncValidationError } from '@/lib/sync/changes';
+
+/**
+ * Machine-readable codes in the `error` field of every API error body. Clients branch on these;
+ * `message` is for people.
+ */
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'subscription_required',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'version_conflict',
+  'gone',
+  'payload_too_large',
+  'unsupported_media_type',
+  'not_food',
+  'missing_ingredients',
+  'missing_quantities',
+  'missing_servings',
+  'rate_limited',
+  'usage_limit_reached',
+  'ai_credits_limit_reached',
+  'internal_error',
+  'nutrition_unavailable',
+  'empty_library',
+  'server_misconfigured',
+  'ai_provider_error',
+  'invalid_ai_response',
+  'ai_timeout',
+  'store_unavailable',
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * The JSON body of every API error. Extra fields (limits, the current version, ...) sit next to
+ * the envelope fields.
+ */
+export type ApiErrorBody = {
+  error: ApiErrorCode;
+  message: string;
+  requestId: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Throw from a route handler to answer with an error envelope.
+ */
+export class ApiError extends Error {
+  readonly name = 'ApiError';
+
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly meta?: Record<string, unknown>,
+    readonly headers?: Record<string, string>,
+  ) {
+    super(message);
+  }
+}
+
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  402: 'subscription_required',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  410: 'gone',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
+  429: 'rate_limited',
+  502: 'ai_provider_error',
+  503: 'store_unavailable',
+  504: 'ai_timeout',
+};
+
+export function codeForStatus(status: number): ApiErrorCode {
+  return CODE_BY_STATUS[status] ?? (status >= 500 ? 'internal_error' : 'invalid_request');
+}
+
+// Thrown by the lib parsers; their messages are written for the client.
+const VALIDATION_ERRORS = [
+  ActivityValidationError,
+  BulkPlanValidationError,
+  CollectionValidationError,
+  DietaryValidationError,
+  GlobalMealValidationError,
+  HouseholdRoleValidationError,
+  InviteValidationError,
+  MealRevisionValidationError,
+  MealSearchValidationError,
+  MealTimingValidationError,
+  PantryValidationError,
+  PlanTemplateValidationError,
+  PlanUpdateValidationError,
+  SyncValidationError,
+];
+
+/**
+ * Postgres `foreign_key_violation`: the write points at a row that doesn't exist (any more).
+ * Drizzle wraps driver errors, so the code may sit on `cause`.
+ */
+export function isForeignKeyViolation(error: unknown): boolean {
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: unknown };
+  return code === '23503' || (cause !== undefined && isForeignKeyViolation(cause));
+}
+
+function secondsUntil(date: Date, nowMs: number): number {
+  return Math.max(1, Math.ceil((date.getTime() - nowMs) / 1000));
+}
+
+/**
+ * Maps the typed errors the libs throw to the response they stand for, or null for anything
+ * unexpected. `AiValidationError` here means the model's output was unusable; routes that use it
+ * to reject input catch it themselves.
+ */
+export function toApiError(error: unknown, nowMs: number = Date.now()): ApiError | null {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof SchemaValidationError) {
+    return new ApiError(400, 'invalid_request', error.message, { fields: error.issues });
+  }
+  if (VALIDATION_ERRORS.some((ErrorClass) => error instanceof ErrorClass)) {
+    return new ApiError(400, 'invalid_request', (error as Error).message);
+  }
+  if (error instanceof MealVersionConflictError) {
+    return new ApiError(409, 'version_conflict', error.message, { currentVersion: error.currentVersion });
+  }
+  if (error instanceof InviteRedemptionError) {
+    return new ApiError(error.status, codeForStatus(error.status), error.message);
+  }
+  if (error instanceof GooglePlayValidationError) {
+    return new ApiError(error.status, codeForStatus(error.status), error.message, error.retryable ? { retryable: true } : undefined);
+  }
+
+  if (error instanceof SubscriptionRequiredError) {
+    return new ApiError(error.status, error.code, 'Upgrade to Pro to use this feature.', { feature: error.feature });
+  }
+  if (error instanceof AiUsageLimitError) {
+    const resetsAt = error.period.endsAt.toISOString();
+    return new ApiError(
+      error.status,
+      error.code,
+      `Monthly AI limit reached. Try again after ${resetsAt}.`,
+      { feature: error.feature, period: error.period.key, limit: error.limit, used: error.used, resetsAt },
+      { 'retry-after': String(secondsUntil(error.period.endsAt, nowMs)) },
+    );
+  }
+  if (error instanceof AiCreditsLimitError) {
+    const resetsAt = error.period.endsAt.toISOString();
+    return new ApiError(
+      error.status,
+      error.code,
+      `Monthly AI credits limit reached. Try again after ${resetsAt}.`,
+      { period: error.period.key, limit: error.limit, used: error.used, resetsAt },
+      { 'retry-after': String(secondsUntil(error.period.endsAt, nowMs)) },
+    );
+  }
+  if (error instanceof AiTimeoutError) {
+    return new ApiError(504, 'ai_timeout', 'AI provider timed out. Please try again.');
+  }
+  if (error instanceof AiProviderError) {
+    return new ApiError(502, 'ai_provider_error', 'AI provider error. Please try again.');
+  }
+  if (error instanceof AiValidationError) {
+    return new ApiError(502, 'invalid_ai_response', error.message);
+  }
+  if (error instanceof AiConfigError) {
+    return new ApiError(500, 'server_misconfigured', 'AI provider is not configured.');
+  }
+
+  return null;
+}
+
+/**
+ * Builds the error response. Errors are never cached and always carry `x-request-id`.
+ */
+export function apiErrorResponse(error: ApiError, requestId: string, message: string = error.message): Response {
+  const body: ApiErrorBody = { ...error.meta, error: error.code, message, requestId };
+  const res = Response.json(body, { status: error.status });
+  for (const [name, value] of Object.entries(error.headers ?? {})) {
+    res.headers.set(name, value);
+  }
+  res.headers.set('x-request-id', requestId);
+  res.headers.set('cache-control', 'no-store');
+  return res;
+}
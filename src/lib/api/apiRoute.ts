@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { db as configuredDb } from '@/db';
+import * as schema from '@/db/schema';
+import { ApiError, apiErrorResponse, toApiError, type ApiErrorCode } from '@/lib/api/apiError';
+import type { Schema } from '@/lib/api/schema';
+import { getUserIdFromRequest } from '@/lib/requestAuth';
+import { isBodyTooLarge } from '@/lib/validation';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+type JsonBody = Record<string, unknown>;
+type NoQuery = Record<string, never>;
+
+const DEFAULT_MAX_BODY_BYTES = 16_384;
+
+export type ApiRouteOptions<Body = JsonBody, Query = NoQuery> = {
+  // Logged with unexpected errors, e.g. `MEALS_POST`.
+  tag: string;
+  // Defaults to true: anything not signed in gets 401 before the handler runs.
+  auth?: boolean;
+  // Reads the body as a JSON object, refusing anything over `maxBytes` with 413. Without
+  // `optional`, a missing or non-object body is a 400; with it, the handler sees `{}`.
+  json?: { maxBytes: number; optional?: boolean };
+  // Checks the JSON body (read as with `json`, which sets the size limit) and hands the handler
+  // the typed result. Failures are a 400 listing each bad field.
+  body?: Schema<Body>;
+  // The same for the query string.
+  query?: Schema<Query>;
+  // Per-route wording for an error code, e.g. what `subscription_required` would unlock.
+  messages?: Partial<Record<ApiErrorCode, string>>;
+};
+
+export type ApiRouteContext<Body = JsonBody, Query = NoQuery> = {
+  req: Request;
+  requestId: string;
+  db: Database;
+  params: Record<string, string>;
+  body: Body;
+  query: Query;
+};
+
+export type AuthedApiRouteContext<Body = JsonBody, Query = NoQuery> = ApiRouteContext<Body, Query> & { userId: string };
+
+type NextRouteContext = { params: Promise<Record<string, string>> };
+
+export type ApiRouteHandler = (req: Request, context: NextRouteContext) => Promise<Response>;
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+/**
+ * Reuses a well-formed `x-request-id` from the caller (so a client or proxy can correlate logs)
+ * and otherwise makes one up.
+ */
+export function getRequestId(req: Request): string {
+  const incoming = req.headers.get('x-request-id')?.trim();
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+function isJsonObject(value: unknown): value is JsonBody {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+async function readJsonBody(req: Request, json: ApiRouteOptions['json']): Promise<JsonBody> {
+  if (isBodyTooLarge(req, json?.maxBytes ?? DEFAULT_MAX_BODY_BYTES)) {
+    throw new ApiError(413, 'payload_too_large', 'Request body is too large.');
+  }
+  const parsed: unknown = await req.json().catch(() => null);
+  if (isJsonObject(parsed)) return parsed;
+  if (json?.optional) return {};
+  throw new ApiError(400, 'invalid_request', 'Invalid JSON body.');
+}
+
+// Repeated parameters become lists; blank values count as absent.
+function readQuery(req: Request): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of new URL(req.url).searchParams) {
+    if (value.trim() === '') continue;
+    const existing = query[key];
+    query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return query;
+}
+
+/**
+ * Wraps a route handler with the checks every route repeats: sign-in, the database, body size
+ * and JSON parsing. Errors thrown by the handler (an `ApiError` or any typed lib error known to
+ * `toApiError`) become the standard JSON error body; anything else is logged under `tag` and
+ * answered with 500. Every response carries `x-request-id`.
+ */
+export function apiRoute<Body = JsonBody, Query = NoQuery>(
+  options: ApiRouteOptions<Body, Query> & { auth: false },
+  handler: (ctx: ApiRouteContext<Body, Query>) => Promise<Response>,
+): ApiRouteHandler;
+export function apiRoute<Body = JsonBody, Query = NoQuery>(
+  options: ApiRouteOptions<Body, Query> & { auth?: true },
+  handler: (ctx: AuthedApiRouteContext<Body, Query>) => Promise<Response>,
+): ApiRouteHandler;
+export function apiRoute<Body, Query>(
+  options: ApiRouteOptions<Body, Query>,
+  handler: (ctx: AuthedApiRouteContext<Body, Query>) => Promise<Response>,
+): ApiRouteHandler {
+  return async (req, context) => {
+    const requestId = getRequestId(req);
+    const respondWith = (error: ApiError) =>
+      apiErrorResponse(error, requestId, options.messages?.[error.code] ?? error.message);
+
+    try {
+      let userId: string | null = null;
+      if (options.auth !== false) {
+        userId = await getUserIdFromRequest(req);
+        if (!userId) throw new ApiError(401, 'unauthorized', 'You must be signed in.');
+      }
+
+      if (!configuredDb) {
+        throw new ApiError(500, 'server_misconfigured', 'Database is not configured.');
+      }
+
+      const rawBody = options.json || options.body ? await readJsonBody(req, options.json) : {};
+      const body = options.body ? options.body.parse(rawBody) : (rawBody as Body);
+      const query = options.query ? options.query.parse(readQuery(req), 'query') : ({} as Query);
+
+      const params = (await context?.params) ?? {};
+      const res = await handler({ req, requestId, db: configuredDb, params, body, query, userId: userId as string });
+      res.headers.set('x-request-id', requestId);
+      return res;
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError && apiError.status < 500) return respondWith(apiError);
+
+      console.error(`[${options.tag}]`, { requestId, error });
+      return respondWith(apiError ?? new ApiError(500, 'internal_error', 'Something went wrong. Please try again.'));
+    }
+  };
+}
+
@@ -0,0 +1,1060 @@
+// Generated from the OpenAPI document (src/lib/api/openapi.ts) by `npm run generate:api-client`.
+// Do not edit: change the route schemas in src/lib/api/schemas/ and run the script again.
+//
+// Responses are typed where API_ENDPOINTS describes them. Those types are documentation: nothing
+// checks the body at runtime. Every other call resolves to `unknown`, so check what you read from it.
+
+export type ApiErrorCode = 'invalid_request' | 'unauthorized' | 'subscription_required' | 'forbidden' | 'not_found' | 'conflict' | 'version_conflict' | 'gone' | 'payload_too_large' | 'unsupported_media_type' | 'not_food' | 'missing_ingredients' | 'missing_quantities' | 'missing_servings' | 'rate_limited' | 'usage_limit_reached' | 'ai_credits_limit_reached' | 'internal_error' | 'nutrition_unavailable' | 'empty_library' | 'server_misconfigured' | 'ai_provider_error' | 'invalid_ai_response' | 'ai_timeout' | 'store_unavailable';
+
+export type ApiErrorBody = {
+  error: ApiErrorCode;
+  message: string;
+  requestId: string;
+  // Set on a 400 from request validation.
+  fields?: Array<{ path: string; message: string }>;
+  [key: string]: unknown;
+};
+
+/**
+ * Thrown for any response that isn't a 2xx, with the error body the API sent.
+ */
+export class ApiClientError extends Error {
+  readonly name = 'ApiClientError';
+
+  constructor(
+    readonly status: number,
+    readonly body: ApiErrorBody,
+  ) {
+    super(body.message);
+  }
+}
+
+export type ApiClientOptions = {
+  // The site's origin, e.g. `https://mealo.website`.
+  baseUrl: string;
+  // The Clerk session token, sent as `Authorization: Bearer`.
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  fetch?: typeof fetch;
+};
+
+type RequestInput = {
+  params?: Record<string, string>;
+  query?: object;
+  body?: unknown;
+  form?: FormData;
+};
+
+function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return Boolean(value) && typeof value === 'object' && typeof (value as { error?: unknown }).error === 'string';
+}
+
+export type Ingredient = string | {
+  name: string;
+  quantity?: number | string;
+  unit?: string;
+  category?: string;
+  ingredientKey?: string;
+  ingredientCatalogId?: string;
+};
+
+export type NutritionFacts = {
+  caloriesKcal?: number;
+  proteinG?: number;
+  carbsG?: number;
+  fatG?: number;
+  fiberG?: number;
+  sugarG?: number;
+  sodiumMg?: number;
+  /** Whether the values are per serving rather than for the whole recipe. */
+  perServing?: boolean;
+  servings?: number;
+  isEstimate?: boolean;
+  computedAt?: string;
+};
+
+export type Meal = {
+  id: string;
+  householdId: string;
+  name: string;
+  description?: string | null;
+  createdBy?: string | null;
+  ingredients?: Array<Ingredient>;
+  instructions?: Array<string>;
+  nutrition?: NutritionFacts | null;
+  fromGlobalMealId?: string | null;
+  sourceUrl?: string | null;
+  rating?: number | null;
+  isFavorite?: boolean | null;
+  userNotes?: string | null;
+  image?: string | null;
+  cuisine?: string | null;
+  servings?: number | null;
+  tags?: Array<string>;
+  prepTimeMinutes?: number | null;
+  cookTimeMinutes?: number | null;
+  totalTimeMinutes?: number | null;
+  difficulty?: 'easy' | 'medium' | 'hard' | null;
+  /** Send it back with PUT /api/meals/{id} to detect concurrent edits. */
+  version?: number;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+};
+
+export type Plan = {
+  id: string;
+  householdId: string;
+  mealId: string;
+  date: string;
+  slot: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  servings?: number | null;
+  /** Set on plans a plan template created. */
+  templateId?: string | null;
+  isCompleted?: boolean | null;
+  completedAt?: string | null;
+  notes?: string | null;
+  createdAt?: string | null;
+};
+
+export type Member = {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl: string | null;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+};
+
+export type Household = {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdBy?: string | null;
+  memberIds?: Array<string>;
+  currentPeriodStart?: string | null;
+  currentPeriodEnd?: string | null;
+  shoppingList?: Array<unknown>;
+  currency?: string | null;
+  createdAt?: string | null;
+};
+
+export type HouseholdWithDetails = Household & {
+  plannedMeals: Array<Plan>;
+  members: Array<Member>;
+};
+
+export type User = {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string | null;
+  proOverride?: boolean;
+  hasHadTrial?: boolean;
+  onboardingProfile?: Record<string, unknown> | null;
+  createdAt?: string | null;
+};
+
+export type Invite = {
+  id: string;
+  inviteUrl: string;
+  /** Set for an invite addressed to one person. */
+  email: string | null;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  status: 'active' | 'expired' | 'used_up' | 'revoked' | 'declined';
+  expiresAt: string;
+  /** Null for unlimited uses. */
+  usesLeft: number | null;
+  revokedAt?: string | null;
+  declinedAt?: string | null;
+  createdBy: string;
+  createdByName?: string | null;
+  createdAt?: string | null;
+  redemptions: Array<{
+    userId: string | null;
+    name: string | null;
+    role: 'owner' | 'admin' | 'member' | 'viewer';
+    redeemedAt: string;
+  }>;
+};
+
+/** An email invite to a household the user isn't in yet. */
+export type PendingInvitation = {
+  id: string;
+  householdId: string;
+  householdName: string;
+  invitedBy: string;
+  invitedByName: string | null;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  expiresAt: string;
+  createdAt?: string | null;
+};
+
+export type Subscription = {
+  /** `pro_override` when Pro was granted without a purchase. */
+  productId: string;
+  currentPeriodStart?: string | null;
+  expiresAt: string | null;
+  isTrial: boolean;
+  isActive: boolean;
+  autoRenewStatus: boolean;
+  updatedAt?: string | null;
+  proOverride: boolean;
+};
+
+export type GlobalMeal = {
+  id: string;
+  name: string;
+  description?: string | null;
+  collection?: string | null;
+  ingredients?: Array<Ingredient>;
+  instructions?: Array<string>;
+  image?: string | null;
+  cuisine?: string | null;
+  nutrition?: NutritionFacts | null;
+  isPredefined: true;
+};
+
+export type Achievement = {
+  id: string;
+  title: string;
+  description: string;
+  iconName: string;
+  category: string;
+  target: number;
+  progress: number;
+  unlockedAt: string | null;
+};
+
+export type DietaryWarning = {
+  kind: 'allergen' | 'diet' | 'avoid';
+  /** The allergen, diet or avoided ingredient the meal breaks. */
+  restriction: string;
+  ingredients: Array<string>;
+  userId: string;
+  memberName: string | null;
+};
+
+export type AchievementsEventPostBody = {
+  /** What happened, e.g. `meal.created`. Not used yet. */
+  type?: string;
+};
+
+export type AiGenerateMealBody = {
+  prompt: string;
+  cuisine?: string;
+  diet?: string;
+  servings?: number;
+  maxIngredients?: number;
+  householdId?: string;
+};
+
+export type AiImportVideoBody = {
+  url: string;
+  maxIngredients?: number;
+  maxRecipes?: number;
+};
+
+export type AiGeneratePlanBody = {
+  householdId: string;
+  startDate: string;
+  /** The range covers at most 14 days. */
+  endDate: string;
+  slots?: Array<'breakfast' | 'lunch' | 'dinner' | 'snack'>;
+  notes?: string;
+};
+
+export type BootstrapGetQuery = {
+  includeGlobalMeals?: boolean;
+};
+
+export type BootstrapGetResponse = {
+  user: User | null;
+  subscription: Subscription | null;
+  households: Array<HouseholdWithDetails>;
+  meals: Array<Meal>;
+  /** Only with `includeGlobalMeals`. */
+  globalMeals?: Array<GlobalMeal>;
+  pendingInvitations: Array<PendingInvitation>;
+};
+
+export type FeedbackGetQuery = {
+  sort?: 'top' | 'new';
+  type?: 'feature' | 'bug';
+  limit?: number;
+  offset?: number;
+};
+
+export type FeedbackPostBody = {
+  title: string;
+  description: string;
+  type: 'feature' | 'bug';
+};
+
+export type FeedbackIdPatchBody = {
+  title?: string;
+  description?: string;
+  status?: 'open' | 'planned' | 'in_progress' | 'done';
+};
+
+export type FeedbackCommentsGetQuery = {
+  limit?: number;
+  offset?: number;
+};
+
+export type FeedbackCommentsPostBody = {
+  body: string;
+};
+
+export type HouseholdsGetResponse = Array<HouseholdWithDetails>;
+
+export type HouseholdsPostBody = {
+  name: string;
+};
+
+export type HouseholdsPostResponse = Household;
+
+export type HouseholdPutBody = {
+  name?: string;
+  shoppingList?: Array<Record<string, unknown>>;
+  currentPeriodStart?: string | null;
+  currentPeriodEnd?: string | null;
+};
+
+export type HouseholdPutResponse = {
+  success: true;
+};
+
+export type HouseholdDeleteResponse = {
+  success: true;
+};
+
+export type HouseholdActivityGetQuery = {
+  limit?: number;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+  type?: Array<string>;
+};
+
+export type CollectionsPostBody = {
+  name?: string;
+  description?: string | null;
+  mealIds?: Array<string>;
+  addMealIds?: Array<string>;
+  removeMealIds?: Array<string>;
+};
+
+export type CollectionPatchBody = {
+  name?: string;
+  description?: string | null;
+  mealIds?: Array<string>;
+  addMealIds?: Array<string>;
+  removeMealIds?: Array<string>;
+};
+
+export type CookSuggestionsPostBody = {
+  ingredients?: Array<string>;
+  usePantry?: boolean;
+  includeGlobal?: boolean;
+  maxMissing?: number;
+  limit?: number;
+};
+
+export type DietaryProfilePutBody = {
+  allergens?: Array<'peanuts' | 'tree_nuts' | 'dairy' | 'eggs' | 'fish' | 'shellfish' | 'soy' | 'gluten' | 'sesame' | 'mustard' | 'celery' | 'sulphites'> | null;
+  diets?: Array<'vegetarian' | 'vegan' | 'pescatarian' | 'halal' | 'kosher' | 'gluten_free' | 'dairy_free'> | null;
+  avoidIngredients?: Array<string> | null;
+};
+
+export type HouseholdInvitesGetQuery = {
+  status?: 'active' | 'expired' | 'used_up' | 'revoked' | 'declined';
+};
+
+export type HouseholdInvitesGetResponse = Array<Invite>;
+
+export type HouseholdInviteDeleteResponse = {
+  success: true;
+  revokedAt: string;
+};
+
+export type MembersGetResponse = Array<User & {
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  joinedAt: string | null;
+}>;
+
+export type MemberPatchBody = {
+  role: 'admin' | 'member' | 'viewer';
+};
+
+export type PantryGetQuery = {
+  filter?: 'low' | 'expiring' | 'attention';
+  days?: number;
+};
+
+export type PantryPostBody = {
+  name?: string;
+  category?: string | null;
+  quantity?: number | null;
+  lowStockThreshold?: number | null;
+  unit?: string | null;
+  expiresOn?: string | null;
+};
+
+export type PantryItemPatchBody = {
+  name?: string;
+  category?: string | null;
+  quantity?: number | null;
+  lowStockThreshold?: number | null;
+  unit?: string | null;
+  expiresOn?: string | null;
+};
+
+export type PlanTemplatesPostBody = {
+  name?: string | null;
+  weekday?: number;
+  slot?: string;
+  servings?: number | null;
+  mealIds?: Array<string>;
+  startDate?: string;
+  endDate?: string | null;
+  isPaused?: boolean;
+};
+
+export type PlanTemplatePatchBody = {
+  name?: string | null;
+  weekday?: number;
+  slot?: string;
+  servings?: number | null;
+  mealIds?: Array<string>;
+  startDate?: string;
+  endDate?: string | null;
+  isPaused?: boolean;
+};
+
+export type ShoppingListGeneratePostBody = {
+  startDate?: string;
+  endDate?: string;
+};
+
+export type TagsPatchBody = {
+  from: string;
+  to: string;
+};
+
+export type TagsDeleteQuery = {
+  tag: string;
+};
+
+export type HouseholdTransferPostBody = {
+  /** The member to hand the household to. */
+  userId: string;
+};
+
+export type IapValidateBody = {
+  platform?: 'ios' | 'android';
+  /** The App Store receipt (base64) or the Google Play purchase token. */
+  receipt: string;
+  /** Must be the signed-in user when sent. */
+  userId?: string;
+  productId?: string;
+  packageName?: string;
+};
+
+export type IngredientsSuggestGetQuery = {
+  q?: string;
+  limit?: number;
+};
+
+export type InvitesPostBody = {
+  householdId: string;
+  role?: 'admin' | 'member' | 'viewer';
+  expiresInHours?: number;
+  maxUses?: number;
+  /** Only someone signed in with this address can accept. */
+  email?: string;
+};
+
+export type InvitesPostResponse = {
+  id: string;
+  inviteUrl: string;
+  expiresAt: string;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+  /** Null for unlimited uses. */
+  usesLeft: number | null;
+  email: string | null;
+  /** Whether the invite email went out; always false without `email`. */
+  emailSent: boolean;
+};
+
+export type InvitesRedeemPostBody = {
+  token: string;
+};
+
+export type InvitesRedeemPostResponse = {
+  success: true;
+  householdId: string;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+};
+
+export type InviteAcceptPostResponse = {
+  success: true;
+  householdId: string;
+  role: 'owner' | 'admin' | 'member' | 'viewer';
+};
+
+export type InviteDeclinePostResponse = {
+  success: true;
+  declinedAt: string;
+};
+
+export type MealsGetQuery = {
+  tag?: Array<string>;
+  collectionId?: string;
+  maxPrepTime?: number;
+  maxCookTime?: number;
+  maxTotalTime?: number;
+  difficulty?: Array<'easy' | 'medium' | 'hard'>;
+};
+
+export type MealsGetResponse = Array<Meal & {
+  lastCookedOn: string | null;
+  timesCooked: number;
+}>;
+
+export type MealsPostBody = {
+  householdId: string;
+  name: string;
+  id?: string;
+  fromGlobalMealId?: string;
+  description?: string;
+  ingredients?: Array<string | {
+    name: string;
+    quantity?: number | string;
+    unit?: string;
+    category?: string;
+    ingredientKey?: string;
+    ingredientCatalogId?: string;
+  }>;
+  instructions?: Array<string>;
+  image?: string;
+  cuisine?: string;
+  rating?: number;
+  isFavorite?: boolean;
+  userNotes?: string;
+  sourceUrl?: string | null;
+  servings?: number;
+  tags?: Array<string>;
+  prepTimeMinutes?: number | null;
+  cookTimeMinutes?: number | null;
+  totalTimeMinutes?: number | null;
+  difficulty?: 'easy' | 'medium' | 'hard' | null;
+};
+
+export type MealsPostResponse = Meal;
+
+export type GlobalMealsGetQuery = {
+  includeRetired?: boolean;
+};
+
+export type GlobalMealsPostBody = {
+  name?: string;
+  description?: string | null;
+  collection?: string | null;
+  ingredients?: Array<string | {
+    name: string;
+    quantity?: number | string;
+    unit?: string;
+    category?: string;
+    ingredientKey?: string;
+    ingredientCatalogId?: string;
+  }>;
+  instructions?: Array<string>;
+  image?: string | null;
+  cuisine?: string | null;
+  nutrition?: Record<string, unknown> | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+export type GlobalMealCollectionsGetQuery = {
+  includeRetired?: boolean;
+};
+
+export type GlobalMealCollectionsPostBody = {
+  name?: string;
+  description?: string | null;
+  image?: string | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+export type GlobalMealCollectionsReorderPostBody = {
+  ids: Array<string>;
+};
+
+export type GlobalMealCollectionPatchBody = {
+  name?: string;
+  description?: string | null;
+  image?: string | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+export type GlobalMealsReorderPostBody = {
+  ids: Array<string>;
+};
+
+export type GlobalMealPatchBody = {
+  name?: string;
+  description?: string | null;
+  collection?: string | null;
+  ingredients?: Array<string | {
+    name: string;
+    quantity?: number | string;
+    unit?: string;
+    category?: string;
+    ingredientKey?: string;
+    ingredientCatalogId?: string;
+  }>;
+  instructions?: Array<string>;
+  image?: string | null;
+  cuisine?: string | null;
+  nutrition?: Record<string, unknown> | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+export type MealImportPostBody = {
+  globalMealId: string;
+  householdId: string;
+};
+
+export type MealsSearchGetQuery = {
+  householdId: string;
+  q?: string;
+  cuisine?: Array<string>;
+  favorite?: boolean;
+  minRating?: number;
+  hasNutrition?: boolean;
+  source?: Array<'youtube' | 'tiktok' | 'instagram' | 'web' | 'none'>;
+  includeGlobal?: boolean;
+  collection?: string;
+  page?: number;
+  pageSize?: number;
+};
+
+export type MealGetQuery = {
+  /** Scales ingredients and nutrition to this many servings. */
+  servings?: number;
+};
+
+export type MealGetResponse = Meal & {
+  lastCookedOn: string | null;
+  timesCooked: number;
+} & {
+  baseServings?: number;
+  scaleFactor?: number;
+  nutritionPerServing?: NutritionFacts | null;
+};
+
+export type MealPutBody = {
+  name?: string;
+  description?: string;
+  ingredients?: Array<string | {
+    name: string;
+    quantity?: number | string;
+    unit?: string;
+    category?: string;
+    ingredientKey?: string;
+    ingredientCatalogId?: string;
+  }>;
+  instructions?: Array<string>;
+  image?: string | null;
+  cuisine?: string | null;
+  rating?: number | null;
+  isFavorite?: boolean;
+  userNotes?: string | null;
+  sourceUrl?: string | null;
+  servings?: number | null;
+  tags?: Array<string> | null;
+  prepTimeMinutes?: number | null;
+  cookTimeMinutes?: number | null;
+  totalTimeMinutes?: number | null;
+  difficulty?: 'easy' | 'medium' | 'hard' | null;
+  /** The version being edited; a stale one is a 409. */
+  version?: number;
+};
+
+export type MealPutResponse = {
+  success: true;
+  version: number;
+  updatedAt: string | null;
+};
+
+export type MealDeleteResponse = {
+  success: true;
+};
+
+export type MealRevisionRestoreBody = {
+  /** The version being replaced; a stale one is a 409. */
+  version?: number;
+};
+
+export type NotificationsRunQuery = {
+  secret?: string;
+};
+
+export type NotificationSettingsPutBody = {
+  enabled?: boolean;
+  householdId?: string;
+  utcOffsetMinutes?: number;
+  quietHoursStart?: number;
+  quietHoursEnd?: number;
+  maxPerDay?: number;
+  reminderTypes?: {
+    todayMissing?: boolean;
+    tomorrowMissing?: boolean;
+    missYou?: boolean;
+  };
+  reminderSlots?: Array<'breakfast' | 'lunch' | 'dinner' | 'snack'>;
+  /** An Expo push token; anything else is ignored. */
+  pushToken?: string;
+  deviceId?: string;
+  platform?: string;
+};
+
+export type PlansPostBody = {
+  householdId: string;
+  mealId: string;
+  date: string;
+  slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  servings?: number;
+  isCompleted?: boolean;
+};
+
+export type PlansPostResponse = Plan & {
+  dietaryWarnings: Array<DietaryWarning>;
+};
+
+export type PlansPatchQuery = {
+  id: string;
+};
+
+export type PlansPatchBody = {
+  isCompleted?: boolean;
+  notes?: string | null;
+  servingsCooked?: number | null;
+};
+
+export type PlansPatchResponse = Plan & {
+  /** Achievements this change unlocked. */
+  unlocked: Array<Achievement>;
+};
+
+export type PlansDeleteQuery = {
+  id: string;
+};
+
+export type PlansDeleteResponse = {
+  success: true;
+};
+
+export type PlansBatchPostBody = {
+  householdId: string;
+  operations: Array<{
+    type: 'copy';
+    slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    sourceStart: string;
+    sourceEnd: string;
+    targetStart: string;
+    replace?: boolean;
+  } | {
+    type: 'move';
+    slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    fromDate: string;
+    toDate: string;
+    planIds?: Array<string>;
+  } | {
+    type: 'swap';
+    slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    dateA: string;
+    dateB: string;
+  } | {
+    type: 'clear';
+    slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    startDate: string;
+    endDate: string;
+  } | {
+    type: 'add';
+    slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+    plans: Array<{
+      date: string;
+      slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+      mealId: string;
+      servings?: number | null;
+    }>;
+  }>;
+};
+
+export type PlansBatchPostResponse = {
+  created: Array<Plan>;
+  updated: Array<Plan>;
+  deletedIds: Array<string>;
+  /** Achievements this change unlocked. */
+  unlocked: Array<Achievement>;
+};
+
+export type PlanTemplatesRunQuery = {
+  secret?: string;
+};
+
+export type RecipeShareAcceptPostBody = {
+  householdId?: string;
+};
+
+export type SyncGetQuery = {
+  /** `cursor` of the previous sync. Leave it out to get everything. */
+  since?: string;
+};
+
+export type UsersPostBody = {
+  /** Must be the signed-in user when given. */
+  id?: string;
+  name?: string;
+  email?: string;
+  avatar?: string;
+};
+
+export type UserPutBody = {
+  name?: string;
+  email?: string;
+  avatar?: string | null;
+  onboardingProfile?: Record<string, unknown> | null;
+};
+
+/**
+ * A client for the API. Inputs are checked by the compiler against the route schemas; methods
+ * whose response API_ENDPOINTS doesn't describe return `Promise<unknown>`.
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImpl = options.fetch ?? fetch;
+
+  async function request<T = unknown>(method: string, path: string, input: RequestInput = {}): Promise<T> {
+    const url = new URL(
+      path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(input.params?.[name] ?? '')),
+      options.baseUrl,
+    );
+    for (const [key, value] of Object.entries(input.query ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined && item !== null) url.searchParams.append(key, String(item));
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    const token = await options.getToken?.();
+    if (token) headers.authorization = `Bearer ${token}`;
+    let body: BodyInit | undefined;
+    if (input.form) {
+      body = input.form;
+    } else if (input.body !== undefined) {
+      headers['content-type'] = 'application/json';
+      body = JSON.stringify(input.body);
+    }
+
+    const res = await fetchImpl(url, { method, headers, body });
+    const data: unknown = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new ApiClientError(
+        res.status,
+        isApiErrorBody(data)
+          ? data
+          : { error: 'internal_error', message: `Request failed with status ${res.status}.`, requestId: res.headers.get('x-request-id') ?? '' },
+      );
+    }
+    return data as T;
+  }
+
+  return {
+    /** Lists the caller's achievements and progress. */
+    achievementsGet: () => request('GET', '/api/achievements'),
+    /** Re-checks achievements after something happened and returns any newly unlocked. */
+    achievementsEventPost: (input: { body?: AchievementsEventPostBody } = {}) => request('POST', '/api/achievements/event', input),
+    /** Generates a recipe from a prompt, within the household's dietary restrictions. Pro only. */
+    aiGenerateMeal: (input: { body: AiGenerateMealBody }) => request('POST', '/api/ai/meals/generate', input),
+    /** Extracts recipes from a cooking video or recipe page URL. Pro only. */
+    aiImportVideo: (input: { body: AiImportVideoBody }) => request('POST', '/api/ai/meals/import-video', input),
+    /** Recognizes a dish and its ingredients from a photo. Pro only. */
+    aiScanMeal: (input: { form: FormData }) => request('POST', '/api/ai/meals/scan', input),
+    /** Proposes meals from the household's library for the open slots in a date range. Nothing is saved. Pro only. */
+    aiGeneratePlan: (input: { body: AiGeneratePlanBody }) => request('POST', '/api/ai/plans/generate', input),
+    /** The caller's AI usage and credits for the current month. */
+    aiUsageGet: () => request('GET', '/api/ai/usage'),
+    /** Everything the app needs at launch: the user, households, members, meals, plans, invites and subscription. */
+    bootstrapGet: (input: { query?: BootstrapGetQuery } = {}) => request<BootstrapGetResponse>('GET', '/api/bootstrap', input),
+    /** Lists feature requests and bug reports with vote and comment counts. */
+    feedbackGet: (input: { query?: FeedbackGetQuery } = {}) => request('GET', '/api/feedback', input),
+    /** Posts a feature request or bug report. */
+    feedbackPost: (input: { body: FeedbackPostBody }) => request('POST', '/api/feedback', input),
+    /** One submission, with what the caller may do to it. */
+    feedbackIdGet: (input: { params: { id: string } }) => request('GET', '/api/feedback/{id}', input),
+    /** Edits a submission (its author, once, shortly after posting) or sets its status (admins). */
+    feedbackIdPatch: (input: { params: { id: string }; body?: FeedbackIdPatchBody }) => request('PATCH', '/api/feedback/{id}', input),
+    /** Deletes a submission. Its author only, shortly after posting. */
+    feedbackIdDelete: (input: { params: { id: string } }) => request('DELETE', '/api/feedback/{id}', input),
+    /** Lists a submission's comments, oldest first. */
+    feedbackCommentsGet: (input: { params: { id: string }; query?: FeedbackCommentsGetQuery }) => request('GET', '/api/feedback/{id}/comments', input),
+    /** Comments on a submission. */
+    feedbackCommentsPost: (input: { params: { id: string }; body: FeedbackCommentsPostBody }) => request('POST', '/api/feedback/{id}/comments', input),
+    /** Upvotes a submission (once per user). */
+    feedbackVotePost: (input: { params: { id: string } }) => request('POST', '/api/feedback/{id}/vote', input),
+    /** Takes back the caller's vote. */
+    feedbackVoteDelete: (input: { params: { id: string } }) => request('DELETE', '/api/feedback/{id}/vote', input),
+    /** Lists the households the caller belongs to. */
+    householdsGet: () => request<HouseholdsGetResponse>('GET', '/api/households'),
+    /** Creates a household owned by the caller. */
+    householdsPost: (input: { body: HouseholdsPostBody }) => request<HouseholdsPostResponse>('POST', '/api/households', input),
+    /** Renames a household or saves its shopping list and current planning period. */
+    householdPut: (input: { params: { id: string }; body?: HouseholdPutBody }) => request<HouseholdPutResponse>('PUT', '/api/households/{id}', input),
+    /** Deletes a household. Owners only. */
+    householdDelete: (input: { params: { id: string } }) => request<HouseholdDeleteResponse>('DELETE', '/api/households/{id}', input),
+    /** Household activity feed, newest first. */
+    householdActivityGet: (input: { params: { id: string }; query?: HouseholdActivityGetQuery }) => request('GET', '/api/households/{id}/activity', input),
+    /** Lists the household's meal collections with the meal ids in each. */
+    collectionsGet: (input: { params: { id: string } }) => request('GET', '/api/households/{id}/collections', input),
+    /** Creates a collection, optionally seeded with meals from the same household. */
+    collectionsPost: (input: { params: { id: string }; body?: CollectionsPostBody }) => request('POST', '/api/households/{id}/collections', input),
+    /** Renames a collection, edits its description, or adds and removes meals. */
+    collectionPatch: (input: { params: { id: string; collectionId: string }; body?: CollectionPatchBody }) => request('PATCH', '/api/households/{id}/collections/{collectionId}', input),
+    /** Deletes a collection. Its meals stay in the household library. */
+    collectionDelete: (input: { params: { id: string; collectionId: string } }) => request('DELETE', '/api/households/{id}/collections/{collectionId}', input),
+    /** Ranks household and library meals by how many of their ingredients are on hand. */
+    cookSuggestionsPost: (input: { params: { id: string }; body?: CookSuggestionsPostBody }) => request('POST', '/api/households/{id}/cook-suggestions', input),
+    /** Every member's dietary profile plus the merged household profile. */
+    dietaryProfilesGet: (input: { params: { id: string } }) => request('GET', '/api/households/{id}/dietary-profiles', input),
+    /** Replaces a member's dietary profile. */
+    dietaryProfilePut: (input: { params: { id: string; userId: string }; body?: DietaryProfilePutBody }) => request('PUT', '/api/households/{id}/dietary-profiles/{userId}', input),
+    /** Clears a member's dietary profile. */
+    dietaryProfileDelete: (input: { params: { id: string; userId: string } }) => request('DELETE', '/api/households/{id}/dietary-profiles/{userId}', input),
+    /** Lists the household's invites, newest first, with their status and who redeemed them. Owners only. */
+    householdInvitesGet: (input: { params: { id: string }; query?: HouseholdInvitesGetQuery }) => request<HouseholdInvitesGetResponse>('GET', '/api/households/{id}/invites', input),
+    /** Revokes an invite. */
+    householdInviteDelete: (input: { params: { id: string; inviteId: string } }) => request<HouseholdInviteDeleteResponse>('DELETE', '/api/households/{id}/invites/{inviteId}', input),
+    /** Lists the household's members and their roles. */
+    membersGet: (input: { params: { id: string } }) => request<MembersGetResponse>('GET', '/api/households/{id}/members', input),
+    /** Changes a member's role. */
+    memberPatch: (input: { params: { id: string; memberId: string }; body: MemberPatchBody }) => request('PATCH', '/api/households/{id}/members/{memberId}', input),
+    /** Removes a member, or leaves the household when `memberId` is the caller. */
+    memberDelete: (input: { params: { id: string; memberId: string } }) => request('DELETE', '/api/households/{id}/members/{memberId}', input),
+    /** Lists the household's pantry with low-stock and expiry flags. */
+    pantryGet: (input: { params: { id: string }; query?: PantryGetQuery }) => request('GET', '/api/households/{id}/pantry', input),
+    /** Adds an item to the pantry. */
+    pantryPost: (input: { params: { id: string }; body?: PantryPostBody }) => request('POST', '/api/households/{id}/pantry', input),
+    /** Updates a pantry item. */
+    pantryItemPatch: (input: { params: { id: string; itemId: string }; body?: PantryItemPatchBody }) => request('PATCH', '/api/households/{id}/pantry/{itemId}', input),
+    /** Removes a pantry item. */
+    pantryItemDelete: (input: { params: { id: string; itemId: string } }) => request('DELETE', '/api/households/{id}/pantry/{itemId}', input),
+    /** Lists the household's recurring plan templates. */
+    planTemplatesGet: (input: { params: { id: string } }) => request('GET', '/api/households/{id}/plan-templates', input),
+    /** Creates a recurring plan template and fills in its upcoming plans. */
+    planTemplatesPost: (input: { params: { id: string }; body?: PlanTemplatesPostBody }) => request('POST', '/api/households/{id}/plan-templates', input),
+    /** Edits, pauses or resumes a template; its future plans are replaced to match. */
+    planTemplatePatch: (input: { params: { id: string; templateId: string }; body?: PlanTemplatePatchBody }) => request('PATCH', '/api/households/{id}/plan-templates/{templateId}', input),
+    /** Deletes a template and the future plans it created. */
+    planTemplateDelete: (input: { params: { id: string; templateId: string } }) => request('DELETE', '/api/households/{id}/plan-templates/{templateId}', input),
+    /** Builds the shopping list from the planned meals in a date range, minus what the pantry has. */
+    shoppingListGeneratePost: (input: { params: { id: string }; body?: ShoppingListGeneratePostBody }) => request('POST', '/api/households/{id}/shopping-list/generate', input),
+    /** Lists the tags used by the household's meals, with how many meals carry each. */
+    tagsGet: (input: { params: { id: string } }) => request('GET', '/api/households/{id}/tags', input),
+    /** Renames a tag across the household's meals; renaming onto an existing tag merges them. */
+    tagsPatch: (input: { params: { id: string }; body: TagsPatchBody }) => request('PATCH', '/api/households/{id}/tags', input),
+    /** Removes a tag from every meal in the household. */
+    tagsDelete: (input: { params: { id: string }; query: TagsDeleteQuery }) => request('DELETE', '/api/households/{id}/tags', input),
+    /** Hands the household to another member; the previous owner becomes an admin. */
+    householdTransferPost: (input: { params: { id: string }; body: HouseholdTransferPostBody }) => request('POST', '/api/households/{id}/transfer-ownership', input),
+    /** Validates an App Store receipt or Google Play purchase and updates the subscription. */
+    iapValidate: (input: { body: IapValidateBody }) => request('POST', '/api/iap/validate', input),
+    /** Ingredient autocomplete from the caller's ingredients and the global catalogue. */
+    ingredientsSuggestGet: (input: { query?: IngredientsSuggestGetQuery } = {}) => request('GET', '/api/ingredients/suggest', input),
+    /** Creates a shareable invite link, or an invitation emailed to one address. */
+    invitesPost: (input: { body: InvitesPostBody }) => request<InvitesPostResponse>('POST', '/api/invites', input),
+    /** Joins a household with an invite token. */
+    invitesRedeemPost: (input: { body: InvitesRedeemPostBody }) => request<InvitesRedeemPostResponse>('POST', '/api/invites/redeem', input),
+    /** Accepts a pending invitation addressed to one of the caller's verified emails. */
+    inviteAcceptPost: (input: { params: { inviteId: string } }) => request<InviteAcceptPostResponse>('POST', '/api/invites/{inviteId}/accept', input),
+    /** Declines a pending invitation addressed to one of the caller's verified emails. */
+    inviteDeclinePost: (input: { params: { inviteId: string } }) => request<InviteDeclinePostResponse>('POST', '/api/invites/{inviteId}/decline', input),
+    /** Lists the caller's household meals, optionally filtered by tags, collection and timing. */
+    mealsGet: (input: { query?: MealsGetQuery } = {}) => request<MealsGetResponse>('GET', '/api/meals', input),
+    /** Adds a meal to a household. */
+    mealsPost: (input: { body: MealsPostBody }) => request<MealsPostResponse>('POST', '/api/meals', input),
+    /** The global meal library in curated order. */
+    globalMealsGet: (input: { query?: GlobalMealsGetQuery } = {}) => request('GET', '/api/meals/global', input),
+    /** Adds a meal to the global library. Library admins only. */
+    globalMealsPost: (input: { body?: GlobalMealsPostBody } = {}) => request('POST', '/api/meals/global', input),
+    /** Global meal collections in library order. */
+    globalMealCollectionsGet: (input: { query?: GlobalMealCollectionsGetQuery } = {}) => request('GET', '/api/meals/global/collections', input),
+    /** Creates a library collection. Library admins only. */
+    globalMealCollectionsPost: (input: { body?: GlobalMealCollectionsPostBody } = {}) => request('POST', '/api/meals/global/collections', input),
+    /** Sets the collection order. Library admins only. */
+    globalMealCollectionsReorderPost: (input: { body: GlobalMealCollectionsReorderPostBody }) => request('POST', '/api/meals/global/collections/reorder', input),
+    /** Edits or un-retires a library collection. Library admins only. */
+    globalMealCollectionPatch: (input: { params: { collectionId: string }; body?: GlobalMealCollectionPatchBody }) => request('PATCH', '/api/meals/global/collections/{collectionId}', input),
+    /** Retires a library collection and hides its meals. Library admins only. */
+    globalMealCollectionDelete: (input: { params: { collectionId: string } }) => request('DELETE', '/api/meals/global/collections/{collectionId}', input),
+    /** Sets the library order. Library admins only. */
+    globalMealsReorderPost: (input: { body: GlobalMealsReorderPostBody }) => request('POST', '/api/meals/global/reorder', input),
+    /** Edits or un-retires a library meal. Library admins only. */
+    globalMealPatch: (input: { params: { id: string }; body?: GlobalMealPatchBody }) => request('PATCH', '/api/meals/global/{id}', input),
+    /** Retires a library meal; households keep their copies. Library admins only. */
+    globalMealDelete: (input: { params: { id: string } }) => request('DELETE', '/api/meals/global/{id}', input),
+    /** Copies a global library meal into a household. */
+    mealImportPost: (input: { body: MealImportPostBody }) => request('POST', '/api/meals/import', input),
+    /** Searches one household's meals (and optionally the library) with facet filters and counts. */
+    mealsSearchGet: (input: { query: MealsSearchGetQuery }) => request('GET', '/api/meals/search', input),
+    /** One meal, optionally scaled to a number of servings. */
+    mealGet: (input: { params: { id: string }; query?: MealGetQuery }) => request<MealGetResponse>('GET', '/api/meals/{id}', input),
+    /** Edits a meal. Send its `version` to be told (409) when someone else changed it first. */
+    mealPut: (input: { params: { id: string }; body?: MealPutBody }) => request<MealPutResponse>('PUT', '/api/meals/{id}', input),
+    /** Deletes a meal. */
+    mealDelete: (input: { params: { id: string } }) => request<MealDeleteResponse>('DELETE', '/api/meals/{id}', input),
+    /** Recomputes a meal's nutrition from its ingredients. */
+    mealNutritionRecompute: (input: { params: { id: string } }) => request('POST', '/api/meals/{id}/nutrition/recompute', input),
+    /** Lists a meal's revisions, newest first, with the fields each one changed. */
+    mealRevisionsGet: (input: { params: { id: string } }) => request('GET', '/api/meals/{id}/revisions', input),
+    /** Restores a revision by saving its content as a new version. */
+    mealRevisionRestore: (input: { params: { id: string; revisionId: string }; body?: MealRevisionRestoreBody }) => request('POST', '/api/meals/{id}/revisions/{revisionId}/restore', input),
+    /** Creates a share link for a meal. */
+    mealSharePost: (input: { params: { id: string } }) => request('POST', '/api/meals/{id}/share', input),
+    /** Scheduled job: sends due plan reminders. Needs the job secret. */
+    notificationsRun: (input: { query?: NotificationsRunQuery } = {}) => request('POST', '/api/notifications/run', input),
+    /** The caller's reminder settings. */
+    notificationSettingsGet: () => request('GET', '/api/notifications/settings'),
+    /** Saves the caller's reminder settings and registers their push token. */
+    notificationSettingsPut: (input: { body?: NotificationSettingsPutBody } = {}) => request('PUT', '/api/notifications/settings', input),
+    /** This OpenAPI description of the API. */
+    openapiGet: () => request('GET', '/api/openapi.json'),
+    /** Plans a meal for a date and slot. */
+    plansPost: (input: { body: PlansPostBody }) => request<PlansPostResponse>('POST', '/api/plans', input),
+    /** Updates a plan's completion, notes or servings cooked; completing it records cooking history. */
+    plansPatch: (input: { query: PlansPatchQuery; body?: PlansPatchBody }) => request<PlansPatchResponse>('PATCH', '/api/plans', input),
+    /** Removes a plan. */
+    plansDelete: (input: { query: PlansDeleteQuery }) => request<PlansDeleteResponse>('DELETE', '/api/plans', input),
+    /** Applies copy, move, swap, clear and add operations to one household in a single transaction. */
+    plansBatchPost: (input: { body: PlansBatchPostBody }) => request<PlansBatchPostResponse>('POST', '/api/plans/batch', input),
+    /** Scheduled job: keeps every active plan template filled in ahead. Needs the job secret. */
+    planTemplatesRun: (input: { query?: PlanTemplatesRunQuery } = {}) => request('POST', '/api/plans/templates/run', input),
+    /** The recipe behind a share link. */
+    recipeShareGet: (input: { params: { token: string } }) => request('GET', '/api/recipe-shares/{token}', input),
+    /** Saves a shared recipe into one of the caller's households. */
+    recipeShareAcceptPost: (input: { params: { token: string }; body?: RecipeShareAcceptPostBody }) => request('POST', '/api/recipe-shares/{token}/accept', input),
+    /** The caller's Pro subscription, or null. */
+    subscriptionsGet: () => request('GET', '/api/subscriptions'),
+    /** What changed in the caller's households since a cursor, what was deleted, and the next cursor. */
+    syncGet: (input: { query?: SyncGetQuery } = {}) => request('GET', '/api/sync', input),
+    /** Creates or refreshes the signed-in user's record. */
+    usersPost: (input: { body?: UsersPostBody } = {}) => request('POST', '/api/users', input),
+    /** A user's profile. Callers can only read their own. */
+    userGet: (input: { params: { id: string } }) => request('GET', '/api/users/{id}', input),
+    /** Updates the caller's profile. */
+    userPut: (input: { params: { id: string }; body?: UserPutBody }) => request('PUT', '/api/users/{id}', input),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
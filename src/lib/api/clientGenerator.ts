@@ -0,0 +1,271 @@
+import type { JsonSchema } from '@/lib/api/schema';
+
+// Writes src/lib/api/client.ts from the OpenAPI document (`npm run generate:api-client`). Requests
+// are always typed; responses only where API_ENDPOINTS describes them, otherwise they're `unknown`.
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+type Operation = {
+  operationId: string;
+  summary?: string;
+  deprecated?: boolean;
+  parameters?: Array<{ name: string; in: 'path' | 'query'; required?: boolean; description?: string; schema: JsonSchema }>;
+  requestBody?: { required?: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses?: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+};
+
+const COMPONENT_REF = '#/components/schemas/';
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : literal(key);
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function docComment(text: unknown, indent: string): string {
+  return typeof text === 'string' && text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries((schema.properties ?? {}) as Record<string, JsonSchema>);
+  if (properties.length === 0) return 'Record<string, unknown>';
+  const required = new Set((schema.required ?? []) as string[]);
+  const inner = `${indent}  `;
+  const lines = properties.map(
+    ([key, property]) =>
+      `${docComment(property.description, inner)}${inner}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${tsType(property, inner)};`,
+  );
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+// Whether `tsType(schema)` is a union, which needs parentheses inside an intersection.
+function isUnion(schema: JsonSchema): boolean {
+  return Boolean(schema.oneOf ?? schema.anyOf) || Array.isArray(schema.enum) || Array.isArray(schema.type);
+}
+
+/**
+ * The TypeScript type for the JSON Schema subset the request and response schemas use. A `$ref`
+ * to a component becomes the type of the same name.
+ */
+export function tsType(schema: JsonSchema, indent = ''): string {
+  if (typeof schema.$ref === 'string' && schema.$ref.startsWith(COMPONENT_REF)) return schema.$ref.slice(COMPONENT_REF.length);
+  if ('const' in schema) return literal(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map(literal).join(' | ');
+  const variants = (schema.oneOf ?? schema.anyOf) as JsonSchema[] | undefined;
+  if (variants) return variants.map((variant) => tsType(variant, indent)).join(' | ');
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[])
+      .map((part) => (isUnion(part) ? `(${tsType(part, indent)})` : tsType(part, indent)))
+      .join(' & ');
+  }
+
+  const { type } = schema;
+  if (Array.isArray(type)) return type.map((single) => tsType({ ...schema, type: single }, indent)).join(' | ');
+  switch (type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schema.items ? tsType(schema.items as JsonSchema, indent) : 'unknown'}>`;
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+function hasRequiredFields(schema: JsonSchema): boolean {
+  return Array.isArray(schema.required) && schema.required.length > 0;
+}
+
+type Member = { name: string; type: string; optional: boolean };
+
+// One client method plus the named types its input and response use.
+function clientMethod(path: string, method: string, operation: Operation): { types: string[]; source: string } {
+  const { operationId } = operation;
+  const typeName = pascalCase(operationId);
+  const types: string[] = [];
+  const members: Member[] = [];
+
+  const pathParams = (operation.parameters ?? []).filter((param) => param.in === 'path');
+  if (pathParams.length > 0) {
+    members.push({ name: 'params', type: `{ ${pathParams.map((param) => `${propertyKey(param.name)}: string`).join('; ')} }`, optional: false });
+  }
+
+  const queryParams = (operation.parameters ?? []).filter((param) => param.in === 'query');
+  if (queryParams.length > 0) {
+    const query: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(
+        queryParams.map((param) => [param.name, param.description ? { ...param.schema, description: param.description } : param.schema]),
+      ),
+      required: queryParams.filter((param) => param.required).map((param) => param.name),
+    };
+    types.push(`export type ${typeName}Query = ${tsType(query)};`);
+    members.push({ name: 'query', type: `${typeName}Query`, optional: !hasRequiredFields(query) });
+  }
+
+  const content = operation.requestBody?.content ?? {};
+  if (content['multipart/form-data']) {
+    members.push({ name: 'form', type: 'FormData', optional: false });
+  } else if (content['application/json']) {
+    const body = content['application/json'].schema;
+    types.push(`export type ${typeName}Body = ${tsType(body)};`);
+    members.push({ name: 'body', type: `${typeName}Body`, optional: !operation.requestBody?.required });
+  }
+
+  const response = operation.responses?.['200']?.content?.['application/json']?.schema;
+  let responseType = '';
+  if (response && Object.keys(response).length > 0) {
+    types.push(`export type ${typeName}Response = ${tsType(response)};`);
+    responseType = `<${typeName}Response>`;
+  }
+
+  const call = `request${responseType}('${method.toUpperCase()}', '${path}'${members.length > 0 ? ', input' : ''})`;
+  let signature = '()';
+  if (members.length > 0) {
+    const inputType = `{ ${members.map((member) => `${member.name}${member.optional ? '?' : ''}: ${member.type}`).join('; ')} }`;
+    signature = members.every((member) => member.optional) ? `(input: ${inputType} = {})` : `(input: ${inputType})`;
+  }
+  return { types, source: `${docComment(operation.summary, '    ')}    ${operationId}: ${signature} => ${call},` };
+}
+
+const RUNTIME = `export type ApiErrorBody = {
+  error: ApiErrorCode;
+  message: string;
+  requestId: string;
+  // Set on a 400 from request validation.
+  fields?: Array<{ path: string; message: string }>;
+  [key: string]: unknown;
+};
+
+/**
+ * Thrown for any response that isn't a 2xx, with the error body the API sent.
+ */
+export class ApiClientError extends Error {
+  readonly name = 'ApiClientError';
+
+  constructor(
+    readonly status: number,
+    readonly body: ApiErrorBody,
+  ) {
+    super(body.message);
+  }
+}
+
+export type ApiClientOptions = {
+  // The site's origin, e.g. \`https://mealo.website\`.
+  baseUrl: string;
+  // The Clerk session token, sent as \`Authorization: Bearer\`.
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  fetch?: typeof fetch;
+};
+
+type RequestInput = {
+  params?: Record<string, string>;
+  query?: object;
+  body?: unknown;
+  form?: FormData;
+};
+
+function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return Boolean(value) && typeof value === 'object' && typeof (value as { error?: unknown }).error === 'string';
+}
+`;
+
+/**
+ * The source of the typed client for every non-deprecated operation in `document`.
+ */
+export function generateApiClient(document: JsonSchema): string {
+  const paths = (document.paths ?? {}) as Record<string, Record<string, Operation>>;
+  const components = document.components as { schemas: Record<string, JsonSchema> };
+  const errorCode = (components.schemas.ApiError.properties as Record<string, JsonSchema>).error;
+
+  // ApiError is covered by ApiErrorBody in the runtime.
+  const types = Object.entries(components.schemas)
+    .filter(([name]) => name !== 'ApiError')
+    .map(([name, schema]) => `${docComment(schema.description, '')}export type ${name} = ${tsType(schema)};`);
+  const methods: string[] = [];
+  for (const [path, operations] of Object.entries(paths)) {
+    for (const method of METHODS) {
+      const operation = operations[method];
+      if (!operation || operation.deprecated) continue;
+      const generated = clientMethod(path, method, operation);
+      types.push(...generated.types);
+      methods.push(generated.source);
+    }
+  }
+
+  return `// Generated from the OpenAPI document (src/lib/api/openapi.ts) by \`npm run generate:api-client\`.
+// Do not edit: change the route schemas in src/lib/api/schemas/ and run the script again.
+//
+// Responses are typed where API_ENDPOINTS describes them. Those types are documentation: nothing
+// checks the body at runtime. Every other call resolves to \`unknown\`, so check what you read from it.
+
+export type ApiErrorCode = ${tsType(errorCode)};
+
+${RUNTIME}
+${types.join('\n\n')}
+
+/**
+ * A client for the API. Inputs are checked by the compiler against the route schemas; methods
+ * whose response API_ENDPOINTS doesn't describe return \`Promise<unknown>\`.
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImpl = options.fetch ?? fetch;
+
+  async function request<T = unknown>(method: string, path: string, input: RequestInput = {}): Promise<T> {
+    const url = new URL(
+      path.replace(/\\{(\\w+)\\}/g, (_, name: string) => encodeURIComponent(input.params?.[name] ?? '')),
+      options.baseUrl,
+    );
+    for (const [key, value] of Object.entries(input.query ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined && item !== null) url.searchParams.append(key, String(item));
+      }
+    }
+
+    const headers: Record<string, string> = {};
+    const token = await options.getToken?.();
+    if (token) headers.authorization = \`Bearer \${token}\`;
+    let body: BodyInit | undefined;
+    if (input.form) {
+      body = input.form;
+    } else if (input.body !== undefined) {
+      headers['content-type'] = 'application/json';
+      body = JSON.stringify(input.body);
+    }
+
+    const res = await fetchImpl(url, { method, headers, body });
+    const data: unknown = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new ApiClientError(
+        res.status,
+        isApiErrorBody(data)
+          ? data
+          : { error: 'internal_error', message: \`Request failed with status \${res.status}.\`, requestId: res.headers.get('x-request-id') ?? '' },
+      );
+    }
+    return data as T;
+  }
+
+  return {
+${methods.join('\n')}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
@@ -0,0 +1,701 @@
+import type { JsonSchema, Schema } from '@/lib/api/schema';
+import { achievementEventBody } from '@/lib/api/schemas/achievements';
+import { generateMealBody, generatePlanBody, importVideoMealBody } from '@/lib/api/schemas/ai';
+import {
+  createCommentBody,
+  createFeedbackBody,
+  listCommentsQuery,
+  listFeedbackQuery,
+  updateFeedbackBody,
+} from '@/lib/api/schemas/feedback';
+import {
+  activityQuery,
+  changeMemberRoleBody,
+  cookSuggestionsBody,
+  createCollectionBody,
+  createHouseholdBody,
+  createPantryItemBody,
+  createPlanTemplateBody,
+  deleteTagQuery,
+  dietaryProfileBody,
+  generateShoppingListBody,
+  listInvitesQuery,
+  pantryQuery,
+  renameTagBody,
+  transferOwnershipBody,
+  updateCollectionBody,
+  updateHouseholdBody,
+  updatePantryItemBody,
+  updatePlanTemplateBody,
+} from '@/lib/api/schemas/households';
+import { validateReceiptBody } from '@/lib/api/schemas/iap';
+import { suggestIngredientsQuery } from '@/lib/api/schemas/ingredients';
+import { createInviteBody, redeemInviteBody } from '@/lib/api/schemas/invites';
+import {
+  acceptRecipeShareBody,
+  createGlobalCollectionBody,
+  createGlobalMealBody,
+  createMealBody,
+  globalLibraryQuery,
+  importMealBody,
+  listMealsQuery,
+  mealQuery,
+  mealSearchQuery,
+  reorderBody,
+  restoreRevisionBody,
+  updateGlobalCollectionBody,
+  updateGlobalMealBody,
+  updateMealBody,
+} from '@/lib/api/schemas/meals';
+import { notificationSettingsBody, runRemindersQuery } from '@/lib/api/schemas/notifications';
+import { batchPlansBody, createPlanBody, planIdQuery, runPlanTemplatesQuery, updatePlanBody } from '@/lib/api/schemas/plans';
+import {
+  batchPlansResponse,
+  bootstrapResponse,
+  createInviteResponse,
+  createPlanResponse,
+  declineInviteResponse,
+  householdResponse,
+  householdsResponse,
+  invitesResponse,
+  joinHouseholdResponse,
+  mealDetailResponse,
+  mealResponse,
+  mealsResponse,
+  membersResponse,
+  revokeInviteResponse,
+  successResponse,
+  updateMealResponse,
+  updatePlanResponse,
+} from '@/lib/api/schemas/responses';
+import { syncQuery } from '@/lib/api/schemas/sync';
+import { bootstrapQuery, createUserBody, updateUserBody } from '@/lib/api/schemas/users';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * One route handler as the API docs and the generated client see it. `body` and `query` are the
+ * schemas the route itself validates with, so the docs can't drift from what is accepted.
+ */
+export type Endpoint = {
+  // The route's `apiRoute` tag; it also names the operation (`MEALS_POST` → `mealsPost`).
+  tag: string;
+  method: HttpMethod;
+  // With OpenAPI path parameters, e.g. `/api/meals/{id}`.
+  path: string;
+  summary: string;
+  // Defaults to true, as in `apiRoute`.
+  auth?: boolean;
+  body?: Schema<unknown>;
+  query?: Schema<unknown>;
+  // For a multipart/form-data body, which the route reads itself.
+  form?: JsonSchema;
+  // The 200 body, from src/lib/api/schemas/responses.ts. Nothing checks it against the handler;
+  // without it the docs and the client leave the response untyped.
+  response?: JsonSchema;
+  // Older paths that serve the same handler.
+  aliases?: string[];
+};
+
+// The fields POST /api/ai/meals/scan reads from its form data.
+const scanMealForm: JsonSchema = {
+  type: 'object',
+  properties: {
+    image: { type: 'string', format: 'binary', description: 'JPEG, PNG or WebP, at most 6 MB.' },
+    maxIngredients: { type: 'integer', minimum: 1, maximum: 30 },
+    note: { type: 'string', maxLength: 500 },
+    focusBbox: { type: 'string', description: 'JSON `{ x, y, width, height }` in 0-1 image coordinates.' },
+  },
+  required: ['image'],
+};
+
+/**
+ * Every API route, in path order. `src/lib/api/openapi.test.ts` fails when a route is missing
+ * here or declares a different tag, schema or sign-in rule.
+ */
+export const API_ENDPOINTS: Endpoint[] = [
+  { tag: 'ACHIEVEMENTS_GET', method: 'GET', path: '/api/achievements', summary: "Lists the caller's achievements and progress." },
+  {
+    tag: 'ACHIEVEMENTS_EVENT_POST',
+    method: 'POST',
+    path: '/api/achievements/event',
+    summary: 'Re-checks achievements after something happened and returns any newly unlocked.',
+    body: achievementEventBody,
+  },
+  {
+    tag: 'AI_GENERATE_MEAL',
+    method: 'POST',
+    path: '/api/ai/meals/generate',
+    summary: "Generates a recipe from a prompt, within the household's dietary restrictions. Pro only.",
+    body: generateMealBody,
+  },
+  {
+    tag: 'AI_IMPORT_VIDEO',
+    method: 'POST',
+    path: '/api/ai/meals/import-video',
+    summary: 'Extracts recipes from a cooking video or recipe page URL. Pro only.',
+    body: importVideoMealBody,
+  },
+  {
+    tag: 'AI_SCAN_MEAL',
+    method: 'POST',
+    path: '/api/ai/meals/scan',
+    summary: 'Recognizes a dish and its ingredients from a photo. Pro only.',
+    form: scanMealForm,
+  },
+  {
+    tag: 'AI_GENERATE_PLAN',
+    method: 'POST',
+    path: '/api/ai/plans/generate',
+    summary: "Proposes meals from the household's library for the open slots in a date range. Nothing is saved. Pro only.",
+    body: generatePlanBody,
+  },
+  { tag: 'AI_USAGE_GET', method: 'GET', path: '/api/ai/usage', summary: "The caller's AI usage and credits for the current month." },
+  {
+    tag: 'BOOTSTRAP_GET',
+    method: 'GET',
+    path: '/api/bootstrap',
+    summary: "Everything the app needs at launch: the user, households, members, meals, plans, invites and subscription.",
+    query: bootstrapQuery,
+    response: bootstrapResponse,
+  },
+  {
+    tag: 'FEEDBACK_GET',
+    method: 'GET',
+    path: '/api/feedback',
+    summary: 'Lists feature requests and bug reports with vote and comment counts.',
+    query: listFeedbackQuery,
+  },
+  {
+    tag: 'FEEDBACK_POST',
+    method: 'POST',
+    path: '/api/feedback',
+    summary: 'Posts a feature request or bug report.',
+    body: createFeedbackBody,
+  },
+  { tag: 'FEEDBACK_ID_GET', method: 'GET', path: '/api/feedback/{id}', summary: 'One submission, with what the caller may do to it.' },
+  {
+    tag: 'FEEDBACK_ID_PATCH',
+    method: 'PATCH',
+    path: '/api/feedback/{id}',
+    summary: 'Edits a submission (its author, once, shortly after posting) or sets its status (admins).',
+    body: updateFeedbackBody,
+  },
+  {
+    tag: 'FEEDBACK_ID_DELETE',
+    method: 'DELETE',
+    path: '/api/feedback/{id}',
+    summary: 'Deletes a submission. Its author only, shortly after posting.',
+  },
+  {
+    tag: 'FEEDBACK_COMMENTS_GET',
+    method: 'GET',
+    path: '/api/feedback/{id}/comments',
+    summary: "Lists a submission's comments, oldest first.",
+    query: listCommentsQuery,
+  },
+  {
+    tag: 'FEEDBACK_COMMENTS_POST',
+    method: 'POST',
+    path: '/api/feedback/{id}/comments',
+    summary: 'Comments on a submission.',
+    body: createCommentBody,
+  },
+  { tag: 'FEEDBACK_VOTE_POST', method: 'POST', path: '/api/feedback/{id}/vote', summary: 'Upvotes a submission (once per user).' },
+  { tag: 'FEEDBACK_VOTE_DELETE', method: 'DELETE', path: '/api/feedback/{id}/vote', summary: "Takes back the caller's vote." },
+  {
+    tag: 'HOUSEHOLDS_GET',
+    method: 'GET',
+    path: '/api/households',
+    summary: 'Lists the households the caller belongs to.',
+    response: householdsResponse,
+    aliases: ['/api/groups'],
+  },
+  {
+    tag: 'HOUSEHOLDS_POST',
+    method: 'POST',
+    path: '/api/households',
+    summary: 'Creates a household owned by the caller.',
+    body: createHouseholdBody,
+    response: householdResponse,
+    aliases: ['/api/groups'],
+  },
+  {
+    tag: 'HOUSEHOLD_PUT',
+    method: 'PUT',
+    path: '/api/households/{id}',
+    summary: "Renames a household or saves its shopping list and current planning period.",
+    body: updateHouseholdBody,
+    response: successResponse,
+    aliases: ['/api/groups/{id}'],
+  },
+  {
+    tag: 'HOUSEHOLD_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}',
+    summary: 'Deletes a household. Owners only.',
+    response: successResponse,
+    aliases: ['/api/groups/{id}'],
+  },
+  {
+    tag: 'HOUSEHOLD_ACTIVITY_GET',
+    method: 'GET',
+    path: '/api/households/{id}/activity',
+    summary: 'Household activity feed, newest first.',
+    query: activityQuery,
+  },
+  {
+    tag: 'COLLECTIONS_GET',
+    method: 'GET',
+    path: '/api/households/{id}/collections',
+    summary: "Lists the household's meal collections with the meal ids in each.",
+  },
+  {
+    tag: 'COLLECTIONS_POST',
+    method: 'POST',
+    path: '/api/households/{id}/collections',
+    summary: 'Creates a collection, optionally seeded with meals from the same household.',
+    body: createCollectionBody,
+  },
+  {
+    tag: 'COLLECTION_PATCH',
+    method: 'PATCH',
+    path: '/api/households/{id}/collections/{collectionId}',
+    summary: 'Renames a collection, edits its description, or adds and removes meals.',
+    body: updateCollectionBody,
+  },
+  {
+    tag: 'COLLECTION_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/collections/{collectionId}',
+    summary: 'Deletes a collection. Its meals stay in the household library.',
+  },
+  {
+    tag: 'COOK_SUGGESTIONS_POST',
+    method: 'POST',
+    path: '/api/households/{id}/cook-suggestions',
+    summary: 'Ranks household and library meals by how many of their ingredients are on hand.',
+    body: cookSuggestionsBody,
+  },
+  {
+    tag: 'DIETARY_PROFILES_GET',
+    method: 'GET',
+    path: '/api/households/{id}/dietary-profiles',
+    summary: "Every member's dietary profile plus the merged household profile.",
+  },
+  {
+    tag: 'DIETARY_PROFILE_PUT',
+    method: 'PUT',
+    path: '/api/households/{id}/dietary-profiles/{userId}',
+    summary: "Replaces a member's dietary profile.",
+    body: dietaryProfileBody,
+  },
+  {
+    tag: 'DIETARY_PROFILE_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/dietary-profiles/{userId}',
+    summary: "Clears a member's dietary profile.",
+  },
+  {
+    tag: 'HOUSEHOLD_INVITES_GET',
+    method: 'GET',
+    path: '/api/households/{id}/invites',
+    summary: "Lists the household's invites, newest first, with their status and who redeemed them. Owners only.",
+    query: listInvitesQuery,
+    response: invitesResponse,
+  },
+  {
+    tag: 'HOUSEHOLD_INVITE_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/invites/{inviteId}',
+    summary: 'Revokes an invite.',
+    response: revokeInviteResponse,
+  },
+  {
+    tag: 'MEMBERS_GET',
+    method: 'GET',
+    path: '/api/households/{id}/members',
+    summary: "Lists the household's members and their roles.",
+    response: membersResponse,
+  },
+  {
+    tag: 'MEMBER_PATCH',
+    method: 'PATCH',
+    path: '/api/households/{id}/members/{memberId}',
+    summary: "Changes a member's role.",
+    body: changeMemberRoleBody,
+  },
+  {
+    tag: 'MEMBER_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/members/{memberId}',
+    summary: 'Removes a member, or leaves the household when `memberId` is the caller.',
+  },
+  {
+    tag: 'PANTRY_GET',
+    method: 'GET',
+    path: '/api/households/{id}/pantry',
+    summary: "Lists the household's pantry with low-stock and expiry flags.",
+    query: pantryQuery,
+  },
+  {
+    tag: 'PANTRY_POST',
+    method: 'POST',
+    path: '/api/households/{id}/pantry',
+    summary: 'Adds an item to the pantry.',
+    body: createPantryItemBody,
+  },
+  {
+    tag: 'PANTRY_ITEM_PATCH',
+    method: 'PATCH',
+    path: '/api/households/{id}/pantry/{itemId}',
+    summary: 'Updates a pantry item.',
+    body: updatePantryItemBody,
+  },
+  { tag: 'PANTRY_ITEM_DELETE', method: 'DELETE', path: '/api/households/{id}/pantry/{itemId}', summary: 'Removes a pantry item.' },
+  {
+    tag: 'PLAN_TEMPLATES_GET',
+    method: 'GET',
+    path: '/api/households/{id}/plan-templates',
+    summary: "Lists the household's recurring plan templates.",
+  },
+  {
+    tag: 'PLAN_TEMPLATES_POST',
+    method: 'POST',
+    path: '/api/households/{id}/plan-templates',
+    summary: 'Creates a recurring plan template and fills in its upcoming plans.',
+    body: createPlanTemplateBody,
+  },
+  {
+    tag: 'PLAN_TEMPLATE_PATCH',
+    method: 'PATCH',
+    path: '/api/households/{id}/plan-templates/{templateId}',
+    summary: 'Edits, pauses or resumes a template; its future plans are replaced to match.',
+    body: updatePlanTemplateBody,
+  },
+  {
+    tag: 'PLAN_TEMPLATE_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/plan-templates/{templateId}',
+    summary: 'Deletes a template and the future plans it created.',
+  },
+  {
+    tag: 'SHOPPING_LIST_GENERATE_POST',
+    method: 'POST',
+    path: '/api/households/{id}/shopping-list/generate',
+    summary: 'Builds the shopping list from the planned meals in a date range, minus what the pantry has.',
+    body: generateShoppingListBody,
+  },
+  {
+    tag: 'TAGS_GET',
+    method: 'GET',
+    path: '/api/households/{id}/tags',
+    summary: "Lists the tags used by the household's meals, with how many meals carry each.",
+  },
+  {
+    tag: 'TAGS_PATCH',
+    method: 'PATCH',
+    path: '/api/households/{id}/tags',
+    summary: "Renames a tag across the household's meals; renaming onto an existing tag merges them.",
+    body: renameTagBody,
+  },
+  {
+    tag: 'TAGS_DELETE',
+    method: 'DELETE',
+    path: '/api/households/{id}/tags',
+    summary: 'Removes a tag from every meal in the household.',
+    query: deleteTagQuery,
+  },
+  {
+    tag: 'HOUSEHOLD_TRANSFER_POST',
+    method: 'POST',
+    path: '/api/households/{id}/transfer-ownership',
+    summary: 'Hands the household to another member; the previous owner becomes an admin.',
+    body: transferOwnershipBody,
+  },
+  {
+    tag: 'IAP_VALIDATE',
+    method: 'POST',
+    path: '/api/iap/validate',
+    summary: 'Validates an App Store receipt or Google Play purchase and updates the subscription.',
+    body: validateReceiptBody,
+  },
+  {
+    tag: 'INGREDIENTS_SUGGEST_GET',
+    method: 'GET',
+    path: '/api/ingredients/suggest',
+    summary: "Ingredient autocomplete from the caller's ingredients and the global catalogue.",
+    query: suggestIngredientsQuery,
+  },
+  {
+    tag: 'INVITES_POST',
+    method: 'POST',
+    path: '/api/invites',
+    summary: 'Creates a shareable invite link, or an invitation emailed to one address.',
+    body: createInviteBody,
+    response: createInviteResponse,
+  },
+  {
+    tag: 'INVITES_REDEEM_POST',
+    method: 'POST',
+    path: '/api/invites/redeem',
+    summary: 'Joins a household with an invite token.',
+    body: redeemInviteBody,
+    response: joinHouseholdResponse,
+  },
+  {
+    tag: 'INVITE_ACCEPT_POST',
+    method: 'POST',
+    path: '/api/invites/{inviteId}/accept',
+    summary: "Accepts a pending invitation addressed to one of the caller's verified emails.",
+    response: joinHouseholdResponse,
+  },
+  {
+    tag: 'INVITE_DECLINE_POST',
+    method: 'POST',
+    path: '/api/invites/{inviteId}/decline',
+    summary: "Declines a pending invitation addressed to one of the caller's verified emails.",
+    response: declineInviteResponse,
+  },
+  {
+    tag: 'MEALS_GET',
+    method: 'GET',
+    path: '/api/meals',
+    summary: "Lists the caller's household meals, optionally filtered by tags, collection and timing.",
+    query: listMealsQuery,
+    response: mealsResponse,
+  },
+  {
+    tag: 'MEALS_POST',
+    method: 'POST',
+    path: '/api/meals',
+    summary: 'Adds a meal to a household.',
+    body: createMealBody,
+    response: mealResponse,
+  },
+  {
+    tag: 'GLOBAL_MEALS_GET',
+    method: 'GET',
+    path: '/api/meals/global',
+    summary: 'The global meal library in curated order.',
+    query: globalLibraryQuery,
+  },
+  {
+    tag: 'GLOBAL_MEALS_POST',
+    method: 'POST',
+    path: '/api/meals/global',
+    summary: 'Adds a meal to the global library. Library admins only.',
+    body: createGlobalMealBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_COLLECTIONS_GET',
+    method: 'GET',
+    path: '/api/meals/global/collections',
+    summary: 'Global meal collections in library order.',
+    query: globalLibraryQuery,
+  },
+  {
+    tag: 'GLOBAL_MEAL_COLLECTIONS_POST',
+    method: 'POST',
+    path: '/api/meals/global/collections',
+    summary: 'Creates a library collection. Library admins only.',
+    body: createGlobalCollectionBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_COLLECTIONS_REORDER_POST',
+    method: 'POST',
+    path: '/api/meals/global/collections/reorder',
+    summary: 'Sets the collection order. Library admins only.',
+    body: reorderBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_COLLECTION_PATCH',
+    method: 'PATCH',
+    path: '/api/meals/global/collections/{collectionId}',
+    summary: 'Edits or un-retires a library collection. Library admins only.',
+    body: updateGlobalCollectionBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_COLLECTION_DELETE',
+    method: 'DELETE',
+    path: '/api/meals/global/collections/{collectionId}',
+    summary: 'Retires a library collection and hides its meals. Library admins only.',
+  },
+  {
+    tag: 'GLOBAL_MEALS_REORDER_POST',
+    method: 'POST',
+    path: '/api/meals/global/reorder',
+    summary: 'Sets the library order. Library admins only.',
+    body: reorderBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_PATCH',
+    method: 'PATCH',
+    path: '/api/meals/global/{id}',
+    summary: 'Edits or un-retires a library meal. Library admins only.',
+    body: updateGlobalMealBody,
+  },
+  {
+    tag: 'GLOBAL_MEAL_DELETE',
+    method: 'DELETE',
+    path: '/api/meals/global/{id}',
+    summary: 'Retires a library meal; households keep their copies. Library admins only.',
+  },
+  {
+    tag: 'MEAL_IMPORT_POST',
+    method: 'POST',
+    path: '/api/meals/import',
+    summary: 'Copies a global library meal into a household.',
+    body: importMealBody,
+  },
+  {
+    tag: 'MEALS_SEARCH_GET',
+    method: 'GET',
+    path: '/api/meals/search',
+    summary: "Searches one household's meals (and optionally the library) with facet filters and counts.",
+    query: mealSearchQuery,
+  },
+  {
+    tag: 'MEAL_GET',
+    method: 'GET',
+    path: '/api/meals/{id}',
+    summary: 'One meal, optionally scaled to a number of servings.',
+    query: mealQuery,
+    response: mealDetailResponse,
+  },
+  {
+    tag: 'MEAL_PUT',
+    method: 'PUT',
+    path: '/api/meals/{id}',
+    summary: 'Edits a meal. Send its `version` to be told (409) when someone else changed it first.',
+    body: updateMealBody,
+    response: updateMealResponse,
+  },
+  { tag: 'MEAL_DELETE', method: 'DELETE', path: '/api/meals/{id}', summary: 'Deletes a meal.', response: successResponse },
+  {
+    tag: 'MEAL_NUTRITION_RECOMPUTE',
+    method: 'POST',
+    path: '/api/meals/{id}/nutrition/recompute',
+    summary: "Recomputes a meal's nutrition from its ingredients.",
+  },
+  {
+    tag: 'MEAL_REVISIONS_GET',
+    method: 'GET',
+    path: '/api/meals/{id}/revisions',
+    summary: "Lists a meal's revisions, newest first, with the fields each one changed.",
+  },
+  {
+    tag: 'MEAL_REVISION_RESTORE',
+    method: 'POST',
+    path: '/api/meals/{id}/revisions/{revisionId}/restore',
+    summary: 'Restores a revision by saving its content as a new version.',
+    body: restoreRevisionBody,
+  },
+  { tag: 'MEAL_SHARE_POST', method: 'POST', path: '/api/meals/{id}/share', summary: 'Creates a share link for a meal.' },
+  {
+    tag: 'NOTIFICATIONS_RUN',
+    method: 'POST',
+    path: '/api/notifications/run',
+    summary: 'Scheduled job: sends due plan reminders. Needs the job secret.',
+    auth: false,
+    query: runRemindersQuery,
+  },
+  {
+    tag: 'NOTIFICATION_SETTINGS_GET',
+    method: 'GET',
+    path: '/api/notifications/settings',
+    summary: "The caller's reminder settings.",
+  },
+  {
+    tag: 'NOTIFICATION_SETTINGS_PUT',
+    method: 'PUT',
+    path: '/api/notifications/settings',
+    summary: "Saves the caller's reminder settings and registers their push token.",
+    body: notificationSettingsBody,
+  },
+  {
+    tag: 'OPENAPI_GET',
+    method: 'GET',
+    path: '/api/openapi.json',
+    summary: 'This OpenAPI description of the API.',
+    auth: false,
+  },
+  {
+    tag: 'PLANS_POST',
+    method: 'POST',
+    path: '/api/plans',
+    summary: 'Plans a meal for a date and slot.',
+    body: createPlanBody,
+    response: createPlanResponse,
+  },
+  {
+    tag: 'PLANS_PATCH',
+    method: 'PATCH',
+    path: '/api/plans',
+    summary: "Updates a plan's completion, notes or servings cooked; completing it records cooking history.",
+    query: planIdQuery,
+    body: updatePlanBody,
+    response: updatePlanResponse,
+  },
+  {
+    tag: 'PLANS_DELETE',
+    method: 'DELETE',
+    path: '/api/plans',
+    summary: 'Removes a plan.',
+    query: planIdQuery,
+    response: successResponse,
+  },
+  {
+    tag: 'PLANS_BATCH_POST',
+    method: 'POST',
+    path: '/api/plans/batch',
+    summary: 'Applies copy, move, swap, clear and add operations to one household in a single transaction.',
+    body: batchPlansBody,
+    response: batchPlansResponse,
+  },
+  {
+    tag: 'PLAN_TEMPLATES_RUN',
+    method: 'POST',
+    path: '/api/plans/templates/run',
+    summary: 'Scheduled job: keeps every active plan template filled in ahead. Needs the job secret.',
+    auth: false,
+    query: runPlanTemplatesQuery,
+  },
+  {
+    tag: 'RECIPE_SHARE_GET',
+    method: 'GET',
+    path: '/api/recipe-shares/{token}',
+    summary: 'The recipe behind a share link.',
+  },
+  {
+    tag: 'RECIPE_SHARE_ACCEPT_POST',
+    method: 'POST',
+    path: '/api/recipe-shares/{token}/accept',
+    summary: "Saves a shared recipe into one of the caller's households.",
+    body: acceptRecipeShareBody,
+  },
+  { tag: 'SUBSCRIPTIONS_GET', method: 'GET', path: '/api/subscriptions', summary: "The caller's Pro subscription, or null." },
+  {
+    tag: 'SYNC_GET',
+    method: 'GET',
+    path: '/api/sync',
+    summary: "What changed in the caller's households since a cursor, what was deleted, and the next cursor.",
+    query: syncQuery,
+  },
+  {
+    tag: 'USERS_POST',
+    method: 'POST',
+    path: '/api/users',
+    summary: "Creates or refreshes the signed-in user's record.",
+    auth: false,
+    body: createUserBody,
+  },
+  { tag: 'USER_GET', method: 'GET', path: '/api/users/{id}', summary: "A user's profile. Callers can only read their own." },
+  {
+    tag: 'USER_PUT',
+    method: 'PUT',
+    path: '/api/users/{id}',
+    summary: "Updates the caller's profile.",
+    body: updateUserBody,
+  },
+];
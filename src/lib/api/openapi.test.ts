@@ -0,0 +1,197 @@
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import test from 'node:test';
+
+import { generateApiClient, tsType } from './clientGenerator';
+import { API_ENDPOINTS, type Endpoint } from './endpoints';
+import { buildOpenApiDocument, pathParamNames } from './openapi';
+import type { Schema } from './schema';
+import * as achievements from './schemas/achievements';
+import * as ai from './schemas/ai';
+import * as feedback from './schemas/feedback';
+import * as households from './schemas/households';
+import * as iap from './schemas/iap';
+import * as ingredients from './schemas/ingredients';
+import * as invites from './schemas/invites';
+import * as meals from './schemas/meals';
+import * as notifications from './schemas/notifications';
+import * as plans from './schemas/plans';
+import { bootstrapResponse } from './schemas/responses';
+import * as sync from './schemas/sync';
+import * as users from './schemas/users';
+
+const API_DIR = path.join(process.cwd(), 'src/app/api');
+
+// What a route file declares, read from its source.
+type RouteHandler = { method: string; path: string; tag?: string; body?: string; query?: string; auth: boolean };
+
+function routeFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return routeFiles(full);
+    return entry.name === 'route.ts' ? [full] : [];
+  });
+}
+
+// src/app/api/meals/[id]/route.ts → /api/meals/{id}
+function apiPath(file: string): string {
+  const relative = path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/');
+  return `/api/${relative}`.replace(/\[(\w+)\]/g, '{$1}');
+}
+
+function routeHandlers(file: string): RouteHandler[] {
+  const source = readFileSync(file, 'utf8');
+  const handlers: RouteHandler[] = [];
+
+  // `export { GET, POST } from '../households/route';` serves another route's handlers.
+  for (const match of source.matchAll(/export \{([^}]+)\} from ['"]([^'"]+)['"]/g)) {
+    const target = path.resolve(path.dirname(file), `${match[2]}.ts`);
+    const methods = match[1].split(',').map((name) => name.trim());
+    for (const handler of routeHandlers(target).filter((h) => methods.includes(h.method))) {
+      handlers.push({ ...handler, path: apiPath(file) });
+    }
+  }
+
+  for (const match of source.matchAll(/export const (GET|POST|PUT|PATCH|DELETE) = apiRoute\(([\s\S]*?)async \(/g)) {
+    const options = match[2];
+    handlers.push({
+      method: match[1],
+      path: apiPath(file),
+      tag: /tag: ['"](\w+)['"]/.exec(options)?.[1],
+      body: /body: (\w+)/.exec(options)?.[1],
+      query: /query: (\w+)/.exec(options)?.[1],
+      auth: !/auth: false/.test(options),
+    });
+  }
+  for (const match of source.matchAll(/export (?:async )?function (GET|POST|PUT|PATCH|DELETE)\(/g)) {
+    handlers.push({ method: match[1], path: apiPath(file), auth: false });
+  }
+  return handlers;
+}
+
+const schemaNames = new Map<unknown, string>();
+for (const schemas of [achievements, ai, feedback, households, iap, ingredients, invites, meals, notifications, plans, sync, users]) {
+  for (const [name, value] of Object.entries(schemas)) schemaNames.set(value, name);
+}
+
+function schemaName(schema: Schema<unknown> | undefined): string | undefined {
+  return schema ? (schemaNames.get(schema) ?? '(not exported from src/lib/api/schemas)') : undefined;
+}
+
+function findEndpoint(handler: RouteHandler): Endpoint | undefined {
+  return API_ENDPOINTS.find(
+    (endpoint) =>
+      endpoint.method === handler.method &&
+      (endpoint.path === handler.path || (endpoint.aliases ?? []).includes(handler.path)),
+  );
+}
+
+test('every route handler is in API_ENDPOINTS with its tag, schemas and sign-in rule', () => {
+  const handlers = routeFiles(API_DIR).flatMap(routeHandlers);
+  assert.ok(handlers.length > 80, `only found ${handlers.length} handlers`);
+
+  for (const handler of handlers) {
+    const where = `${handler.method} ${handler.path}`;
+    const endpoint = findEndpoint(handler);
+    assert.ok(endpoint, `${where} is missing from API_ENDPOINTS`);
+    if (handler.tag) assert.equal(endpoint.tag, handler.tag, `${where} tag`);
+    assert.equal(schemaName(endpoint.body), handler.body, `${where} body schema`);
+    assert.equal(schemaName(endpoint.query), handler.query, `${where} query schema`);
+    assert.equal(endpoint.auth ?? true, handler.auth, `${where} auth`);
+  }
+
+  const served = new Set(handlers.map((handler) => `${handler.method} ${handler.path}`));
+  for (const endpoint of API_ENDPOINTS) {
+    for (const route of [endpoint.path, ...(endpoint.aliases ?? [])]) {
+      assert.ok(served.has(`${endpoint.method} ${route}`), `${endpoint.method} ${route} has no route handler`);
+    }
+  }
+});
+
+type OperationDoc = {
+  operationId: string;
+  deprecated?: boolean;
+  security?: unknown[];
+  parameters?: Array<{ name: string; in: string; required: boolean; explode?: boolean }>;
+  requestBody?: { required: boolean; content: Record<string, { schema: unknown }> };
+  responses: Record<string, { content?: Record<string, { schema: unknown }> }>;
+};
+
+function documentPaths(): Record<string, Record<string, OperationDoc>> {
+  return buildOpenApiDocument().paths as Record<string, Record<string, OperationDoc>>;
+}
+
+test('the document has unique operation ids and declares every path parameter', () => {
+  const paths = documentPaths();
+  const ids = new Set<string>();
+  for (const [route, operations] of Object.entries(paths)) {
+    for (const operation of Object.values(operations)) {
+      assert.ok(!ids.has(operation.operationId), `duplicate operationId ${operation.operationId}`);
+      ids.add(operation.operationId);
+      const declared = (operation.parameters ?? []).filter((param) => param.in === 'path').map((param) => param.name);
+      assert.deepEqual(declared, pathParamNames(route), `${operation.operationId} path parameters`);
+    }
+  }
+  assert.equal(paths['/api/groups'].get.deprecated, true);
+  assert.deepEqual(paths['/api/notifications/run'].post.security, []);
+});
+
+test('query parameters and bodies come from the route schemas', () => {
+  const paths = documentPaths();
+  const search = paths['/api/meals/search'].get.parameters ?? [];
+  assert.equal(search.find((param) => param.name === 'householdId')?.required, true);
+  assert.equal(search.find((param) => param.name === 'cuisine')?.explode, true);
+
+  const createPlan = paths['/api/plans'].post.requestBody;
+  assert.equal(createPlan?.required, true);
+  assert.equal(createPlan?.content['application/json'].schema, plans.createPlanBody.jsonSchema);
+  assert.ok(paths['/api/ai/meals/scan'].post.requestBody?.content['multipart/form-data']);
+});
+
+// Every `$ref` under `value`.
+function refs(value: unknown): string[] {
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, inner]) => (key === '$ref' && typeof inner === 'string' ? [inner] : refs(inner)));
+}
+
+test('response bodies are documented for the core endpoints and their refs resolve', () => {
+  const document = buildOpenApiDocument();
+  const paths = document.paths as Record<string, Record<string, OperationDoc>>;
+  const ok = (route: string, method: string) => paths[route][method].responses['200'].content?.['application/json'].schema;
+  assert.equal(ok('/api/bootstrap', 'get'), bootstrapResponse);
+  for (const [route, method] of [
+    ['/api/households', 'get'],
+    ['/api/invites', 'post'],
+    ['/api/meals', 'get'],
+    ['/api/meals/{id}', 'get'],
+    ['/api/plans', 'patch'],
+    ['/api/plans/batch', 'post'],
+  ]) {
+    assert.notDeepEqual(ok(route, method), {}, `${method.toUpperCase()} ${route} response`);
+  }
+  assert.deepEqual(ok('/api/ai/usage', 'get'), {});
+
+  // `#/components/schemas/Meal` → components.schemas.Meal
+  const components = document.components as Record<string, Record<string, unknown>>;
+  for (const ref of refs(document)) {
+    const [, , section, name] = ref.split('/');
+    assert.ok(components[section]?.[name], `${ref} is not defined`);
+  }
+});
+
+test('the client types documented responses and leaves the rest unknown', () => {
+  assert.equal(
+    tsType({ allOf: [{ $ref: '#/components/schemas/Plan' }, { type: 'object', properties: { x: { type: ['string', 'null'] } } }] }),
+    'Plan & {\n  x?: string | null;\n}',
+  );
+  const client = generateApiClient(buildOpenApiDocument());
+  assert.match(client, /export type Meal = \{/);
+  assert.match(client, /bootstrapGet: .*=> request<BootstrapGetResponse>\('GET', '\/api\/bootstrap', input\),/);
+  assert.match(client, /aiUsageGet: \(\) => request\('GET', '\/api\/ai\/usage'\),/);
+});
+
+test('src/lib/api/client.ts matches the generator (run `npm run generate:api-client`)', () => {
+  const committed = readFileSync(path.join(process.cwd(), 'src/lib/api/client.ts'), 'utf8');
+  assert.equal(committed, generateApiClient(buildOpenApiDocument()));
+});
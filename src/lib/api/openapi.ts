@@ -0,0 +1,134 @@
+import { API_ERROR_CODES } from '@/lib/api/apiError';
+import { API_ENDPOINTS, type Endpoint } from '@/lib/api/endpoints';
+import type { JsonSchema } from '@/lib/api/schema';
+import { RESPONSE_COMPONENTS } from '@/lib/api/schemas/responses';
+
+export const OPENAPI_TITLE = 'Mealo API';
+export const OPENAPI_VERSION = '1.0.0';
+
+/**
+ * `MEALS_POST` → `mealsPost`: the operation id in the docs and the method name in the client.
+ */
+export function operationIdForTag(tag: string): string {
+  return tag.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+export function pathParamNames(path: string): string[] {
+  return Array.from(path.matchAll(/\{(\w+)\}/g), (match) => match[1]);
+}
+
+// The first segment after /api, e.g. `meals` or `ai`.
+function groupForPath(path: string): string {
+  return path.split('/')[2] ?? 'api';
+}
+
+function queryParameters(query: JsonSchema): JsonSchema[] {
+  const properties = (query.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((query.required ?? []) as string[]);
+  return Object.entries(properties).map(([name, { description, ...schema }]) => ({
+    name,
+    in: 'query',
+    required: required.has(name),
+    ...(description ? { description } : {}),
+    schema,
+    // A list is sent as the same parameter repeated (`?tag=a&tag=b`).
+    ...(schema.type === 'array' ? { style: 'form', explode: true } : {}),
+  }));
+}
+
+function requestBody(endpoint: Endpoint): JsonSchema | undefined {
+  if (endpoint.form) {
+    return { required: true, content: { 'multipart/form-data': { schema: endpoint.form } } };
+  }
+  if (!endpoint.body) return undefined;
+  const schema = endpoint.body.jsonSchema;
+  return {
+    required: Array.isArray(schema.required) && schema.required.length > 0,
+    content: { 'application/json': { schema } },
+  };
+}
+
+function operation(endpoint: Endpoint, options: { deprecated?: boolean } = {}): JsonSchema {
+  const parameters = [
+    ...pathParamNames(endpoint.path).map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+    ...(endpoint.query ? queryParameters(endpoint.query.jsonSchema) : []),
+  ];
+  const body = requestBody(endpoint);
+  const operationId = operationIdForTag(endpoint.tag);
+  return {
+    operationId: options.deprecated ? `${operationId}Legacy` : operationId,
+    summary: endpoint.summary,
+    tags: [groupForPath(endpoint.path)],
+    ...(endpoint.auth === false ? { security: [] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body ? { requestBody: body } : {}),
+    responses: {
+      // An empty schema where API_ENDPOINTS doesn't describe the body yet.
+      '200': { description: 'OK', content: { 'application/json': { schema: endpoint.response ?? {} } } },
+      default: { $ref: '#/components/responses/Error' },
+    },
+    ...(options.deprecated ? { deprecated: true } : {}),
+  };
+}
+
+/**
+ * The OpenAPI 3.1 document for `endpoints`, served at /api/openapi.json. Request bodies and query
+ * parameters come from the schemas the routes validate with; response bodies, where documented,
+ * from src/lib/api/schemas/responses.ts.
+ */
+export function buildOpenApiDocument(endpoints: Endpoint[] = API_ENDPOINTS): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  const addOperation = (path: string, endpoint: Endpoint, deprecated?: boolean) => {
+    paths[path] = { ...paths[path], [endpoint.method.toLowerCase()]: operation(endpoint, { deprecated }) };
+  };
+  for (const endpoint of endpoints) {
+    addOperation(endpoint.path, endpoint);
+    for (const alias of endpoint.aliases ?? []) addOperation(alias, endpoint, true);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: OPENAPI_TITLE,
+      version: OPENAPI_VERSION,
+      description: 'Every error response has the `ApiError` body; clients branch on `error`.',
+    },
+    tags: Array.from(new Set(endpoints.map((endpoint) => groupForPath(endpoint.path))), (name) => ({ name })),
+    security: [{ clerkSession: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        clerkSession: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'A Clerk session token.' },
+      },
+      schemas: {
+        ...RESPONSE_COMPONENTS,
+        ApiError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', enum: [...API_ERROR_CODES] },
+            message: { type: 'string' },
+            requestId: { type: 'string' },
+            fields: {
+              type: 'array',
+              description: 'Set on a 400 from request validation: every field that was rejected.',
+              items: {
+                type: 'object',
+                properties: { path: { type: 'string' }, message: { type: 'string' } },
+                required: ['path', 'message'],
+              },
+            },
+          },
+          required: ['error', 'message', 'requestId'],
+          additionalProperties: true,
+        },
+      },
+      responses: {
+        Error: {
+          description: 'An error. Some add fields next to these (limits, `resetsAt`, `currentVersion`).',
+          headers: { 'x-request-id': { schema: { type: 'string' } } },
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+        },
+      },
+    },
+  };
+}
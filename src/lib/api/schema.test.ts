@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { toApiError } from './apiError';
+import { s, SchemaValidationError, toSearchParams } from './schema';
+import { generatePlanBody } from './schemas/ai';
+import { createPlanBody, updatePlanBody } from './schemas/plans';
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof SchemaValidationError);
+    return error.issues;
+  }
+  assert.fail('expected a SchemaValidationError');
+}
+
+test('object collects an issue per bad field and drops undeclared ones', () => {
+  const schema = s.object({ name: s.string({ minLength: 1 }), servings: s.servings(), tags: s.array(s.mealTag()) });
+
+  assert.deepEqual(schema.parse({ name: '  Soup ', servings: 2, tags: ['quick'], extra: true }), {
+    name: 'Soup',
+    servings: 2,
+    tags: ['quick'],
+  });
+  assert.deepEqual(
+    issuesOf(() => schema.parse({ name: '', servings: 0, tags: ['ok', 7] })),
+    [
+      { path: 'name', message: 'must not be empty' },
+      { path: 'servings', message: 'must be a whole number from 1 to 100' },
+      { path: 'tags[1]', message: 'must be a tag of up to 30 characters' },
+    ],
+  );
+  assert.deepEqual(issuesOf(() => schema.parse([])), [{ path: '', message: 'must be an object' }]);
+});
+
+test('optional reads null as left out; nullable keeps null; default fills in', () => {
+  const schema = s.object({
+    date: s.planDate().optional(),
+    end: s.planDate().optional().nullable(),
+    slot: s.planSlot().default('dinner'),
+  });
+
+  assert.deepEqual(schema.parse({ date: null }), { slot: 'dinner' });
+  assert.deepEqual(schema.parse({ end: null, slot: 'lunch' }), { end: null, slot: 'lunch' });
+  assert.deepEqual(issuesOf(() => schema.parse({ end: 'soon' })), [{ path: 'end', message: 'must be a date (YYYY-MM-DD)' }]);
+  assert.deepEqual(schema.jsonSchema.properties, {
+    date: { type: 'string', format: 'date' },
+    end: { type: ['string', 'null'], format: 'date' },
+    slot: { type: 'string', enum: ['breakfast', 'lunch', 'dinner', 'snack'], default: 'dinner' },
+  });
+  assert.equal(schema.jsonSchema.required, undefined);
+});
+
+test('query input coerces numbers and booleans and repeats only into lists', () => {
+  const schema = s.object({
+    limit: s.integer({ min: 1, max: 50 }).default(20),
+    all: s.boolean().default(false),
+    id: s.uuid().optional(),
+    tag: s.array(s.mealTag()).optional(),
+  });
+  const id = '7f3c1c52-1f0b-4c6d-9a57-2c0b5d2b8a11';
+
+  assert.deepEqual(schema.parse({ limit: '5', all: '1', id: [id, 'second'], tag: 'quick' }, 'query'), {
+    limit: 5,
+    all: true,
+    id,
+    tag: ['quick'],
+  });
+  assert.deepEqual(issuesOf(() => schema.parse({ limit: '5' })), [{ path: 'limit', message: 'must be an integer' }]);
+  assert.deepEqual(issuesOf(() => schema.parse({ limit: 'lots' }, 'query')), [{ path: 'limit', message: 'must be an integer' }]);
+  assert.equal(toSearchParams({ tag: ['a', 'b'], q: 'soup', n: 3 }).toString(), 'tag=a&tag=b&q=soup');
+});
+
+test('route schemas hand lib parser errors through and turn AI input errors into field issues', () => {
+  const householdId = '7f3c1c52-1f0b-4c6d-9a57-2c0b5d2b8a11';
+
+  assert.deepEqual(createPlanBody.parse({ householdId, mealId: 'meal-1', date: '2026-05-04' }), {
+    householdId,
+    mealId: 'meal-1',
+    date: '2026-05-04',
+    slot: 'dinner',
+    isCompleted: false,
+  });
+  assert.throws(() => updatePlanBody.parse({ servingsCooked: 0 }), (error: Error) => toApiError(error)?.status === 400);
+
+  const plan = generatePlanBody.parse({ householdId, startDate: '2026-05-04', endDate: '2026-05-10', slots: ['dinner', 'lunch', 'dinner'] });
+  assert.deepEqual(plan.slots, ['dinner', 'lunch']);
+  assert.deepEqual(plan.range, { startDate: '2026-05-04', endDate: '2026-05-10' });
+  assert.deepEqual(
+    issuesOf(() => generatePlanBody.parse({ householdId, startDate: '2026-05-10', endDate: '2026-05-04' })),
+    [{ path: '', message: 'endDate must not be before startDate.' }],
+  );
+});
+
+test('toApiError answers a SchemaValidationError with 400 and the field issues', () => {
+  const mapped = toApiError(new SchemaValidationError([{ path: 'householdId', message: 'is required' }]));
+  assert.equal(mapped?.status, 400);
+  assert.equal(mapped?.code, 'invalid_request');
+  assert.equal(mapped?.message, 'householdId is required');
+  assert.deepEqual(mapped?.meta, { fields: [{ path: 'householdId', message: 'is required' }] });
+});
@@ -0,0 +1,406 @@
+import {
+  EMAIL_MAX_LENGTH,
+  HOUSEHOLD_NAME_MAX_LENGTH,
+  INVITE_TOKEN_MAX_LENGTH,
+  LEGACY_ID_MAX_LENGTH,
+  MAX_MEAL_TAGS,
+  MEAL_NAME_MAX_LENGTH,
+  MEAL_TAG_MAX_LENGTH,
+  PLAN_SLOTS,
+  SHARE_TOKEN_MAX_LENGTH,
+  SHARE_TOKEN_MIN_LENGTH,
+  sanitizeMealTags,
+  sanitizeStringArray,
+  stripControlChars,
+  validateEmail,
+  validateHouseholdName,
+  validateInviteToken,
+  validateMealName,
+  validateMealTag,
+  validatePlanDate,
+  validatePlanSlot,
+  validateRecordId,
+  validateServings,
+  validateShareToken,
+  validateUuid,
+} from '@/lib/validation';
+
+/**
+ * One problem with a request field. `path` is like `operations[2].date`; empty for the input as
+ * a whole.
+ */
+export type FieldIssue = { path: string; message: string };
+
+// The JSON Schema (OpenAPI 3.1 flavour) a schema accepts, for generated docs.
+export type JsonSchema = { [key: string]: unknown };
+
+// Query values arrive as strings (or lists of them, for repeated parameters), so numbers and
+// booleans are read from their text there.
+export type InputSource = 'body' | 'query';
+
+type ParseContext = { source: InputSource; issues: FieldIssue[] };
+
+const INVALID: unique symbol = Symbol('invalid');
+type Parsed<T> = T | typeof INVALID;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Thrown when input fails a schema. `apiRoute` answers it with 400 and the issues as `fields`.
+ */
+export class SchemaValidationError extends Error {
+  readonly name = 'SchemaValidationError';
+
+  constructor(readonly issues: FieldIssue[]) {
+    super(issues.map(formatIssue).join('; ') || 'Invalid request.');
+  }
+}
+
+function formatIssue(issue: FieldIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : issue.message;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * A validator for one value that also knows the JSON Schema it accepts. Build them with `s`.
+ */
+export class Schema<T> {
+  constructor(
+    private readonly parseValue: (value: unknown, path: string, ctx: ParseContext) => Parsed<T>,
+    readonly jsonSchema: JsonSchema,
+    // Optional fields may be left out of an object; `required` in the docs follows this.
+    readonly isOptional: boolean = false,
+  ) {}
+
+  /** @internal */
+  run(value: unknown, path: string, ctx: ParseContext): Parsed<T> {
+    return this.parseValue(value, path, ctx);
+  }
+
+  /**
+   * Checks `value`, returning the cleaned result or throwing `SchemaValidationError` with every
+   * issue found.
+   */
+  parse(value: unknown, source: InputSource = 'body'): T {
+    const ctx: ParseContext = { source, issues: [] };
+    const result = this.run(value, '', ctx);
+    if (result === INVALID || ctx.issues.length > 0) {
+      throw new SchemaValidationError(ctx.issues.length > 0 ? ctx.issues : [{ path: '', message: 'is invalid' }]);
+    }
+    return result;
+  }
+
+  // Left out (or null, which clients send for "no value") reads as undefined.
+  optional(): Schema<T | undefined> {
+    return new Schema<T | undefined>(
+      (value, path, ctx) => (value == null ? undefined : this.run(value, path, ctx)),
+      this.jsonSchema,
+      true,
+    );
+  }
+
+  // Null is kept, so a PATCH can tell "clear this" from "leave it alone".
+  nullable(): Schema<T | null> {
+    const { type } = this.jsonSchema;
+    const nullableType = typeof type === 'string' ? [type, 'null'] : undefined;
+    return new Schema<T | null>(
+      (value, path, ctx) => (value === null ? null : this.run(value, path, ctx)),
+      nullableType ? { ...this.jsonSchema, type: nullableType } : { anyOf: [this.jsonSchema, { type: 'null' }] },
+      this.isOptional,
+    );
+  }
+
+  default(fallback: T): Schema<T> {
+    return new Schema<T>(
+      (value, path, ctx) => (value == null ? fallback : this.run(value, path, ctx)),
+      { ...this.jsonSchema, default: fallback },
+      true,
+    );
+  }
+
+  describe(description: string): Schema<T> {
+    return new Schema<T>(this.parseValue, { ...this.jsonSchema, description }, this.isOptional);
+  }
+
+  /**
+   * Runs `fn` on the checked value, e.g. a lib parser that applies rules a schema can't express.
+   * Errors it throws are not caught: a lib validation error still becomes a 400.
+   */
+  transform<U>(fn: (value: T) => U): Schema<U> {
+    return new Schema<U>(
+      (value, path, ctx) => {
+        const result = this.run(value, path, ctx);
+        return result === INVALID ? INVALID : fn(result);
+      },
+      this.jsonSchema,
+      this.isOptional,
+    );
+  }
+}
+
+function fail(ctx: ParseContext, path: string, message: string): typeof INVALID {
+  ctx.issues.push({ path, message });
+  return INVALID;
+}
+
+/**
+ * Wraps a `validate*` helper from `@/lib/validation`, which returns null for anything it
+ * rejects.
+ */
+function fromValidator<T>(
+  validate: (value: unknown) => T | null | undefined,
+  message: string,
+  jsonSchema: JsonSchema,
+): Schema<T> {
+  return new Schema<T>((value, path, ctx) => {
+    const result = validate(value);
+    return result == null ? fail(ctx, path, message) : result;
+  }, jsonSchema);
+}
+
+type StringOptions = { minLength?: number; maxLength?: number; truncate?: boolean };
+
+function string(options: StringOptions = {}): Schema<string> {
+  const { minLength = 0, maxLength, truncate = false } = options;
+  return new Schema<string>(
+    (value, path, ctx) => {
+      if (typeof value !== 'string') return fail(ctx, path, 'must be a string');
+      const cleaned = stripControlChars(value).trim();
+      if (cleaned.length < minLength) {
+        return fail(ctx, path, minLength === 1 ? 'must not be empty' : `must be at least ${minLength} characters`);
+      }
+      if (maxLength !== undefined && cleaned.length > maxLength) {
+        if (truncate) return cleaned.slice(0, maxLength);
+        return fail(ctx, path, `must be at most ${maxLength} characters`);
+      }
+      return cleaned;
+    },
+    { type: 'string', ...(minLength > 0 ? { minLength } : {}), ...(maxLength !== undefined ? { maxLength } : {}) },
+  );
+}
+
+type NumberOptions = { min?: number; max?: number; integer?: boolean };
+
+function number(options: NumberOptions = {}): Schema<number> {
+  const { min, max, integer = false } = options;
+  const kind = integer ? 'an integer' : 'a number';
+  return new Schema<number>(
+    (value, path, ctx) => {
+      const n = ctx.source === 'query' && typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n) || (integer && !Number.isInteger(n))) {
+        return fail(ctx, path, `must be ${kind}`);
+      }
+      if (min !== undefined && n < min) return fail(ctx, path, `must be at least ${min}`);
+      if (max !== undefined && n > max) return fail(ctx, path, `must be at most ${max}`);
+      return n;
+    },
+    {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined ? { minimum: min } : {}),
+      ...(max !== undefined ? { maximum: max } : {}),
+    },
+  );
+}
+
+/**
+ * Lenient text, for fields that never rejected bad input: cleaned like `string` and cut to
+ * `maxLength`, with anything else (blanks included) reading as not sent.
+ */
+function text(maxLength: number): Schema<string | undefined> {
+  return new Schema<string | undefined>(
+    (value) => (typeof value === 'string' ? stripControlChars(value).trim().slice(0, maxLength) || undefined : undefined),
+    { type: 'string', maxLength },
+    true,
+  );
+}
+
+function boolean(): Schema<boolean> {
+  return new Schema<boolean>(
+    (value, path, ctx) => {
+      if (typeof value === 'boolean') return value;
+      if (ctx.source === 'query' && typeof value === 'string') {
+        if (value === 'true' || value === '1') return true;
+        if (value === 'false' || value === '0') return false;
+      }
+      return fail(ctx, path, 'must be true or false');
+    },
+    { type: 'boolean' },
+  );
+}
+
+function oneOf<const V extends string>(values: readonly V[]): Schema<V> {
+  return new Schema<V>(
+    (value, path, ctx) => {
+      const candidate = typeof value === 'string' ? value.trim() : value;
+      return (values as readonly unknown[]).includes(candidate)
+        ? (candidate as V)
+        : fail(ctx, path, `must be one of: ${values.join(', ')}`);
+    },
+    { type: 'string', enum: [...values] },
+  );
+}
+
+/**
+ * Passes the value through untouched, null included, for a lib parser that does the checking
+ * (see `transform`). `jsonSchema` only documents it. Optional unless `required` is set.
+ */
+function raw(jsonSchema: JsonSchema = {}, options: { required?: boolean } = {}): Schema<unknown> {
+  return new Schema<unknown>((value) => value, jsonSchema, !options.required);
+}
+
+type ArrayOptions = { minItems?: number; maxItems?: number };
+
+function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  const { minItems = 0, maxItems } = options;
+  return new Schema<T[]>(
+    (input, path, ctx) => {
+      const value = ctx.source === 'query' && typeof input === 'string' ? [input] : input;
+      if (!Array.isArray(value)) return fail(ctx, path, 'must be an array');
+      if (value.length < minItems) {
+        return fail(ctx, path, minItems === 1 ? 'must not be empty' : `must have at least ${minItems} items`);
+      }
+      if (maxItems !== undefined && value.length > maxItems) return fail(ctx, path, `must have at most ${maxItems} items`);
+      const out: T[] = [];
+      let valid = true;
+      value.forEach((raw, index) => {
+        const result = item.run(raw, childPath(path, index), ctx);
+        if (result === INVALID) valid = false;
+        else out.push(result);
+      });
+      return valid ? out : INVALID;
+    },
+    {
+      type: 'array',
+      items: item.jsonSchema,
+      ...(minItems > 0 ? { minItems } : {}),
+      ...(maxItems !== undefined ? { maxItems } : {}),
+    },
+  );
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type ObjectOutput<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+/**
+ * Checks each field of `shape` and drops anything else, so handlers only see declared fields.
+ * Optional fields that were left out stay absent (rather than present and undefined).
+ */
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  const required = Object.entries(shape)
+    .filter(([, field]) => !field.isOptional)
+    .map(([key]) => key);
+  return new Schema<ObjectOutput<S>>(
+    (value, path, ctx) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(ctx, path, 'must be an object');
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      let valid = true;
+      for (const [key, field] of Object.entries(shape)) {
+        let value = input[key];
+        // A repeated query parameter only counts once unless the field is a list.
+        if (ctx.source === 'query' && Array.isArray(value) && field.jsonSchema.type !== 'array') value = value[0];
+        if (value === undefined && !field.isOptional) {
+          fail(ctx, childPath(path, key), 'is required');
+          valid = false;
+          continue;
+        }
+        const result = field.run(value, childPath(path, key), ctx);
+        if (result === INVALID) valid = false;
+        else if (result !== undefined) out[key] = result;
+      }
+      return valid ? (out as ObjectOutput<S>) : INVALID;
+    },
+    {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.jsonSchema])),
+      ...(required.length > 0 ? { required } : {}),
+    },
+  );
+}
+
+/**
+ * Schema builders. The domain ones wrap the matching helper in `@/lib/validation`, so a schema
+ * accepts exactly what the hand-written checks did.
+ */
+export const s = {
+  string,
+  text,
+  number,
+  integer: (options: Omit<NumberOptions, 'integer'> = {}) => number({ ...options, integer: true }),
+  boolean,
+  oneOf,
+  raw,
+  array,
+  object,
+  fromValidator,
+
+  uuid: () => fromValidator(validateUuid, 'must be a UUID', { type: 'string', format: 'uuid' }),
+  recordId: () =>
+    fromValidator(validateRecordId, 'must be a valid id', { type: 'string', maxLength: LEGACY_ID_MAX_LENGTH }),
+  email: () => fromValidator(validateEmail, 'must be an email address', { type: 'string', format: 'email', maxLength: EMAIL_MAX_LENGTH }),
+  householdName: () =>
+    fromValidator(validateHouseholdName, `must be 2-${HOUSEHOLD_NAME_MAX_LENGTH} letters, numbers, spaces, apostrophes or hyphens`, {
+      type: 'string',
+      minLength: 2,
+      maxLength: HOUSEHOLD_NAME_MAX_LENGTH,
+    }),
+  mealName: () =>
+    fromValidator(validateMealName, `must be 2-${MEAL_NAME_MAX_LENGTH} letters, numbers, spaces, apostrophes or hyphens`, {
+      type: 'string',
+      minLength: 2,
+      maxLength: MEAL_NAME_MAX_LENGTH,
+    }),
+  mealTag: () =>
+    fromValidator(validateMealTag, `must be a tag of up to ${MEAL_TAG_MAX_LENGTH} characters`, {
+      type: 'string',
+      maxLength: MEAL_TAG_MAX_LENGTH,
+    }),
+  mealTags: () =>
+    fromValidator(sanitizeMealTags, `must be at most ${MAX_MEAL_TAGS} tags of up to ${MEAL_TAG_MAX_LENGTH} characters`, {
+      type: 'array',
+      items: { type: 'string', maxLength: MEAL_TAG_MAX_LENGTH },
+      maxItems: MAX_MEAL_TAGS,
+    }),
+  planDate: () => fromValidator(validatePlanDate, 'must be a date (YYYY-MM-DD)', { type: 'string', format: 'date' }),
+  planSlot: () =>
+    fromValidator(validatePlanSlot, `must be one of: ${PLAN_SLOTS.join(', ')}`, { type: 'string', enum: [...PLAN_SLOTS] }),
+  servings: () =>
+    fromValidator(validateServings, 'must be a whole number from 1 to 100', { type: 'integer', minimum: 1, maximum: 100 }),
+  inviteToken: () =>
+    fromValidator(validateInviteToken, 'must be a valid invite token', {
+      type: 'string',
+      minLength: 6,
+      maxLength: INVITE_TOKEN_MAX_LENGTH,
+    }),
+  shareToken: () =>
+    fromValidator(validateShareToken, 'must be a valid share token', {
+      type: 'string',
+      minLength: SHARE_TOKEN_MIN_LENGTH,
+      maxLength: SHARE_TOKEN_MAX_LENGTH,
+    }),
+  // Lenient like `sanitizeStringArray`: non-strings and blanks are dropped, long items cut.
+  stringArray: (options: { maxItems: number; maxItemLength: number }) =>
+    new Schema<string[]>(
+      (value, path, ctx) => (Array.isArray(value) ? sanitizeStringArray(value, options) : fail(ctx, path, 'must be an array')),
+      { type: 'array', items: { type: 'string', maxLength: options.maxItemLength }, maxItems: options.maxItems },
+    ),
+};
+
+/**
+ * Hands a checked query back as `URLSearchParams`, for the lib parsers that read list filters
+ * from one.
+ */
+export function toSearchParams(query: Record<string, unknown>): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (typeof item === 'string') searchParams.append(key, item);
+    }
+  }
+  return searchParams;
+}
@@ -0,0 +1,7 @@
+import { s } from '@/lib/api/schema';
+
+// Body of POST /api/achievements/event. Optional for now: achievements are recomputed from the
+// user's data, and the event is kept for analytics later.
+export const achievementEventBody = s.object({
+  type: s.raw({ type: 'string', description: 'What happened, e.g. `meal.created`. Not used yet.' }),
+});
@@ -0,0 +1,61 @@
+import { s, SchemaValidationError } from '@/lib/api/schema';
+import { AiValidationError, validateGenerateMealInput, type GenerateMealInput } from '@/lib/ai/generateMeal';
+import { MAX_PLAN_RANGE_DAYS, validateGeneratePlanRange } from '@/lib/ai/generatePlan';
+import { validateImportVideoMealInput, type ImportVideoMealInput } from '@/lib/ai/importVideoMeal';
+
+// Bodies of the /api/ai/* routes. The AI libs check their own input and throw `AiValidationError`,
+// which elsewhere means the model answered badly; here it is the client's mistake.
+
+function asInputError<A extends unknown[], R>(parse: (...args: A) => R): (...args: A) => R {
+  return (...args) => {
+    try {
+      return parse(...args);
+    } catch (error) {
+      if (error instanceof AiValidationError) throw new SchemaValidationError([{ path: '', message: error.message }]);
+      throw error;
+    }
+  };
+}
+
+const MAX_PLAN_NOTES_LENGTH = 400;
+
+export const generateMealBody = s
+  .object({
+    prompt: s.raw({ type: 'string', maxLength: 800 }, { required: true }),
+    cuisine: s.raw({ type: 'string', maxLength: 80 }),
+    diet: s.raw({ type: 'string', maxLength: 80 }),
+    servings: s.raw({ type: 'integer', minimum: 1, maximum: 20 }),
+    maxIngredients: s.raw({ type: 'integer', minimum: 1, maximum: 30 }),
+    // The members' dietary profiles constrain the recipe.
+    householdId: s.uuid().optional(),
+  })
+  .transform(({ householdId, ...input }) => ({
+    householdId,
+    input: asInputError(validateGenerateMealInput)(input as GenerateMealInput),
+  }));
+
+export const importVideoMealBody = s
+  .object({
+    url: s.raw({ type: 'string', format: 'uri', maxLength: 2048 }, { required: true }),
+    maxIngredients: s.raw({ type: 'integer', minimum: 1, maximum: 30 }),
+    maxRecipes: s.raw({ type: 'integer', minimum: 1, maximum: 5 }),
+  })
+  .transform((input) => asInputError(validateImportVideoMealInput)(input as ImportVideoMealInput));
+
+export const generatePlanBody = s
+  .object({
+    householdId: s.uuid(),
+    startDate: s.raw({ type: 'string', format: 'date' }, { required: true }),
+    endDate: s
+      .raw({ type: 'string', format: 'date' }, { required: true })
+      .describe(`The range covers at most ${MAX_PLAN_RANGE_DAYS} days.`),
+    slots: s
+      .array(s.planSlot(), { minItems: 1 })
+      .transform((slots) => [...new Set(slots)])
+      .default(['dinner']),
+    notes: s.string({ maxLength: MAX_PLAN_NOTES_LENGTH, truncate: true }).optional(),
+  })
+  .transform(({ startDate, endDate, ...rest }) => ({
+    ...rest,
+    range: asInputError(validateGeneratePlanRange)(startDate, endDate),
+  }));
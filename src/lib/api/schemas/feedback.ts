@@ -0,0 +1,44 @@
+import { s } from '@/lib/api/schema';
+
+// Bodies and queries of the /api/feedback/* routes.
+
+const FEEDBACK_TYPES = ['feature', 'bug'] as const;
+const FEEDBACK_STATUSES = ['open', 'planned', 'in_progress', 'done'] as const;
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 4000;
+const MAX_COMMENT_LENGTH = 2000;
+
+// Lenient: anything unparseable falls back to the default, and out-of-range values are clamped.
+function pageParam(fallback: number, min: number, max: number) {
+  return s.raw({ type: 'integer', minimum: min, maximum: max, default: fallback }).transform((value) => {
+    const parsed = Number.parseInt(typeof value === 'string' ? value : '', 10);
+    return Number.isFinite(parsed) ? Math.max(min, Math.min(max, parsed)) : fallback;
+  });
+}
+
+export const listFeedbackQuery = s.object({
+  sort: s.oneOf(['top', 'new']).default('top'),
+  type: s.oneOf(FEEDBACK_TYPES).optional(),
+  limit: pageParam(20, 1, 50),
+  offset: pageParam(0, 0, 10_000),
+});
+
+export const createFeedbackBody = s.object({
+  title: s.string({ minLength: 1, maxLength: MAX_TITLE_LENGTH }),
+  description: s.string({ minLength: 1, maxLength: MAX_DESCRIPTION_LENGTH }),
+  type: s.oneOf(FEEDBACK_TYPES),
+});
+
+// Authors edit the text (once, shortly after posting); admins set the status.
+export const updateFeedbackBody = s.object({
+  title: s.string({ minLength: 1, maxLength: MAX_TITLE_LENGTH }).optional(),
+  description: s.string({ minLength: 1, maxLength: MAX_DESCRIPTION_LENGTH }).optional(),
+  status: s.oneOf(FEEDBACK_STATUSES).optional(),
+});
+
+export const listCommentsQuery = s.object({
+  limit: pageParam(50, 1, 100),
+  offset: pageParam(0, 0, 10_000),
+});
+
+export const createCommentBody = s.object({ body: s.string({ minLength: 1, maxLength: MAX_COMMENT_LENGTH }) });
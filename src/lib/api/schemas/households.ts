@@ -0,0 +1,142 @@
+import {
+  decodeActivityCursor,
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  MAX_ACTIVITY_PAGE_SIZE,
+  parseActivityTypes,
+} from '@/lib/activity/activityLog';
+import { s } from '@/lib/api/schema';
+import { ALLERGENS, DIETS, parseDietaryProfile } from '@/lib/dietary/restrictions';
+import { INVITE_STATUSES } from '@/lib/households/invites';
+import { HOUSEHOLD_ROLES, parseRoleChange } from '@/lib/households/roles';
+import { parseCollectionFields, parseTagRename } from '@/lib/meals/collections';
+import { parseExpiringSoonDays, parsePantryItemFields } from '@/lib/pantry/pantry';
+import { parsePlanTemplateFields } from '@/lib/plans/templates';
+import { sanitizeShoppingList } from '@/lib/validation';
+
+// Bodies and queries of the /api/households/:id/* routes. Fields a lib parser already checks are
+// declared with `s.raw` (for the docs) and handed to that parser as they came.
+
+const nullableString = { type: ['string', 'null'] };
+const idList = { type: 'array', items: { type: 'string' } };
+
+export const createHouseholdBody = s.object({ name: s.householdName() });
+
+export const updateHouseholdBody = s.object({
+  name: s.householdName().optional(),
+  shoppingList: s
+    .fromValidator(sanitizeShoppingList, 'must be a list of shopping list items', { type: 'array', items: { type: 'object' } })
+    .optional(),
+  // null clears the current planning period.
+  currentPeriodStart: s.planDate().optional().nullable(),
+  currentPeriodEnd: s.planDate().optional().nullable(),
+});
+
+export const transferOwnershipBody = s.object({ userId: s.string({ minLength: 1 }).describe('The member to hand the household to.') });
+
+export const changeMemberRoleBody = s
+  .object({ role: s.raw({ type: 'string', enum: HOUSEHOLD_ROLES.filter((role) => role !== 'owner') }, { required: true }) })
+  .transform(parseRoleChange);
+
+export const listInvitesQuery = s.object({ status: s.oneOf(INVITE_STATUSES).optional() });
+
+export const activityQuery = s.object({
+  limit: s.integer({ min: 1, max: MAX_ACTIVITY_PAGE_SIZE }).default(DEFAULT_ACTIVITY_PAGE_SIZE),
+  cursor: s.string({ minLength: 1 }).transform(decodeActivityCursor).optional().describe('`nextCursor` of the previous page.'),
+  // Repeatable; a full type (`meal.deleted`) or a category (`meal`).
+  type: s.array(s.string()).transform(parseActivityTypes).optional(),
+});
+
+export const renameTagBody = s
+  .object({ from: s.raw({ type: 'string' }, { required: true }), to: s.raw({ type: 'string' }, { required: true }) })
+  .transform(parseTagRename);
+
+export const deleteTagQuery = s.object({ tag: s.mealTag() });
+
+const collectionFields = {
+  name: s.raw({ type: 'string' }),
+  description: s.raw(nullableString),
+  mealIds: s.raw(idList),
+  addMealIds: s.raw(idList),
+  removeMealIds: s.raw(idList),
+};
+
+export const createCollectionBody = s
+  .object(collectionFields)
+  .transform((body) => parseCollectionFields(body, { partial: false }));
+
+export const updateCollectionBody = s
+  .object(collectionFields)
+  .transform((body) => parseCollectionFields(body, { partial: true }));
+
+const dietaryList = (values: readonly string[]) => s.raw({ type: ['array', 'null'], items: { type: 'string', enum: [...values] } });
+
+export const dietaryProfileBody = s
+  .object({
+    allergens: dietaryList(ALLERGENS),
+    diets: dietaryList(DIETS),
+    avoidIngredients: s.raw({ type: ['array', 'null'], items: { type: 'string' } }),
+  })
+  .transform((body) => parseDietaryProfile(body, { partial: false }));
+
+const amount = { type: ['number', 'null'], minimum: 0 };
+
+const pantryItemFields = {
+  name: s.raw({ type: 'string' }),
+  category: s.raw(nullableString),
+  quantity: s.raw(amount),
+  lowStockThreshold: s.raw(amount),
+  unit: s.raw(nullableString),
+  expiresOn: s.raw({ type: ['string', 'null'], format: 'date' }),
+};
+
+export const createPantryItemBody = s
+  .object(pantryItemFields)
+  .transform((body) => parsePantryItemFields(body, { partial: false }));
+
+export const updatePantryItemBody = s
+  .object(pantryItemFields)
+  .transform((body) => parsePantryItemFields(body, { partial: true }));
+
+export const pantryQuery = s.object({
+  filter: s.oneOf(['low', 'expiring', 'attention']).optional(),
+  // Lenient: anything unusable falls back to the default window.
+  days: s
+    .raw({ type: 'integer', minimum: 0, maximum: 60 })
+    .transform((value) => parseExpiringSoonDays(typeof value === 'string' ? value : null)),
+});
+
+const planTemplateFields = {
+  name: s.raw(nullableString),
+  weekday: s.raw({ type: 'integer', minimum: 0, maximum: 6 }),
+  slot: s.raw({ type: 'string' }),
+  servings: s.raw({ type: ['integer', 'null'] }),
+  mealIds: s.raw(idList),
+  startDate: s.raw({ type: 'string', format: 'date' }),
+  endDate: s.raw({ type: ['string', 'null'], format: 'date' }),
+  isPaused: s.raw({ type: 'boolean' }),
+};
+
+export const createPlanTemplateBody = s
+  .object(planTemplateFields)
+  .transform((body) => parsePlanTemplateFields(body, { partial: false }));
+
+export const updatePlanTemplateBody = s
+  .object(planTemplateFields)
+  .transform((body) => parsePlanTemplateFields(body, { partial: true }));
+
+const COOK_SUGGESTIONS_DEFAULT_LIMIT = 20;
+const COOK_SUGGESTIONS_MAX_LIMIT = 50;
+
+export const cookSuggestionsBody = s.object({
+  ingredients: s.array(s.raw({ type: 'string' })).optional(),
+  usePantry: s.boolean().default(false),
+  includeGlobal: s.boolean().default(true),
+  maxMissing: s.integer({ min: 0, max: 100 }).optional(),
+  limit: s.integer({ min: 0, max: COOK_SUGGESTIONS_MAX_LIMIT }).default(COOK_SUGGESTIONS_DEFAULT_LIMIT),
+});
+
+// Without a range the household's current period is used.
+export const generateShoppingListBody = s.object({
+  startDate: s.planDate().optional(),
+  endDate: s.planDate().optional(),
+});
@@ -0,0 +1,18 @@
+import { s } from '@/lib/api/schema';
+
+// Body of POST /api/iap/validate. The route checks the per-platform limits itself, since too long
+// a receipt is a 413 rather than a 400.
+
+const trimmed = (jsonSchema: Record<string, unknown>) =>
+  s.raw(jsonSchema).transform((value) => (typeof value === 'string' ? value.trim() : ''));
+
+export const validateReceiptBody = s.object({
+  platform: s
+    .raw({ type: 'string', enum: ['ios', 'android'], default: 'ios' })
+    .transform((value): 'ios' | 'android' => (typeof value === 'string' && value.trim() === 'android' ? 'android' : 'ios')),
+  receipt: s.string({ minLength: 1 }).describe('The App Store receipt (base64) or the Google Play purchase token.'),
+  userId: trimmed({ type: 'string', description: 'Must be the signed-in user when sent.' }),
+  // Android only.
+  productId: trimmed({ type: 'string' }),
+  packageName: trimmed({ type: 'string' }),
+});
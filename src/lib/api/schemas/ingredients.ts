@@ -0,0 +1,10 @@
+import { s } from '@/lib/api/schema';
+
+// Query of GET /api/ingredients/suggest. Without `q` the caller's recent ingredients come back.
+export const suggestIngredientsQuery = s.object({
+  q: s.raw({ type: 'string' }).transform((value) => (typeof value === 'string' ? value : '')),
+  // Lenient: clamped to 1-25, and anything unparseable is the default.
+  limit: s
+    .raw({ type: 'integer', minimum: 1, maximum: 25, default: 12 })
+    .transform((value) => Math.min(Math.max(Number(value ?? 12) || 12, 1), 25)),
+});
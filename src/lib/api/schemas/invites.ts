@@ -0,0 +1,17 @@
+import { s } from '@/lib/api/schema';
+import { HOUSEHOLD_ROLES } from '@/lib/households/roles';
+import { MAX_INVITE_EXPIRY_HOURS, MAX_INVITE_USES, parseInviteOptions } from '@/lib/households/invites';
+
+// Bodies of the /api/invites/* routes.
+
+export const createInviteBody = s
+  .object({
+    householdId: s.uuid(),
+    role: s.raw({ type: 'string', enum: HOUSEHOLD_ROLES.filter((role) => role !== 'owner'), default: 'member' }),
+    expiresInHours: s.raw({ type: 'integer', minimum: 1, maximum: MAX_INVITE_EXPIRY_HOURS }),
+    maxUses: s.raw({ type: 'integer', minimum: 1, maximum: MAX_INVITE_USES }),
+    email: s.raw({ type: 'string', format: 'email', description: 'Only someone signed in with this address can accept.' }),
+  })
+  .transform(({ householdId, ...options }) => ({ householdId, ...parseInviteOptions(options) }));
+
+export const redeemInviteBody = s.object({ token: s.inviteToken() });
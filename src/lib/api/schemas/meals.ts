@@ -0,0 +1,193 @@
+import { s, toSearchParams } from '@/lib/api/schema';
+import { parseGlobalMealCollectionFields, parseGlobalMealFields, parseReorderIds } from '@/lib/globalMeals/library';
+import { parseMealSearchParams, SOURCE_PLATFORMS } from '@/lib/meals/search';
+import { MAX_MEAL_MINUTES, MEAL_DIFFICULTIES, parseMealTimingFilters } from '@/lib/meals/timing';
+import { normalizeCuisine, normalizeMealName } from '@/lib/normalizeMeal';
+import { normalizeWhitespace, validateMealDescription, validateUuid } from '@/lib/validation';
+
+// Bodies and queries of the /api/meals/* and /api/recipe-shares/* routes. The routes still
+// sanitize ingredients, instructions and source URLs themselves, so those are declared with
+// `s.raw`.
+
+export const ingredient = {
+  oneOf: [
+    { type: 'string' },
+    {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        quantity: { type: ['number', 'string'] },
+        unit: { type: 'string' },
+        category: { type: 'string' },
+        ingredientKey: { type: 'string' },
+        ingredientCatalogId: { type: 'string', format: 'uuid' },
+      },
+      required: ['name'],
+    },
+  ],
+};
+const ingredients = { type: 'array', items: ingredient };
+const instructions = { type: 'array', items: { type: 'string' } };
+const nullableString = { type: ['string', 'null'] };
+const minutes = { type: ['integer', 'null'], minimum: 0, maximum: MAX_MEAL_MINUTES };
+
+const mealName = () => s.mealName().transform((name) => normalizeMealName(name) ?? name);
+const cuisine = (value: string) => {
+  const cleaned = normalizeWhitespace(value).slice(0, 60);
+  return cleaned ? normalizeCuisine(cleaned) ?? cleaned : undefined;
+};
+const rating = (value: number) => Math.max(0, Math.min(5, value));
+
+// Checked by `parseMealTimingFields`; null clears a field.
+const timingFields = {
+  prepTimeMinutes: s.raw(minutes),
+  cookTimeMinutes: s.raw(minutes),
+  totalTimeMinutes: s.raw(minutes),
+  difficulty: s.raw({ type: ['string', 'null'], enum: [...MEAL_DIFFICULTIES, null] }),
+};
+
+export const listMealsQuery = s
+  .object({
+    // Repeatable; a meal must have every tag.
+    tag: s.array(s.mealTag()).optional(),
+    collectionId: s.uuid().optional(),
+    maxPrepTime: s.raw({ type: 'integer', minimum: 1, maximum: MAX_MEAL_MINUTES }),
+    maxCookTime: s.raw({ type: 'integer', minimum: 1, maximum: MAX_MEAL_MINUTES }),
+    maxTotalTime: s.raw({ type: 'integer', minimum: 1, maximum: MAX_MEAL_MINUTES }),
+    difficulty: s.raw({ type: 'array', items: { type: 'string', enum: [...MEAL_DIFFICULTIES] } }),
+  })
+  .transform(({ tag, collectionId, ...timing }) => ({
+    tags: [...new Set(tag ?? [])],
+    collectionId: collectionId ?? null,
+    timing: parseMealTimingFilters(toSearchParams(timing)),
+  }));
+
+// Fields that were never rejected stay lenient: bad values are dropped.
+export const createMealBody = s.object({
+  householdId: s.uuid(),
+  name: mealName(),
+  id: s.raw({ type: 'string', format: 'uuid' }).transform((id) => validateUuid(id) ?? undefined),
+  fromGlobalMealId: s.raw({ type: 'string', format: 'uuid' }).transform(validateUuid),
+  description: s.raw({ type: 'string' }).transform(validateMealDescription),
+  ingredients: s.raw(ingredients),
+  instructions: s.raw(instructions),
+  image: s.text(2048),
+  cuisine: s.text(60).transform((value) => (value ? cuisine(value) : undefined)),
+  rating: s
+    .raw({ type: 'number', minimum: 0, maximum: 5 })
+    .transform((value) => (typeof value === 'number' && Number.isFinite(value) ? rating(value) : undefined)),
+  isFavorite: s.raw({ type: 'boolean' }).transform((value) => (typeof value === 'boolean' ? value : undefined)),
+  userNotes: s.text(2000),
+  sourceUrl: s.raw(nullableString),
+  servings: s.servings().optional(),
+  tags: s.mealTags().optional(),
+  ...timingFields,
+});
+
+export const mealQuery = s.object({
+  servings: s.servings().optional().describe('Scales ingredients and nutrition to this many servings.'),
+});
+
+// Only the fields sent are changed; null clears the optional ones.
+export const updateMealBody = s.object({
+  name: mealName().optional(),
+  description: s.string({ maxLength: 280, truncate: true }).optional(),
+  ingredients: s.array(s.raw(ingredient)).optional(),
+  instructions: s.raw(instructions),
+  image: s
+    .string({ maxLength: 2048, truncate: true })
+    .transform((value) => value || null)
+    .optional()
+    .nullable(),
+  cuisine: s
+    .string()
+    .transform((value) => cuisine(value) ?? null)
+    .optional()
+    .nullable(),
+  rating: s.number().transform(rating).optional().nullable(),
+  isFavorite: s.boolean().optional(),
+  userNotes: s
+    .string({ maxLength: 2000, truncate: true })
+    .transform((value) => value || null)
+    .optional()
+    .nullable(),
+  sourceUrl: s.raw(nullableString),
+  servings: s.servings().optional().nullable(),
+  // null clears every tag.
+  tags: s
+    .mealTags()
+    .optional()
+    .nullable()
+    .transform((tags) => (tags === null ? [] : tags)),
+  ...timingFields,
+  version: s.raw({ type: 'integer', minimum: 1, description: 'The version being edited; a stale one is a 409.' }),
+});
+
+export const importMealBody = s.object({ globalMealId: s.uuid(), householdId: s.uuid() });
+
+export const mealSearchQuery = s
+  .object({
+    householdId: s.raw({ type: 'string', format: 'uuid' }, { required: true }),
+    q: s.raw({ type: 'string', maxLength: 100 }),
+    cuisine: s.raw({ type: 'array', items: { type: 'string' } }),
+    favorite: s.raw({ type: 'boolean' }),
+    minRating: s.raw({ type: 'integer', minimum: 1, maximum: 5 }),
+    hasNutrition: s.raw({ type: 'boolean' }),
+    source: s.raw({ type: 'array', items: { type: 'string', enum: [...SOURCE_PLATFORMS] } }),
+    includeGlobal: s.raw({ type: 'boolean' }),
+    collection: s.raw({ type: 'string' }),
+    page: s.raw({ type: 'integer', minimum: 1 }),
+    pageSize: s.raw({ type: 'integer', minimum: 1, maximum: 50 }),
+  })
+  .transform((query) => parseMealSearchParams(toSearchParams(query)));
+
+export const restoreRevisionBody = s.object({
+  version: s.raw({ type: 'integer', minimum: 1, description: 'The version being replaced; a stale one is a 409.' }),
+});
+
+// Without a (valid) household the recipe goes to the first one the caller can add meals to.
+export const acceptRecipeShareBody = s.object({
+  householdId: s.raw({ type: 'string', format: 'uuid' }).transform((id) => validateUuid(id)),
+});
+
+// Curators only. `?includeRetired=1` also lists retired entries.
+export const globalLibraryQuery = s.object({ includeRetired: s.boolean().default(false) });
+
+const globalMealFields = {
+  name: s.raw({ type: 'string' }),
+  description: s.raw(nullableString),
+  collection: s.raw(nullableString),
+  ingredients: s.raw(ingredients),
+  instructions: s.raw(instructions),
+  image: s.raw({ type: ['string', 'null'], format: 'uri' }),
+  cuisine: s.raw(nullableString),
+  nutrition: s.raw({ type: ['object', 'null'] }),
+  sortOrder: s.raw({ type: 'integer' }),
+  retired: s.raw({ type: 'boolean' }),
+};
+
+export const createGlobalMealBody = s
+  .object(globalMealFields)
+  .transform((body) => parseGlobalMealFields(body, { partial: false }));
+
+export const updateGlobalMealBody = s
+  .object(globalMealFields)
+  .transform((body) => parseGlobalMealFields(body, { partial: true }));
+
+const globalCollectionFields = {
+  name: s.raw({ type: 'string' }),
+  description: s.raw(nullableString),
+  image: s.raw({ type: ['string', 'null'], format: 'uri' }),
+  sortOrder: s.raw({ type: 'integer' }),
+  retired: s.raw({ type: 'boolean' }),
+};
+
+export const createGlobalCollectionBody = s
+  .object(globalCollectionFields)
+  .transform((body) => parseGlobalMealCollectionFields(body, { partial: false }));
+
+export const updateGlobalCollectionBody = s
+  .object(globalCollectionFields)
+  .transform((body) => parseGlobalMealCollectionFields(body, { partial: true }));
+
+export const reorderBody = s.object({ ids: s.raw({ type: 'array', items: { type: 'string' } }, { required: true }) }).transform(parseReorderIds);
@@ -0,0 +1,88 @@
+import { s } from '@/lib/api/schema';
+import { parseReminderSlots } from '@/lib/notifications/reminders';
+import { PLAN_SLOTS, type PlanSlot } from '@/lib/validation';
+
+// Bodies and queries of the /api/notifications/* routes. Settings never rejected bad values, so
+// each field falls back to its default instead.
+
+export const DEFAULT_NOTIFICATION_SETTINGS = {
+  enabled: false,
+  householdId: null as string | null,
+  utcOffsetMinutes: 0,
+  quietHoursStart: 22,
+  quietHoursEnd: 8,
+  maxPerDay: 1,
+  reminderTypes: {
+    todayMissing: true,
+    tomorrowMissing: true,
+    missYou: true,
+  },
+  reminderSlots: ['dinner'] as PlanSlot[],
+};
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number.parseInt(value, 10) : NaN;
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.max(min, Math.min(max, parsed));
+}
+
+function parseBoolean(value: unknown, fallback: boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return fallback;
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'y', 'on'].includes(normalized)) return true;
+  if (['0', 'false', 'no', 'n', 'off'].includes(normalized)) return false;
+  return fallback;
+}
+
+function normalizeExpoPushToken(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (trimmed.length > 256) return null;
+  const ok = /^(ExponentPushToken|ExpoPushToken)\[[^\]]+\]$/.test(trimmed);
+  return ok ? trimmed : null;
+}
+
+const flag = (fallback: boolean) =>
+  s.raw({ type: 'boolean', default: fallback }).transform((value) => parseBoolean(value, fallback));
+const int = (min: number, max: number, fallback: number) =>
+  s.raw({ type: 'integer', minimum: min, maximum: max, default: fallback }).transform((value) => clampInt(value, min, max, fallback));
+
+const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+
+export const notificationSettingsBody = s.object({
+  enabled: flag(defaults.enabled),
+  // Ignored unless the caller is a member.
+  householdId: s.text(128),
+  utcOffsetMinutes: int(-840, 840, defaults.utcOffsetMinutes),
+  quietHoursStart: int(0, 23, defaults.quietHoursStart),
+  quietHoursEnd: int(0, 23, defaults.quietHoursEnd),
+  maxPerDay: int(0, 5, defaults.maxPerDay),
+  reminderTypes: s
+    .raw({
+      type: 'object',
+      properties: { todayMissing: { type: 'boolean' }, tomorrowMissing: { type: 'boolean' }, missYou: { type: 'boolean' } },
+    })
+    .transform((value) => {
+      const types = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+      return {
+        todayMissing: parseBoolean(types.todayMissing, defaults.reminderTypes.todayMissing),
+        tomorrowMissing: parseBoolean(types.tomorrowMissing, defaults.reminderTypes.tomorrowMissing),
+        missYou: parseBoolean(types.missYou, defaults.reminderTypes.missYou),
+      };
+    }),
+  reminderSlots: s
+    .raw({ type: 'array', items: { type: 'string', enum: [...PLAN_SLOTS] } })
+    .transform(parseReminderSlots),
+  pushToken: s
+    .raw({ type: 'string', description: 'An Expo push token; anything else is ignored.' })
+    .transform(normalizeExpoPushToken),
+  deviceId: s.text(128),
+  platform: s.text(32),
+});
+
+// Scheduled job; the secret can also come in `x-notifications-secret`.
+export const runRemindersQuery = s.object({
+  secret: s.raw({ type: 'string' }).transform((value) => (typeof value === 'string' ? value : '')),
+});
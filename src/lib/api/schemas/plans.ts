@@ -0,0 +1,77 @@
+import { s } from '@/lib/api/schema';
+import { MAX_BULK_OPERATIONS, parseBulkPlanOperations } from '@/lib/plans/bulkPlanOperations';
+import { parsePlanUpdateFields } from '@/lib/plans/cookingHistory';
+import { PLAN_SLOTS } from '@/lib/validation';
+
+// Bodies and queries of the /api/plans/* routes.
+
+const date = { type: 'string', format: 'date' };
+const slot = { type: 'string', enum: [...PLAN_SLOTS] };
+
+const operation = (type: string, properties: Record<string, unknown>, required: string[]) => ({
+  type: 'object',
+  properties: { type: { const: type }, slot, ...properties },
+  required: ['type', ...required],
+});
+
+// Documents what `parseBulkPlanOperations` accepts.
+const bulkOperation = {
+  oneOf: [
+    operation('copy', { sourceStart: date, sourceEnd: date, targetStart: date, replace: { type: 'boolean' } }, [
+      'sourceStart',
+      'sourceEnd',
+      'targetStart',
+    ]),
+    operation('move', { fromDate: date, toDate: date, planIds: { type: 'array', items: { type: 'string', format: 'uuid' } } }, [
+      'fromDate',
+      'toDate',
+    ]),
+    operation('swap', { dateA: date, dateB: date }, ['dateA', 'dateB']),
+    operation('clear', { startDate: date, endDate: date }, ['startDate', 'endDate']),
+    operation(
+      'add',
+      {
+        plans: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { date, slot, mealId: { type: 'string' }, servings: { type: ['integer', 'null'] } },
+            required: ['date', 'mealId'],
+          },
+        },
+      },
+      ['plans'],
+    ),
+  ],
+};
+
+export const createPlanBody = s.object({
+  householdId: s.uuid(),
+  mealId: s.recordId(),
+  date: s.planDate(),
+  slot: s.planSlot().default('dinner'),
+  servings: s.servings().optional(),
+  isCompleted: s.raw({ type: 'boolean' }).transform((value) => value === true),
+});
+
+export const planIdQuery = s.object({ id: s.uuid() });
+
+export const updatePlanBody = s
+  .object({
+    isCompleted: s.raw({ type: 'boolean' }),
+    notes: s.raw({ type: ['string', 'null'], maxLength: 500 }),
+    servingsCooked: s.raw({ type: ['integer', 'null'], minimum: 1, maximum: 100 }),
+  })
+  .transform(parsePlanUpdateFields);
+
+export const batchPlansBody = s.object({
+  householdId: s.uuid(),
+  operations: s
+    .raw({ type: 'array', items: bulkOperation, minItems: 1, maxItems: MAX_BULK_OPERATIONS }, { required: true })
+    .transform(parseBulkPlanOperations),
+});
+
+// Scheduled job; the secret can also come in `x-plan-templates-secret`.
+export const runPlanTemplatesQuery = s.object({
+  secret: s.raw({ type: 'string' }).transform((value) => (typeof value === 'string' ? value : '')),
+});
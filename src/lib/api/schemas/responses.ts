@@ -0,0 +1,376 @@
+import type { JsonSchema } from '@/lib/api/schema';
+import { ingredient } from '@/lib/api/schemas/meals';
+import { INVITE_STATUSES } from '@/lib/households/invites';
+import { HOUSEHOLD_ROLES } from '@/lib/households/roles';
+import { MEAL_DIFFICULTIES } from '@/lib/meals/timing';
+import { PLAN_SLOTS } from '@/lib/validation';
+
+// Response bodies of the routes API_ENDPOINTS documents them for. They describe what the
+// handlers send, not what they check, so nothing here is enforced at runtime. Timestamps are
+// ISO strings once serialized.
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const nullable = (type: string, extra: JsonSchema = {}): JsonSchema => ({ type: [type, 'null'], ...extra });
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const nullableDateTime: JsonSchema = nullable('string', { format: 'date-time' });
+const success = (properties: Record<string, JsonSchema> = {}): JsonSchema => ({
+  type: 'object',
+  properties: { success: { const: true }, ...properties },
+  required: ['success', ...Object.keys(properties)],
+});
+
+const role: JsonSchema = { type: 'string', enum: [...HOUSEHOLD_ROLES] };
+
+const nutritionFacts: JsonSchema = {
+  type: 'object',
+  properties: {
+    caloriesKcal: { type: 'number' },
+    proteinG: { type: 'number' },
+    carbsG: { type: 'number' },
+    fatG: { type: 'number' },
+    fiberG: { type: 'number' },
+    sugarG: { type: 'number' },
+    sodiumMg: { type: 'number' },
+    perServing: { type: 'boolean', description: 'Whether the values are per serving rather than for the whole recipe.' },
+    servings: { type: 'integer' },
+    isEstimate: { type: 'boolean' },
+    computedAt: { type: 'string' },
+  },
+};
+
+const meal: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    householdId: { type: 'string' },
+    name: { type: 'string' },
+    description: nullable('string'),
+    createdBy: nullable('string'),
+    ingredients: { type: 'array', items: ref('Ingredient') },
+    instructions: { type: 'array', items: { type: 'string' } },
+    nutrition: { oneOf: [ref('NutritionFacts'), { type: 'null' }] },
+    fromGlobalMealId: nullable('string'),
+    sourceUrl: nullable('string'),
+    rating: nullable('integer'),
+    isFavorite: nullable('boolean'),
+    userNotes: nullable('string'),
+    image: nullable('string'),
+    cuisine: nullable('string'),
+    servings: nullable('integer'),
+    tags: { type: 'array', items: { type: 'string' } },
+    prepTimeMinutes: nullable('integer'),
+    cookTimeMinutes: nullable('integer'),
+    totalTimeMinutes: nullable('integer'),
+    difficulty: { type: ['string', 'null'], enum: [...MEAL_DIFFICULTIES, null] },
+    version: { type: 'integer', description: 'Send it back with PUT /api/meals/{id} to detect concurrent edits.' },
+    updatedAt: nullableDateTime,
+    createdAt: nullableDateTime,
+  },
+  required: ['id', 'householdId', 'name'],
+};
+
+const cookingStats: JsonSchema = {
+  type: 'object',
+  properties: {
+    lastCookedOn: nullable('string', { format: 'date' }),
+    timesCooked: { type: 'integer' },
+  },
+  required: ['lastCookedOn', 'timesCooked'],
+};
+
+const plan: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    householdId: { type: 'string' },
+    mealId: { type: 'string' },
+    date: { type: 'string', format: 'date' },
+    slot: { type: 'string', enum: [...PLAN_SLOTS] },
+    servings: nullable('integer'),
+    templateId: nullable('string', { description: 'Set on plans a plan template created.' }),
+    isCompleted: nullable('boolean'),
+    completedAt: nullableDateTime,
+    notes: nullable('string'),
+    createdAt: nullableDateTime,
+  },
+  required: ['id', 'householdId', 'mealId', 'date', 'slot'],
+};
+
+const member: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    avatarUrl: nullable('string'),
+    role,
+  },
+  required: ['id', 'name', 'email', 'avatarUrl', 'role'],
+};
+
+const household: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    ownerId: { type: 'string' },
+    createdBy: nullable('string'),
+    memberIds: { type: 'array', items: { type: 'string' } },
+    currentPeriodStart: nullable('string'),
+    currentPeriodEnd: nullable('string'),
+    shoppingList: { type: 'array' },
+    currency: nullable('string'),
+    createdAt: nullableDateTime,
+  },
+  required: ['id', 'name', 'ownerId'],
+};
+
+const householdWithDetails: JsonSchema = {
+  allOf: [
+    ref('Household'),
+    {
+      type: 'object',
+      properties: {
+        plannedMeals: { type: 'array', items: ref('Plan') },
+        members: { type: 'array', items: ref('Member') },
+      },
+      required: ['plannedMeals', 'members'],
+    },
+  ],
+};
+
+const user: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    avatar: nullable('string'),
+    proOverride: { type: 'boolean' },
+    hasHadTrial: { type: 'boolean' },
+    onboardingProfile: nullable('object'),
+    createdAt: nullableDateTime,
+  },
+  required: ['id', 'name', 'email'],
+};
+
+const invite: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    inviteUrl: { type: 'string' },
+    email: nullable('string', { description: 'Set for an invite addressed to one person.' }),
+    role,
+    status: { type: 'string', enum: [...INVITE_STATUSES] },
+    expiresAt: dateTime,
+    usesLeft: nullable('integer', { description: 'Null for unlimited uses.' }),
+    revokedAt: nullableDateTime,
+    declinedAt: nullableDateTime,
+    createdBy: { type: 'string' },
+    createdByName: nullable('string'),
+    createdAt: nullableDateTime,
+    redemptions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          userId: nullable('string'),
+          name: nullable('string'),
+          role,
+          redeemedAt: dateTime,
+        },
+        required: ['userId', 'name', 'role', 'redeemedAt'],
+      },
+    },
+  },
+  required: ['id', 'inviteUrl', 'email', 'role', 'status', 'expiresAt', 'usesLeft', 'createdBy', 'redemptions'],
+};
+
+const pendingInvitation: JsonSchema = {
+  type: 'object',
+  description: "An email invite to a household the user isn't in yet.",
+  properties: {
+    id: { type: 'string' },
+    householdId: { type: 'string' },
+    householdName: { type: 'string' },
+    invitedBy: { type: 'string' },
+    invitedByName: nullable('string'),
+    role,
+    expiresAt: dateTime,
+    createdAt: nullableDateTime,
+  },
+  required: ['id', 'householdId', 'householdName', 'invitedBy', 'invitedByName', 'role', 'expiresAt'],
+};
+
+const subscription: JsonSchema = {
+  type: 'object',
+  properties: {
+    productId: { type: 'string', description: '`pro_override` when Pro was granted without a purchase.' },
+    currentPeriodStart: nullableDateTime,
+    expiresAt: nullableDateTime,
+    isTrial: { type: 'boolean' },
+    isActive: { type: 'boolean' },
+    autoRenewStatus: { type: 'boolean' },
+    updatedAt: nullableDateTime,
+    proOverride: { type: 'boolean' },
+  },
+  required: ['productId', 'expiresAt', 'isTrial', 'isActive', 'autoRenewStatus', 'proOverride'],
+};
+
+const globalMeal: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    description: nullable('string'),
+    collection: nullable('string'),
+    ingredients: { type: 'array', items: ref('Ingredient') },
+    instructions: { type: 'array', items: { type: 'string' } },
+    image: nullable('string'),
+    cuisine: nullable('string'),
+    nutrition: { oneOf: [ref('NutritionFacts'), { type: 'null' }] },
+    isPredefined: { const: true },
+  },
+  required: ['id', 'name', 'isPredefined'],
+};
+
+const achievement: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    iconName: { type: 'string' },
+    category: { type: 'string' },
+    target: { type: 'integer' },
+    progress: { type: 'integer' },
+    unlockedAt: nullableDateTime,
+  },
+  required: ['id', 'title', 'description', 'iconName', 'category', 'target', 'progress', 'unlockedAt'],
+};
+
+const dietaryWarning: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['allergen', 'diet', 'avoid'] },
+    restriction: { type: 'string', description: 'The allergen, diet or avoided ingredient the meal breaks.' },
+    ingredients: { type: 'array', items: { type: 'string' } },
+    userId: { type: 'string' },
+    memberName: nullable('string'),
+  },
+  required: ['kind', 'restriction', 'ingredients', 'userId', 'memberName'],
+};
+
+/**
+ * The named schemas the responses below point at; the OpenAPI document lists them under
+ * `components.schemas` and the client generator turns each into an exported type.
+ */
+export const RESPONSE_COMPONENTS: Record<string, JsonSchema> = {
+  Ingredient: ingredient,
+  NutritionFacts: nutritionFacts,
+  Meal: meal,
+  Plan: plan,
+  Member: member,
+  Household: household,
+  HouseholdWithDetails: householdWithDetails,
+  User: user,
+  Invite: invite,
+  PendingInvitation: pendingInvitation,
+  Subscription: subscription,
+  GlobalMeal: globalMeal,
+  Achievement: achievement,
+  DietaryWarning: dietaryWarning,
+};
+
+const withCookingStats: JsonSchema = { allOf: [ref('Meal'), cookingStats] };
+const unlocked: JsonSchema = { type: 'array', items: ref('Achievement'), description: 'Achievements this change unlocked.' };
+
+export const bootstrapResponse: JsonSchema = {
+  type: 'object',
+  properties: {
+    user: { oneOf: [ref('User'), { type: 'null' }] },
+    subscription: { oneOf: [ref('Subscription'), { type: 'null' }] },
+    households: { type: 'array', items: ref('HouseholdWithDetails') },
+    meals: { type: 'array', items: ref('Meal') },
+    globalMeals: { type: 'array', items: ref('GlobalMeal'), description: 'Only with `includeGlobalMeals`.' },
+    pendingInvitations: { type: 'array', items: ref('PendingInvitation') },
+  },
+  required: ['user', 'subscription', 'households', 'meals', 'pendingInvitations'],
+};
+
+export const householdsResponse: JsonSchema = { type: 'array', items: ref('HouseholdWithDetails') };
+export const householdResponse: JsonSchema = ref('Household');
+export const membersResponse: JsonSchema = {
+  type: 'array',
+  items: {
+    allOf: [
+      ref('User'),
+      {
+        type: 'object',
+        properties: { role, joinedAt: nullableDateTime },
+        required: ['role', 'joinedAt'],
+      },
+    ],
+  },
+};
+export const invitesResponse: JsonSchema = { type: 'array', items: ref('Invite') };
+export const revokeInviteResponse: JsonSchema = success({ revokedAt: dateTime });
+export const createInviteResponse: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    inviteUrl: { type: 'string' },
+    expiresAt: dateTime,
+    role,
+    usesLeft: nullable('integer', { description: 'Null for unlimited uses.' }),
+    email: nullable('string'),
+    emailSent: { type: 'boolean', description: 'Whether the invite email went out; always false without `email`.' },
+  },
+  required: ['id', 'inviteUrl', 'expiresAt', 'role', 'usesLeft', 'email', 'emailSent'],
+};
+export const joinHouseholdResponse: JsonSchema = success({ householdId: { type: 'string' }, role });
+export const declineInviteResponse: JsonSchema = success({ declinedAt: dateTime });
+
+export const mealsResponse: JsonSchema = { type: 'array', items: withCookingStats };
+export const mealResponse: JsonSchema = ref('Meal');
+export const mealDetailResponse: JsonSchema = {
+  allOf: [
+    withCookingStats,
+    {
+      type: 'object',
+      description: 'Set when `servings` scaled the recipe; `nutrition` is then the scaled total.',
+      properties: {
+        baseServings: { type: 'integer' },
+        scaleFactor: { type: 'number' },
+        nutritionPerServing: { oneOf: [ref('NutritionFacts'), { type: 'null' }] },
+      },
+    },
+  ],
+};
+export const updateMealResponse: JsonSchema = success({ version: { type: 'integer' }, updatedAt: nullableDateTime });
+
+export const createPlanResponse: JsonSchema = {
+  allOf: [
+    ref('Plan'),
+    {
+      type: 'object',
+      properties: { dietaryWarnings: { type: 'array', items: ref('DietaryWarning') } },
+      required: ['dietaryWarnings'],
+    },
+  ],
+};
+export const updatePlanResponse: JsonSchema = {
+  allOf: [ref('Plan'), { type: 'object', properties: { unlocked }, required: ['unlocked'] }],
+};
+export const batchPlansResponse: JsonSchema = {
+  type: 'object',
+  properties: {
+    created: { type: 'array', items: ref('Plan') },
+    updated: { type: 'array', items: ref('Plan') },
+    deletedIds: { type: 'array', items: { type: 'string' } },
+    unlocked,
+  },
+  required: ['created', 'updated', 'deletedIds', 'unlocked'],
+};
+
+export const successResponse: JsonSchema = success();
@@ -0,0 +1,12 @@
+import { s } from '@/lib/api/schema';
+import { decodeSyncCursor } from '@/lib/sync/changes';
+
+// Query of GET /api/sync.
+
+export const syncQuery = s.object({
+  since: s
+    .string({ minLength: 1 })
+    .transform(decodeSyncCursor)
+    .optional()
+    .describe('`cursor` of the previous sync. Leave it out to get everything.'),
+});
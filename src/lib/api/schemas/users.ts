@@ -0,0 +1,30 @@
+import { s } from '@/lib/api/schema';
+
+// Bodies and queries of the /api/users and /api/bootstrap routes.
+
+// Missing name or email is filled in from Clerk.
+export const createUserBody = s.object({
+  id: s.text(128).describe('Must be the signed-in user when given.'),
+  name: s.text(120),
+  email: s.text(320),
+  avatar: s.text(2048),
+});
+
+export const updateUserBody = s.object({
+  name: s.string({ minLength: 1, maxLength: 120, truncate: true }).optional(),
+  email: s.string({ minLength: 1, maxLength: 320, truncate: true }).optional(),
+  // An empty avatar clears it, like null.
+  avatar: s
+    .string({ maxLength: 2048, truncate: true })
+    .transform((avatar) => avatar || null)
+    .optional()
+    .nullable(),
+  onboardingProfile: s.raw({ type: ['object', 'null'] }),
+});
+
+// Lenient, like the other flags in query strings: only 1, true and yes turn it on.
+export const bootstrapQuery = s.object({
+  includeGlobalMeals: s
+    .raw({ type: 'boolean', default: false })
+    .transform((value) => typeof value === 'string' && ['1', 'true', 'yes'].includes(value.trim().toLowerCase())),
+});
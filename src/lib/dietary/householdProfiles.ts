@@ -0,0 +1,57 @@
+import { eq } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { hasDietaryProfilesTable } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { memberDietaryProfiles, users } from '@/db/schema';
+import {
+  getMealDietaryWarnings,
+  isEmptyDietaryProfile,
+  toDietaryProfile,
+  type DietaryWarning,
+  type MemberDietaryProfile,
+} from '@/lib/dietary/restrictions';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+/**
+ * Loads the non-empty dietary profiles of a household's members.
+ */
+export async function loadHouseholdDietaryProfiles(db: Database, householdId: string): Promise<MemberDietaryProfile[]> {
+  if (!(await hasDietaryProfilesTable(db))) return [];
+
+  const rows = await db
+    .select({
+      userId: memberDietaryProfiles.userId,
+      name: users.name,
+      allergens: memberDietaryProfiles.allergens,
+      diets: memberDietaryProfiles.diets,
+      avoidIngredients: memberDietaryProfiles.avoidIngredients,
+    })
+    .from(memberDietaryProfiles)
+    .leftJoin(users, eq(users.id, memberDietaryProfiles.userId))
+    .where(eq(memberDietaryProfiles.householdId, householdId));
+
+  return rows
+    .map((row) => ({ userId: row.userId, name: row.name, ...toDietaryProfile(row) }))
+    .filter((profile) => !isEmptyDietaryProfile(profile));
+}
+
+/**
+ * Warnings for a meal about to be saved or planned in a household. Never throws: a failed check
+ * must not block the write it annotates.
+ */
+export async function checkMealForHousehold(
+  db: Database,
+  householdId: string,
+  ingredients: unknown,
+  loggerTag: string,
+): Promise<DietaryWarning[]> {
+  try {
+    const profiles = await loadHouseholdDietaryProfiles(db, householdId);
+    return profiles.length > 0 ? getMealDietaryWarnings(ingredients, profiles) : [];
+  } catch (error) {
+    console.error(`[${loggerTag}]`, error);
+    return [];
+  }
+}
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  DietaryValidationError,
+  detectIngredientCategories,
+  describeDietaryProfileForPrompt,
+  getMealDietaryWarnings,
+  mergeDietaryProfiles,
+  parseDietaryProfile,
+} from './restrictions';
+
+test('detectIngredientCategories matches whole words and skips look-alikes', () => {
+  assert.deepEqual(detectIngredientCategories('Peanut Butter'), ['peanuts']);
+  assert.deepEqual(detectIngredientCategories('Coconut Milk'), []);
+  assert.deepEqual(detectIngredientCategories('Nutmeg'), []);
+  assert.deepEqual(detectIngredientCategories('Eggplant'), []);
+  assert.deepEqual(detectIngredientCategories('Mixed Nuts'), ['tree_nuts']);
+  assert.deepEqual(detectIngredientCategories('Soy Sauce'), ['soy', 'gluten']);
+  assert.deepEqual(detectIngredientCategories('Rice Noodles'), []);
+  assert.deepEqual(detectIngredientCategories('Vegan Butter'), []);
+  assert.deepEqual(detectIngredientCategories('Red Wine Vinegar'), ['sulphites']);
+  assert.deepEqual(detectIngredientCategories('Oyster Mushrooms'), []);
+  assert.deepEqual(detectIngredientCategories('Bacon'), ['pork']);
+});
+
+test('getMealDietaryWarnings reports allergens, diets and avoided ingredients per member', () => {
+  const ingredients = [{ name: 'Chicken Thighs' }, { name: 'Peanuts' }, { name: 'Fresh Coriander' }, 'Butter'];
+  const warnings = getMealDietaryWarnings(ingredients, [
+    { userId: 'u1', name: 'Sam', allergens: ['peanuts'], diets: [], avoidIngredients: [] },
+    { userId: 'u2', name: null, allergens: [], diets: ['vegetarian', 'kosher'], avoidIngredients: ['coriander'] },
+    { userId: 'u3', allergens: ['shellfish'], diets: [], avoidIngredients: [] },
+  ]);
+
+  assert.deepEqual(warnings, [
+    { userId: 'u1', memberName: 'Sam', kind: 'allergen', restriction: 'peanuts', ingredients: ['Peanuts'] },
+    { userId: 'u2', memberName: null, kind: 'diet', restriction: 'vegetarian', ingredients: ['Chicken Thighs'] },
+    { userId: 'u2', memberName: null, kind: 'diet', restriction: 'kosher', ingredients: ['Chicken Thighs', 'Butter'] },
+    { userId: 'u2', memberName: null, kind: 'avoid', restriction: 'coriander', ingredients: ['Fresh Coriander'] },
+  ]);
+});
+
+test('parseDietaryProfile normalizes values and rejects unknown ones', () => {
+  assert.deepEqual(
+    parseDietaryProfile({ allergens: ['Tree nuts', 'peanuts'], diets: ['gluten-free'], avoidIngredients: [' Coriander '] }, { partial: false }),
+    { allergens: ['tree_nuts', 'peanuts'], diets: ['gluten_free'], avoidIngredients: ['coriander'] },
+  );
+  assert.deepEqual(parseDietaryProfile({ diets: null }, { partial: true }), { diets: [] });
+  assert.throws(() => parseDietaryProfile({ allergens: ['kryptonite'] }, { partial: true }), DietaryValidationError);
+});
+
+test('merged household profile feeds the AI prompt', () => {
+  const merged = mergeDietaryProfiles([
+    { allergens: ['sesame'], diets: ['halal'], avoidIngredients: [] },
+    { allergens: ['tree_nuts', 'sesame'], diets: [], avoidIngredients: ['olives'] },
+  ]);
+  assert.deepEqual(merged, { allergens: ['tree_nuts', 'sesame'], diets: ['halal'], avoidIngredients: ['olives'] });
+  assert.deepEqual(describeDietaryProfileForPrompt(merged), [
+    'Allergies (must not contain, including traces): tree nuts, sesame',
+    'Required diets (must satisfy all): halal',
+    'Ingredients to avoid: olives',
+  ]);
+});
@@ -0,0 +1,499 @@
+import { normalizeNameForLookup } from '@/lib/ingredients';
+import { normalizeWhitespace, stripControlChars } from '@/lib/validation';
+
+export const ALLERGENS = [
+  'peanuts',
+  'tree_nuts',
+  'dairy',
+  'eggs',
+  'fish',
+  'shellfish',
+  'soy',
+  'gluten',
+  'sesame',
+  'mustard',
+  'celery',
+  'sulphites',
+] as const;
+export type Allergen = (typeof ALLERGENS)[number];
+
+export const DIETS = ['vegetarian', 'vegan', 'pescatarian', 'halal', 'kosher', 'gluten_free', 'dairy_free'] as const;
+export type Diet = (typeof DIETS)[number];
+
+// What an ingredient can contain: every allergen, plus the groups diets are defined by.
+export type IngredientCategory = Allergen | 'meat' | 'pork' | 'alcohol' | 'honey';
+
+export type DietaryProfile = {
+  allergens: Allergen[];
+  diets: Diet[];
+  avoidIngredients: string[];
+};
+
+export type MemberDietaryProfile = DietaryProfile & {
+  userId: string;
+  name?: string | null;
+};
+
+export type DietaryConflict = {
+  kind: 'allergen' | 'diet' | 'avoid';
+  // The allergen, diet or avoided ingredient that the meal breaks.
+  restriction: string;
+  ingredients: string[];
+};
+
+export type DietaryWarning = DietaryConflict & {
+  userId: string;
+  memberName: string | null;
+};
+
+const MAX_AVOID_INGREDIENTS = 30;
+const MAX_AVOID_INGREDIENT_LENGTH = 40;
+
+export class DietaryValidationError extends Error {
+  readonly name = 'DietaryValidationError';
+}
+
+// Labels that mark a substitute product ("vegan butter", "plant-based mince").
+const SUBSTITUTE_MARKERS = ['vegan', 'vegetarian', 'plant based', 'plant-based', 'meatless', 'meat-free', 'dairy-free', 'dairy free'];
+
+const CATEGORY_KEYWORDS: Record<IngredientCategory, { match: string[]; except?: string[]; substitutable?: boolean }> = {
+  peanuts: { match: ['peanut', 'groundnut', 'satay'] },
+  tree_nuts: {
+    match: [
+      'almond',
+      'cashew',
+      'walnut',
+      'pecan',
+      'pistachio',
+      'hazelnut',
+      'macadamia',
+      'brazil nut',
+      'pine nut',
+      'chestnut',
+      'praline',
+      'marzipan',
+      'nut',
+      'mixed nuts',
+    ],
+    except: ['water chestnut', 'nutritional yeast'],
+  },
+  dairy: {
+    match: [
+      'milk',
+      'butter',
+      'buttermilk',
+      'cream',
+      'cheese',
+      'yogurt',
+      'yoghurt',
+      'ghee',
+      'whey',
+      'casein',
+      'parmesan',
+      'mozzarella',
+      'cheddar',
+      'feta',
+      'ricotta',
+      'mascarpone',
+      'paneer',
+      'halloumi',
+      'brie',
+      'gouda',
+      'creme fraiche',
+      'crème fraîche',
+      'custard',
+      'kefir',
+    ],
+    except: [
+      'coconut milk',
+      'coconut cream',
+      'almond milk',
+      'oat milk',
+      'soy milk',
+      'soya milk',
+      'rice milk',
+      'cashew milk',
+      'peanut butter',
+      'almond butter',
+      'cashew butter',
+      'nut butter',
+      'apple butter',
+      'cocoa butter',
+      'butter bean',
+      'butter beans',
+      'cream of tartar',
+    ],
+    substitutable: true,
+  },
+  eggs: { match: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli'], substitutable: true },
+  fish: {
+    match: [
+      'fish',
+      'salmon',
+      'tuna',
+      'cod',
+      'haddock',
+      'anchovy',
+      'anchovies',
+      'sardine',
+      'mackerel',
+      'trout',
+      'tilapia',
+      'halibut',
+      'sea bass',
+      'snapper',
+      'pollock',
+      'swordfish',
+      'herring',
+      'catfish',
+      'worcestershire sauce',
+    ],
+    substitutable: true,
+  },
+  shellfish: {
+    match: [
+      'shrimp',
+      'prawn',
+      'crab',
+      'lobster',
+      'crayfish',
+      'crawfish',
+      'scallop',
+      'clam',
+      'mussel',
+      'oyster',
+      'squid',
+      'calamari',
+      'octopus',
+      'langoustine',
+    ],
+    except: ['oyster mushroom', 'oyster mushrooms'],
+    substitutable: true,
+  },
+  soy: { match: ['soy', 'soya', 'soybean', 'soy sauce', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'] },
+  gluten: {
+    match: [
+      'wheat',
+      'flour',
+      'bread',
+      'breadcrumb',
+      'breadcrumbs',
+      'panko',
+      'pasta',
+      'spaghetti',
+      'macaroni',
+      'penne',
+      'fusilli',
+      'linguine',
+      'lasagna',
+      'lasagne',
+      'noodle',
+      'couscous',
+      'barley',
+      'rye',
+      'bulgur',
+      'semolina',
+      'farro',
+      'spelt',
+      'seitan',
+      'tortilla',
+      'pita',
+      'naan',
+      'crouton',
+      'cracker',
+      'beer',
+      'malt',
+      'soy sauce',
+    ],
+    except: [
+      'gluten-free',
+      'gluten free',
+      'rice flour',
+      'almond flour',
+      'coconut flour',
+      'corn flour',
+      'chickpea flour',
+      'rice noodle',
+      'rice noodles',
+      'corn tortilla',
+      'corn tortillas',
+    ],
+  },
+  sesame: { match: ['sesame', 'tahini'] },
+  mustard: { match: ['mustard'] },
+  celery: { match: ['celery', 'celeriac'] },
+  sulphites: { match: ['wine', 'sulphite', 'sulfite', 'dried apricot'] },
+  meat: {
+    match: [
+      'beef',
+      'chicken',
+      'lamb',
+      'mutton',
+      'veal',
+      'turkey',
+      'duck',
+      'goose',
+      'venison',
+      'steak',
+      'mince',
+      'meatball',
+      'sausage',
+      'gelatin',
+      'gelatine',
+      'bone broth',
+    ],
+    substitutable: true,
+  },
+  pork: {
+    match: ['pork', 'bacon', 'ham', 'lard', 'pancetta', 'prosciutto', 'chorizo', 'pepperoni', 'salami', 'gelatin', 'gelatine'],
+    except: ['turkey bacon', 'turkey ham', 'chicken sausage', 'beef bacon'],
+    substitutable: true,
+  },
+  alcohol: {
+    match: [
+      'wine',
+      'beer',
+      'rum',
+      'vodka',
+      'whisky',
+      'whiskey',
+      'brandy',
+      'bourbon',
+      'gin',
+      'tequila',
+      'sake',
+      'mirin',
+      'sherry',
+      'liqueur',
+      'cognac',
+      'marsala',
+      'stout',
+    ],
+    except: ['wine vinegar', 'rice wine vinegar', 'sherry vinegar', 'cider vinegar'],
+  },
+  honey: { match: ['honey'], except: ['honeydew'] },
+};
+
+const DIET_FORBIDS: Record<Diet, IngredientCategory[]> = {
+  vegetarian: ['meat', 'pork', 'fish', 'shellfish'],
+  vegan: ['meat', 'pork', 'fish', 'shellfish', 'dairy', 'eggs', 'honey'],
+  pescatarian: ['meat', 'pork'],
+  halal: ['pork', 'alcohol'],
+  kosher: ['pork', 'shellfish'],
+  gluten_free: ['gluten'],
+  dairy_free: ['dairy'],
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word (or whole-phrase) match, allowing a plural "s"/"es".
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-zà-ÿ])${escapeRegExp(term)}(s|es)?($|[^a-zà-ÿ])`, 'i').test(text);
+}
+
+function removeTerms(text: string, terms: string[] | undefined): string {
+  let out = text;
+  for (const term of terms ?? []) {
+    out = out.replace(new RegExp(`(^|[^a-zà-ÿ])${escapeRegExp(term)}($|[^a-zà-ÿ])`, 'gi'), '$1 $2');
+  }
+  return out;
+}
+
+/**
+ * Best-effort keyword classification of one ingredient name. It errs towards flagging: a warning
+ * the user can dismiss is cheaper than a missed allergen.
+ */
+export function detectIngredientCategories(name: string): IngredientCategory[] {
+  const text = normalizeNameForLookup(name);
+  if (!text) return [];
+  const isSubstitute = SUBSTITUTE_MARKERS.some((marker) => containsTerm(text, marker));
+
+  const out: IngredientCategory[] = [];
+  for (const [category, rule] of Object.entries(CATEGORY_KEYWORDS) as Array<
+    [IngredientCategory, (typeof CATEGORY_KEYWORDS)[IngredientCategory]]
+  >) {
+    if (rule.substitutable && isSubstitute) continue;
+    const remaining = removeTerms(text, rule.except);
+    if (rule.match.some((term) => containsTerm(remaining, term))) out.push(category);
+  }
+  return out;
+}
+
+function ingredientNames(ingredients: unknown): string[] {
+  if (!Array.isArray(ingredients)) return [];
+  return ingredients
+    .map((raw) =>
+      typeof raw === 'string'
+        ? raw
+        : raw && typeof raw === 'object' && typeof (raw as { name?: unknown }).name === 'string'
+          ? (raw as { name: string }).name
+          : '',
+    )
+    .map((name) => normalizeWhitespace(stripControlChars(name)))
+    .filter(Boolean);
+}
+
+/**
+ * Groups a meal's ingredient names by the categories they fall into.
+ */
+export function analyzeMealIngredients(ingredients: unknown): Map<IngredientCategory, string[]> {
+  const out = new Map<IngredientCategory, string[]>();
+  for (const name of ingredientNames(ingredients)) {
+    for (const category of detectIngredientCategories(name)) {
+      const list = out.get(category) ?? [];
+      if (!list.includes(name)) list.push(name);
+      out.set(category, list);
+    }
+  }
+  return out;
+}
+
+/**
+ * Lists every way a meal breaks a dietary profile.
+ */
+export function findDietaryConflicts(ingredients: unknown, profile: DietaryProfile): DietaryConflict[] {
+  const categories = analyzeMealIngredients(ingredients);
+  const conflicts: DietaryConflict[] = [];
+
+  for (const allergen of profile.allergens) {
+    const matched = categories.get(allergen);
+    if (matched) conflicts.push({ kind: 'allergen', restriction: allergen, ingredients: matched });
+  }
+
+  for (const diet of profile.diets) {
+    const matched = new Set<string>();
+    for (const category of DIET_FORBIDS[diet]) {
+      for (const name of categories.get(category) ?? []) matched.add(name);
+    }
+    // Kosher also rules out serving meat with dairy.
+    if (diet === 'kosher' && categories.has('meat') && categories.has('dairy')) {
+      for (const name of [...(categories.get('meat') ?? []), ...(categories.get('dairy') ?? [])]) matched.add(name);
+    }
+    if (matched.size > 0) conflicts.push({ kind: 'diet', restriction: diet, ingredients: Array.from(matched) });
+  }
+
+  const names = ingredientNames(ingredients);
+  for (const avoid of profile.avoidIngredients) {
+    const matched = names.filter((name) => containsTerm(normalizeNameForLookup(name), avoid));
+    if (matched.length > 0) conflicts.push({ kind: 'avoid', restriction: avoid, ingredients: matched });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Checks a meal against every member's profile; one warning per member and broken restriction.
+ */
+export function getMealDietaryWarnings(ingredients: unknown, profiles: MemberDietaryProfile[]): DietaryWarning[] {
+  return profiles.flatMap((profile) =>
+    findDietaryConflicts(ingredients, profile).map((conflict) => ({
+      userId: profile.userId,
+      memberName: profile.name ?? null,
+      ...conflict,
+    })),
+  );
+}
+
+/**
+ * Union of several profiles: a household meal has to be safe for everyone eating it.
+ */
+export function mergeDietaryProfiles(profiles: DietaryProfile[]): DietaryProfile {
+  const allergens = new Set<Allergen>();
+  const diets = new Set<Diet>();
+  const avoidIngredients = new Set<string>();
+  for (const profile of profiles) {
+    profile.allergens.forEach((value) => allergens.add(value));
+    profile.diets.forEach((value) => diets.add(value));
+    profile.avoidIngredients.forEach((value) => avoidIngredients.add(value));
+  }
+  return {
+    allergens: ALLERGENS.filter((value) => allergens.has(value)),
+    diets: DIETS.filter((value) => diets.has(value)),
+    avoidIngredients: Array.from(avoidIngredients),
+  };
+}
+
+export function isEmptyDietaryProfile(profile: DietaryProfile): boolean {
+  return profile.allergens.length === 0 && profile.diets.length === 0 && profile.avoidIngredients.length === 0;
+}
+
+/**
+ * Prompt lines for AI meal generation, or an empty list when there is nothing to enforce.
+ */
+export function describeDietaryProfileForPrompt(profile: DietaryProfile): string[] {
+  const lines: string[] = [];
+  if (profile.allergens.length) {
+    lines.push(`Allergies (must not contain, including traces): ${profile.allergens.map((a) => a.replace('_', ' ')).join(', ')}`);
+  }
+  if (profile.diets.length) {
+    lines.push(`Required diets (must satisfy all): ${profile.diets.map((d) => d.replace('_', '-')).join(', ')}`);
+  }
+  if (profile.avoidIngredients.length) {
+    lines.push(`Ingredients to avoid: ${profile.avoidIngredients.join(', ')}`);
+  }
+  return lines;
+}
+
+function parseEnumList<T extends string>(value: unknown, allowed: readonly T[], field: string): T[] {
+  if (value === null) return [];
+  if (!Array.isArray(value)) throw new DietaryValidationError(`Invalid ${field}`);
+  const out: T[] = [];
+  for (const raw of value) {
+    const key = typeof raw === 'string' ? raw.trim().toLowerCase().replace(/[\s-]+/g, '_') : '';
+    if (!(allowed as readonly string[]).includes(key)) throw new DietaryValidationError(`Invalid ${field}`);
+    if (!out.includes(key as T)) out.push(key as T);
+  }
+  return out;
+}
+
+/**
+ * Validates a dietary profile body. With `partial`, only provided fields are returned (PATCH);
+ * otherwise missing lists default to empty (PUT).
+ */
+export function parseDietaryProfile(body: unknown, options: { partial: boolean }): Partial<DietaryProfile> {
+  if (!body || typeof body !== 'object') throw new DietaryValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: Partial<DietaryProfile> = {};
+
+  if (input.allergens !== undefined || !options.partial) {
+    out.allergens = parseEnumList(input.allergens ?? [], ALLERGENS, 'allergens');
+  }
+  if (input.diets !== undefined || !options.partial) {
+    out.diets = parseEnumList(input.diets ?? [], DIETS, 'diets');
+  }
+  if (input.avoidIngredients !== undefined || !options.partial) {
+    const raw = input.avoidIngredients ?? [];
+    if (raw !== null && !Array.isArray(raw)) throw new DietaryValidationError('Invalid avoidIngredients');
+    const list: string[] = [];
+    for (const item of raw ?? []) {
+      const cleaned = typeof item === 'string' ? normalizeNameForLookup(stripControlChars(item)) : '';
+      if (!cleaned || cleaned.length > MAX_AVOID_INGREDIENT_LENGTH) {
+        throw new DietaryValidationError('Invalid avoidIngredients');
+      }
+      if (!list.includes(cleaned)) list.push(cleaned);
+    }
+    if (list.length > MAX_AVOID_INGREDIENTS) {
+      throw new DietaryValidationError(`Too many avoidIngredients (max ${MAX_AVOID_INGREDIENTS})`);
+    }
+    out.avoidIngredients = list;
+  }
+
+  return out;
+}
+
+/**
+ * Reads a stored profile row; unknown values from older app versions are ignored.
+ */
+export function toDietaryProfile(row: { allergens: unknown; diets: unknown; avoidIngredients: unknown }): DietaryProfile {
+  const pick = <T extends string>(value: unknown, allowed: readonly T[]): T[] =>
+    Array.isArray(value) ? allowed.filter((item) => value.includes(item)) : [];
+  return {
+    allergens: pick(row.allergens, ALLERGENS),
+    diets: pick(row.diets, DIETS),
+    avoidIngredients: Array.isArray(row.avoidIngredients)
+      ? row.avoidIngredients.filter((item): item is string => typeof item === 'string')
+      : [],
+  };
+}
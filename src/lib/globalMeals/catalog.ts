@@ -0,0 +1,56 @@
+import { asc, eq, isNotNull, isNull } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { getGlobalMealsSelect, hasGlobalMealLibrarySchema } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { globalMealCollections, globalMeals } from '@/db/schema';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+/**
+ * Global meals in library order. Unless `includeRetired` (admins), retired meals and meals in a
+ * retired collection are left out.
+ */
+export async function listGlobalMeals(db: Database, options: { includeRetired: boolean }) {
+  const curated = await hasGlobalMealLibrarySchema(db);
+  const globalMealsSelect = await getGlobalMealsSelect(db);
+  const onlyLive = curated && !options.includeRetired;
+
+  const rows = await db
+    .select(globalMealsSelect)
+    .from(globalMeals)
+    .where(onlyLive ? isNull(globalMeals.retiredAt) : undefined)
+    .orderBy(...(curated ? [asc(globalMeals.sortOrder)] : []), asc(globalMeals.name));
+  if (!onlyLive) return rows;
+
+  const retiredCollections = await db
+    .select({ name: globalMealCollections.name })
+    .from(globalMealCollections)
+    .where(isNotNull(globalMealCollections.retiredAt));
+  if (retiredCollections.length === 0) return rows;
+
+  const hidden = new Set(retiredCollections.map((collection) => collection.name));
+  return rows.filter((row) => !row.collection || !hidden.has(row.collection));
+}
+
+/**
+ * Collections in library order; empty until add_global_meal_library.sql has run.
+ */
+export async function listGlobalMealCollections(db: Database, options: { includeRetired: boolean }) {
+  if (!(await hasGlobalMealLibrarySchema(db))) return [];
+
+  return db
+    .select()
+    .from(globalMealCollections)
+    .where(options.includeRetired ? undefined : isNull(globalMealCollections.retiredAt))
+    .orderBy(asc(globalMealCollections.sortOrder), asc(globalMealCollections.name));
+}
+
+export async function hasGlobalMealCollection(db: Database, name: string): Promise<boolean> {
+  const rows = await db
+    .select({ id: globalMealCollections.id })
+    .from(globalMealCollections)
+    .where(eq(globalMealCollections.name, name))
+    .limit(1);
+  return rows.length > 0;
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  GlobalMealValidationError,
+  isGlobalMealsAdmin,
+  parseGlobalMealCollectionFields,
+  parseGlobalMealFields,
+  parseNutritionFacts,
+  parseReorderIds,
+  toLibraryUpdate,
+} from './library';
+
+test('isGlobalMealsAdmin reads the comma-separated allowlist', () => {
+  const env = { GLOBAL_MEALS_ADMIN_USER_IDS: ' user_a, user_b ,' };
+  assert.equal(isGlobalMealsAdmin('user_b', env), true);
+  assert.equal(isGlobalMealsAdmin('user_c', env), false);
+  assert.equal(isGlobalMealsAdmin('user_a', {}), false);
+});
+
+test('parseGlobalMealFields requires a name on create and cleans the recipe', () => {
+  assert.throws(() => parseGlobalMealFields({}, { partial: false }), /Missing name/);
+  assert.deepEqual(parseGlobalMealFields({ sortOrder: 3 }, { partial: true }), { sortOrder: 3 });
+
+  const fields = parseGlobalMealFields(
+    {
+      name: 'chicken  curry',
+      ingredients: ['rice', { name: 'chicken', quantity: 500, unit: 'g', extra: true }],
+      instructions: ['  Cook  ', ''],
+      image: 'https://images.example.com/curry.jpg',
+      collection: ' Weeknight ',
+    },
+    { partial: false },
+  );
+  assert.equal(fields.name, 'Chicken Curry');
+  assert.deepEqual(fields.ingredients, [{ name: 'Rice' }, { name: 'Chicken', quantity: 500, unit: 'g' }]);
+  assert.deepEqual(fields.instructions, ['Cook']);
+  assert.equal(fields.collection, 'Weeknight');
+});
+
+test('parseGlobalMealFields rejects non-http images and nameless ingredients', () => {
+  assert.throws(() => parseGlobalMealFields({ image: 'javascript:alert(1)' }, { partial: true }), /http\(s\) URL/);
+  assert.throws(() => parseGlobalMealFields({ ingredients: [{ quantity: 1 }] }, { partial: true }), GlobalMealValidationError);
+  assert.throws(() => parseGlobalMealFields({ retired: 'yes' }, { partial: true }), /Invalid retired/);
+});
+
+test('parseNutritionFacts keeps known amounts and rejects negatives', () => {
+  assert.deepEqual(parseNutritionFacts({ caloriesKcal: 520, proteinG: 31, perServing: true, servings: 4, note: 'x' }), {
+    caloriesKcal: 520,
+    proteinG: 31,
+    perServing: true,
+    servings: 4,
+    isEstimate: false,
+  });
+  assert.equal(parseNutritionFacts(null), null);
+  assert.throws(() => parseNutritionFacts({ fatG: -1 }), /nutrition.fatG/);
+});
+
+test('parseReorderIds rejects empty and repeated lists', () => {
+  assert.deepEqual(parseReorderIds({ ids: ['gm-1', 'gm-2'] }), ['gm-1', 'gm-2']);
+  assert.throws(() => parseReorderIds({ ids: [] }), GlobalMealValidationError);
+  assert.throws(() => parseReorderIds({ ids: ['gm-1', 'gm-1'] }), /must not repeat/);
+  assert.throws(() => parseReorderIds({ ids: ['bad id'] }), /Invalid ids/);
+});
+
+test('collections need a name and retiring maps to retiredAt', () => {
+  assert.throws(() => parseGlobalMealCollectionFields({ name: '   ' }, { partial: false }), /Missing name/);
+  const now = new Date('2026-05-01T12:00:00Z');
+  assert.deepEqual(toLibraryUpdate(parseGlobalMealCollectionFields({ retired: true }, { partial: true }), now), {
+    retiredAt: now,
+    updatedAt: now,
+  });
+  assert.deepEqual(toLibraryUpdate({ name: 'Soups', retired: false }, now), { name: 'Soups', retiredAt: null, updatedAt: now });
+});
@@ -0,0 +1,234 @@
+import type { NutritionFacts } from '@/lib/nutrition/computeMealNutrition';
+import { normalizeCuisine, normalizeMealName } from '@/lib/normalizeMeal';
+import {
+  normalizeWhitespace,
+  sanitizeStringArray,
+  stripControlChars,
+  validateMealDescription,
+  validateMealName,
+  validateRecordId,
+} from '@/lib/validation';
+
+export type GlobalMealFields = {
+  name?: string;
+  description?: string | null;
+  collection?: string | null;
+  ingredients?: Array<Record<string, unknown>>;
+  instructions?: string[];
+  image?: string | null;
+  cuisine?: string | null;
+  nutrition?: NutritionFacts | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+export type GlobalMealCollectionFields = {
+  name?: string;
+  description?: string | null;
+  image?: string | null;
+  sortOrder?: number;
+  retired?: boolean;
+};
+
+const MAX_INGREDIENTS = 100;
+const MAX_INSTRUCTIONS = 60;
+const MAX_IMAGE_URL_LENGTH = 2048;
+const MAX_COLLECTION_NAME_LENGTH = 60;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 300;
+const MAX_SORT_ORDER = 100_000;
+export const MAX_REORDER_IDS = 1000;
+
+const NUTRITION_NUMBER_FIELDS = ['caloriesKcal', 'proteinG', 'carbsG', 'fatG', 'fiberG', 'sugarG', 'sodiumMg'] as const;
+
+export class GlobalMealValidationError extends Error {
+  readonly name = 'GlobalMealValidationError';
+}
+
+/**
+ * Curators come from `GLOBAL_MEALS_ADMIN_USER_IDS`, a comma-separated list of user ids.
+ */
+export function isGlobalMealsAdmin(userId: string, env: Record<string, string | undefined> = process.env): boolean {
+  const ids = (env.GLOBAL_MEALS_ADMIN_USER_IDS ?? '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return ids.includes(userId);
+}
+
+function parseOptionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'string') throw new GlobalMealValidationError(`Invalid ${field}`);
+  const cleaned = normalizeWhitespace(stripControlChars(value));
+  return cleaned ? cleaned.slice(0, maxLength) : null;
+}
+
+function parseImageUrl(value: unknown): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'string') throw new GlobalMealValidationError('Invalid image');
+  const trimmed = stripControlChars(value).trim();
+  if (!trimmed) return null;
+  if (trimmed.length > MAX_IMAGE_URL_LENGTH) throw new GlobalMealValidationError('Invalid image');
+  try {
+    const protocol = new URL(trimmed).protocol.toLowerCase();
+    if (protocol === 'https:' || protocol === 'http:') return trimmed;
+  } catch {
+    // fall through
+  }
+  throw new GlobalMealValidationError('image must be an http(s) URL');
+}
+
+function parseSortOrder(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_SORT_ORDER) {
+    throw new GlobalMealValidationError(`sortOrder must be a whole number between 0 and ${MAX_SORT_ORDER}`);
+  }
+  return value;
+}
+
+function parseRetired(value: unknown): boolean {
+  if (typeof value !== 'boolean') throw new GlobalMealValidationError('Invalid retired');
+  return value;
+}
+
+function parseIngredients(value: unknown): Array<Record<string, unknown>> {
+  if (!Array.isArray(value) || value.length > MAX_INGREDIENTS) {
+    throw new GlobalMealValidationError('Invalid ingredients');
+  }
+  const out: Array<Record<string, unknown>> = [];
+  for (const raw of value) {
+    const obj = typeof raw === 'string' ? { name: raw } : raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+    const name = obj && typeof obj.name === 'string' ? normalizeWhitespace(stripControlChars(obj.name)) : '';
+    if (!obj || !name) throw new GlobalMealValidationError('Every ingredient needs a name');
+
+    const item: Record<string, unknown> = { name: normalizeMealName(name) ?? name };
+    if (typeof obj.quantity === 'number' && Number.isFinite(obj.quantity) && obj.quantity >= 0) item.quantity = obj.quantity;
+    const unit = typeof obj.unit === 'string' ? normalizeWhitespace(stripControlChars(obj.unit)).slice(0, 24) : '';
+    if (unit) item.unit = unit;
+    const category = typeof obj.category === 'string' ? normalizeWhitespace(stripControlChars(obj.category)).slice(0, 40) : '';
+    if (category) item.category = category;
+    out.push(item);
+  }
+  return out;
+}
+
+/**
+ * Accepts the same nutrition shape computed for household meals. Unknown keys are dropped.
+ */
+export function parseNutritionFacts(value: unknown): NutritionFacts | null {
+  if (value === null) return null;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new GlobalMealValidationError('Invalid nutrition');
+  }
+  const input = value as Record<string, unknown>;
+  const out: NutritionFacts = {};
+  for (const field of NUTRITION_NUMBER_FIELDS) {
+    const amount = input[field];
+    if (amount === undefined || amount === null) continue;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new GlobalMealValidationError(`Invalid nutrition.${field}`);
+    }
+    out[field] = amount;
+  }
+  if (input.perServing !== undefined) out.perServing = input.perServing === true;
+  if (input.servings !== undefined && input.servings !== null) {
+    if (typeof input.servings !== 'number' || !Number.isInteger(input.servings) || input.servings < 1 || input.servings > 100) {
+      throw new GlobalMealValidationError('Invalid nutrition.servings');
+    }
+    out.servings = input.servings;
+  }
+  out.isEstimate = input.isEstimate === true;
+  return out;
+}
+
+/**
+ * Validates global meal fields from an admin request body. With `partial`, only provided fields
+ * are returned (PATCH); otherwise a name is required (POST).
+ */
+export function parseGlobalMealFields(body: unknown, options: { partial: boolean }): GlobalMealFields {
+  if (!body || typeof body !== 'object') throw new GlobalMealValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: GlobalMealFields = {};
+
+  if (input.name !== undefined || !options.partial) {
+    const name = validateMealName(input.name);
+    if (!name) throw new GlobalMealValidationError('Missing name');
+    out.name = normalizeMealName(name) ?? name;
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== 'string') {
+      throw new GlobalMealValidationError('Invalid description');
+    }
+    out.description = validateMealDescription(input.description) ?? null;
+  }
+
+  if (input.collection !== undefined) out.collection = parseOptionalText(input.collection, 'collection', MAX_COLLECTION_NAME_LENGTH);
+  if (input.ingredients !== undefined) out.ingredients = parseIngredients(input.ingredients);
+  if (input.instructions !== undefined) {
+    if (!Array.isArray(input.instructions)) throw new GlobalMealValidationError('Invalid instructions');
+    out.instructions = sanitizeStringArray(input.instructions, { maxItems: MAX_INSTRUCTIONS, maxItemLength: 400 });
+  }
+  if (input.image !== undefined) out.image = parseImageUrl(input.image);
+  if (input.cuisine !== undefined) {
+    const cuisine = parseOptionalText(input.cuisine, 'cuisine', 60);
+    out.cuisine = cuisine ? normalizeCuisine(cuisine) ?? cuisine : null;
+  }
+  if (input.nutrition !== undefined) out.nutrition = parseNutritionFacts(input.nutrition);
+  if (input.sortOrder !== undefined) out.sortOrder = parseSortOrder(input.sortOrder);
+  if (input.retired !== undefined) out.retired = parseRetired(input.retired);
+
+  return out;
+}
+
+/**
+ * Same as `parseGlobalMealFields` for collections.
+ */
+export function parseGlobalMealCollectionFields(body: unknown, options: { partial: boolean }): GlobalMealCollectionFields {
+  if (!body || typeof body !== 'object') throw new GlobalMealValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: GlobalMealCollectionFields = {};
+
+  if (input.name !== undefined || !options.partial) {
+    const name = typeof input.name === 'string' ? parseOptionalText(input.name, 'name', MAX_COLLECTION_NAME_LENGTH) : null;
+    if (!name) throw new GlobalMealValidationError('Missing name');
+    out.name = name;
+  }
+  if (input.description !== undefined) {
+    out.description = parseOptionalText(input.description, 'description', MAX_COLLECTION_DESCRIPTION_LENGTH);
+  }
+  if (input.image !== undefined) out.image = parseImageUrl(input.image);
+  if (input.sortOrder !== undefined) out.sortOrder = parseSortOrder(input.sortOrder);
+  if (input.retired !== undefined) out.retired = parseRetired(input.retired);
+
+  return out;
+}
+
+/**
+ * Reads `{ ids: [...] }` for a reorder request. The position in the list becomes the sort order;
+ * ids left out keep theirs.
+ */
+export function parseReorderIds(body: unknown): string[] {
+  const ids = body && typeof body === 'object' ? (body as Record<string, unknown>).ids : undefined;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_REORDER_IDS) {
+    throw new GlobalMealValidationError(`ids must be a list of 1 to ${MAX_REORDER_IDS} ids`);
+  }
+  const out: string[] = [];
+  for (const raw of ids) {
+    const id = validateRecordId(raw);
+    if (!id) throw new GlobalMealValidationError('Invalid ids');
+    if (out.includes(id)) throw new GlobalMealValidationError('ids must not repeat');
+    out.push(id);
+  }
+  return out;
+}
+
+/**
+ * Turns parsed meal or collection fields into column values: `retired` becomes `retiredAt` and
+ * every write bumps `updatedAt`.
+ */
+export function toLibraryUpdate<T extends { retired?: boolean }>(
+  fields: T,
+  now: Date,
+): Omit<T, 'retired'> & { retiredAt?: Date | null; updatedAt: Date } {
+  const { retired, ...rest } = fields;
+  return { ...rest, ...(retired === undefined ? null : { retiredAt: retired ? now : null }), updatedAt: now };
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { getInviteStatus, InviteValidationError, isInviteRecipient, parseInviteOptions, verifiedEmailAddresses } from './invites';
+import { assertInviteRedeemable, InviteRedemptionError } from './redeemInvite';
+import { canInviteWithRole } from './roles';
+
+test('parseInviteOptions defaults to a multi-use member invite for 48 hours', () => {
+  assert.deepEqual(parseInviteOptions({ householdId: 'h1' }), {
+    role: 'member',
+    expiresInHours: 48,
+    maxUses: null,
+    email: null,
+  });
+  assert.deepEqual(parseInviteOptions({ role: 'viewer', expiresInHours: 24, maxUses: 1 }), {
+    role: 'viewer',
+    expiresInHours: 24,
+    maxUses: 1,
+    email: null,
+  });
+});
+
+test('parseInviteOptions makes email invites single-use and normalizes the address', () => {
+  assert.deepEqual(parseInviteOptions({ email: '  Sam@Example.com ' }), {
+    role: 'member',
+    expiresInHours: 48,
+    maxUses: 1,
+    email: 'sam@example.com',
+  });
+  assert.throws(() => parseInviteOptions({ email: 'not-an-email' }), /email/);
+  assert.throws(() => parseInviteOptions({ email: 'sam@example.com', maxUses: 3 }), /only be used once/);
+});
+
+test('isInviteRecipient matches email invites case-insensitively and link invites for anyone', () => {
+  assert.equal(isInviteRecipient({ email: 'sam@example.com' }, ['alex@example.com', 'Sam@Example.com']), true);
+  assert.equal(isInviteRecipient({ email: 'sam@example.com' }, ['alex@example.com']), false);
+  assert.equal(isInviteRecipient({ email: 'sam@example.com' }, []), false);
+  assert.equal(isInviteRecipient({ email: null }, []), true);
+});
+
+test('verifiedEmailAddresses keeps only addresses Clerk has verified', () => {
+  const clerkUser = {
+    emailAddresses: [
+      { emailAddress: 'Alex@Example.com', verification: { status: 'verified' } },
+      { emailAddress: 'sam@example.com', verification: { status: 'unverified' } },
+      { emailAddress: 'old@example.com', verification: null },
+    ],
+  };
+  assert.deepEqual(verifiedEmailAddresses(clerkUser), ['alex@example.com']);
+  assert.deepEqual(verifiedEmailAddresses({}), []);
+});
+
+test("a user who set their profile email to someone else's address still can't accept their invite", () => {
+  const invite = {
+    id: 'i1',
+    householdId: 'h1',
+    expiresAt: new Date('2026-05-02T12:00:00Z'),
+    usesLeft: 1,
+    role: 'admin',
+    revokedAt: null,
+    email: 'sam@example.com',
+    declinedAt: null,
+  };
+  const now = new Date('2026-05-01T12:00:00Z');
+  // users.email now says sam@example.com, but Clerk has only verified alex's own address; an
+  // unverified sam@example.com added in Clerk doesn't count either.
+  const verified = verifiedEmailAddresses({
+    emailAddresses: [
+      { emailAddress: 'alex@example.com', verification: { status: 'verified' } },
+      { emailAddress: 'sam@example.com', verification: { status: 'unverified' } },
+    ],
+  });
+  assert.throws(
+    () => assertInviteRedeemable(invite, verified, now),
+    (error: unknown) => error instanceof InviteRedemptionError && error.status === 403,
+  );
+  assert.doesNotThrow(() => assertInviteRedeemable(invite, ['sam@example.com'], now));
+});
+
+test('parseInviteOptions rejects owner invites and out-of-range limits', () => {
+  assert.throws(() => parseInviteOptions({ role: 'owner' }), InviteValidationError);
+  assert.throws(() => parseInviteOptions({ expiresInHours: 0 }), /expiresInHours/);
+  assert.throws(() => parseInviteOptions({ maxUses: 2.5 }), /maxUses/);
+});
+
+test('getInviteStatus prefers revoked over declined over expired over used up', () => {
+  const now = new Date('2026-05-01T12:00:00Z');
+  const past = new Date('2026-04-30T12:00:00Z');
+  const future = new Date('2026-05-02T12:00:00Z');
+  assert.equal(getInviteStatus({ expiresAt: future, usesLeft: null, revokedAt: null }, now), 'active');
+  assert.equal(getInviteStatus({ expiresAt: future, usesLeft: 0, revokedAt: null }, now), 'used_up');
+  assert.equal(getInviteStatus({ expiresAt: past, usesLeft: 0, revokedAt: null }, now), 'expired');
+  assert.equal(getInviteStatus({ expiresAt: past, usesLeft: 1, revokedAt: null, declinedAt: past }, now), 'declined');
+  assert.equal(getInviteStatus({ expiresAt: past, usesLeft: 0, revokedAt: past, declinedAt: past }, now), 'revoked');
+});
+
+test('only owners can invite admins directly', () => {
+  assert.equal(canInviteWithRole('owner', 'admin'), true);
+  assert.equal(canInviteWithRole('admin', 'admin'), false);
+  assert.equal(canInviteWithRole('member', 'viewer'), true);
+  assert.equal(canInviteWithRole('viewer', 'viewer'), false);
+});
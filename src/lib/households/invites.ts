@@ -0,0 +1,113 @@
+import { isHouseholdRole, type HouseholdRole } from '@/lib/households/roles';
+import { validateEmail } from '@/lib/validation';
+
+export const DEFAULT_INVITE_EXPIRY_HOURS = 48;
+export const MAX_INVITE_EXPIRY_HOURS = 30 * 24;
+export const MAX_INVITE_USES = 50;
+
+export type InviteOptions = {
+  role: Exclude<HouseholdRole, 'owner'>;
+  expiresInHours: number;
+  // null = unlimited uses until the invite expires.
+  maxUses: number | null;
+  // Lowercased recipient; only someone signed in with this address can accept.
+  email: string | null;
+};
+
+export const INVITE_STATUSES = ['active', 'expired', 'used_up', 'revoked', 'declined'] as const;
+
+export type InviteStatus = (typeof INVITE_STATUSES)[number];
+
+export class InviteValidationError extends Error {
+  readonly name = 'InviteValidationError';
+}
+
+/**
+ * Reads the optional `role`, `expiresInHours`, `maxUses` and `email` of a create-invite body.
+ * Omitted fields keep the previous link behaviour: a multi-use member invite valid for 48 hours.
+ * An email invite is always single-use.
+ */
+export function parseInviteOptions(body: unknown): InviteOptions {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  let role: InviteOptions['role'] = 'member';
+  if (data.role !== undefined && data.role !== null) {
+    if (!isHouseholdRole(data.role) || data.role === 'owner') {
+      throw new InviteValidationError('role must be one of: admin, member, viewer');
+    }
+    role = data.role;
+  }
+
+  let expiresInHours = DEFAULT_INVITE_EXPIRY_HOURS;
+  if (data.expiresInHours !== undefined && data.expiresInHours !== null) {
+    const value = data.expiresInHours;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_INVITE_EXPIRY_HOURS) {
+      throw new InviteValidationError(`expiresInHours must be a whole number between 1 and ${MAX_INVITE_EXPIRY_HOURS}`);
+    }
+    expiresInHours = value;
+  }
+
+  let maxUses: number | null = null;
+  if (data.maxUses !== undefined && data.maxUses !== null) {
+    const value = data.maxUses;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_INVITE_USES) {
+      throw new InviteValidationError(`maxUses must be a whole number between 1 and ${MAX_INVITE_USES}`);
+    }
+    maxUses = value;
+  }
+
+  let email: string | null = null;
+  if (data.email !== undefined && data.email !== null) {
+    email = validateEmail(data.email);
+    if (!email) {
+      throw new InviteValidationError('email must be a valid email address');
+    }
+    if (maxUses !== null && maxUses !== 1) {
+      throw new InviteValidationError('An email invite can only be used once');
+    }
+    maxUses = 1;
+  }
+
+  return { role, expiresInHours, maxUses, email };
+}
+
+/**
+ * Revocation wins over the recipient declining, then expiry, then running out of uses.
+ */
+export function getInviteStatus(
+  invite: { expiresAt: Date; usesLeft: number | null; revokedAt: Date | null; declinedAt?: Date | null },
+  now: Date = new Date(),
+): InviteStatus {
+  if (invite.revokedAt) return 'revoked';
+  if (invite.declinedAt) return 'declined';
+  if (now > invite.expiresAt) return 'expired';
+  if (invite.usesLeft !== null && invite.usesLeft <= 0) return 'used_up';
+  return 'active';
+}
+
+export function buildInviteUrl(token: string): string {
+  const webUrl = process.env.EXPO_PUBLIC_WEB_APP_URL || 'https://mealo.website';
+  return `${webUrl}/invite/${token}`;
+}
+
+type ClerkEmailAddress = { emailAddress: string; verification: { status: string } | null };
+
+/**
+ * The lowercased addresses Clerk has verified for a user. Only these prove who an email invite
+ * is for: `users.email` is whatever the client last sent.
+ */
+export function verifiedEmailAddresses(user: { emailAddresses?: ClerkEmailAddress[] | null }): string[] {
+  return (user.emailAddresses ?? [])
+    .filter((address) => address.verification?.status === 'verified')
+    .map((address) => address.emailAddress.trim().toLowerCase())
+    .filter((address) => address.length > 0);
+}
+
+/**
+ * Whether an email invite is addressed to one of the user's verified emails (see
+ * `verifiedEmailAddresses`). Link invites (no email) match anyone.
+ */
+export function isInviteRecipient(invite: { email: string | null }, verifiedEmails: readonly string[]): boolean {
+  if (!invite.email) return true;
+  return verifiedEmails.some((email) => invite.email === email.trim().toLowerCase());
+}
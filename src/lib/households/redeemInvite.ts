@@ -0,0 +1,121 @@
+import { and, eq } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { v4 as uuidv4 } from 'uuid';
+
+import { hasInviteManagementSchema } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { household_members, households, inviteRedemptions, invites } from '@/db/schema';
+import { recordActivity } from '@/lib/activity/activityLog';
+import { getInviteStatus, isInviteRecipient } from '@/lib/households/invites';
+import { normalizeHouseholdRole, type HouseholdRole } from '@/lib/households/roles';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+export type RedeemableInvite = {
+  id: string;
+  householdId: string;
+  expiresAt: Date;
+  usesLeft: number | null;
+  role: string;
+  revokedAt: Date | null;
+  email: string | null;
+  declinedAt: Date | null;
+};
+
+/**
+ * A reason the invite can't be redeemed, with the HTTP status the routes answer with.
+ */
+export class InviteRedemptionError extends Error {
+  readonly name = 'InviteRedemptionError';
+
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Refuses invites that are no longer active or are addressed to someone else.
+ */
+export function assertInviteRedeemable(invite: RedeemableInvite, verifiedEmails: readonly string[], now: Date = new Date()): void {
+  const status = getInviteStatus(invite, now);
+  if (status === 'revoked') throw new InviteRedemptionError(410, 'This invite has been revoked');
+  if (status === 'declined') throw new InviteRedemptionError(410, 'This invite was declined');
+  if (status !== 'active') throw new InviteRedemptionError(410, 'Invite link has expired');
+  if (!isInviteRecipient(invite, verifiedEmails)) {
+    throw new InviteRedemptionError(403, 'This invite was sent to a different email address');
+  }
+}
+
+/**
+ * Adds the user to the invite's household with the invite's role, uses up one use and records the
+ * redemption in one batch. Shared by link redemption and accepting a pending email invite.
+ */
+export async function redeemInvite(
+  db: Database,
+  invite: RedeemableInvite,
+  redeemer: { userId: string; verifiedEmails: readonly string[] },
+  loggerTag: string,
+): Promise<{ householdId: string; role: HouseholdRole }> {
+  const { userId } = redeemer;
+  assertInviteRedeemable(invite, redeemer.verifiedEmails);
+
+  const [household] = await db.select({ id: households.id }).from(households).where(eq(households.id, invite.householdId)).limit(1);
+  if (!household) {
+    throw new InviteRedemptionError(404, 'Group no longer exists');
+  }
+
+  const existingMember = await db
+    .select({ id: household_members.id })
+    .from(household_members)
+    .where(and(eq(household_members.householdId, invite.householdId), eq(household_members.userId, userId)))
+    .limit(1);
+  if (existingMember.length > 0) {
+    throw new InviteRedemptionError(409, 'You are already a member of this group');
+  }
+
+  // An invite can never hand out ownership.
+  const storedRole = normalizeHouseholdRole(invite.role);
+  const role = storedRole === 'owner' ? 'member' : storedRole;
+  const now = new Date();
+  const queries: BatchItem<'pg'>[] = [
+    db.insert(household_members).values({
+      id: uuidv4(),
+      householdId: invite.householdId,
+      userId,
+      role,
+      joinedAt: now,
+    }),
+  ];
+
+  if (invite.usesLeft !== null) {
+    queries.push(db.update(invites).set({ usesLeft: invite.usesLeft - 1 }).where(eq(invites.id, invite.id)));
+  }
+
+  if (await hasInviteManagementSchema(db)) {
+    queries.push(
+      db.insert(inviteRedemptions).values({
+        id: uuidv4(),
+        inviteId: invite.id,
+        householdId: invite.householdId,
+        userId,
+        role,
+        redeemedAt: now,
+      }),
+    );
+  }
+
+  const [first, ...rest] = queries;
+  await db.batch([first, ...rest]);
+
+  await recordActivity(
+    db,
+    { householdId: invite.householdId, actorId: userId, type: 'member.joined', entityId: userId, metadata: { inviteId: invite.id, role } },
+    loggerTag,
+  );
+
+  return { householdId: invite.householdId, role };
+}
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  canAssignRole,
+  canRemoveMember,
+  hasHouseholdPermission,
+  HouseholdRoleValidationError,
+  normalizeHouseholdRole,
+  parseRoleChange,
+} from './roles';
+
+test('the permission matrix keeps viewers read-only and reserves destructive actions', () => {
+  assert.equal(hasHouseholdPermission('viewer', 'meals.create'), false);
+  assert.equal(hasHouseholdPermission('viewer', 'plans.manage'), false);
+  assert.equal(hasHouseholdPermission('member', 'plans.manage'), true);
+  assert.equal(hasHouseholdPermission('member', 'meals.deleteAny'), false);
+  assert.equal(hasHouseholdPermission('admin', 'meals.deleteAny'), true);
+  assert.equal(hasHouseholdPermission('admin', 'household.delete'), false);
+  assert.equal(hasHouseholdPermission('owner', 'household.transferOwnership'), true);
+});
+
+test('unknown stored roles get the least privilege', () => {
+  assert.equal(normalizeHouseholdRole('admin'), 'admin');
+  assert.equal(normalizeHouseholdRole('superuser'), 'viewer');
+  assert.equal(normalizeHouseholdRole(null), 'viewer');
+});
+
+test('members can only be removed or reassigned by someone ranked above them', () => {
+  assert.equal(canRemoveMember('owner', 'admin'), true);
+  assert.equal(canRemoveMember('admin', 'member'), true);
+  assert.equal(canRemoveMember('admin', 'admin'), false);
+  assert.equal(canRemoveMember('member', 'viewer'), false);
+
+  assert.equal(canAssignRole('owner', 'member', 'admin'), true);
+  assert.equal(canAssignRole('admin', 'viewer', 'member'), true);
+  assert.equal(canAssignRole('admin', 'member', 'admin'), false);
+  assert.equal(canAssignRole('owner', 'admin', 'owner'), false);
+});
+
+test('parseRoleChange rejects unknown roles and ownership changes', () => {
+  assert.equal(parseRoleChange({ role: 'viewer' }), 'viewer');
+  assert.throws(() => parseRoleChange({ role: 'owner' }), /ownership transfer/);
+  assert.throws(() => parseRoleChange({ role: 'chef' }), HouseholdRoleValidationError);
+  assert.throws(() => parseRoleChange(null), HouseholdRoleValidationError);
+});
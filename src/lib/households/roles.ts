@@ -0,0 +1,155 @@
+import { and, eq } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import * as schema from '@/db/schema';
+import { household_members } from '@/db/schema';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+// Highest to lowest. Viewers (nannies, relatives) can read everything but change nothing.
+export const HOUSEHOLD_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+export type HouseholdRole = (typeof HOUSEHOLD_ROLES)[number];
+
+export const HOUSEHOLD_PERMISSIONS = [
+  'household.update',
+  'household.delete',
+  'household.transferOwnership',
+  'members.invite',
+  'invites.manage',
+  'members.remove',
+  'members.changeRole',
+  'meals.create',
+  'meals.edit',
+  'meals.deleteOwn',
+  'meals.deleteAny',
+  'plans.manage',
+  'library.organize',
+  'pantry.manage',
+  'dietary.manageOthers',
+] as const;
+export type HouseholdPermission = (typeof HOUSEHOLD_PERMISSIONS)[number];
+
+const MEMBER_PERMISSIONS: HouseholdPermission[] = [
+  'household.update',
+  'members.invite',
+  'meals.create',
+  'meals.edit',
+  'meals.deleteOwn',
+  'plans.manage',
+  'library.organize',
+  'pantry.manage',
+];
+
+const ADMIN_PERMISSIONS: HouseholdPermission[] = [
+  ...MEMBER_PERMISSIONS,
+  'members.remove',
+  'members.changeRole',
+  'meals.deleteAny',
+  'dietary.manageOthers',
+];
+
+export const ROLE_PERMISSIONS: Record<HouseholdRole, ReadonlySet<HouseholdPermission>> = {
+  owner: new Set(HOUSEHOLD_PERMISSIONS),
+  admin: new Set(ADMIN_PERMISSIONS),
+  member: new Set(MEMBER_PERMISSIONS),
+  viewer: new Set(),
+};
+
+const PERMISSION_DESCRIPTIONS: Record<HouseholdPermission, string> = {
+  'household.update': 'change household settings',
+  'household.delete': 'delete this household',
+  'household.transferOwnership': 'transfer ownership of this household',
+  'members.invite': 'invite people to this household',
+  'invites.manage': 'manage invites',
+  'members.remove': 'remove members',
+  'members.changeRole': 'change member roles',
+  'meals.create': 'add meals',
+  'meals.edit': 'edit meals',
+  'meals.deleteOwn': 'delete meals',
+  'meals.deleteAny': "delete other members' meals",
+  'plans.manage': 'change the meal plan',
+  'library.organize': 'organize collections and tags',
+  'pantry.manage': 'change the pantry',
+  'dietary.manageOthers': "edit another member's dietary profile",
+};
+
+export class HouseholdRoleValidationError extends Error {
+  readonly name = 'HouseholdRoleValidationError';
+}
+
+const ROLE_RANK: Record<HouseholdRole, number> = { owner: 3, admin: 2, member: 1, viewer: 0 };
+
+export function isHouseholdRole(value: unknown): value is HouseholdRole {
+  return typeof value === 'string' && (HOUSEHOLD_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Maps a stored role to a known one. Anything unrecognised gets the least privilege.
+ */
+export function normalizeHouseholdRole(value: unknown): HouseholdRole {
+  return isHouseholdRole(value) ? value : 'viewer';
+}
+
+export function hasHouseholdPermission(role: HouseholdRole, permission: HouseholdPermission): boolean {
+  return ROLE_PERMISSIONS[role].has(permission);
+}
+
+export function describeMissingPermission(permission: HouseholdPermission): string {
+  return `Your role in this household does not allow you to ${PERMISSION_DESCRIPTIONS[permission]}`;
+}
+
+/**
+ * Removing someone requires the permission and a strictly higher role, so admins can remove
+ * members and viewers but not each other or the owner.
+ */
+export function canRemoveMember(actorRole: HouseholdRole, targetRole: HouseholdRole): boolean {
+  return hasHouseholdPermission(actorRole, 'members.remove') && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+}
+
+/**
+ * Role changes follow the same rank rule for both the current and the new role. Ownership only
+ * moves through a transfer, never a role change.
+ */
+export function canAssignRole(actorRole: HouseholdRole, targetRole: HouseholdRole, nextRole: HouseholdRole): boolean {
+  if (nextRole === 'owner' || targetRole === 'owner') return false;
+  return (
+    hasHouseholdPermission(actorRole, 'members.changeRole') &&
+    ROLE_RANK[actorRole] > ROLE_RANK[targetRole] &&
+    ROLE_RANK[actorRole] > ROLE_RANK[nextRole]
+  );
+}
+
+/**
+ * Anyone who can invite can bring in members and viewers; only someone ranked above admin can
+ * invite an admin directly.
+ */
+export function canInviteWithRole(actorRole: HouseholdRole, inviteRole: HouseholdRole): boolean {
+  if (inviteRole === 'owner' || !hasHouseholdPermission(actorRole, 'members.invite')) return false;
+  return inviteRole === 'admin' ? ROLE_RANK[actorRole] > ROLE_RANK.admin : true;
+}
+
+/**
+ * Reads `role` from a role-change body. `owner` is rejected: use the ownership transfer instead.
+ */
+export function parseRoleChange(body: unknown): HouseholdRole {
+  const role = body && typeof body === 'object' ? (body as Record<string, unknown>).role : undefined;
+  if (!isHouseholdRole(role)) {
+    throw new HouseholdRoleValidationError(`role must be one of: ${HOUSEHOLD_ROLES.filter((r) => r !== 'owner').join(', ')}`);
+  }
+  if (role === 'owner') {
+    throw new HouseholdRoleValidationError('Use the ownership transfer to make someone the owner');
+  }
+  return role;
+}
+
+/**
+ * The user's role in a household, or null when they are not a member.
+ */
+export async function getHouseholdRole(db: Database, householdId: string, userId: string): Promise<HouseholdRole | null> {
+  const [membership] = await db
+    .select({ role: household_members.role })
+    .from(household_members)
+    .where(and(eq(household_members.householdId, householdId), eq(household_members.userId, userId)))
+    .limit(1);
+  return membership ? normalizeHouseholdRole(membership.role) : null;
+}
@@ -7,7 +7,7 @@ type IngredientUsageRow = {
   category: string | null;
 };
 
-function normalizeNameForLookup(value: string): string {
+export function normalizeNameForLookup(value: string): string {
   return value.trim().toLowerCase().replace(/\s+/g, ' ');
 }
 
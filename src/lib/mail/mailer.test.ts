@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+
+import {
+  ConsoleMailTransport,
+  createMailTransportFromEnv,
+  FileMailTransport,
+  sendMail,
+  setMailTransport,
+  type MailMessage,
+} from './mailer';
+import { buildHouseholdInviteEmail } from './templates';
+
+test('createMailTransportFromEnv defaults to console and honours MAIL_FILE_DIR', () => {
+  assert.ok(createMailTransportFromEnv({}) instanceof ConsoleMailTransport);
+  const file = createMailTransportFromEnv({ MAIL_TRANSPORT: 'file', MAIL_FILE_DIR: '/tmp/outbox' });
+  assert.ok(file instanceof FileMailTransport);
+  assert.equal((file as FileMailTransport).dir, '/tmp/outbox');
+});
+
+test('FileMailTransport writes one JSON file per message', async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), 'mealo-mail-'));
+  try {
+    const message: MailMessage = { to: 'sam@example.com', subject: 'Hi', text: 'Hello' };
+    await new FileMailTransport(dir).send(message);
+    const files = await readdir(dir);
+    assert.equal(files.length, 1);
+    assert.deepEqual(JSON.parse(await readFile(path.join(dir, files[0]), 'utf8')), message);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('sendMail reports failures instead of throwing', async () => {
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    setMailTransport({
+      name: 'broken',
+      send: async () => {
+        throw new Error('smtp down');
+      },
+    });
+    assert.equal(await sendMail({ to: 'sam@example.com', subject: 'Hi', text: 'Hello' }, 'TEST'), false);
+
+    const sent: MailMessage[] = [];
+    setMailTransport({ name: 'memory', send: async (message) => void sent.push(message) });
+    assert.equal(await sendMail({ to: 'sam@example.com', subject: 'Hi', text: 'Hello' }, 'TEST'), true);
+    assert.equal(sent.length, 1);
+  } finally {
+    console.error = originalError;
+    setMailTransport(null);
+  }
+});
+
+test('buildHouseholdInviteEmail names the household and escapes HTML', () => {
+  const message = buildHouseholdInviteEmail({
+    to: 'sam@example.com',
+    householdName: 'Tom & <Jo>',
+    inviterName: 'Alex',
+    role: 'admin',
+    inviteUrl: 'https://mealo.website/invite/abc',
+    expiresAt: new Date('2026-05-02T12:00:00Z'),
+  });
+  assert.equal(message.subject, 'Alex invited you to Tom & <Jo> on Mealo');
+  assert.match(message.text, /as an admin/);
+  assert.match(message.html ?? '', /Tom &amp; &lt;Jo&gt;/);
+});
@@ -0,0 +1,90 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+/**
+ * Anything that can deliver a message. Production providers implement this and are installed with
+ * `setMailTransport`; the built-in ones are for local development.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs the message instead of sending it.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.info(`[MAIL] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message to `<dir>/<timestamp>-<id>.json` so it can be opened by hand or read by tests.
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(path.join(this.dir, fileName), `${JSON.stringify(message, null, 2)}\n`, 'utf8');
+  }
+}
+
+export const DEFAULT_MAIL_FILE_DIR = '.mail';
+
+/**
+ * Picks a built-in transport from `MAIL_TRANSPORT` (`console` or `file`, default console).
+ * `file` writes to `MAIL_FILE_DIR`, default `.mail` in the working directory.
+ */
+export function createMailTransportFromEnv(env: Record<string, string | undefined> = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (kind === 'file') {
+    return new FileMailTransport(env.MAIL_FILE_DIR?.trim() || DEFAULT_MAIL_FILE_DIR);
+  }
+  if (kind && kind !== 'console') {
+    console.warn(`[MAIL] Unknown MAIL_TRANSPORT "${kind}", falling back to console.`);
+  }
+  return new ConsoleMailTransport();
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) activeTransport = createMailTransportFromEnv();
+  return activeTransport;
+}
+
+/**
+ * Replaces the transport used by `sendMail`. Pass null to go back to the env-selected one.
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+  activeTransport = transport;
+}
+
+/**
+ * Sends a message and reports whether it went out. Never throws: mail is a notification on top of
+ * a write that has already succeeded.
+ */
+export async function sendMail(message: MailMessage, loggerTag: string): Promise<boolean> {
+  try {
+    await getMailTransport().send(message);
+    return true;
+  } catch (error) {
+    console.error(`[${loggerTag}]`, error);
+    return false;
+  }
+}
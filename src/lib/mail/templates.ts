@@ -0,0 +1,41 @@
+import type { MailMessage } from '@/lib/mail/mailer';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function buildHouseholdInviteEmail(input: {
+  to: string;
+  householdName: string;
+  inviterName: string | null;
+  role: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}): MailMessage {
+  const inviter = input.inviterName?.trim() || 'Someone';
+  const roleNote = input.role === 'member' ? '' : ` as ${input.role === 'admin' ? 'an' : 'a'} ${input.role}`;
+  const expires = input.expiresAt.toUTCString();
+  const intro = `${inviter} invited you to join "${input.householdName}" on Mealo${roleNote}.`;
+
+  return {
+    to: input.to,
+    subject: `${inviter} invited you to ${input.householdName} on Mealo`,
+    text: [
+      intro,
+      '',
+      `Sign in to Mealo with this email address to accept or decline, or open: ${input.inviteUrl}`,
+      '',
+      `This invite expires ${expires}.`,
+    ].join('\n'),
+    html: [
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p>Sign in to Mealo with this email address to accept or decline, or <a href="${escapeHtml(input.inviteUrl)}">open the invite</a>.</p>`,
+      `<p>This invite expires ${escapeHtml(expires)}.</p>`,
+    ].join('\n'),
+  };
+}
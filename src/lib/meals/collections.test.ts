@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { sanitizeMealTags } from '@/lib/validation';
+import {
+  CollectionValidationError,
+  countTags,
+  parseCollectionFields,
+  parseTagRename,
+  renameTagInList,
+} from './collections';
+
+const MEAL_ID = '6f1c2a52-7f55-4c8b-9a55-1d2b3c4d5e6f';
+
+test('sanitizeMealTags lowercases, collapses whitespace and drops duplicates', () => {
+  assert.deepEqual(sanitizeMealTags(['Kid  Friendly', 'freezer', 'kid friendly']), ['kid friendly', 'freezer']);
+  assert.deepEqual(sanitizeMealTags([]), []);
+  assert.equal(sanitizeMealTags(['ok', '']), null);
+  assert.equal(sanitizeMealTags('freezer'), null);
+  assert.equal(sanitizeMealTags(['x'.repeat(31)]), null);
+});
+
+test('parseCollectionFields requires a name on create and validates meal ids', () => {
+  assert.deepEqual(parseCollectionFields({ name: '  Sunday   lunch ', mealIds: [MEAL_ID, MEAL_ID] }, { partial: false }), {
+    name: 'Sunday lunch',
+    addMealIds: [MEAL_ID],
+  });
+  assert.deepEqual(parseCollectionFields({ description: '' }, { partial: true }), { description: null });
+  assert.throws(() => parseCollectionFields({}, { partial: false }), CollectionValidationError);
+  assert.throws(() => parseCollectionFields({ addMealIds: ['nope'] }, { partial: true }), /Invalid addMealIds/);
+});
+
+test('renameTagInList merges into an existing tag and can remove a tag', () => {
+  assert.deepEqual(renameTagInList(['quick', 'weeknight', 'easy'], 'weeknight', 'quick'), ['quick', 'easy']);
+  assert.deepEqual(renameTagInList(['quick', 'easy'], 'quick', null), ['easy']);
+  assert.deepEqual(renameTagInList(null, 'quick', 'fast'), []);
+  assert.deepEqual(parseTagRename({ from: 'Weeknight', to: 'quick' }), { from: 'weeknight', to: 'quick' });
+  assert.throws(() => parseTagRename({ from: 'quick', to: 'Quick' }), CollectionValidationError);
+});
+
+test('countTags counts each meal once per tag, most used first', () => {
+  assert.deepEqual(countTags([['quick', 'quick', 'easy'], ['easy'], null, ['vegan']]), [
+    { tag: 'easy', count: 2 },
+    { tag: 'quick', count: 1 },
+    { tag: 'vegan', count: 1 },
+  ]);
+});
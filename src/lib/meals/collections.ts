@@ -0,0 +1,108 @@
+import { normalizeWhitespace, stripControlChars, validateMealTag, validateUuid } from '@/lib/validation';
+
+export type CollectionFields = {
+  name?: string;
+  description?: string | null;
+  addMealIds?: string[];
+  removeMealIds?: string[];
+};
+
+export type TagCount = { tag: string; count: number };
+
+export const MAX_COLLECTIONS_PER_HOUSEHOLD = 100;
+export const MAX_MEALS_PER_COLLECTION = 500;
+const MAX_COLLECTION_NAME_LENGTH = 60;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 300;
+const MAX_MEAL_IDS_PER_REQUEST = 100;
+
+export class CollectionValidationError extends Error {
+  readonly name = 'CollectionValidationError';
+}
+
+function parseMealIds(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.length > MAX_MEAL_IDS_PER_REQUEST) {
+    throw new CollectionValidationError(`Invalid ${field}`);
+  }
+  const out: string[] = [];
+  for (const raw of value) {
+    const id = validateUuid(raw);
+    if (!id) throw new CollectionValidationError(`Invalid ${field}`);
+    if (!out.includes(id)) out.push(id);
+  }
+  return out;
+}
+
+/**
+ * Validates collection fields from a request body. With `partial`, only provided fields are
+ * returned (PATCH); otherwise a name is required (POST).
+ */
+export function parseCollectionFields(body: unknown, options: { partial: boolean }): CollectionFields {
+  if (!body || typeof body !== 'object') throw new CollectionValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: CollectionFields = {};
+
+  if (input.name !== undefined || !options.partial) {
+    const name = typeof input.name === 'string' ? normalizeWhitespace(stripControlChars(input.name)) : '';
+    if (!name) throw new CollectionValidationError('Missing name');
+    out.name = name.slice(0, MAX_COLLECTION_NAME_LENGTH);
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== 'string') {
+      throw new CollectionValidationError('Invalid description');
+    }
+    const description =
+      typeof input.description === 'string' ? normalizeWhitespace(stripControlChars(input.description)) : '';
+    out.description = description ? description.slice(0, MAX_COLLECTION_DESCRIPTION_LENGTH) : null;
+  }
+
+  if (input.mealIds !== undefined && !options.partial) out.addMealIds = parseMealIds(input.mealIds, 'mealIds');
+  if (input.addMealIds !== undefined) out.addMealIds = parseMealIds(input.addMealIds, 'addMealIds');
+  if (input.removeMealIds !== undefined) out.removeMealIds = parseMealIds(input.removeMealIds, 'removeMealIds');
+
+  return out;
+}
+
+/**
+ * Validates a tag rename/merge body (`{ from, to }`). Renaming onto an existing tag merges the two.
+ */
+export function parseTagRename(body: unknown): { from: string; to: string } {
+  if (!body || typeof body !== 'object') throw new CollectionValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const from = validateMealTag(input.from);
+  const to = validateMealTag(input.to);
+  if (!from) throw new CollectionValidationError('Invalid from');
+  if (!to) throw new CollectionValidationError('Invalid to');
+  if (from === to) throw new CollectionValidationError('from and to must differ');
+  return { from, to };
+}
+
+/**
+ * Replaces `from` with `to` in a meal's tag list, keeping order and dropping the duplicate when the
+ * meal already had `to`. Passing `to = null` removes the tag.
+ */
+export function renameTagInList(tags: unknown, from: string, to: string | null): string[] {
+  const list = Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+  const out: string[] = [];
+  for (const tag of list) {
+    const next = tag === from ? to : tag;
+    if (next && !out.includes(next)) out.push(next);
+  }
+  return out;
+}
+
+/**
+ * Counts tag usage across meals, most used first.
+ */
+export function countTags(tagLists: unknown[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const tags of tagLists) {
+    if (!Array.isArray(tags)) continue;
+    for (const tag of new Set(tags.filter((t): t is string => typeof t === 'string'))) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+}
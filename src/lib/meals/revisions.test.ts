@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  diffRevisionSnapshots,
+  MealRevisionValidationError,
+  parseExpectedVersion,
+  snapshotToUpdate,
+  toRevisionSnapshot,
+  touchesRevisionFields,
+} from './revisions';
+
+test('toRevisionSnapshot keeps recipe content and drops household preferences', () => {
+  const meal = { name: 'Dal', ingredients: [{ name: 'Lentils' }], rating: 5, isFavorite: true };
+  assert.deepEqual(toRevisionSnapshot(meal), { name: 'Dal', ingredients: [{ name: 'Lentils' }] });
+  assert.equal(touchesRevisionFields({ rating: 4, isFavorite: false }), false);
+  assert.equal(touchesRevisionFields({ userNotes: 'Less chilli' }), true);
+});
+
+test('diffRevisionSnapshots lists changed fields in a stable order', () => {
+  const before = { name: 'Dal', ingredients: [{ name: 'Lentils' }], userNotes: null };
+  const after = { name: 'Tadka Dal', ingredients: [{ name: 'Lentils' }, { name: 'Ghee' }] };
+  assert.deepEqual(diffRevisionSnapshots(before, after), ['name', 'ingredients']);
+  assert.deepEqual(diffRevisionSnapshots(null, after), []);
+});
+
+test('snapshotToUpdate skips columns the database does not have yet', () => {
+  const snapshot = { name: 'Dal', servings: 4, tags: ['quick'], prepTimeMinutes: 10, sourceUrl: null };
+  assert.deepEqual(snapshotToUpdate(snapshot, { sourceUrl: true, servings: false, tags: true, timing: false }), {
+    name: 'Dal',
+    tags: ['quick'],
+    sourceUrl: null,
+  });
+  assert.deepEqual(snapshotToUpdate({ name: '' }, { sourceUrl: true, servings: true, tags: true, timing: true }), {});
+});
+
+test('parseExpectedVersion is optional but must be a positive integer', () => {
+  assert.equal(parseExpectedVersion({}), undefined);
+  assert.equal(parseExpectedVersion({ version: 3 }), 3);
+  assert.throws(() => parseExpectedVersion({ version: '3' }), MealRevisionValidationError);
+  assert.throws(() => parseExpectedVersion({ version: 0 }), MealRevisionValidationError);
+});
@@ -0,0 +1,186 @@
+import { and, eq, lte } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { v4 as uuidv4 } from 'uuid';
+
+import * as schema from '@/db/schema';
+import { mealRevisions, meals } from '@/db/schema';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+// Recipe content that is versioned. Rating and favorite are household preferences, not edits to
+// the recipe, so changing them neither bumps the version nor conflicts with an edit.
+export const REVISION_FIELDS = [
+  'name',
+  'description',
+  'ingredients',
+  'instructions',
+  'image',
+  'cuisine',
+  'userNotes',
+  'sourceUrl',
+  'servings',
+  'tags',
+  'prepTimeMinutes',
+  'cookTimeMinutes',
+  'totalTimeMinutes',
+  'difficulty',
+] as const;
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+export type MealRevisionSnapshot = Partial<Record<RevisionField, unknown>>;
+
+export const MAX_REVISIONS_PER_MEAL = 50;
+
+export class MealVersionConflictError extends Error {
+  readonly name = 'MealVersionConflictError';
+
+  constructor(readonly currentVersion: number) {
+    super('This meal was changed by someone else. Reload it and try again.');
+  }
+}
+
+export class MealRevisionValidationError extends Error {
+  readonly name = 'MealRevisionValidationError';
+}
+
+/**
+ * Reads the client's `version` from a PUT body. Missing means the client predates versioning and
+ * the write is not checked.
+ */
+export function parseExpectedVersion(body: Record<string, unknown>): number | undefined {
+  const value = body.version;
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new MealRevisionValidationError('Invalid version');
+  }
+  return value;
+}
+
+export function toRevisionSnapshot(meal: Partial<Record<RevisionField, unknown>>): MealRevisionSnapshot {
+  const out: MealRevisionSnapshot = {};
+  for (const field of REVISION_FIELDS) {
+    if (meal[field] !== undefined) out[field] = meal[field];
+  }
+  return out;
+}
+
+export function touchesRevisionFields(updateData: Record<string, unknown>): boolean {
+  return REVISION_FIELDS.some((field) => updateData[field] !== undefined);
+}
+
+/**
+ * Names of the fields that differ between two snapshots, in REVISION_FIELDS order.
+ */
+export function diffRevisionSnapshots(before: MealRevisionSnapshot | null, after: MealRevisionSnapshot): RevisionField[] {
+  if (!before) return [];
+  return REVISION_FIELDS.filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+}
+
+/**
+ * Turns a stored snapshot back into an update, limited to the columns this database has.
+ */
+export function snapshotToUpdate(
+  snapshot: unknown,
+  available: { sourceUrl: boolean; servings: boolean; tags: boolean; timing: boolean },
+): Partial<typeof meals.$inferInsert> {
+  const data = (snapshot && typeof snapshot === 'object' ? snapshot : {}) as MealRevisionSnapshot;
+  const update: Record<string, unknown> = {};
+  for (const field of REVISION_FIELDS) {
+    if (!(field in data)) continue;
+    if (field === 'sourceUrl' && !available.sourceUrl) continue;
+    if (field === 'servings' && !available.servings) continue;
+    if (field === 'tags' && !available.tags) continue;
+    if (
+      (field === 'prepTimeMinutes' || field === 'cookTimeMinutes' || field === 'totalTimeMinutes' || field === 'difficulty') &&
+      !available.timing
+    ) {
+      continue;
+    }
+    update[field] = data[field];
+  }
+  if (typeof update.name !== 'string' || !update.name) delete update.name;
+  return update as Partial<typeof meals.$inferInsert>;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === '23505' || /duplicate key|unique constraint/i.test(String((error as Error | null)?.message ?? ''));
+}
+
+/**
+ * Applies a recipe edit as the next version and records it in meal_revisions, in one batch.
+ * The first edit also records the meal's original content as the base revision.
+ *
+ * Concurrency: the update only matches the version that was read, and the revision insert is unique
+ * per (meal, version), so of two racing edits exactly one commits; the other throws
+ * MealVersionConflictError.
+ */
+export async function updateMealWithRevision(
+  db: Database,
+  params: {
+    current: Partial<Record<RevisionField, unknown>> & {
+      id: string;
+      householdId: string;
+      version: number;
+      createdBy: string | null;
+      createdAt: Date | null;
+    };
+    updateData: Partial<typeof meals.$inferInsert>;
+    userId: string;
+    expectedVersion?: number;
+    restoredFromVersion?: number;
+  },
+): Promise<{ version: number; updatedAt: Date }> {
+  const { current, updateData, userId } = params;
+  if (params.expectedVersion !== undefined && params.expectedVersion !== current.version) {
+    throw new MealVersionConflictError(current.version);
+  }
+
+  const nextVersion = current.version + 1;
+  const now = new Date();
+  const nextSnapshot = toRevisionSnapshot({ ...toRevisionSnapshot(current), ...toRevisionSnapshot(updateData) });
+
+  const update = db
+    .update(meals)
+    .set({ ...updateData, version: nextVersion, updatedAt: now })
+    .where(and(eq(meals.id, current.id), eq(meals.version, current.version)))
+    .returning({ id: meals.id });
+  const baseRevision = db
+    .insert(mealRevisions)
+    .values({
+      id: uuidv4(),
+      mealId: current.id,
+      householdId: current.householdId,
+      version: current.version,
+      snapshot: toRevisionSnapshot(current),
+      // Only the original content has a known author; later versions already have their own revision row.
+      editedBy: current.version === 1 ? current.createdBy : null,
+      createdAt: current.version === 1 ? current.createdAt ?? now : now,
+    })
+    .onConflictDoNothing();
+  const nextRevision = db.insert(mealRevisions).values({
+    id: uuidv4(),
+    mealId: current.id,
+    householdId: current.householdId,
+    version: nextVersion,
+    snapshot: nextSnapshot,
+    editedBy: userId,
+    restoredFromVersion: params.restoredFromVersion ?? null,
+    createdAt: now,
+  });
+  const prune = db
+    .delete(mealRevisions)
+    .where(and(eq(mealRevisions.mealId, current.id), lte(mealRevisions.version, nextVersion - MAX_REVISIONS_PER_MEAL)));
+
+  let updated: Array<{ id: string }>;
+  try {
+    [updated] = await db.batch([update, baseRevision, nextRevision, prune]);
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new MealVersionConflictError(nextVersion);
+    throw error;
+  }
+  // Not expected given the unique revision row, but never report success for an update that did not apply.
+  if (updated.length === 0) throw new MealVersionConflictError(nextVersion);
+
+  return { version: nextVersion, updatedAt: now };
+}
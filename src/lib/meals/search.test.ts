@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { MealSearchValidationError, parseMealSearchParams } from './search';
+
+const HOUSEHOLD_ID = '6f1c2a52-7f55-4c8b-9a55-1d2b3c4d5e6f';
+
+function parse(query: string) {
+  return parseMealSearchParams(new URLSearchParams(query));
+}
+
+test('parseMealSearchParams applies defaults and normalizes facet filters', () => {
+  assert.deepEqual(parse(`householdId=${HOUSEHOLD_ID}`), {
+    householdId: HOUSEHOLD_ID,
+    q: '',
+    cuisines: [],
+    favorite: undefined,
+    minRating: undefined,
+    hasNutrition: undefined,
+    sources: [],
+    includeGlobal: false,
+    collection: undefined,
+    page: 1,
+    pageSize: 20,
+  });
+
+  const params = parse(
+    `householdId=${HOUSEHOLD_ID}&q=%20chicken%20%20curry&cuisine=Indian,thai&cuisine=indian&favorite=true&minRating=4&source=youtube&includeGlobal=1&collection=Quick&page=2&pageSize=10`,
+  );
+  assert.equal(params.q, 'chicken curry');
+  assert.deepEqual(params.cuisines, ['indian', 'thai']);
+  assert.equal(params.favorite, true);
+  assert.equal(params.minRating, 4);
+  assert.deepEqual(params.sources, ['youtube']);
+  assert.equal(params.includeGlobal, true);
+  assert.equal(params.collection, 'Quick');
+  assert.deepEqual([params.page, params.pageSize], [2, 10]);
+});
+
+test('parseMealSearchParams rejects invalid filters', () => {
+  assert.throws(() => parse('q=pasta'), /householdId/);
+  assert.throws(() => parse(`householdId=${HOUSEHOLD_ID}&source=myspace`), /Invalid source/);
+  assert.throws(() => parse(`householdId=${HOUSEHOLD_ID}&minRating=6`), MealSearchValidationError);
+  assert.throws(() => parse(`householdId=${HOUSEHOLD_ID}&favorite=maybe`), /Invalid favorite/);
+  assert.throws(() => parse(`householdId=${HOUSEHOLD_ID}&pageSize=500`), /Invalid pageSize/);
+});
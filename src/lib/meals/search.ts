@@ -0,0 +1,279 @@
+import { sql, type SQL } from 'drizzle-orm';
+
+import { normalizeWhitespace, stripControlChars, validateUuid } from '@/lib/validation';
+
+export const SOURCE_PLATFORMS = ['youtube', 'tiktok', 'instagram', 'web', 'none'] as const;
+export type SourcePlatform = (typeof SOURCE_PLATFORMS)[number];
+
+export type MealSearchParams = {
+  householdId: string;
+  q: string;
+  cuisines: string[];
+  favorite?: boolean;
+  minRating?: number;
+  hasNutrition?: boolean;
+  sources: SourcePlatform[];
+  includeGlobal: boolean;
+  collection?: string;
+  page: number;
+  pageSize: number;
+};
+
+export type MealSearchColumns = {
+  nutrition: boolean;
+  sourceUrl: boolean;
+};
+
+const MAX_QUERY_LENGTH = 100;
+const MAX_FILTER_VALUES = 10;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+const MAX_PAGE = 500;
+const MAX_FACET_VALUES = 30;
+
+export class MealSearchValidationError extends Error {
+  readonly name = 'MealSearchValidationError';
+}
+
+function parseBoolean(value: string | null, field: string): boolean | undefined {
+  if (value == null || value === '') return undefined;
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  throw new MealSearchValidationError(`Invalid ${field}`);
+}
+
+function parseIntInRange(value: string | null, field: string, min: number, max: number): number | undefined {
+  if (value == null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) throw new MealSearchValidationError(`Invalid ${field}`);
+  return parsed;
+}
+
+// Accepts both repeated params (?cuisine=a&cuisine=b) and comma-separated values (?cuisine=a,b).
+function parseList(searchParams: URLSearchParams, key: string): string[] {
+  const out: string[] = [];
+  for (const raw of searchParams.getAll(key)) {
+    for (const part of raw.split(',')) {
+      const cleaned = normalizeWhitespace(stripControlChars(part)).toLowerCase().slice(0, 60);
+      if (cleaned && !out.includes(cleaned)) out.push(cleaned);
+    }
+  }
+  if (out.length > MAX_FILTER_VALUES) throw new MealSearchValidationError(`Too many ${key} values`);
+  return out;
+}
+
+/**
+ * Validates GET /api/meals/search query params.
+ */
+export function parseMealSearchParams(searchParams: URLSearchParams): MealSearchParams {
+  const householdId = validateUuid(searchParams.get('householdId'));
+  if (!householdId) throw new MealSearchValidationError('Missing or invalid householdId');
+
+  const q = normalizeWhitespace(stripControlChars(searchParams.get('q') ?? '')).slice(0, MAX_QUERY_LENGTH);
+
+  const sources = parseList(searchParams, 'source');
+  if (sources.some((source) => !(SOURCE_PLATFORMS as readonly string[]).includes(source))) {
+    throw new MealSearchValidationError('Invalid source');
+  }
+
+  const collectionRaw = searchParams.get('collection');
+  const collection = collectionRaw ? normalizeWhitespace(stripControlChars(collectionRaw)).slice(0, 60) : '';
+
+  return {
+    householdId,
+    q,
+    cuisines: parseList(searchParams, 'cuisine'),
+    favorite: parseBoolean(searchParams.get('favorite'), 'favorite'),
+    minRating: parseIntInRange(searchParams.get('minRating'), 'minRating', 1, 5),
+    hasNutrition: parseBoolean(searchParams.get('hasNutrition'), 'hasNutrition'),
+    sources: sources as SourcePlatform[],
+    includeGlobal: parseBoolean(searchParams.get('includeGlobal'), 'includeGlobal') ?? false,
+    collection: collection || undefined,
+    page: parseIntInRange(searchParams.get('page'), 'page', 1, MAX_PAGE) ?? 1,
+    pageSize: parseIntInRange(searchParams.get('pageSize'), 'pageSize', 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE,
+  };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+// Ingredient names from the jsonb array; entries are either strings or { name } objects.
+function ingredientNamesSql(column: SQL): SQL {
+  return sql`COALESCE((
+    SELECT string_agg(CASE jsonb_typeof(elem) WHEN 'string' THEN elem #>> '{}' ELSE elem ->> 'name' END, ' ')
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(${column}) = 'array' THEN ${column} ELSE '[]'::jsonb END) elem
+  ), '')`;
+}
+
+function sourcePlatformSql(columns: MealSearchColumns): SQL {
+  if (!columns.sourceUrl) return sql`'none'`;
+  return sql`CASE
+    WHEN m.source_url IS NULL OR m.source_url = '' THEN 'none'
+    WHEN m.source_url ~* '^https?://([a-z0-9-]+\\.)*(youtube\\.com|youtu\\.be)(/|$)' THEN 'youtube'
+    WHEN m.source_url ~* '^https?://([a-z0-9-]+\\.)*tiktok\\.com(/|$)' THEN 'tiktok'
+    WHEN m.source_url ~* '^https?://([a-z0-9-]+\\.)*instagram\\.com(/|$)' THEN 'instagram'
+    ELSE 'web'
+  END`;
+}
+
+function textMatchSql(document: SQL, name: SQL, q: string): { where: SQL; rank: SQL } {
+  if (!q) return { where: sql`TRUE`, rank: sql`0` };
+  const like = `%${escapeLike(q)}%`;
+  const prefix = `${escapeLike(q)}%`;
+  // Full-text match for whole words, plus a substring match so partially typed words still hit.
+  return {
+    where: sql`(to_tsvector('simple', ${document}) @@ websearch_to_tsquery('simple', ${q}) OR ${document} ILIKE ${like})`,
+    rank: sql`(
+      CASE WHEN lower(${name}) = lower(${q}) THEN 3 WHEN ${name} ILIKE ${prefix} THEN 2 WHEN ${name} ILIKE ${like} THEN 1 ELSE 0 END
+      + ts_rank(to_tsvector('simple', ${document}), websearch_to_tsquery('simple', ${q}))
+    )`,
+  };
+}
+
+/**
+ * Builds one statement that returns the requested page, the total, and facet counts.
+ * Facets are counted over the text matches before facet filters are applied, so picking one
+ * cuisine still shows how many results the other cuisines would give.
+ * Global meals have no rating, favorite, nutrition or source, so filtering on those excludes them.
+ */
+export function buildMealSearchQuery(params: MealSearchParams, columns: MealSearchColumns): SQL {
+  const householdDocument = sql`concat_ws(' ', m.name, m.description, m.cuisine, ${ingredientNamesSql(
+    sql`m.ingredients`,
+  )}, m.user_notes)`;
+  const householdMatch = textMatchSql(householdDocument, sql`m.name`, params.q);
+  const hasNutritionSql = columns.nutrition ? sql`(m.nutrition IS NOT NULL)` : sql`FALSE`;
+
+  const globalDocument = sql`concat_ws(' ', g.name, g.description, g.cuisine, ${ingredientNamesSql(sql`g.ingredients`)})`;
+  const globalMatch = textMatchSql(globalDocument, sql`g.name`, params.q);
+  const collectionFilter = params.collection ? sql`AND lower(g.collection) = lower(${params.collection})` : sql``;
+  const globalBranch = params.includeGlobal
+    ? sql`
+      UNION ALL
+      SELECT
+        'global' AS kind,
+        g.id,
+        NULL::text AS household_id,
+        g.name,
+        g.description,
+        g.cuisine,
+        g.image,
+        0 AS rating,
+        FALSE AS is_favorite,
+        FALSE AS has_nutrition,
+        'none' AS source_platform,
+        g.collection,
+        ${globalMatch.rank} AS rank
+      FROM global_meals g
+      WHERE ${globalMatch.where}
+      ${collectionFilter}`
+    : sql``;
+
+  const filters: SQL[] = [];
+  if (params.cuisines.length > 0) {
+    filters.push(sql`lower(cuisine) IN (${sql.join(params.cuisines.map((c) => sql`${c}`), sql`, `)})`);
+  }
+  if (params.favorite !== undefined) filters.push(sql`is_favorite = ${params.favorite}`);
+  if (params.minRating !== undefined) filters.push(sql`rating >= ${params.minRating}`);
+  if (params.hasNutrition !== undefined) filters.push(sql`has_nutrition = ${params.hasNutrition}`);
+  if (params.sources.length > 0) {
+    filters.push(sql`source_platform IN (${sql.join(params.sources.map((s) => sql`${s}`), sql`, `)})`);
+  }
+  const filterSql = filters.length > 0 ? sql`WHERE ${sql.join(filters, sql` AND `)}` : sql``;
+  const offset = (params.page - 1) * params.pageSize;
+
+  return sql`
+    WITH matches AS (
+      SELECT
+        'household' AS kind,
+        m.id,
+        m.household_id,
+        m.name,
+        m.description,
+        m.cuisine,
+        m.image,
+        COALESCE(m.rating, 0) AS rating,
+        COALESCE(m.is_favorite, FALSE) AS is_favorite,
+        ${hasNutritionSql} AS has_nutrition,
+        ${sourcePlatformSql(columns)} AS source_platform,
+        NULL::text AS collection,
+        ${householdMatch.rank} AS rank
+      FROM meals m
+      WHERE m.household_id = ${params.householdId}
+        AND ${householdMatch.where}
+      ${globalBranch}
+    ),
+    filtered AS (
+      SELECT * FROM matches
+      ${filterSql}
+    )
+    SELECT
+      (SELECT COUNT(*)::int FROM filtered) AS "total",
+      (
+        SELECT COALESCE(json_agg(page), '[]'::json)
+        FROM (
+          SELECT
+            kind,
+            id,
+            household_id AS "householdId",
+            name,
+            description,
+            cuisine,
+            image,
+            rating,
+            is_favorite AS "isFavorite",
+            has_nutrition AS "hasNutrition",
+            source_platform AS "sourcePlatform",
+            collection
+          FROM filtered
+          ORDER BY rank DESC, lower(name), id
+          LIMIT ${params.pageSize}
+          OFFSET ${offset}
+        ) page
+      ) AS "items",
+      (
+        SELECT COALESCE(json_agg(c), '[]'::json)
+        FROM (
+          SELECT lower(cuisine) AS value, COUNT(*)::int AS count
+          FROM matches
+          WHERE cuisine IS NOT NULL AND cuisine <> ''
+          GROUP BY lower(cuisine)
+          ORDER BY count DESC, value
+          LIMIT ${MAX_FACET_VALUES}
+        ) c
+      ) AS "cuisines",
+      (
+        SELECT COALESCE(json_agg(r), '[]'::json)
+        FROM (
+          SELECT rating AS value, COUNT(*)::int AS count
+          FROM matches
+          WHERE kind = 'household'
+          GROUP BY rating
+          ORDER BY rating DESC
+        ) r
+      ) AS "ratings",
+      (
+        SELECT COALESCE(json_agg(s), '[]'::json)
+        FROM (
+          SELECT source_platform AS value, COUNT(*)::int AS count
+          FROM matches
+          WHERE kind = 'household'
+          GROUP BY source_platform
+          ORDER BY count DESC, value
+        ) s
+      ) AS "sources",
+      (
+        SELECT COALESCE(json_agg(col), '[]'::json)
+        FROM (
+          SELECT collection AS value, COUNT(*)::int AS count
+          FROM matches
+          WHERE kind = 'global' AND collection IS NOT NULL
+          GROUP BY collection
+          ORDER BY count DESC, value
+          LIMIT ${MAX_FACET_VALUES}
+        ) col
+      ) AS "collections",
+      (SELECT COUNT(*)::int FROM matches WHERE is_favorite) AS "favoriteCount",
+      (SELECT COUNT(*)::int FROM matches WHERE has_nutrition) AS "withNutritionCount";
+  `;
+}
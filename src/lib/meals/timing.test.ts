@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { validateGeneratedMeal } from '@/lib/ai/generateMeal';
+import {
+  MealTimingValidationError,
+  normalizeDurationMinutes,
+  normalizeMealTiming,
+  parseMealTimingFields,
+  parseMealTimingFilters,
+} from './timing';
+
+test('normalizeDurationMinutes reads minutes, ISO 8601 durations and free text', () => {
+  assert.equal(normalizeDurationMinutes(25), 25);
+  assert.equal(normalizeDurationMinutes('PT1H30M'), 90);
+  assert.equal(normalizeDurationMinutes('P0DT45M'), 45);
+  assert.equal(normalizeDurationMinutes('PT90S'), 2);
+  assert.equal(normalizeDurationMinutes('1 hr 15 mins'), 75);
+  assert.equal(normalizeDurationMinutes('1.5 hours'), 90);
+  assert.equal(normalizeDurationMinutes('20'), 20);
+  assert.equal(normalizeDurationMinutes('PT'), null);
+  assert.equal(normalizeDurationMinutes('PT0M'), null);
+  assert.equal(normalizeDurationMinutes('a while'), null);
+  assert.equal(normalizeDurationMinutes(60 * 24 * 3), null);
+});
+
+test('normalizeMealTiming derives a missing total and maps difficulty synonyms', () => {
+  assert.deepEqual(normalizeMealTiming({ prepTimeMinutes: 'PT10M', cookTimeMinutes: 20, difficulty: 'Beginner' }), {
+    prepTimeMinutes: 10,
+    cookTimeMinutes: 20,
+    totalTimeMinutes: 30,
+    difficulty: 'easy',
+  });
+  assert.deepEqual(normalizeMealTiming({ totalTimeMinutes: '2 hours', difficulty: 'impossible' }), { totalTimeMinutes: 120 });
+});
+
+test('validateGeneratedMeal keeps usable timing and drops the rest', () => {
+  const meal = validateGeneratedMeal(
+    {
+      meal: {
+        name: 'weeknight fried rice',
+        ingredients: [{ name: 'rice', quantity: 2, unit: 'cup' }],
+        prepTimeMinutes: 10,
+        cookTimeMinutes: null,
+        totalTimeMinutes: 'soon',
+        difficulty: 'easy',
+      },
+    },
+    12,
+  );
+  assert.equal(meal.prepTimeMinutes, 10);
+  assert.equal(meal.cookTimeMinutes, undefined);
+  assert.equal(meal.totalTimeMinutes, 10);
+  assert.equal(meal.difficulty, 'easy');
+});
+
+test('parseMealTimingFields and parseMealTimingFilters validate request input', () => {
+  assert.deepEqual(parseMealTimingFields({ prepTimeMinutes: 15, cookTimeMinutes: null, difficulty: 'HARD' }), {
+    prepTimeMinutes: 15,
+    cookTimeMinutes: null,
+    difficulty: 'hard',
+  });
+  assert.throws(() => parseMealTimingFields({ totalTimeMinutes: '30' }), MealTimingValidationError);
+  assert.throws(() => parseMealTimingFields({ difficulty: 'trivial' }), /Invalid difficulty/);
+
+  assert.deepEqual(parseMealTimingFilters(new URLSearchParams('maxTotalTime=30&difficulty=easy,medium&difficulty=easy')), {
+    maxPrepTime: undefined,
+    maxCookTime: undefined,
+    maxTotalTime: 30,
+    difficulties: ['easy', 'medium'],
+  });
+  assert.throws(() => parseMealTimingFilters(new URLSearchParams('maxPrepTime=0')), /Invalid maxPrepTime/);
+});
@@ -0,0 +1,185 @@
+import { normalizeWhitespace, stripControlChars } from '@/lib/validation';
+
+export const MEAL_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type MealDifficulty = (typeof MEAL_DIFFICULTIES)[number];
+
+export type MealTiming = {
+  prepTimeMinutes?: number;
+  cookTimeMinutes?: number;
+  totalTimeMinutes?: number;
+  difficulty?: MealDifficulty;
+};
+
+// As sent to POST/PUT /api/meals, where null clears a field.
+export type MealTimingFields = {
+  prepTimeMinutes?: number | null;
+  cookTimeMinutes?: number | null;
+  totalTimeMinutes?: number | null;
+  difficulty?: MealDifficulty | null;
+};
+
+export type MealTimingFilters = {
+  maxPrepTime?: number;
+  maxCookTime?: number;
+  maxTotalTime?: number;
+  difficulties: MealDifficulty[];
+};
+
+// Two days covers brines, doughs and slow ferments; anything longer is almost certainly a parse error.
+export const MAX_MEAL_MINUTES = 2880;
+
+export class MealTimingValidationError extends Error {
+  readonly name = 'MealTimingValidationError';
+}
+
+/**
+ * Parses an ISO 8601 duration as used by schema.org Recipe (`PT1H30M`, `P0DT45M`) into minutes.
+ */
+export function parseIsoDurationMinutes(value: string): number | null {
+  const match = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(
+    value.trim(),
+  );
+  if (!match || value.trim().length <= 2) return null;
+  const [, days, hours, minutes, seconds] = match;
+  if (days == null && hours == null && minutes == null && seconds == null) return null;
+  return (
+    Number(days ?? 0) * 1440 + Number(hours ?? 0) * 60 + Number(minutes ?? 0) + Number(seconds ?? 0) / 60
+  );
+}
+
+// Free-text durations as they appear in captions or model output: "45 min", "1 hr 15 mins", "1.5 hours".
+function parseTextDurationMinutes(value: string): number | null {
+  const text = value.toLowerCase();
+  let total = 0;
+  let matched = false;
+  for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours|m|min|mins|minute|minutes)\b/g)) {
+    matched = true;
+    total += match[2].startsWith('h') ? Number(match[1]) * 60 : Number(match[1]);
+  }
+  if (matched) return total;
+  return /^\d+(?:\.\d+)?$/.test(text.trim()) ? Number(text.trim()) : null;
+}
+
+/**
+ * Normalizes a duration (minutes as a number, an ISO 8601 duration or "1 hr 10 min") to whole
+ * minutes. Returns null for empty, zero or out-of-range values.
+ */
+export function normalizeDurationMinutes(value: unknown): number | null {
+  let minutes: number | null = null;
+  if (typeof value === 'number') {
+    minutes = value;
+  } else if (typeof value === 'string') {
+    const cleaned = normalizeWhitespace(stripControlChars(value));
+    if (!cleaned) return null;
+    minutes = /^P/i.test(cleaned) ? parseIsoDurationMinutes(cleaned) : parseTextDurationMinutes(cleaned);
+  }
+  if (minutes == null || !Number.isFinite(minutes)) return null;
+  const rounded = Math.round(minutes);
+  if (rounded <= 0 || rounded > MAX_MEAL_MINUTES) return null;
+  return rounded;
+}
+
+export function normalizeDifficulty(value: unknown): MealDifficulty | null {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((MEAL_DIFFICULTIES as readonly string[]).includes(key)) return key as MealDifficulty;
+  if (key === 'simple' || key === 'beginner') return 'easy';
+  if (key === 'intermediate' || key === 'moderate') return 'medium';
+  if (key === 'advanced' || key === 'difficult' || key === 'challenging') return 'hard';
+  return null;
+}
+
+/**
+ * Normalizes model or import output, where bad values are dropped rather than rejected.
+ * A missing total is derived from prep + cook.
+ */
+export function normalizeMealTiming(raw: {
+  prepTimeMinutes?: unknown;
+  cookTimeMinutes?: unknown;
+  totalTimeMinutes?: unknown;
+  difficulty?: unknown;
+}): MealTiming {
+  const prepTimeMinutes = normalizeDurationMinutes(raw.prepTimeMinutes);
+  const cookTimeMinutes = normalizeDurationMinutes(raw.cookTimeMinutes);
+  const derivedTotal =
+    prepTimeMinutes != null || cookTimeMinutes != null
+      ? normalizeDurationMinutes((prepTimeMinutes ?? 0) + (cookTimeMinutes ?? 0))
+      : null;
+  const totalTimeMinutes = normalizeDurationMinutes(raw.totalTimeMinutes) ?? derivedTotal;
+  const difficulty = normalizeDifficulty(raw.difficulty);
+
+  const out: MealTiming = {};
+  if (prepTimeMinutes != null) out.prepTimeMinutes = prepTimeMinutes;
+  if (cookTimeMinutes != null) out.cookTimeMinutes = cookTimeMinutes;
+  if (totalTimeMinutes != null) out.totalTimeMinutes = totalTimeMinutes;
+  if (difficulty) out.difficulty = difficulty;
+  return out;
+}
+
+/**
+ * Validates timing fields from a POST/PUT /api/meals body. Only provided fields are returned;
+ * `null` clears a field.
+ */
+export function parseMealTimingFields(body: Record<string, unknown>): MealTimingFields {
+  const out: MealTimingFields = {};
+  for (const field of ['prepTimeMinutes', 'cookTimeMinutes', 'totalTimeMinutes'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      out[field] = null;
+      continue;
+    }
+    const minutes = typeof value === 'number' && Number.isInteger(value) ? normalizeDurationMinutes(value) : null;
+    if (minutes == null) throw new MealTimingValidationError(`Invalid ${field}`);
+    out[field] = minutes;
+  }
+
+  if (body.difficulty !== undefined) {
+    const difficulty = body.difficulty === null ? null : normalizeDifficulty(body.difficulty);
+    if (body.difficulty !== null && !difficulty) throw new MealTimingValidationError('Invalid difficulty');
+    out.difficulty = difficulty;
+  }
+
+  return out;
+}
+
+function parseMaxMinutes(value: string | null, field: string): number | undefined {
+  if (value == null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_MEAL_MINUTES) {
+    throw new MealTimingValidationError(`Invalid ${field}`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads `maxPrepTime`, `maxCookTime`, `maxTotalTime` (minutes) and `difficulty` (repeatable or
+ * comma-separated) from GET /api/meals query params.
+ */
+export function parseMealTimingFilters(searchParams: URLSearchParams): MealTimingFilters {
+  const difficulties: MealDifficulty[] = [];
+  for (const raw of searchParams.getAll('difficulty')) {
+    for (const part of raw.split(',')) {
+      if (!part.trim()) continue;
+      const difficulty = normalizeDifficulty(part);
+      if (!difficulty) throw new MealTimingValidationError('Invalid difficulty');
+      if (!difficulties.includes(difficulty)) difficulties.push(difficulty);
+    }
+  }
+
+  return {
+    maxPrepTime: parseMaxMinutes(searchParams.get('maxPrepTime'), 'maxPrepTime'),
+    maxCookTime: parseMaxMinutes(searchParams.get('maxCookTime'), 'maxCookTime'),
+    maxTotalTime: parseMaxMinutes(searchParams.get('maxTotalTime'), 'maxTotalTime'),
+    difficulties,
+  };
+}
+
+export function hasMealTimingFilters(filters: MealTimingFilters): boolean {
+  return (
+    filters.maxPrepTime !== undefined ||
+    filters.maxCookTime !== undefined ||
+    filters.maxTotalTime !== undefined ||
+    filters.difficulties.length > 0
+  );
+}
@@ -2,8 +2,11 @@ import { randomUUID } from 'crypto';
 import { and, eq, sql } from 'drizzle-orm';
 import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
 
+import { getNotificationSettingsSelect, getPlansSelect } from '@/db/compat';
 import * as schema from '@/db/schema';
 import { households, notificationSettings, notificationSends, plans, pushTokens } from '@/db/schema';
+import { getTemplateCoveredSlots } from '@/lib/plans/templates';
+import { PLAN_SLOTS, validatePlanSlot, type PlanSlot } from '@/lib/validation';
 
 type ReminderType = 'plan_gap_today' | 'plan_gap_tomorrow' | 'miss_you';
 
@@ -150,13 +153,67 @@ async function sendExpoPush(messages: ExpoPushMessage[]): Promise<Array<{ token:
 
 type Database = NeonHttpDatabase<typeof schema>;
 
-async function hasAnyPlanForDate(database: Database, householdId: string, dateKey: string): Promise<boolean> {
+/**
+ * The slots a user wants reminders for; anything but a list means the dinner-only default.
+ * Unknown slots are dropped, so an empty list turns slot reminders off.
+ */
+export function parseReminderSlots(value: unknown): PlanSlot[] {
+  if (!Array.isArray(value)) return ['dinner'];
+  const out: PlanSlot[] = [];
+  for (const raw of value) {
+    const slot = validatePlanSlot(raw);
+    if (slot && !out.includes(slot)) out.push(slot);
+  }
+  return out;
+}
+
+async function getTemplateCoveredSlotsSafe(database: Database, householdId: string, dateKey: string): Promise<Set<PlanSlot>> {
+  try {
+    return (await getTemplateCoveredSlots(database, [householdId], dateKey)).get(householdId) ?? new Set();
+  } catch (error) {
+    // Templates are optional (table may not be migrated yet); fall back to plan rows only.
+    console.warn('[NOTIFICATIONS] plan template lookup failed', error);
+    return new Set();
+  }
+}
+
+/**
+ * Returns the tracked slots with nothing planned on `dateKey`. Slots covered by an active
+ * recurring template count as planned even before the template's plan row is materialized.
+ * With no tracked slots, any plan on the day counts (the pre-slot behaviour).
+ */
+async function getMissingSlotsForDate(
+  database: Database,
+  householdId: string,
+  dateKey: string,
+  trackedSlots: PlanSlot[],
+): Promise<PlanSlot[]> {
+  const plansSelect = await getPlansSelect(database);
   const rows = await database
-    .select({ id: plans.id })
+    .selectDistinct({ slot: plansSelect.slot })
     .from(plans)
-    .where(and(eq(plans.householdId, householdId), eq(plans.date, dateKey)))
-    .limit(1);
-  return rows.length > 0;
+    .where(and(eq(plans.householdId, householdId), eq(plans.date, dateKey)));
+  const planned = new Set<string>(rows.map((row) => row.slot));
+  for (const slot of await getTemplateCoveredSlotsSafe(database, householdId, dateKey)) planned.add(slot);
+
+  if (trackedSlots.length === 0) return planned.size > 0 ? [] : ['dinner'];
+  return PLAN_SLOTS.filter((slot) => trackedSlots.includes(slot) && !planned.has(slot));
+}
+
+function formatSlotList(slots: PlanSlot[]): string {
+  if (slots.length <= 1) return slots[0] ?? 'a meal';
+  return `${slots.slice(0, -1).join(', ')} and ${slots[slots.length - 1]}`;
+}
+
+// The base copy is written for dinner; other slot combinations get a slot-specific body.
+function applySlotCopy(copy: CopyVariant, type: ReminderType, missingSlots: PlanSlot[]): CopyVariant {
+  if (type === 'miss_you') return copy;
+  if (missingSlots.length === 0 || (missingSlots.length === 1 && missingSlots[0] === 'dinner')) return copy;
+  const day = type === 'plan_gap_today' ? 'today' : 'tomorrow';
+  return {
+    title: type === 'plan_gap_today' ? 'Plan today in 30 seconds' : 'Quick plan for tomorrow?',
+    body: `No ${formatSlotList(missingSlots)} planned for ${day} yet. Add one in Mealo.`,
+  };
 }
 
 async function getUserSendCountForDay(database: Database, userId: string, dayKey: string): Promise<number> {
@@ -191,6 +248,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
   const allowlist = parseAllowlist(process.env.NOTIFICATIONS_ALLOWLIST_USER_IDS);
   const now = new Date();
 
+  const settingsSelect = await getNotificationSettingsSelect(database);
   const rows = await database
     .select({
       userId: notificationSettings.userId,
@@ -203,6 +261,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
       remindTodayMissing: notificationSettings.remindTodayMissing,
       remindTomorrowMissing: notificationSettings.remindTomorrowMissing,
       remindMissYou: notificationSettings.remindMissYou,
+      reminderSlots: settingsSelect.reminderSlots,
       lastSeenAt: notificationSettings.lastSeenAt,
       pushTokenId: pushTokens.id,
       pushToken: pushTokens.token,
@@ -227,6 +286,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
       remindTodayMissing: boolean;
       remindTomorrowMissing: boolean;
       remindMissYou: boolean;
+      reminderSlots: PlanSlot[];
       lastSeenAt: Date | null;
       tokens: Array<{ id: string; token: string }>;
     }
@@ -263,6 +323,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
       remindTodayMissing: Boolean(row.remindTodayMissing),
       remindTomorrowMissing: Boolean(row.remindTomorrowMissing),
       remindMissYou: Boolean(row.remindMissYou),
+      reminderSlots: parseReminderSlots(row.reminderSlots),
       lastSeenAt: row.lastSeenAt instanceof Date ? row.lastSeenAt : null,
       tokens: tokenOk ? [{ id: tokenId, token }] : [],
     });
@@ -307,20 +368,23 @@ export async function runNotificationReminderSweep(database: Database): Promise<
 
     let typeToSend: ReminderType | null = null;
     let dateKeyToSend: string | null = null;
+    let missingSlots: PlanSlot[] = [];
 
     if (user.remindTodayMissing && hour >= 8 && hour < 12) {
-      const planned = await hasAnyPlanForDate(database, user.householdId, todayDateKey);
-      if (!planned) {
+      const missing = await getMissingSlotsForDate(database, user.householdId, todayDateKey, user.reminderSlots);
+      if (missing.length > 0) {
         typeToSend = 'plan_gap_today';
         dateKeyToSend = todayDateKey;
+        missingSlots = missing;
       }
     }
 
     if (!typeToSend && user.remindTomorrowMissing && hour >= 18 && hour < 22) {
-      const planned = await hasAnyPlanForDate(database, user.householdId, tomorrowDateKey);
-      if (!planned) {
+      const missing = await getMissingSlotsForDate(database, user.householdId, tomorrowDateKey, user.reminderSlots);
+      if (missing.length > 0) {
         typeToSend = 'plan_gap_tomorrow';
         dateKeyToSend = tomorrowDateKey;
+        missingSlots = missing;
       }
     }
 
@@ -337,7 +401,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
 
     if (!typeToSend || !dateKeyToSend) continue;
 
-    const copy = pickVariant(typeToSend, `${user.userId}:${dayKey}`);
+    const copy = applySlotCopy(pickVariant(typeToSend, `${user.userId}:${dayKey}`), typeToSend, missingSlots);
 
     // Create a send record first (dedupe safety). If this conflicts, skip sending.
     const inserted = await database
@@ -349,7 +413,13 @@ export async function runNotificationReminderSweep(database: Database): Promise<
         type: typeToSend,
         dayKey,
         dateKey: dateKeyToSend,
-        meta: { title: copy.title, body: copy.body, hour, household: user.householdName ?? undefined },
+        meta: {
+          title: copy.title,
+          body: copy.body,
+          hour,
+          household: user.householdName ?? undefined,
+          missingSlots: missingSlots.length ? missingSlots : undefined,
+        },
         createdAt: now,
       })
       .onConflictDoNothing({
@@ -369,6 +439,7 @@ export async function runNotificationReminderSweep(database: Database): Promise<
         screen: 'planner',
         dateKey: dateKeyToSend,
         householdId: user.householdId,
+        ...(missingSlots.length ? { missingSlots } : null),
       },
     }));
 
@@ -1,4 +1,5 @@
 import { AiConfigError, AiProviderError, AiTimeoutError, AiValidationError, extractJsonObject } from '@/lib/ai/generateMeal';
+import { convertQuantity, toBaseQuantity } from '@/lib/units/unitConversion';
 import { normalizeWhitespace, stripControlChars } from '@/lib/validation';
 
 export type NutritionFacts = {
@@ -145,17 +146,20 @@ function normalizeQuantityForCache(value: unknown): string {
   return normalizeText(trimmed, 24).toLowerCase();
 }
 
+function parseQuantity(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+  return null;
+}
+
 export function hasIngredientQuantities(ingredients: unknown): boolean {
   if (!Array.isArray(ingredients)) return false;
   return ingredients.some((item) => {
     if (!item || typeof item !== 'object') return false;
-    const quantity = (item as Record<string, unknown>).quantity;
-    if (typeof quantity === 'number') return Number.isFinite(quantity) && quantity > 0;
-    if (typeof quantity === 'string') {
-      const parsed = Number(quantity.trim());
-      return Number.isFinite(parsed) && parsed > 0;
-    }
-    return false;
+    return parseQuantity((item as Record<string, unknown>).quantity) != null;
   });
 }
 
@@ -182,13 +186,19 @@ export function buildNutritionCacheKey(input: {
       const row = raw as Record<string, unknown>;
       const name = normalizeText(row.name ?? row.ingredientKey, 80).toLowerCase();
       if (!name) return '';
+      // Convert to g / ml so equivalent amounts ("1 kg" vs "1000 g") share a cache entry.
+      const parsedQuantity = parseQuantity(row.quantity);
+      if (parsedQuantity != null) {
+        const base = toBaseQuantity(parsedQuantity, normalizeText(row.unit, 24));
+        return `${name}|${normalizeNumberForCache(base.quantity)}|${base.unit}`;
+      }
       const quantity = normalizeQuantityForCache(row.quantity);
       const unit = normalizeText(row.unit, 24).toLowerCase();
       return `${name}|${quantity}|${unit}`;
     })
     .filter(Boolean)
     .sort();
-  return `v1|${mealName}|${servings}|${parts.join(';')}`;
+  return `v2|${mealName}|${servings}|${parts.join(';')}`;
 }
 
 function pruneNutritionCache(nowMs: number): void {
@@ -229,6 +239,19 @@ export function clearNutritionComputationCacheForTests(): void {
   inFlightNutritionByKey.clear();
 }
 
+// Adds a gram estimate to volume/imperial quantities so the model doesn't have to guess conversions.
+function withApproxGrams(raw: unknown): unknown {
+  if (!isRecord(raw)) return raw;
+  const quantity = parseQuantity(raw.quantity);
+  const name = normalizeText(raw.name, 80);
+  if (quantity == null || !name) return raw;
+  const unit = normalizeText(raw.unit, 24);
+  if (!unit || unit.toLowerCase() === 'g') return raw;
+  const grams = convertQuantity(quantity, unit, 'g', { ingredientName: name });
+  if (grams == null) return raw;
+  return { ...raw, approxGrams: Math.round(grams) };
+}
+
 async function computeMealNutritionFromIngredientsUncached(
   input: {
     mealName?: string;
@@ -285,7 +308,7 @@ async function computeMealNutritionFromIngredientsUncached(
   if (mealName) userPromptLines.push(`Meal name: ${mealName}`);
   if (servings) userPromptLines.push(`Servings: ${servings}`);
   userPromptLines.push('Ingredients JSON:');
-  userPromptLines.push(JSON.stringify(ingredients));
+  userPromptLines.push(JSON.stringify(ingredients.map(withApproxGrams)));
 
   const res = await fetchWithTimeout(
     endpoint,
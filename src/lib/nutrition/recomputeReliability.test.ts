@@ -7,10 +7,6 @@ import {
   computeMealNutritionFromIngredients,
   hasIngredientQuantities,
 } from './computeMealNutrition';
-import {
-  canRecomputeNutritionForUser,
-  clearNutritionRecomputeRateLimitForTests,
-} from './recomputeRateLimit';
 
 const ORIGINAL_ENV = { ...process.env };
 
@@ -111,12 +107,3 @@ test('computeMealNutritionFromIngredients reuses cache and in-flight requests',
   assert.deepEqual(second, first);
   assert.deepEqual(third, first);
 });
-
-test('canRecomputeNutritionForUser enforces a fixed 25s window', () => {
-  clearNutritionRecomputeRateLimitForTests();
-
-  const baseMs = 1_000_000;
-  assert.equal(canRecomputeNutritionForUser('user-1', baseMs), true);
-  assert.equal(canRecomputeNutritionForUser('user-1', baseMs + 10_000), false);
-  assert.equal(canRecomputeNutritionForUser('user-1', baseMs + 25_001), true);
-});
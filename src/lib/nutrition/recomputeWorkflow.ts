@@ -27,6 +27,7 @@ export async function autoRecomputeAndPersistMealNutrition(input: {
   mealId: string;
   mealName?: string;
   ingredients: unknown;
+  servings?: number;
   loggerTag?: string;
   timeoutMs?: number;
 }): Promise<AutoNutritionRecomputeResult> {
@@ -51,11 +52,13 @@ export async function autoRecomputeAndPersistMealNutrition(input: {
       {
         mealName: input.mealName,
         ingredients,
+        servings: input.servings,
       },
       {
         cacheKey: buildNutritionCacheKey({
           mealName: input.mealName,
           ingredients,
+          servings: input.servings,
         }),
         timeoutMs: input.timeoutMs ?? AUTO_RECOMPUTE_TIMEOUT_MS,
       },
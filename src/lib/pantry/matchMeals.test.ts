@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { rankMealsByCoverage, toOnHandSet, type MatchableMeal } from './matchMeals';
+
+const meals: MatchableMeal[] = [
+  {
+    id: 'omelette',
+    name: 'Omelette',
+    source: 'household',
+    ingredients: [{ name: 'Eggs' }, { name: 'Butter' }, { name: 'Chives' }],
+  },
+  {
+    id: 'fried-rice',
+    name: 'Fried Rice',
+    source: 'global',
+    ingredients: [{ name: 'Rice' }, { name: 'eggs' }, { name: 'Soy Sauce' }, { name: 'Spring Onion' }],
+  },
+  { id: 'global-omelette', name: 'omelette', source: 'global', ingredients: [{ name: 'Eggs' }] },
+  { id: 'salad', name: 'Salad', source: 'household', ingredients: [{ name: 'Lettuce' }] },
+  { id: 'empty', name: 'Mystery', source: 'household', ingredients: [] },
+];
+
+test('toOnHandSet uses the ingredients catalog normalization', () => {
+  assert.deepEqual(Array.from(toOnHandSet(['  Soy   Sauce ', 'EGGS', '', 42, { name: 'Rice' }])), ['soy sauce', 'eggs', 'rice']);
+});
+
+test('rankMealsByCoverage orders by coverage and lists missing ingredients', () => {
+  const ranked = rankMealsByCoverage(meals, toOnHandSet(['eggs', 'butter', 'rice', 'soy sauce']));
+
+  assert.deepEqual(
+    ranked.map((m) => [m.id, m.coverage, m.missing]),
+    [
+      ['fried-rice', 0.75, ['Spring Onion']],
+      ['omelette', 0.667, ['Chives']],
+    ],
+  );
+  assert.deepEqual(ranked[1].matched, ['Eggs', 'Butter']);
+  assert.deepEqual(
+    rankMealsByCoverage(meals, toOnHandSet(['eggs']), { maxMissing: 2 }).map((m) => m.id),
+    ['omelette'],
+  );
+});
@@ -0,0 +1,117 @@
+import { normalizeNameForLookup } from '@/lib/ingredients';
+import { normalizeTitleCase } from '@/lib/normalizeMeal';
+import { normalizeWhitespace, stripControlChars } from '@/lib/validation';
+
+export type MatchableMeal = {
+  id: string;
+  name: string;
+  ingredients: unknown;
+  source: 'household' | 'global';
+  image?: string | null;
+  cuisine?: string | null;
+};
+
+export type MealMatch = {
+  id: string;
+  name: string;
+  source: 'household' | 'global';
+  image: string | null;
+  cuisine: string | null;
+  matchedCount: number;
+  totalCount: number;
+  // Share of the meal's distinct ingredients that are on hand, 0-1.
+  coverage: number;
+  matched: string[];
+  missing: string[];
+};
+
+export const MAX_ON_HAND_INGREDIENTS = 200;
+
+function ingredientName(raw: unknown): string {
+  const name =
+    typeof raw === 'string'
+      ? raw
+      : raw && typeof raw === 'object' && typeof (raw as Record<string, unknown>).name === 'string'
+        ? ((raw as Record<string, unknown>).name as string)
+        : '';
+  return normalizeWhitespace(stripControlChars(name)).slice(0, 120);
+}
+
+/**
+ * Normalizes an on-hand list the same way the ingredients catalog does (`name_normalized`).
+ */
+export function toOnHandSet(names: unknown[]): Set<string> {
+  const out = new Set<string>();
+  for (const raw of names) {
+    const normalized = normalizeNameForLookup(ingredientName(raw));
+    if (normalized) out.add(normalized);
+    if (out.size >= MAX_ON_HAND_INGREDIENTS) break;
+  }
+  return out;
+}
+
+/**
+ * Scores one meal against the on-hand set. Returns null for meals without usable ingredients.
+ */
+export function matchMeal(meal: MatchableMeal, onHand: Set<string>): MealMatch | null {
+  if (!Array.isArray(meal.ingredients)) return null;
+
+  const seen = new Set<string>();
+  const matched: string[] = [];
+  const missing: string[] = [];
+  for (const raw of meal.ingredients) {
+    const name = ingredientName(raw);
+    const normalized = normalizeNameForLookup(name);
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    (onHand.has(normalized) ? matched : missing).push(normalizeTitleCase(name));
+  }
+
+  const totalCount = seen.size;
+  if (totalCount === 0) return null;
+  return {
+    id: meal.id,
+    name: meal.name,
+    source: meal.source,
+    image: meal.image ?? null,
+    cuisine: meal.cuisine ?? null,
+    matchedCount: matched.length,
+    totalCount,
+    coverage: Math.round((matched.length / totalCount) * 1000) / 1000,
+    matched,
+    missing,
+  };
+}
+
+/**
+ * Ranks meals by ingredient coverage, then by fewest missing items. Meals with nothing on hand
+ * or more than `maxMissing` missing ingredients are left out. A household meal wins over a
+ * global meal of the same name, since it is the version the household actually cooks.
+ */
+export function rankMealsByCoverage(
+  meals: MatchableMeal[],
+  onHand: Set<string>,
+  options: { maxMissing?: number; limit?: number } = {},
+): MealMatch[] {
+  const householdNames = new Set(
+    meals.filter((meal) => meal.source === 'household').map((meal) => normalizeNameForLookup(meal.name)),
+  );
+
+  const matches: MealMatch[] = [];
+  for (const meal of meals) {
+    if (meal.source === 'global' && householdNames.has(normalizeNameForLookup(meal.name))) continue;
+    const match = matchMeal(meal, onHand);
+    if (!match || match.matchedCount === 0) continue;
+    if (options.maxMissing != null && match.missing.length > options.maxMissing) continue;
+    matches.push(match);
+  }
+
+  matches.sort(
+    (a, b) =>
+      b.coverage - a.coverage ||
+      a.missing.length - b.missing.length ||
+      (a.source === b.source ? 0 : a.source === 'household' ? -1 : 1) ||
+      a.name.localeCompare(b.name),
+  );
+  return options.limit != null ? matches.slice(0, options.limit) : matches;
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { getPantryItemStatus, PantryValidationError, parsePantryItemFields } from './pantry';
+
+test('parsePantryItemFields normalizes names and units and validates amounts', () => {
+  assert.deepEqual(
+    parsePantryItemFields({ name: '  olive   oil ', quantity: '750', unit: 'millilitres', expiresOn: '2025-06-01' }, { partial: false }),
+    { name: 'Olive Oil', nameNormalized: 'olive oil', quantity: 750, unit: 'ml', expiresOn: '2025-06-01' },
+  );
+  assert.deepEqual(parsePantryItemFields({ quantity: null, unit: '' }, { partial: true }), { quantity: null, unit: null });
+
+  assert.throws(() => parsePantryItemFields({ quantity: 1 }, { partial: false }), /Missing name/);
+  assert.throws(() => parsePantryItemFields({ name: 'Rice', quantity: -1 }, { partial: false }), PantryValidationError);
+  assert.throws(() => parsePantryItemFields({ unit: 'bucket' }, { partial: true }), /Invalid unit/);
+  assert.throws(() => parsePantryItemFields({ expiresOn: 'soon' }, { partial: true }), /Invalid expiresOn/);
+});
+
+test('getPantryItemStatus flags low stock and upcoming or past expiry', () => {
+  const today = '2025-03-10';
+  assert.deepEqual(getPantryItemStatus({ quantity: 1, lowStockThreshold: 2, expiresOn: '2025-03-12' }, today), {
+    isLow: true,
+    isExpired: false,
+    isExpiringSoon: true,
+    expiresInDays: 2,
+  });
+  assert.deepEqual(getPantryItemStatus({ quantity: 5, lowStockThreshold: 2, expiresOn: '2025-03-09' }, today), {
+    isLow: false,
+    isExpired: true,
+    isExpiringSoon: false,
+    expiresInDays: -1,
+  });
+  assert.equal(getPantryItemStatus({ quantity: 0, lowStockThreshold: null, expiresOn: null }, today).isLow, true);
+  assert.equal(getPantryItemStatus({ quantity: null, lowStockThreshold: 1, expiresOn: '2025-03-20' }, today, 14).isExpiringSoon, true);
+});
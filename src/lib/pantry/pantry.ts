@@ -0,0 +1,113 @@
+import { normalizeNameForLookup } from '@/lib/ingredients';
+import { normalizeTitleCase } from '@/lib/normalizeMeal';
+import { addDays, daysBetween } from '@/lib/plans/bulkPlanOperations';
+import { normalizeUnit } from '@/lib/units/unitConversion';
+import { normalizeWhitespace, stripControlChars, validatePlanDate } from '@/lib/validation';
+
+export type PantryItemFields = {
+  name?: string;
+  nameNormalized?: string;
+  category?: string | null;
+  quantity?: number | null;
+  unit?: string | null;
+  lowStockThreshold?: number | null;
+  expiresOn?: string | null;
+};
+
+export type PantryItemStatus = {
+  isLow: boolean;
+  isExpired: boolean;
+  isExpiringSoon: boolean;
+  // Days until expiry (negative once expired), or null without an expiry date.
+  expiresInDays: number | null;
+};
+
+export const DEFAULT_EXPIRING_SOON_DAYS = 3;
+export const MAX_PANTRY_ITEMS = 500;
+const MAX_NAME_LENGTH = 80;
+const MAX_CATEGORY_LENGTH = 40;
+const MAX_QUANTITY = 1_000_000;
+
+export class PantryValidationError extends Error {
+  readonly name = 'PantryValidationError';
+}
+
+function parseAmount(value: unknown, field: string): number | null {
+  if (value === null) return null;
+  const n = typeof value === 'string' && value.trim() ? Number(value.trim()) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || n > MAX_QUANTITY) {
+    throw new PantryValidationError(`Invalid ${field}`);
+  }
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Validates pantry item fields from a request body. With `partial`, only provided fields are
+ * returned (PATCH); otherwise a name is required (POST).
+ */
+export function parsePantryItemFields(body: unknown, options: { partial: boolean }): PantryItemFields {
+  if (!body || typeof body !== 'object') throw new PantryValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: PantryItemFields = {};
+
+  if (input.name !== undefined || !options.partial) {
+    const name = typeof input.name === 'string' ? normalizeWhitespace(stripControlChars(input.name)) : '';
+    if (!name) throw new PantryValidationError('Missing name');
+    out.name = normalizeTitleCase(name.slice(0, MAX_NAME_LENGTH));
+    out.nameNormalized = normalizeNameForLookup(out.name);
+  }
+
+  if (input.category !== undefined) {
+    if (input.category !== null && typeof input.category !== 'string') throw new PantryValidationError('Invalid category');
+    const category = typeof input.category === 'string' ? normalizeWhitespace(stripControlChars(input.category)) : '';
+    out.category = category ? category.slice(0, MAX_CATEGORY_LENGTH) : null;
+  }
+
+  if (input.quantity !== undefined) out.quantity = parseAmount(input.quantity, 'quantity');
+  if (input.lowStockThreshold !== undefined) out.lowStockThreshold = parseAmount(input.lowStockThreshold, 'lowStockThreshold');
+
+  if (input.unit !== undefined) {
+    if (input.unit === null || input.unit === '') {
+      out.unit = null;
+    } else {
+      const unit = normalizeUnit(input.unit);
+      if (!unit) throw new PantryValidationError('Invalid unit');
+      out.unit = unit;
+    }
+  }
+
+  if (input.expiresOn !== undefined) {
+    const expiresOn = input.expiresOn === null ? null : validatePlanDate(input.expiresOn);
+    if (input.expiresOn !== null && !expiresOn) throw new PantryValidationError('Invalid expiresOn');
+    out.expiresOn = expiresOn;
+  }
+
+  return out;
+}
+
+export function parseExpiringSoonDays(value: string | null): number {
+  const parsed = Number(value);
+  if (value === null || value === '' || !Number.isInteger(parsed) || parsed < 0) return DEFAULT_EXPIRING_SOON_DAYS;
+  return Math.min(parsed, 60);
+}
+
+/**
+ * An item is low once its quantity reaches its threshold (or zero), and expiring soon when its
+ * expiry date falls within `expiringSoonDays` of today.
+ */
+export function getPantryItemStatus(
+  item: { quantity: number | null; lowStockThreshold: number | null; expiresOn: string | null },
+  today: string,
+  expiringSoonDays: number = DEFAULT_EXPIRING_SOON_DAYS,
+): PantryItemStatus {
+  const isLow =
+    item.quantity != null && (item.quantity <= 0 || (item.lowStockThreshold != null && item.quantity <= item.lowStockThreshold));
+  const expiresOn = validatePlanDate(item.expiresOn);
+  const expiresInDays = expiresOn ? daysBetween(today, expiresOn) : null;
+  return {
+    isLow,
+    isExpired: expiresInDays != null && expiresInDays < 0,
+    isExpiringSoon: expiresOn != null && expiresOn >= today && expiresOn <= addDays(today, expiringSoonDays),
+    expiresInDays,
+  };
+}
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  applyBulkPlanOperations,
+  BulkPlanValidationError,
+  getOperationsDateWindow,
+  parseBulkPlanOperations,
+  type PlanRow,
+} from './bulkPlanOperations';
+
+const HOUSEHOLD_ID = '6f1c2a52-7f55-4c8b-9a55-1d2b3c4d5e6f';
+
+function plan(id: string, date: string, slot = 'dinner', mealId = `meal-${id}`): PlanRow {
+  return { id, householdId: HOUSEHOLD_ID, mealId, date, slot, servings: null, isCompleted: true, createdAt: null };
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => {
+    next += 1;
+    return `new-${next}`;
+  };
+}
+
+test('parseBulkPlanOperations rejects unknown types, bad dates and oversized ranges', () => {
+  assert.throws(() => parseBulkPlanOperations([]), BulkPlanValidationError);
+  assert.throws(() => parseBulkPlanOperations([{ type: 'explode' }]), /Unknown operation type/);
+  assert.throws(() => parseBulkPlanOperations([{ type: 'clear', startDate: '2025-01-10', endDate: '2025-01-01' }]), BulkPlanValidationError);
+  assert.throws(() => parseBulkPlanOperations([{ type: 'clear', startDate: '2025-01-01', endDate: '2025-06-01' }]), /too long/);
+  assert.throws(() => parseBulkPlanOperations([{ type: 'swap', dateA: '2025-01-01', dateB: 'tomorrow' }]), /Invalid dateB/);
+
+  const ops = parseBulkPlanOperations([
+    { type: 'copy', sourceStart: '2025-01-06', sourceEnd: '2025-01-12', targetStart: '2025-01-13' },
+  ]);
+  assert.deepEqual(getOperationsDateWindow(ops), { start: '2025-01-06', end: '2025-01-19' });
+});
+
+test('applyBulkPlanOperations copies a week, optionally replacing the target range', () => {
+  const result = applyBulkPlanOperations({
+    householdId: HOUSEHOLD_ID,
+    plans: [plan('a', '2025-01-06'), plan('b', '2025-01-08', 'lunch'), plan('c', '2025-01-14')],
+    operations: parseBulkPlanOperations([
+      { type: 'copy', sourceStart: '2025-01-06', sourceEnd: '2025-01-12', targetStart: '2025-01-13', replace: true },
+    ]),
+    createId: sequentialIds(),
+    now: new Date('2025-01-12T10:00:00Z'),
+  });
+
+  assert.deepEqual(
+    result.created.map((p) => [p.mealId, p.date, p.slot, p.isCompleted]),
+    [
+      ['meal-a', '2025-01-13', 'dinner', false],
+      ['meal-b', '2025-01-15', 'lunch', false],
+    ],
+  );
+  assert.deepEqual(result.deletedIds, ['c']);
+  assert.deepEqual(result.updated, []);
+});
+
+test('applyBulkPlanOperations moves, swaps per slot and clears ranges in order', () => {
+  const result = applyBulkPlanOperations({
+    householdId: HOUSEHOLD_ID,
+    plans: [
+      plan('a', '2025-02-01'),
+      plan('b', '2025-02-02'),
+      plan('c', '2025-02-02', 'breakfast'),
+      plan('d', '2025-02-05'),
+    ],
+    operations: parseBulkPlanOperations([
+      { type: 'swap', dateA: '2025-02-01', dateB: '2025-02-02', slot: 'dinner' },
+      { type: 'move', fromDate: '2025-02-05', toDate: '2025-02-07' },
+      { type: 'clear', startDate: '2025-02-02', endDate: '2025-02-03', slot: 'breakfast' },
+    ]),
+    createId: sequentialIds(),
+    now: new Date(),
+  });
+
+  assert.deepEqual(
+    result.updated.map((p) => [p.id, p.date]),
+    [
+      ['a', '2025-02-02'],
+      ['b', '2025-02-01'],
+      ['d', '2025-02-07'],
+    ],
+  );
+  assert.deepEqual(result.deletedIds, ['c']);
+  assert.deepEqual(result.created, []);
+});
+
+test('applyBulkPlanOperations adds accepted plans after clearing their range', () => {
+  const result = applyBulkPlanOperations({
+    householdId: HOUSEHOLD_ID,
+    plans: [plan('a', '2025-03-03')],
+    operations: parseBulkPlanOperations([
+      { type: 'clear', startDate: '2025-03-03', endDate: '2025-03-04' },
+      {
+        type: 'add',
+        plans: [
+          { date: '2025-03-03', mealId: 'meal-x' },
+          { date: '2025-03-04', slot: 'lunch', mealId: 'meal-y', servings: 2 },
+        ],
+      },
+    ]),
+    createId: sequentialIds(),
+    now: new Date(),
+  });
+
+  assert.deepEqual(result.deletedIds, ['a']);
+  assert.deepEqual(
+    result.created.map((p) => [p.id, p.date, p.slot, p.mealId, p.servings]),
+    [
+      ['new-1', '2025-03-03', 'dinner', 'meal-x', null],
+      ['new-2', '2025-03-04', 'lunch', 'meal-y', 2],
+    ],
+  );
+  assert.throws(() => parseBulkPlanOperations([{ type: 'add', plans: [{ date: '2025-03-03' }] }]), /Invalid mealId/);
+});
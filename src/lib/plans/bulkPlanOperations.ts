@@ -0,0 +1,272 @@
+import {
+  validatePlanDate,
+  validatePlanSlot,
+  validateRecordId,
+  validateServings,
+  validateUuid,
+  type PlanSlot,
+} from '@/lib/validation';
+
+export type PlanRow = {
+  id: string;
+  householdId: string;
+  mealId: string;
+  date: string;
+  slot: string;
+  servings: number | null;
+  isCompleted: boolean | null;
+  createdAt: Date | null;
+};
+
+export type BulkPlanOperation =
+  | { type: 'copy'; sourceStart: string; sourceEnd: string; targetStart: string; replace: boolean; slot?: PlanSlot }
+  | { type: 'move'; fromDate: string; toDate: string; slot?: PlanSlot; planIds?: string[] }
+  | { type: 'swap'; dateA: string; dateB: string; slot?: PlanSlot }
+  | { type: 'clear'; startDate: string; endDate: string; slot?: PlanSlot }
+  | { type: 'add'; plans: Array<{ date: string; slot: PlanSlot; mealId: string; servings: number | null }> };
+
+export type BulkPlanResult = {
+  created: PlanRow[];
+  updated: PlanRow[];
+  deletedIds: string[];
+};
+
+export const MAX_BULK_OPERATIONS = 20;
+export const MAX_BULK_RANGE_DAYS = 62;
+const MAX_PLAN_IDS = 200;
+const MAX_ADDED_PLANS = 62;
+
+export class BulkPlanValidationError extends Error {
+  readonly name = 'BulkPlanValidationError';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function dateToMs(dateKey: string): number {
+  return Date.parse(`${dateKey}T00:00:00Z`);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  return new Date(dateToMs(dateKey) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function daysBetween(start: string, end: string): number {
+  return Math.round((dateToMs(end) - dateToMs(start)) / DAY_MS);
+}
+
+function requireDate(value: unknown, field: string): string {
+  const date = validatePlanDate(value);
+  if (!date) throw new BulkPlanValidationError(`Invalid ${field}`);
+  return date;
+}
+
+function optionalSlot(value: unknown): PlanSlot | undefined {
+  if (value == null) return undefined;
+  const slot = validatePlanSlot(value);
+  if (!slot) throw new BulkPlanValidationError('Invalid slot');
+  return slot;
+}
+
+function requireRange(start: string, end: string): void {
+  const days = daysBetween(start, end);
+  if (days < 0) throw new BulkPlanValidationError('Range end must not be before its start');
+  if (days > MAX_BULK_RANGE_DAYS) {
+    throw new BulkPlanValidationError(`Date range is too long (max ${MAX_BULK_RANGE_DAYS} days)`);
+  }
+}
+
+/**
+ * Validates the `operations` array of a bulk plan request.
+ * Throws BulkPlanValidationError with a client-facing message on the first invalid entry.
+ */
+export function parseBulkPlanOperations(input: unknown): BulkPlanOperation[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new BulkPlanValidationError('operations must be a non-empty array');
+  }
+  if (input.length > MAX_BULK_OPERATIONS) {
+    throw new BulkPlanValidationError(`Too many operations (max ${MAX_BULK_OPERATIONS})`);
+  }
+
+  return input.map((raw): BulkPlanOperation => {
+    if (!raw || typeof raw !== 'object') throw new BulkPlanValidationError('Invalid operation');
+    const op = raw as Record<string, unknown>;
+    const slot = optionalSlot(op.slot);
+
+    switch (op.type) {
+      case 'copy': {
+        const sourceStart = requireDate(op.sourceStart, 'sourceStart');
+        const sourceEnd = requireDate(op.sourceEnd, 'sourceEnd');
+        const targetStart = requireDate(op.targetStart, 'targetStart');
+        requireRange(sourceStart, sourceEnd);
+        return { type: 'copy', sourceStart, sourceEnd, targetStart, replace: op.replace === true, slot };
+      }
+      case 'move': {
+        const fromDate = requireDate(op.fromDate, 'fromDate');
+        const toDate = requireDate(op.toDate, 'toDate');
+        let planIds: string[] | undefined;
+        if (op.planIds !== undefined) {
+          if (!Array.isArray(op.planIds) || op.planIds.length > MAX_PLAN_IDS) {
+            throw new BulkPlanValidationError('Invalid planIds');
+          }
+          planIds = op.planIds.map((id) => {
+            const valid = validateUuid(id);
+            if (!valid) throw new BulkPlanValidationError('Invalid planIds');
+            return valid;
+          });
+        }
+        return { type: 'move', fromDate, toDate, slot, planIds };
+      }
+      case 'swap': {
+        const dateA = requireDate(op.dateA, 'dateA');
+        const dateB = requireDate(op.dateB, 'dateB');
+        return { type: 'swap', dateA, dateB, slot };
+      }
+      case 'clear': {
+        const startDate = requireDate(op.startDate, 'startDate');
+        const endDate = requireDate(op.endDate, 'endDate');
+        requireRange(startDate, endDate);
+        return { type: 'clear', startDate, endDate, slot };
+      }
+      case 'add': {
+        if (!Array.isArray(op.plans) || op.plans.length === 0 || op.plans.length > MAX_ADDED_PLANS) {
+          throw new BulkPlanValidationError(`plans must list 1-${MAX_ADDED_PLANS} entries`);
+        }
+        const added = op.plans.map((entry) => {
+          const item = entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {};
+          const date = requireDate(item.date, 'date');
+          const mealId = validateRecordId(item.mealId);
+          if (!mealId) throw new BulkPlanValidationError('Invalid mealId');
+          const servings = item.servings == null ? null : validateServings(item.servings);
+          if (item.servings != null && servings === null) throw new BulkPlanValidationError('Invalid servings');
+          return { date, slot: optionalSlot(item.slot) ?? 'dinner', mealId, servings };
+        });
+        return { type: 'add', plans: added };
+      }
+      default:
+        throw new BulkPlanValidationError('Unknown operation type');
+    }
+  });
+}
+
+/**
+ * Returns the inclusive date window the operations read from or write to,
+ * so the caller can load every affected plan in one query.
+ */
+export function getOperationsDateWindow(operations: BulkPlanOperation[]): { start: string; end: string } {
+  const dates: string[] = [];
+  for (const op of operations) {
+    if (op.type === 'copy') {
+      dates.push(op.sourceStart, op.sourceEnd, op.targetStart, addDays(op.targetStart, daysBetween(op.sourceStart, op.sourceEnd)));
+    } else if (op.type === 'move') {
+      dates.push(op.fromDate, op.toDate);
+    } else if (op.type === 'swap') {
+      dates.push(op.dateA, op.dateB);
+    } else if (op.type === 'add') {
+      dates.push(...op.plans.map((plan) => plan.date));
+    } else {
+      dates.push(op.startDate, op.endDate);
+    }
+  }
+  dates.sort();
+  return { start: dates[0], end: dates[dates.length - 1] };
+}
+
+function inRange(date: string, start: string, end: string): boolean {
+  return date >= start && date <= end;
+}
+
+function matchesSlot(plan: PlanRow, slot?: PlanSlot): boolean {
+  return !slot || plan.slot === slot;
+}
+
+/**
+ * Applies the operations in order to the household's current plans (which must cover the
+ * operations' date window) and returns the resulting changes.
+ * Plans created by an earlier operation can be moved or cleared by a later one.
+ */
+export function applyBulkPlanOperations(input: {
+  householdId: string;
+  plans: PlanRow[];
+  operations: BulkPlanOperation[];
+  createId: () => string;
+  now: Date;
+}): BulkPlanResult {
+  const current = new Map<string, PlanRow>(input.plans.map((plan) => [plan.id, { ...plan }]));
+  const originalIds = new Set(input.plans.map((plan) => plan.id));
+
+  const removeWhere = (predicate: (plan: PlanRow) => boolean) => {
+    for (const [id, plan] of current) {
+      if (predicate(plan)) current.delete(id);
+    }
+  };
+
+  for (const op of input.operations) {
+    if (op.type === 'copy') {
+      const offset = daysBetween(op.sourceStart, op.targetStart);
+      const targetEnd = addDays(op.targetStart, daysBetween(op.sourceStart, op.sourceEnd));
+      const sources = Array.from(current.values()).filter(
+        (plan) => inRange(plan.date, op.sourceStart, op.sourceEnd) && matchesSlot(plan, op.slot),
+      );
+      if (op.replace) {
+        removeWhere((plan) => inRange(plan.date, op.targetStart, targetEnd) && matchesSlot(plan, op.slot));
+      }
+      for (const source of sources) {
+        const id = input.createId();
+        current.set(id, {
+          id,
+          householdId: input.householdId,
+          mealId: source.mealId,
+          date: addDays(source.date, offset),
+          slot: source.slot,
+          servings: source.servings,
+          isCompleted: false,
+          createdAt: input.now,
+        });
+      }
+    } else if (op.type === 'move') {
+      const ids = op.planIds ? new Set(op.planIds) : null;
+      for (const plan of current.values()) {
+        if (plan.date !== op.fromDate || !matchesSlot(plan, op.slot)) continue;
+        if (ids && !ids.has(plan.id)) continue;
+        plan.date = op.toDate;
+      }
+    } else if (op.type === 'swap') {
+      for (const plan of current.values()) {
+        if (!matchesSlot(plan, op.slot)) continue;
+        if (plan.date === op.dateA) plan.date = op.dateB;
+        else if (plan.date === op.dateB) plan.date = op.dateA;
+      }
+    } else if (op.type === 'add') {
+      for (const entry of op.plans) {
+        const id = input.createId();
+        current.set(id, {
+          id,
+          householdId: input.householdId,
+          mealId: entry.mealId,
+          date: entry.date,
+          slot: entry.slot,
+          servings: entry.servings,
+          isCompleted: false,
+          createdAt: input.now,
+        });
+      }
+    } else {
+      removeWhere((plan) => inRange(plan.date, op.startDate, op.endDate) && matchesSlot(plan, op.slot));
+    }
+  }
+
+  const originalById = new Map(input.plans.map((plan) => [plan.id, plan]));
+  const created: PlanRow[] = [];
+  const updated: PlanRow[] = [];
+  for (const plan of current.values()) {
+    if (!originalIds.has(plan.id)) {
+      created.push(plan);
+      continue;
+    }
+    const original = originalById.get(plan.id);
+    if (original && original.date !== plan.date) updated.push(plan);
+  }
+  const deletedIds = input.plans.filter((plan) => !current.has(plan.id)).map((plan) => plan.id);
+
+  return { created, updated, deletedIds };
+}
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { getCookingHistoryChange, parsePlanUpdateFields, PlanUpdateValidationError } from './cookingHistory';
+
+test('parsePlanUpdateFields validates completion, notes and servings cooked', () => {
+  assert.deepEqual(parsePlanUpdateFields({ isCompleted: true, notes: '  doubled   the garlic ', servingsCooked: '3' }), {
+    isCompleted: true,
+    notes: 'doubled the garlic',
+    servingsCooked: 3,
+  });
+  assert.deepEqual(parsePlanUpdateFields({ notes: '   ', servingsCooked: null }), { notes: null, servingsCooked: null });
+  assert.deepEqual(parsePlanUpdateFields({ mealId: 'ignored' }), {});
+
+  assert.throws(() => parsePlanUpdateFields({ isCompleted: 'yes' }), PlanUpdateValidationError);
+  assert.throws(() => parsePlanUpdateFields({ servingsCooked: 0 }), /Invalid servingsCooked/);
+  assert.throws(() => parsePlanUpdateFields(null), /Invalid JSON body/);
+});
+
+test('getCookingHistoryChange records, removes or updates the cooking event', () => {
+  assert.equal(getCookingHistoryChange(false, { isCompleted: true }), 'record');
+  assert.equal(getCookingHistoryChange(true, { isCompleted: false }), 'remove');
+  assert.equal(getCookingHistoryChange(true, { notes: 'great' }), 'update');
+  assert.equal(getCookingHistoryChange(true, { isCompleted: true }), null);
+  assert.equal(getCookingHistoryChange(false, { notes: 'for later' }), null);
+});
@@ -0,0 +1,55 @@
+import { normalizeWhitespace, stripControlChars, validateServings } from '@/lib/validation';
+
+export type PlanUpdateFields = {
+  isCompleted?: boolean;
+  notes?: string | null;
+  servingsCooked?: number | null;
+};
+
+export type CookingHistoryChange = 'record' | 'update' | 'remove' | null;
+
+const MAX_PLAN_NOTES_LENGTH = 500;
+
+export class PlanUpdateValidationError extends Error {
+  readonly name = 'PlanUpdateValidationError';
+}
+
+/**
+ * Validates a PATCH /api/plans body. Only provided fields are returned.
+ */
+export function parsePlanUpdateFields(body: unknown): PlanUpdateFields {
+  if (!body || typeof body !== 'object') throw new PlanUpdateValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: PlanUpdateFields = {};
+
+  if (input.isCompleted !== undefined) {
+    if (typeof input.isCompleted !== 'boolean') throw new PlanUpdateValidationError('Invalid isCompleted');
+    out.isCompleted = input.isCompleted;
+  }
+
+  if (input.notes !== undefined) {
+    if (input.notes !== null && typeof input.notes !== 'string') throw new PlanUpdateValidationError('Invalid notes');
+    const notes = typeof input.notes === 'string' ? normalizeWhitespace(stripControlChars(input.notes)) : '';
+    out.notes = notes ? notes.slice(0, MAX_PLAN_NOTES_LENGTH) : null;
+  }
+
+  if (input.servingsCooked !== undefined) {
+    const servings = input.servingsCooked === null ? null : validateServings(input.servingsCooked);
+    if (input.servingsCooked !== null && servings === null) throw new PlanUpdateValidationError('Invalid servingsCooked');
+    out.servingsCooked = servings;
+  }
+
+  return out;
+}
+
+/**
+ * Decides what happens to the plan's cooking-history event: completing records one, un-completing
+ * removes it, and editing notes or servings on a completed plan updates it.
+ */
+export function getCookingHistoryChange(wasCompleted: boolean, fields: PlanUpdateFields): CookingHistoryChange {
+  const isCompleted = fields.isCompleted ?? wasCompleted;
+  if (!wasCompleted && isCompleted) return 'record';
+  if (wasCompleted && !isCompleted) return 'remove';
+  if (isCompleted && (fields.notes !== undefined || fields.servingsCooked !== undefined)) return 'update';
+  return null;
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { listTemplateOccurrences, parsePlanTemplateFields, PlanTemplateValidationError, templateCoversDate } from './templates';
+
+const TACO_TUESDAY = {
+  weekday: 2,
+  mealIds: ['tacos'],
+  startDate: '2025-03-01',
+  endDate: null,
+  isPaused: false,
+};
+
+test('listTemplateOccurrences rotates meals weekly from the first matching weekday', () => {
+  const rotation = { ...TACO_TUESDAY, weekday: 5, mealIds: ['pizza', 'curry', 'fish'] };
+
+  assert.deepEqual(listTemplateOccurrences(rotation, null, '2025-03-28'), [
+    { date: '2025-03-07', mealId: 'pizza' },
+    { date: '2025-03-14', mealId: 'curry' },
+    { date: '2025-03-21', mealId: 'fish' },
+    { date: '2025-03-28', mealId: 'pizza' },
+  ]);
+  // Resuming after a materialized date keeps the rotation aligned.
+  assert.deepEqual(listTemplateOccurrences(rotation, '2025-03-14', '2025-03-21'), [{ date: '2025-03-21', mealId: 'fish' }]);
+});
+
+test('templateCoversDate respects weekday, date bounds and pause', () => {
+  assert.equal(templateCoversDate(TACO_TUESDAY, '2025-03-04'), true);
+  assert.equal(templateCoversDate(TACO_TUESDAY, '2025-03-05'), false);
+  assert.equal(templateCoversDate(TACO_TUESDAY, '2025-02-25'), false);
+  assert.equal(templateCoversDate({ ...TACO_TUESDAY, endDate: '2025-03-10' }, '2025-03-11'), false);
+  assert.equal(templateCoversDate({ ...TACO_TUESDAY, isPaused: true }, '2025-03-04'), false);
+});
+
+test('parsePlanTemplateFields requires weekday and meals on create only', () => {
+  assert.throws(() => parsePlanTemplateFields({ mealIds: ['a'] }, { partial: false }), PlanTemplateValidationError);
+  assert.throws(() => parsePlanTemplateFields({ weekday: 7, mealIds: ['a'] }, { partial: false }), /weekday/);
+  assert.deepEqual(parsePlanTemplateFields({ isPaused: true }, { partial: true }), { isPaused: true });
+  assert.deepEqual(parsePlanTemplateFields({ weekday: 2, mealIds: ['a'], slot: 'Lunch', name: '  Taco  Tuesday ' }, { partial: false }), {
+    name: 'Taco Tuesday',
+    weekday: 2,
+    slot: 'lunch',
+    mealIds: ['a'],
+  });
+});
@@ -0,0 +1,286 @@
+import { and, eq, gt, inArray, sql } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+import { v4 as uuidv4 } from 'uuid';
+
+import { getPlansColumnAvailability, insertPlansCompat } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { planTemplates, plans } from '@/db/schema';
+import { addDays, daysBetween } from '@/lib/plans/bulkPlanOperations';
+import {
+  normalizeWhitespace,
+  stripControlChars,
+  validatePlanDate,
+  validatePlanSlot,
+  validateRecordId,
+  validateServings,
+  type PlanSlot,
+} from '@/lib/validation';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+export type PlanTemplateRow = typeof planTemplates.$inferSelect;
+
+export type PlanTemplateSchedule = {
+  weekday: number;
+  mealIds: unknown;
+  startDate: string;
+  endDate: string | null;
+  isPaused: boolean;
+};
+
+const DEFAULT_WEEKS_AHEAD = 4;
+const MAX_WEEKS_AHEAD = 12;
+
+export function getPlanTemplateWeeksAhead(): number {
+  const parsed = Number(process.env.PLAN_TEMPLATES_WEEKS_AHEAD);
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_WEEKS_AHEAD;
+  return Math.min(MAX_WEEKS_AHEAD, Math.max(1, Math.round(parsed)));
+}
+
+export function todayDateKey(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+export function templateMealIds(template: Pick<PlanTemplateSchedule, 'mealIds'>): string[] {
+  if (!Array.isArray(template.mealIds)) return [];
+  return template.mealIds.filter((id): id is string => typeof id === 'string' && id.length > 0);
+}
+
+export function templateCoversDate(template: PlanTemplateSchedule, dateKey: string): boolean {
+  if (template.isPaused) return false;
+  if (dateKey < template.startDate) return false;
+  if (template.endDate && dateKey > template.endDate) return false;
+  if (templateMealIds(template).length === 0) return false;
+  return weekdayOf(dateKey) === template.weekday;
+}
+
+/**
+ * Picks the meal for a covered date. Rotations advance one meal per week, counted from the
+ * first matching weekday on or after the template's start date.
+ */
+export function templateMealForDate(template: PlanTemplateSchedule, dateKey: string): string | null {
+  if (!templateCoversDate(template, dateKey)) return null;
+  const mealIds = templateMealIds(template);
+  const firstOffset = (template.weekday - weekdayOf(template.startDate) + 7) % 7;
+  const firstDate = addDays(template.startDate, firstOffset);
+  const weekIndex = Math.floor(daysBetween(firstDate, dateKey) / 7);
+  return mealIds[weekIndex % mealIds.length] ?? null;
+}
+
+/**
+ * Lists the dates in (after, through] that a template covers, paired with the meal to plan.
+ */
+export function listTemplateOccurrences(
+  template: PlanTemplateSchedule,
+  after: string | null,
+  through: string,
+): Array<{ date: string; mealId: string }> {
+  const start = after && after >= template.startDate ? addDays(after, 1) : template.startDate;
+  const out: Array<{ date: string; mealId: string }> = [];
+  const firstOffset = (template.weekday - weekdayOf(start) + 7) % 7;
+  for (let date = addDays(start, firstOffset); date <= through; date = addDays(date, 7)) {
+    const mealId = templateMealForDate(template, date);
+    if (mealId) out.push({ date, mealId });
+  }
+  return out;
+}
+
+/**
+ * Fills `plans` with template occurrences up to `weeksAhead` weeks from today.
+ * Each template remembers how far it has been materialized, so plans a member deletes
+ * are not re-created on the next run.
+ */
+export async function materializePlanTemplates(
+  database: Database,
+  options: { householdId?: string; templateId?: string; now?: Date; weeksAhead?: number } = {},
+): Promise<{ templates: number; created: number }> {
+  const now = options.now ?? new Date();
+  const today = todayDateKey(now);
+  const through = addDays(today, (options.weeksAhead ?? getPlanTemplateWeeksAhead()) * 7);
+
+  const conditions = [eq(planTemplates.isPaused, false)];
+  if (options.householdId) conditions.push(eq(planTemplates.householdId, options.householdId));
+  if (options.templateId) conditions.push(eq(planTemplates.id, options.templateId));
+  const templates = await database.select().from(planTemplates).where(and(...conditions));
+
+  const columns = await getPlansColumnAvailability(database);
+  let created = 0;
+  for (const template of templates) {
+    // Never back-fill the past: start from today even if the template is older.
+    const after = template.materializedThrough && template.materializedThrough >= today
+      ? template.materializedThrough
+      : addDays(today, -1);
+    const occurrences = listTemplateOccurrences(template, after, through);
+
+    const rows = occurrences.map((occurrence) => ({
+      id: uuidv4(),
+      householdId: template.householdId,
+      mealId: occurrence.mealId,
+      date: occurrence.date,
+      slot: validatePlanSlot(template.slot) ?? 'dinner',
+      servings: template.servings,
+      templateId: template.id,
+      isCompleted: false,
+      createdAt: now,
+    }));
+
+    const markMaterialized = database
+      .update(planTemplates)
+      .set({ materializedThrough: through })
+      .where(eq(planTemplates.id, template.id));
+
+    // One broken template (e.g. a meal deleted out from under it) shouldn't stop the others.
+    try {
+      if (rows.length > 0) {
+        await database.batch([insertPlansCompat(database, columns, rows), markMaterialized]);
+        created += rows.length;
+      } else {
+        await markMaterialized;
+      }
+    } catch (error) {
+      console.error('[PLAN_TEMPLATES_MATERIALIZE]', { templateId: template.id, error });
+    }
+  }
+
+  return { templates: templates.length, created };
+}
+
+/**
+ * Drops a meal that is about to be deleted from every template rotating it, pausing templates
+ * left with nothing to plan.
+ */
+export function removeMealFromPlanTemplates(database: Database, mealId: string, now: Date = new Date()) {
+  const remaining = sql`${planTemplates.mealIds} - ${mealId}::text`;
+  return database
+    .update(planTemplates)
+    .set({
+      mealIds: remaining,
+      isPaused: sql`${planTemplates.isPaused} OR jsonb_array_length(${remaining}) = 0`,
+      updatedAt: now,
+    })
+    .where(sql`${planTemplates.mealIds} @> ${JSON.stringify([mealId])}::jsonb`);
+}
+
+/**
+ * Removes not-yet-cooked plans a template created after today, e.g. before re-materializing an
+ * edited template or when it is paused/deleted. Past and completed plans are kept.
+ */
+export function deleteFutureTemplatePlans(database: Database, templateId: string, now: Date = new Date()) {
+  return database
+    .delete(plans)
+    .where(and(eq(plans.templateId, templateId), gt(plans.date, todayDateKey(now)), eq(plans.isCompleted, false)));
+}
+
+/**
+ * Slots on `dateKey` that an active template covers, whether or not its plan row exists yet.
+ */
+export async function getTemplateCoveredSlots(
+  database: Database,
+  householdIds: string[],
+  dateKey: string,
+): Promise<Map<string, Set<PlanSlot>>> {
+  const out = new Map<string, Set<PlanSlot>>();
+  if (householdIds.length === 0) return out;
+
+  const templates = await database
+    .select()
+    .from(planTemplates)
+    .where(and(inArray(planTemplates.householdId, householdIds), eq(planTemplates.isPaused, false)));
+
+  for (const template of templates) {
+    if (!templateCoversDate(template, dateKey)) continue;
+    const slot = validatePlanSlot(template.slot);
+    if (!slot) continue;
+    const set = out.get(template.householdId) ?? new Set<PlanSlot>();
+    set.add(slot);
+    out.set(template.householdId, set);
+  }
+  return out;
+}
+
+export class PlanTemplateValidationError extends Error {
+  readonly name = 'PlanTemplateValidationError';
+}
+
+export type PlanTemplateFields = {
+  name?: string | null;
+  weekday?: number;
+  slot?: PlanSlot;
+  servings?: number | null;
+  mealIds?: string[];
+  startDate?: string;
+  endDate?: string | null;
+  isPaused?: boolean;
+};
+
+const MAX_TEMPLATE_MEALS = 12;
+const MAX_TEMPLATE_NAME_LENGTH = 60;
+
+/**
+ * Validates template fields from a request body. With `partial`, only provided fields are returned
+ * (PATCH); otherwise weekday and mealIds are required (POST).
+ */
+export function parsePlanTemplateFields(body: unknown, options: { partial: boolean }): PlanTemplateFields {
+  if (!body || typeof body !== 'object') throw new PlanTemplateValidationError('Invalid JSON body');
+  const input = body as Record<string, unknown>;
+  const out: PlanTemplateFields = {};
+
+  if (input.name !== undefined) {
+    if (input.name !== null && typeof input.name !== 'string') throw new PlanTemplateValidationError('Invalid name');
+    const cleaned = typeof input.name === 'string' ? normalizeWhitespace(stripControlChars(input.name)) : '';
+    out.name = cleaned ? cleaned.slice(0, MAX_TEMPLATE_NAME_LENGTH) : null;
+  }
+
+  if (input.weekday !== undefined || !options.partial) {
+    const weekday = input.weekday;
+    if (typeof weekday !== 'number' || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      throw new PlanTemplateValidationError('weekday must be an integer from 0 (Sunday) to 6 (Saturday)');
+    }
+    out.weekday = weekday;
+  }
+
+  if (input.slot !== undefined) {
+    const slot = validatePlanSlot(input.slot);
+    if (!slot) throw new PlanTemplateValidationError('Invalid slot');
+    out.slot = slot;
+  }
+
+  if (input.servings !== undefined) {
+    const servings = input.servings === null ? null : validateServings(input.servings);
+    if (input.servings !== null && servings === null) throw new PlanTemplateValidationError('Invalid servings');
+    out.servings = servings;
+  }
+
+  if (input.mealIds !== undefined || !options.partial) {
+    const raw = input.mealIds;
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_TEMPLATE_MEALS) {
+      throw new PlanTemplateValidationError(`mealIds must list 1-${MAX_TEMPLATE_MEALS} meals`);
+    }
+    const mealIds = raw.map((id) => validateRecordId(id));
+    if (mealIds.some((id) => !id)) throw new PlanTemplateValidationError('Invalid mealIds');
+    out.mealIds = mealIds as string[];
+  }
+
+  if (input.startDate !== undefined) {
+    const startDate = validatePlanDate(input.startDate);
+    if (!startDate) throw new PlanTemplateValidationError('Invalid startDate');
+    out.startDate = startDate;
+  }
+
+  if (input.endDate !== undefined) {
+    const endDate = input.endDate === null ? null : validatePlanDate(input.endDate);
+    if (input.endDate !== null && !endDate) throw new PlanTemplateValidationError('Invalid endDate');
+    out.endDate = endDate;
+  }
+
+  if (input.isPaused !== undefined) {
+    if (typeof input.isPaused !== 'boolean') throw new PlanTemplateValidationError('Invalid isPaused');
+    out.isPaused = input.isPaused;
+  }
+
+  return out;
+}
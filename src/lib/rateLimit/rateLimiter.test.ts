@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import type { SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+import {
+  applyRateLimitHeaders,
+  checkRateLimit,
+  getClientIp,
+  MemoryRateLimitStore,
+  setRateLimitStore,
+} from './rateLimiter';
+
+test('nutrition.recompute allows one request per fixed 25s window', async () => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  try {
+    const baseMs = 1_000_000;
+    assert.equal((await checkRateLimit(null, 'nutrition.recompute', { userId: 'user-1' }, baseMs)).allowed, true);
+    const blocked = await checkRateLimit(null, 'nutrition.recompute', { userId: 'user-1' }, baseMs + 10_000);
+    assert.equal(blocked.allowed, false);
+    assert.equal(blocked.retryAfterSeconds, 15);
+    assert.equal((await checkRateLimit(null, 'nutrition.recompute', { userId: 'user-2' }, baseMs + 10_000)).allowed, true);
+    assert.equal((await checkRateLimit(null, 'nutrition.recompute', { userId: 'user-1' }, baseMs + 25_001)).allowed, true);
+  } finally {
+    setRateLimitStore(null);
+  }
+});
+
+test('checkRateLimit reports the tightest of the user and IP limits', async () => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  try {
+    const nowMs = 5_000_000;
+    // 30 per IP: many users behind one address eventually share the IP limit.
+    for (let i = 0; i < 30; i += 1) {
+      const result = await checkRateLimit(null, 'invites.redeem', { userId: `user-${i}`, ip: '203.0.113.7' }, nowMs);
+      assert.equal(result.allowed, true);
+    }
+    const blocked = await checkRateLimit(null, 'invites.redeem', { userId: 'user-new', ip: '203.0.113.7' }, nowMs);
+    assert.equal(blocked.allowed, false);
+    assert.equal(blocked.limit, 30);
+
+    const first = await checkRateLimit(null, 'invites.redeem', { userId: 'user-a', ip: '198.51.100.1' }, nowMs);
+    assert.equal(first.limit, 10);
+    assert.equal(first.remaining, 9);
+  } finally {
+    setRateLimitStore(null);
+  }
+});
+
+test('checkRateLimit falls back to memory when the store fails', async () => {
+  const originalError = console.error;
+  console.error = () => {};
+  setRateLimitStore({
+    hit: async () => {
+      throw new Error('connection reset');
+    },
+  });
+  try {
+    const result = await checkRateLimit(null, 'ai.generatePlan', { userId: 'user-1' }, 1_000);
+    assert.equal(result.allowed, true);
+    assert.equal(result.remaining, 4);
+  } finally {
+    console.error = originalError;
+    setRateLimitStore(null);
+  }
+});
+
+// Stands in for a database with `rate_limit_buckets`: upserts count per key, and a delete drops
+// the rows whose reset_at is before the cutoff the store sends.
+function fakeBucketsDb(buckets: Map<string, { count: number; resetAt: Date }>) {
+  const dialect = new PgDialect();
+  const deletes: Date[] = [];
+  const db = {
+    execute: async () => ({ rows: [{ '?column?': 1 }] }),
+    insert: () => ({
+      values: (row: { key: string; resetAt: Date }) => ({
+        onConflictDoUpdate: () => ({
+          returning: async () => {
+            const existing = buckets.get(row.key);
+            const bucket = existing ? { count: existing.count + 1, resetAt: existing.resetAt } : { count: 1, resetAt: row.resetAt };
+            buckets.set(row.key, bucket);
+            return [bucket];
+          },
+        }),
+      }),
+    }),
+    delete: () => ({
+      where: async (condition: SQL) => {
+        const cutoff = new Date(String(dialect.sqlToQuery(condition).params[0]));
+        deletes.push(cutoff);
+        for (const [key, bucket] of buckets) {
+          if (bucket.resetAt < cutoff) buckets.delete(key);
+        }
+      },
+    }),
+  };
+  return { db: db as unknown as Parameters<typeof checkRateLimit>[0], deletes };
+}
+
+test('the Postgres store deletes expired buckets on its first hit and every 10 minutes after', async () => {
+  const nowMs = Date.parse('2026-10-19T08:00:00Z');
+  const buckets = new Map([
+    ['ai.generatePlan:user:gone', { count: 3, resetAt: new Date(nowMs - 60_000) }],
+    ['ai.generatePlan:user:live', { count: 1, resetAt: new Date(nowMs + 30_000) }],
+  ]);
+  const { db, deletes } = fakeBucketsDb(buckets);
+
+  await checkRateLimit(db, 'ai.generatePlan', { userId: 'user-1' }, nowMs);
+  assert.equal(buckets.has('ai.generatePlan:user:gone'), false);
+  assert.equal(buckets.has('ai.generatePlan:user:live'), true);
+  assert.equal(deletes.length, 1);
+
+  // Later requests reuse the same store, so pruning keeps its schedule.
+  await checkRateLimit(db, 'ai.generatePlan', { userId: 'user-1' }, nowMs + 60_000);
+  assert.equal(deletes.length, 1);
+  buckets.set('ai.generatePlan:user:stale', { count: 1, resetAt: new Date(nowMs + 5 * 60_000) });
+  await checkRateLimit(db, 'ai.generatePlan', { userId: 'user-2' }, nowMs + 10 * 60_000);
+  assert.equal(deletes.length, 2);
+  assert.equal(buckets.has('ai.generatePlan:user:stale'), false);
+});
+
+test('applyRateLimitHeaders sets limit headers and retry-after when refused', () => {
+  const res = applyRateLimitHeaders(
+    new Response(null, { status: 429 }),
+    { allowed: false, limit: 5, remaining: 0, resetAtMs: 61_000, retryAfterSeconds: 60 },
+    1_000,
+  );
+  assert.equal(res.headers.get('x-ratelimit-limit'), '5');
+  assert.equal(res.headers.get('x-ratelimit-remaining'), '0');
+  assert.equal(res.headers.get('x-ratelimit-reset'), '60');
+  assert.equal(res.headers.get('retry-after'), '60');
+});
+
+test('getClientIp takes the x-forwarded-for address our proxy appended', () => {
+  // The first entry is whatever the client sent.
+  const req = new Request('https://mealo.website/api', {
+    headers: { 'x-forwarded-for': '10.9.9.9, 203.0.113.7', 'x-real-ip': '10.0.0.2' },
+  });
+  assert.equal(getClientIp(req), '203.0.113.7');
+  assert.equal(getClientIp(new Request('https://mealo.website/api', { headers: { 'x-real-ip': '198.51.100.4' } })), '198.51.100.4');
+  assert.equal(getClientIp(new Request('https://mealo.website/api')), 'unknown');
+});
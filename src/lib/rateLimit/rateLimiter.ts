@@ -0,0 +1,244 @@
+import { lt, sql } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { hasRateLimitTable } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { rateLimitBuckets } from '@/db/schema';
+import { ApiError } from '@/lib/api/apiError';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+export type RateLimitPolicy = {
+  windowMs: number;
+  // Requests allowed per window for each signed-in user and/or each client IP.
+  maxPerUser?: number;
+  maxPerIp?: number;
+};
+
+// Endpoints reachable without a session, or that guess at tokens or spend AI credits, are also
+// limited per IP so a caller can't spread the work across accounts.
+export const RATE_LIMIT_POLICIES = {
+  'users.create': { windowMs: 10 * 60_000, maxPerIp: 30 },
+  'jobs.run': { windowMs: 60_000, maxPerIp: 10 },
+  'invites.create': { windowMs: 60 * 60_000, maxPerUser: 30 },
+  'invites.redeem': { windowMs: 10 * 60_000, maxPerUser: 10, maxPerIp: 30 },
+  'meals.share': { windowMs: 10 * 60_000, maxPerUser: 30 },
+  'recipeShares.accept': { windowMs: 10 * 60_000, maxPerUser: 20, maxPerIp: 60 },
+  'iap.validate': { windowMs: 60 * 60_000, maxPerUser: 12, maxPerIp: 36 },
+  'ai.generateMeal': { windowMs: 60_000, maxPerUser: 10, maxPerIp: 30 },
+  'ai.importVideo': { windowMs: 60_000, maxPerUser: 6, maxPerIp: 18 },
+  'ai.scanMeal': { windowMs: 60_000, maxPerUser: 6, maxPerIp: 18 },
+  'ai.generatePlan': { windowMs: 60_000, maxPerUser: 5, maxPerIp: 15 },
+  'nutrition.recompute': { windowMs: 25_000, maxPerUser: 1, maxPerIp: 5 },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAtMs: number;
+  retryAfterSeconds: number;
+};
+
+/**
+ * Counts hits in fixed windows. `hit` records one request against `key` and returns the count in
+ * the current window, starting a new window once the previous one has ended.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, nowMs: number): Promise<{ count: number; resetAtMs: number }>;
+}
+
+const MAX_MEMORY_KEYS = 10_000;
+
+/**
+ * Per-instance store, used in tests and until add_rate_limit_buckets.sql has run.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { count: number; resetAtMs: number }>();
+
+  async hit(key: string, windowMs: number, nowMs: number) {
+    const existing = this.buckets.get(key);
+    const bucket =
+      !existing || existing.resetAtMs <= nowMs
+        ? { count: 1, resetAtMs: nowMs + windowMs }
+        : { count: existing.count + 1, resetAtMs: existing.resetAtMs };
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    this.prune(nowMs);
+    return { ...bucket };
+  }
+
+  private prune(nowMs: number): void {
+    if (this.buckets.size <= MAX_MEMORY_KEYS) return;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAtMs <= nowMs) this.buckets.delete(key);
+    }
+    // Map order is least recently hit first.
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= MAX_MEMORY_KEYS) break;
+      this.buckets.delete(key);
+    }
+  }
+}
+
+const PRUNE_EVERY_MS = 10 * 60_000;
+
+/**
+ * Shared store backed by `rate_limit_buckets`. Each hit is one upsert, so concurrent instances
+ * agree on the count. Expired buckets are deleted on the first hit and then at most every
+ * PRUNE_EVERY_MS, so short-lived instances prune too.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPruneMs: number | null = null;
+
+  constructor(private readonly db: Database) {}
+
+  async hit(key: string, windowMs: number, nowMs: number) {
+    const now = new Date(nowMs).toISOString();
+    const resetAt = new Date(nowMs + windowMs);
+    const expired = sql`${rateLimitBuckets.resetAt} <= ${now}::timestamp`;
+
+    const [row] = await this.db
+      .insert(rateLimitBuckets)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimitBuckets.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN ${resetAt.toISOString()}::timestamp ELSE ${rateLimitBuckets.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimitBuckets.count, resetAt: rateLimitBuckets.resetAt });
+
+    if (this.lastPruneMs === null || nowMs - this.lastPruneMs >= PRUNE_EVERY_MS) {
+      this.lastPruneMs = nowMs;
+      await this.db.delete(rateLimitBuckets).where(lt(rateLimitBuckets.resetAt, new Date(nowMs)));
+    }
+
+    return { count: row.count, resetAtMs: row.resetAt.getTime() };
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+// One per database, so the prune schedule survives across requests.
+const postgresStores = new WeakMap<Database, PostgresRateLimitStore>();
+let storeOverride: RateLimitStore | null = null;
+
+/**
+ * Replaces the store for every policy. Pass null to go back to the default choice.
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  storeOverride = store;
+}
+
+async function resolveStore(db: Database | null): Promise<RateLimitStore> {
+  if (storeOverride) return storeOverride;
+  if (db && (await hasRateLimitTable(db))) {
+    let store = postgresStores.get(db);
+    if (!store) {
+      store = new PostgresRateLimitStore(db);
+      postgresStores.set(db, store);
+    }
+    return store;
+  }
+  return memoryStore;
+}
+
+/**
+ * The address our proxy saw. It appends that to `x-forwarded-for`, so only the last entry is
+ * trustworthy: anything before it came from the client.
+ */
+export function getClientIp(req: Request): string {
+  const xff = req.headers.get('x-forwarded-for');
+  if (xff) return xff.split(',').pop()?.trim() || 'unknown';
+  const realIp = req.headers.get('x-real-ip');
+  if (realIp) return realIp.trim();
+  return 'unknown';
+}
+
+/**
+ * Counts one request against a policy for the given user and/or IP and reports the tightest of
+ * the applicable limits. A store failure is logged and falls back to the in-memory store rather
+ * than blocking the request.
+ */
+export async function checkRateLimit(
+  db: Database | null,
+  policyName: RateLimitPolicyName,
+  keys: { userId?: string | null; ip?: string | null },
+  nowMs: number = Date.now(),
+): Promise<RateLimitResult> {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName];
+  const checks: Array<{ key: string; max: number }> = [];
+  if (policy.maxPerUser !== undefined && keys.userId) {
+    checks.push({ key: `${policyName}:user:${keys.userId}`, max: policy.maxPerUser });
+  }
+  if (policy.maxPerIp !== undefined && keys.ip) {
+    checks.push({ key: `${policyName}:ip:${keys.ip}`, max: policy.maxPerIp });
+  }
+
+  let store = await resolveStore(db);
+  const results: RateLimitResult[] = [];
+  for (const check of checks) {
+    let bucket;
+    try {
+      bucket = await store.hit(check.key, policy.windowMs, nowMs);
+    } catch (error) {
+      console.error('[RATE_LIMIT]', error);
+      store = memoryStore;
+      bucket = await store.hit(check.key, policy.windowMs, nowMs);
+    }
+    results.push({
+      allowed: bucket.count <= check.max,
+      limit: check.max,
+      remaining: Math.max(0, check.max - bucket.count),
+      resetAtMs: bucket.resetAtMs,
+      retryAfterSeconds: Math.max(1, Math.ceil((bucket.resetAtMs - nowMs) / 1000)),
+    });
+  }
+
+  if (results.length === 0) {
+    return { allowed: true, limit: 0, remaining: 0, resetAtMs: nowMs, retryAfterSeconds: 0 };
+  }
+  return results.reduce((tightest, result) => {
+    if (tightest.allowed !== result.allowed) return tightest.allowed ? result : tightest;
+    if (!result.allowed) return result.resetAtMs > tightest.resetAtMs ? result : tightest;
+    return result.remaining < tightest.remaining ? result : tightest;
+  });
+}
+
+function rateLimitHeaders(result: RateLimitResult, nowMs: number): Record<string, string> {
+  if (result.limit === 0) return {};
+  const headers: Record<string, string> = {
+    'x-ratelimit-limit': String(result.limit),
+    'x-ratelimit-remaining': String(result.remaining),
+    'x-ratelimit-reset': String(Math.max(0, Math.ceil((result.resetAtMs - nowMs) / 1000))),
+  };
+  if (!result.allowed) headers['retry-after'] = String(result.retryAfterSeconds);
+  return headers;
+}
+
+/**
+ * Sets `x-ratelimit-limit`, `x-ratelimit-remaining` and `x-ratelimit-reset` (seconds until the
+ * window resets), plus `retry-after` when the request was refused.
+ */
+export function applyRateLimitHeaders<T extends Response>(res: T, result: RateLimitResult, nowMs: number = Date.now()): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result, nowMs))) {
+    res.headers.set(name, value);
+  }
+  return res;
+}
+
+/**
+ * The 429 to throw from an `apiRoute` handler when `checkRateLimit` refuses a request.
+ */
+export function rateLimitError(result: RateLimitResult, nowMs: number = Date.now()): ApiError {
+  return new ApiError(
+    429,
+    'rate_limited',
+    `Too many requests. Try again in ${result.retryAfterSeconds}s.`,
+    { retryAfterSeconds: result.retryAfterSeconds },
+    rateLimitHeaders(result, nowMs),
+  );
+}
@@ -1,4 +1,5 @@
 import { auth, clerkClient, verifyToken } from "@clerk/nextjs/server";
+import { verifiedEmailAddresses } from "@/lib/households/invites";
 
 function getBearerToken(req: Request): string | null {
   const raw = req.headers.get("authorization") ?? req.headers.get("Authorization");
@@ -65,3 +66,11 @@ export async function getUserIdFromRequest(req: Request): Promise<string | null>
     return null;
   }
 }
+
+/**
+ * The signed-in user's email addresses that Clerk has verified, lowercased.
+ */
+export async function getVerifiedEmails(userId: string): Promise<string[]> {
+  const client = await clerkClient();
+  return verifiedEmailAddresses(await client.users.getUser(userId));
+}
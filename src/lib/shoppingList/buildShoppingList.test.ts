@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { buildShoppingList } from './buildShoppingList';
+
+function sequentialIds() {
+  let next = 0;
+  return () => {
+    next += 1;
+    return `new-${next}`;
+  };
+}
+
+test('buildShoppingList sums quantities per ingredient and unit across planned meals', () => {
+  const list = buildShoppingList({
+    planned: [
+      {
+        mealName: 'Chicken Stir Fry',
+        ingredients: [
+          { name: 'Chicken Breast', quantity: 300, unit: 'g', category: 'Meat' },
+          { name: 'Soy Sauce', quantity: 2, unit: 'tbsp', category: 'Pantry' },
+        ],
+      },
+      {
+        mealName: 'Chicken Salad',
+        ingredients: [
+          { name: ' chicken breast ', quantity: '200', unit: 'G' },
+          { name: 'Lettuce', quantity: 1, unit: 'piece', category: 'Produce' },
+        ],
+      },
+      {
+        mealName: 'Chicken Stir Fry',
+        ingredients: [{ name: 'Chicken Breast', quantity: 300, unit: 'g', category: 'Meat' }],
+      },
+    ],
+    existing: [],
+    createId: sequentialIds(),
+  });
+
+  const chicken = list.find((item) => item.ingredientName === 'Chicken Breast');
+  assert.equal(chicken?.totalQuantity, 800);
+  assert.equal(chicken?.category, 'Meat');
+  assert.deepEqual(chicken?.sourceMeals, ['Chicken Stir Fry', 'Chicken Salad']);
+  assert.equal(list.length, 3);
+});
+
+test('buildShoppingList keeps checked state and manual items, drops stale generated items', () => {
+  const list = buildShoppingList({
+    planned: [{ mealName: 'Pasta', ingredients: [{ name: 'Spaghetti', quantity: 500, unit: 'g' }] }],
+    existing: [
+      { id: 'keep-1', ingredientName: 'spaghetti', unit: 'g', isChecked: true, sourceMeals: ['Pasta'] },
+      { id: 'manual-1', ingredientName: 'Paper Towels', isChecked: false, sourceMeals: [] },
+      { id: 'stale-1', ingredientName: 'Rice', unit: 'g', isChecked: false, sourceMeals: ['Risotto'] },
+    ],
+    createId: sequentialIds(),
+  });
+
+  assert.deepEqual(
+    list.map((item) => [item.id, item.isChecked]),
+    [
+      ['keep-1', true],
+      ['manual-1', false],
+    ],
+  );
+});
+
+test('buildShoppingList converts mixed units of the same ingredient into one line', () => {
+  const list = buildShoppingList({
+    planned: [
+      { mealName: 'Tacos', ingredients: [{ name: 'Chicken Thigh', quantity: 200, unit: 'g' }] },
+      { mealName: 'Curry', ingredients: [{ name: 'Chicken Thigh', quantity: 0.5, unit: 'lb' }] },
+      {
+        mealName: 'Pancakes',
+        ingredients: [
+          { name: 'Flour', quantity: 2, unit: 'cups' },
+          { name: 'Eggs', quantity: 2, unit: 'piece' },
+        ],
+      },
+      { mealName: 'Bread', ingredients: [{ name: 'Flour', quantity: 500, unit: 'g' }] },
+    ],
+    existing: [],
+    createId: sequentialIds(),
+  });
+
+  const chicken = list.filter((item) => item.ingredientName === 'Chicken Thigh');
+  assert.deepEqual(
+    chicken.map((item) => [item.totalQuantity, item.unit]),
+    [[426.8, 'g']],
+  );
+  const flour = list.filter((item) => item.ingredientName === 'Flour');
+  assert.deepEqual(
+    flour.map((item) => [item.totalQuantity, item.unit]),
+    [[750.78, 'g']],
+  );
+  assert.equal(list.length, 3);
+});
+
+test('buildShoppingList subtracts pantry stock and drops lines the pantry covers', () => {
+  const list = buildShoppingList({
+    planned: [
+      {
+        mealName: 'Risotto',
+        ingredients: [
+          { name: 'Arborio Rice', quantity: 400, unit: 'g' },
+          { name: 'Olive Oil', quantity: 2, unit: 'tbsp' },
+          { name: 'Salt', quantity: 1, unit: 'tsp' },
+          { name: 'Parmesan', quantity: 100, unit: 'g' },
+        ],
+      },
+    ],
+    existing: [],
+    pantry: [
+      { nameNormalized: 'arborio rice', quantity: 0.25, unit: 'kg' },
+      { nameNormalized: 'olive oil', quantity: 500, unit: 'ml' },
+      { nameNormalized: 'salt', quantity: null, unit: null },
+      { nameNormalized: 'parmesan', quantity: 2, unit: 'piece' },
+    ],
+    createId: sequentialIds(),
+  });
+
+  assert.deepEqual(
+    list.map((item) => [item.ingredientName, item.totalQuantity, item.unit]),
+    [
+      ['Arborio Rice', 150, 'g'],
+      ['Parmesan', 100, 'g'],
+    ],
+  );
+});
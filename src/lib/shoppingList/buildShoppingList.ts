@@ -0,0 +1,278 @@
+import { normalizeTitleCase } from '@/lib/normalizeMeal';
+import {
+  convertQuantity,
+  getDensityGramsPerMl,
+  normalizeUnit,
+  toBaseQuantity,
+  toDisplayQuantity,
+  type UnitDimension,
+} from '@/lib/units/unitConversion';
+import { normalizeWhitespace, stripControlChars } from '@/lib/validation';
+
+export type ShoppingListItem = {
+  id: string;
+  ingredientName: string;
+  isChecked: boolean;
+  sourceMeals: string[];
+  totalQuantity?: number;
+  unit?: string;
+  category?: string;
+};
+
+export type PlannedMealIngredients = {
+  mealName: string;
+  ingredients: unknown;
+  // Multiplier for the meal's quantities, e.g. 2 when a plan cooks double the recipe's servings.
+  scale?: number;
+};
+
+// A pantry item as far as the shopping list cares; a null quantity means "have some".
+export type PantryStock = {
+  nameNormalized: string;
+  quantity: number | null;
+  unit: string | null;
+};
+
+const MAX_ITEMS = 500;
+const MAX_SOURCE_MEALS = 50;
+
+type Aggregate = {
+  key: string;
+  ingredientName: string;
+  unit: string;
+  category: string;
+  totalQuantity: number | null;
+  sourceMeals: string[];
+};
+
+function cleanText(value: unknown, maxLen: number): string {
+  if (typeof value !== 'string') return '';
+  return normalizeWhitespace(stripControlChars(value)).slice(0, maxLen);
+}
+
+function normalizeNameForLookup(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function parseQuantity(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+  return null;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function shoppingListItemKey(ingredientName: string, unit?: string): string {
+  return `${normalizeNameForLookup(ingredientName)}|${normalizeNameForLookup(unit ?? '')}`;
+}
+
+function toIngredientRows(input: unknown): Array<{ name: string; quantity: number | null; unit: string; category: string }> {
+  if (!Array.isArray(input)) return [];
+  const out: Array<{ name: string; quantity: number | null; unit: string; category: string }> = [];
+  for (const raw of input) {
+    if (typeof raw === 'string') {
+      const name = cleanText(raw, 120);
+      if (name) out.push({ name, quantity: null, unit: '', category: '' });
+      continue;
+    }
+    if (!raw || typeof raw !== 'object') continue;
+    const obj = raw as Record<string, unknown>;
+    const name = cleanText(obj.name, 120);
+    if (!name) continue;
+    out.push({
+      name,
+      quantity: parseQuantity(obj.quantity),
+      unit: cleanText(obj.unit, 24),
+      category: cleanText(obj.category, 40),
+    });
+  }
+  return out;
+}
+
+type Group = {
+  nameKey: string;
+  ingredientName: string;
+  dimension: UnitDimension;
+  // Base unit (g / ml) for mass and volume, otherwise the ingredient's own unit.
+  baseUnit: string;
+  // Units as written in the meals, so a single-unit group can be shown in that unit.
+  units: Set<string>;
+  category: string;
+  baseQuantity: number | null;
+  sourceMeals: string[];
+};
+
+function addSourceMeal(target: string[], mealName: string): void {
+  if (mealName && !target.includes(mealName) && target.length < MAX_SOURCE_MEALS) target.push(mealName);
+}
+
+function mergeGroupInto(target: Group, source: Group, factor: number): void {
+  if (source.baseQuantity != null) {
+    target.baseQuantity = (target.baseQuantity ?? 0) + source.baseQuantity * factor;
+  }
+  for (const unit of source.units) target.units.add(unit);
+  if (!target.category && source.category) target.category = source.category;
+  for (const mealName of source.sourceMeals) addSourceMeal(target.sourceMeals, mealName);
+}
+
+function toAggregate(group: Group): Aggregate {
+  let unit = group.baseUnit;
+  let totalQuantity = group.baseQuantity;
+
+  if (group.dimension !== 'count') {
+    const [onlyUnit] = group.units.size === 1 ? Array.from(group.units) : [];
+    const converted =
+      onlyUnit && totalQuantity != null
+        ? convertQuantity(totalQuantity, group.baseUnit, onlyUnit, { ingredientName: group.ingredientName })
+        : null;
+    if (onlyUnit && (totalQuantity == null || converted != null)) {
+      unit = onlyUnit;
+      totalQuantity = converted;
+    } else if (totalQuantity != null) {
+      const display = toDisplayQuantity(totalQuantity, group.baseUnit);
+      unit = display.unit;
+      totalQuantity = display.quantity;
+    }
+  }
+
+  return {
+    key: shoppingListItemKey(group.ingredientName, unit),
+    ingredientName: group.ingredientName,
+    unit,
+    category: group.category,
+    totalQuantity,
+    sourceMeals: group.sourceMeals,
+  };
+}
+
+/**
+ * Aggregates the ingredients of planned meals into shopping list lines.
+ * Quantities of the same ingredient are summed across units of the same dimension (e.g. g + lb),
+ * and volume is folded into weight when the ingredient has a known density. Count-like units
+ * (piece, can, ...) are only summed with the same unit.
+ * A meal planned several times contributes its quantities once per plan.
+ */
+export function aggregatePlannedIngredients(planned: PlannedMealIngredients[]): Aggregate[] {
+  const groups = new Map<string, Group>();
+
+  for (const entry of planned) {
+    const mealName = cleanText(entry.mealName, 120);
+    const scale = typeof entry.scale === 'number' && Number.isFinite(entry.scale) && entry.scale > 0 ? entry.scale : 1;
+    for (const row of toIngredientRows(entry.ingredients)) {
+      const nameKey = normalizeNameForLookup(row.name);
+      const base = toBaseQuantity((row.quantity ?? 0) * scale, row.unit);
+      const groupKey = `${nameKey}|${base.dimension === 'count' ? base.unit : base.dimension}`;
+      const writtenUnit = normalizeUnit(row.unit) ?? row.unit;
+
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          nameKey,
+          ingredientName: normalizeTitleCase(row.name),
+          dimension: base.dimension,
+          baseUnit: base.dimension === 'count' ? writtenUnit : base.unit,
+          units: new Set(),
+          category: row.category,
+          baseQuantity: null,
+          sourceMeals: [],
+        };
+        groups.set(groupKey, group);
+      }
+
+      if (writtenUnit) group.units.add(writtenUnit);
+      if (row.quantity != null) group.baseQuantity = (group.baseQuantity ?? 0) + base.quantity;
+      if (!group.category && row.category) group.category = row.category;
+      addSourceMeal(group.sourceMeals, mealName);
+    }
+  }
+
+  // Fold volume into weight for ingredients listed both ways (e.g. "200 g flour" + "1 cup flour").
+  for (const [groupKey, group] of groups) {
+    if (group.dimension !== 'volume') continue;
+    const massGroup = groups.get(`${group.nameKey}|mass`);
+    const density = getDensityGramsPerMl(group.ingredientName);
+    if (!massGroup || !density) continue;
+    mergeGroupInto(massGroup, group, density);
+    groups.delete(groupKey);
+  }
+
+  return Array.from(groups.values()).map(toAggregate);
+}
+
+/**
+ * Reduces a line by what the pantry already holds. Returns null when the pantry covers it, including
+ * unmeasured stock ("have some salt"). Stock in a unit that can't be compared leaves the line as is.
+ */
+function subtractPantryStock(agg: Aggregate, stock: PantryStock | undefined): Aggregate | null {
+  if (!stock) return agg;
+  if (stock.quantity == null) return null;
+  if (stock.quantity <= 0) return agg;
+  if (agg.totalQuantity == null) return null;
+
+  const onHand = convertQuantity(stock.quantity, stock.unit ?? '', agg.unit, { ingredientName: agg.ingredientName });
+  if (onHand == null) return agg;
+  const remaining = agg.totalQuantity - onHand;
+  return remaining > 0 ? { ...agg, totalQuantity: remaining } : null;
+}
+
+/**
+ * Builds a shopping list from planned meals and merges it with the household's current list:
+ * - quantities already in the pantry are subtracted, and fully stocked lines are left out
+ * - generated lines keep the id and checked state of a matching existing line
+ * - manually added lines (no source meals) are kept as-is
+ * - previously generated lines that no longer match any planned meal are dropped
+ */
+export function buildShoppingList(input: {
+  planned: PlannedMealIngredients[];
+  existing: Array<Record<string, unknown>>;
+  pantry?: PantryStock[];
+  createId: () => string;
+}): ShoppingListItem[] {
+  const existingByKey = new Map<string, Record<string, unknown>>();
+  for (const item of input.existing) {
+    const name = typeof item.ingredientName === 'string' ? item.ingredientName : '';
+    if (!name) continue;
+    const key = shoppingListItemKey(name, typeof item.unit === 'string' ? item.unit : '');
+    if (!existingByKey.has(key)) existingByKey.set(key, item);
+  }
+
+  const pantryByName = new Map((input.pantry ?? []).map((stock) => [stock.nameNormalized, stock]));
+  const needed = aggregatePlannedIngredients(input.planned)
+    .map((agg) => subtractPantryStock(agg, pantryByName.get(normalizeNameForLookup(agg.ingredientName))))
+    .filter((agg): agg is Aggregate => agg != null);
+
+  const generated = needed.map((agg): ShoppingListItem => {
+    const previous = existingByKey.get(agg.key);
+    existingByKey.delete(agg.key);
+
+    const item: ShoppingListItem = {
+      id: typeof previous?.id === 'string' && previous.id ? previous.id : input.createId(),
+      ingredientName: agg.ingredientName,
+      isChecked: previous?.isChecked === true,
+      sourceMeals: agg.sourceMeals,
+    };
+    if (agg.totalQuantity != null) item.totalQuantity = roundQuantity(agg.totalQuantity);
+    if (agg.unit) item.unit = agg.unit;
+    if (agg.category) item.category = agg.category;
+    return item;
+  });
+
+  const manual: ShoppingListItem[] = [];
+  for (const item of existingByKey.values()) {
+    const sourceMeals = Array.isArray(item.sourceMeals) ? item.sourceMeals : [];
+    if (sourceMeals.length > 0) continue;
+    manual.push(item as ShoppingListItem);
+  }
+
+  generated.sort((a, b) => {
+    const byCategory = (a.category ?? '').localeCompare(b.category ?? '');
+    return byCategory !== 0 ? byCategory : a.ingredientName.localeCompare(b.ingredientName);
+  });
+
+  return [...generated, ...manual].slice(0, MAX_ITEMS);
+}
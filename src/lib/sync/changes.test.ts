@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { decodeSyncCursor, encodeSyncCursor, SyncValidationError, toSyncDeletions } from './changes';
+
+test('sync cursors round-trip and reject garbage', () => {
+  const at = new Date('2026-10-19T08:15:00.250Z');
+  assert.deepEqual(decodeSyncCursor(encodeSyncCursor(at)), at);
+  assert.throws(() => decodeSyncCursor('not-a-cursor'), SyncValidationError);
+  assert.throws(() => decodeSyncCursor(Buffer.from('sync|yesterday').toString('base64url')), SyncValidationError);
+  // An activity cursor is not a sync cursor.
+  assert.throws(() => decodeSyncCursor(Buffer.from('2026-10-19T08:15:00.250Z|a1').toString('base64url')), SyncValidationError);
+});
+
+test('toSyncDeletions keeps deletions in current households and drops households the caller left', () => {
+  const deletions = toSyncDeletions(
+    [
+      { entity: 'meal', entityId: 'meal-1', householdId: 'h1', userId: null },
+      { entity: 'plan', entityId: 'plan-1', householdId: 'h1', userId: null },
+      { entity: 'plan', entityId: 'plan-1', householdId: 'h1', userId: null },
+      { entity: 'member', entityId: 'm-2', householdId: 'h1', userId: 'user-2' },
+      // Left h2: its rows go with it, so its own meal tombstones aren't listed.
+      { entity: 'member', entityId: 'm-1', householdId: 'h2', userId: 'user-1' },
+      { entity: 'meal', entityId: 'meal-2', householdId: 'h2', userId: null },
+      { entity: 'household', entityId: 'h2', householdId: 'h2', userId: null },
+      // Someone else left a household the caller isn't in.
+      { entity: 'member', entityId: 'm-3', householdId: 'h3', userId: 'user-3' },
+    ],
+    'user-1',
+    ['h1'],
+  );
+
+  assert.deepEqual(deletions, {
+    households: ['h2'],
+    members: [{ householdId: 'h1', userId: 'user-2' }],
+    meals: ['meal-1'],
+    plans: ['plan-1'],
+  });
+});
+
+test('toSyncDeletions ignores having left a household the caller has since rejoined', () => {
+  const deletions = toSyncDeletions(
+    [{ entity: 'member', entityId: 'm-1', householdId: 'h1', userId: 'user-1' }],
+    'user-1',
+    ['h1'],
+  );
+  assert.deepEqual(deletions.households, []);
+  assert.deepEqual(deletions.members, [{ householdId: 'h1', userId: 'user-1' }]);
+});
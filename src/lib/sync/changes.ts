@@ -0,0 +1,194 @@
+import { and, eq, getTableColumns, gte, inArray, or, sql, type Column, type SQL } from 'drizzle-orm';
+import type { NeonHttpDatabase } from 'drizzle-orm/neon-http';
+
+import { getMealsSelect, getPlansSelect, hasSyncTrackingSchema } from '@/db/compat';
+import * as schema from '@/db/schema';
+import { household_members, households, meals, plans, syncTombstones, users } from '@/db/schema';
+
+type Database = NeonHttpDatabase<typeof schema>;
+
+// A change committed just before a cursor was taken may not have been visible yet, so each sync
+// re-reads this much before its cursor. Clients apply rows as upserts, so repeats are harmless.
+export const SYNC_CURSOR_OVERLAP_MS = 30_000;
+
+export type SyncTombstone = { entity: string; entityId: string; householdId: string; userId: string | null };
+
+export type SyncDeletions = {
+  households: string[];
+  members: Array<{ householdId: string; userId: string }>;
+  meals: string[];
+  plans: string[];
+};
+
+export class SyncValidationError extends Error {
+  readonly name = 'SyncValidationError';
+}
+
+export function encodeSyncCursor(at: Date): string {
+  return Buffer.from(`sync|${at.toISOString()}`, 'utf8').toString('base64url');
+}
+
+export function decodeSyncCursor(value: string): Date {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const at = new Date(decoded.startsWith('sync|') ? decoded.slice('sync|'.length) : '');
+  if (Number.isNaN(at.getTime())) {
+    throw new SyncValidationError('Invalid sync cursor');
+  }
+  return at;
+}
+
+/**
+ * Turns tombstones into what the client should drop. A household the caller no longer belongs to
+ * (left, removed, or deleted along with its members) is dropped whole, meals and plans included.
+ */
+export function toSyncDeletions(tombstones: SyncTombstone[], userId: string, householdIds: string[]): SyncDeletions {
+  const current = new Set(householdIds);
+  const dropped = new Set<string>();
+  const members = new Map<string, { householdId: string; userId: string }>();
+  const mealIds = new Set<string>();
+  const planIds = new Set<string>();
+
+  for (const tombstone of tombstones) {
+    if (!current.has(tombstone.householdId)) {
+      if (tombstone.entity === 'member' && tombstone.userId === userId) dropped.add(tombstone.householdId);
+      continue;
+    }
+    if (tombstone.entity === 'member' && tombstone.userId) {
+      members.set(`${tombstone.householdId}|${tombstone.userId}`, { householdId: tombstone.householdId, userId: tombstone.userId });
+    } else if (tombstone.entity === 'meal') {
+      mealIds.add(tombstone.entityId);
+    } else if (tombstone.entity === 'plan') {
+      planIds.add(tombstone.entityId);
+    }
+  }
+
+  return {
+    households: Array.from(dropped),
+    members: Array.from(members.values()),
+    meals: Array.from(mealIds),
+    plans: Array.from(planIds),
+  };
+}
+
+// `updated_at` is kept out of the drizzle tables (see syncTombstones in src/db/schema.ts); it is
+// read back like any timestamp column.
+function updatedAtOf(table: typeof households | typeof plans | typeof household_members) {
+  return sql<Date | null>`${table}.updated_at`.mapWith(households.createdAt);
+}
+
+type SyncScope = { since: Date | null; wholeIds: string[]; deltaIds: string[] };
+
+// Every row of the households sent whole, plus the rows of the others changed since `since`.
+function changedIn(householdId: Column, updatedAt: SQL, scope: SyncScope): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (scope.wholeIds.length > 0) conditions.push(inArray(householdId, scope.wholeIds));
+  if (scope.since && scope.deltaIds.length > 0) {
+    conditions.push(sql`(${inArray(householdId, scope.deltaIds)} AND ${updatedAt} >= ${scope.since.toISOString()}::timestamp)`);
+  }
+  return conditions.length > 0 ? or(...conditions) : undefined;
+}
+
+/**
+ * What changed in the caller's households since `since` (a decoded cursor), or everything when
+ * `since` is null or the database predates add_sync_tracking.sql; `full` tells the client to
+ * replace its copy rather than merge. Apply `deleted` before the rows.
+ */
+export async function loadSyncChanges(db: Database, userId: string, since: Date | null) {
+  // Cursors come from the database clock, which the triggers stamp rows with.
+  const clock = await db.execute(sql`SELECT (extract(epoch FROM now()) * 1000)::bigint AS ms`);
+  const now = new Date(Number((clock.rows?.[0] as { ms?: unknown } | undefined)?.ms));
+  const tracked = await hasSyncTrackingSchema(db);
+  const full = !since || !tracked;
+  const windowStart = since && !full ? new Date(since.getTime() - SYNC_CURSOR_OVERLAP_MS) : null;
+
+  const memberships = await db
+    .select({
+      householdId: household_members.householdId,
+      updatedAt: tracked ? updatedAtOf(household_members) : sql<Date | null>`NULL::timestamp`,
+    })
+    .from(household_members)
+    .where(eq(household_members.userId, userId));
+  const householdIds = Array.from(new Set(memberships.map((row) => row.householdId)));
+
+  // Households joined (or whose role for the caller changed) since the cursor are sent whole.
+  const wholeIds = windowStart
+    ? Array.from(new Set(memberships.filter((row) => !row.updatedAt || row.updatedAt >= windowStart).map((row) => row.householdId)))
+    : householdIds;
+  const scope: SyncScope = { since: windowStart, wholeIds, deltaIds: householdIds.filter((id) => !wholeIds.includes(id)) };
+
+  const householdsWhere = changedIn(households.id, updatedAtOf(households), scope);
+  const householdsPromise = householdsWhere
+    ? db
+        .select({ ...getTableColumns(households), updatedAt: tracked ? updatedAtOf(households) : sql<Date | null>`NULL::timestamp` })
+        .from(households)
+        .where(householdsWhere)
+    : Promise.resolve([]);
+
+  const membersWhere = changedIn(household_members.householdId, updatedAtOf(household_members), scope);
+  const membersPromise = membersWhere
+    ? db
+        .select({
+          householdId: household_members.householdId,
+          userId: household_members.userId,
+          role: household_members.role,
+          name: users.name,
+          email: users.email,
+          avatarUrl: users.avatar,
+          joinedAt: household_members.joinedAt,
+          updatedAt: tracked ? updatedAtOf(household_members) : sql<Date | null>`NULL::timestamp`,
+        })
+        .from(household_members)
+        .innerJoin(users, eq(household_members.userId, users.id))
+        .where(membersWhere)
+    : Promise.resolve([]);
+
+  const mealsWhere = changedIn(meals.householdId, sql`${meals.updatedAt}`, scope);
+  const mealsSelect = await getMealsSelect(db);
+  const mealsPromise = mealsWhere ? db.select(mealsSelect).from(meals).where(mealsWhere) : Promise.resolve([]);
+
+  const plansWhere = changedIn(plans.householdId, updatedAtOf(plans), scope);
+  const plansSelect = await getPlansSelect(db);
+  const plansPromise = plansWhere
+    ? db
+        .select({ ...plansSelect, updatedAt: tracked ? updatedAtOf(plans) : sql<Date | null>`NULL::timestamp` })
+        .from(plans)
+        .where(plansWhere)
+    : Promise.resolve([]);
+
+  const tombstonesPromise = windowStart
+    ? db
+        .select({
+          entity: syncTombstones.entity,
+          entityId: syncTombstones.entityId,
+          householdId: syncTombstones.householdId,
+          userId: syncTombstones.userId,
+        })
+        .from(syncTombstones)
+        .where(
+          and(
+            gte(syncTombstones.deletedAt, windowStart),
+            householdIds.length > 0
+              ? or(inArray(syncTombstones.householdId, householdIds), eq(syncTombstones.userId, userId))
+              : eq(syncTombstones.userId, userId),
+          ),
+        )
+    : Promise.resolve([]);
+
+  const [householdRows, memberRows, mealRows, planRows, tombstones] = await Promise.all([
+    householdsPromise,
+    membersPromise,
+    mealsPromise,
+    plansPromise,
+    tombstonesPromise,
+  ]);
+
+  return {
+    cursor: encodeSyncCursor(now),
+    full,
+    households: householdRows,
+    members: memberRows,
+    meals: mealRows,
+    plans: planRows.map((plan) => ({ ...plan, isCompleted: plan.isCompleted ?? false })),
+    deleted: toSyncDeletions(tombstones, userId, householdIds),
+  };
+}
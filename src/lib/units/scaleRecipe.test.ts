@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { formatKitchenQuantity, roundToKitchenFraction, scaleIngredients, scaleNutrition } from './scaleRecipe';
+
+test('roundToKitchenFraction snaps spoons, cups and counts to measurable amounts', () => {
+  assert.equal(roundToKitchenFraction(0.7, 'tsp'), 0.75);
+  assert.equal(roundToKitchenFraction(0.04, 'tsp'), 0.125);
+  assert.equal(roundToKitchenFraction(0.34, 'cup'), 0.333);
+  assert.equal(roundToKitchenFraction(2.6, 'piece'), 2.5);
+  assert.equal(roundToKitchenFraction(13.4, 'slice'), 13);
+  assert.equal(roundToKitchenFraction(187.5, 'g'), 190);
+  assert.equal(roundToKitchenFraction(0.2, 'g'), 1);
+  assert.equal(formatKitchenQuantity(1.5), '1 1/2');
+  assert.equal(formatKitchenQuantity(0.333), '1/3');
+  assert.equal(formatKitchenQuantity(190), '190');
+});
+
+test('scaleIngredients scales quantities, promotes large metric amounts and keeps unquantified rows', () => {
+  const scaled = scaleIngredients(
+    [
+      { name: 'Pasta', quantity: 400, unit: 'g' },
+      { name: 'Olive Oil', quantity: 1, unit: 'tbsp' },
+      { name: 'Salt' },
+    ],
+    3,
+  );
+
+  assert.deepEqual(scaled, [
+    { name: 'Pasta', quantity: 1.2, unit: 'kg', quantityLabel: '1.2' },
+    { name: 'Olive Oil', quantity: 3, unit: 'tbsp', quantityLabel: '3' },
+    { name: 'Salt' },
+  ]);
+});
+
+test('scaleNutrition derives per-serving values from whole-recipe or per-serving facts', () => {
+  const fromTotal = scaleNutrition({ caloriesKcal: 2000, proteinG: 100, perServing: false }, 4, 6);
+  assert.equal(fromTotal?.perServing.caloriesKcal, 500);
+  assert.equal(fromTotal?.total.caloriesKcal, 3000);
+  assert.equal(fromTotal?.total.servings, 6);
+
+  const fromPerServing = scaleNutrition({ caloriesKcal: 450, perServing: true, servings: 2 }, 2, 6);
+  assert.equal(fromPerServing?.perServing.caloriesKcal, 450);
+  assert.equal(fromPerServing?.total.caloriesKcal, 2700);
+
+  assert.equal(scaleNutrition(null, 2, 4), null);
+});
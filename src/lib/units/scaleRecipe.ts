@@ -0,0 +1,146 @@
+import type { NutritionFacts } from '@/lib/nutrition/computeMealNutrition';
+
+import { getUnitDimension, normalizeUnit, toDisplayQuantity } from './unitConversion';
+
+const NUTRITION_KEYS = ['caloriesKcal', 'proteinG', 'carbsG', 'fatG', 'fiberG', 'sugarG', 'sodiumMg'] as const;
+
+// Units measured with spoons/cups or counted by hand get fraction rounding; the rest keep decimals.
+const FRACTION_UNITS = new Set(['cup', 'tbsp', 'tsp', 'slice', 'loaf', 'piece', 'can', 'pkg', 'whole']);
+
+const FRACTION_LABELS: Record<number, string> = {
+  0.125: '1/8',
+  0.25: '1/4',
+  0.333: '1/3',
+  0.5: '1/2',
+  0.667: '2/3',
+  0.75: '3/4',
+};
+
+function roundTo(value: number, step: number): number {
+  // Trim float noise (e.g. 24 * 0.05 = 1.2000000000000002).
+  return Math.round(Math.round(value / step) * step * 1000) / 1000;
+}
+
+/**
+ * Rounds a scaled quantity to something a cook can measure:
+ * - spoons/cups and counted items snap to 1/4 (1/8 for teaspoons, thirds for cups), whole numbers from 10 up
+ * - grams/millilitres round to whole numbers, then to 5 from 100 up
+ * Never rounds a positive quantity down to zero.
+ */
+export function roundToKitchenFraction(quantity: number, unit: unknown): number {
+  if (!Number.isFinite(quantity) || quantity <= 0) return quantity;
+
+  const normalized = normalizeUnit(unit);
+  const dimension = getUnitDimension(unit);
+
+  if (!normalized || FRACTION_UNITS.has(normalized)) {
+    if (quantity >= 10) return Math.round(quantity);
+    if (normalized === 'tsp') return Math.max(0.125, roundTo(quantity, 0.125));
+    if (normalized === 'cup') {
+      const quarter = roundTo(quantity, 0.25);
+      const third = roundTo(quantity, 1 / 3);
+      const best = Math.abs(third - quantity) < Math.abs(quarter - quantity) ? third : quarter;
+      return Math.max(0.25, best);
+    }
+    return Math.max(0.25, roundTo(quantity, 0.25));
+  }
+
+  if (dimension === 'mass' || dimension === 'volume') {
+    if (normalized === 'kg' || normalized === 'l' || normalized === 'lb') return Math.max(0.05, roundTo(quantity, 0.05));
+    if (normalized === 'oz') return Math.max(0.25, roundTo(quantity, 0.25));
+    if (quantity >= 100) return roundTo(quantity, 5);
+    return Math.max(1, Math.round(quantity));
+  }
+
+  return Math.round(quantity * 100) / 100;
+}
+
+/**
+ * Formats a rounded quantity as a kitchen label, e.g. 1.5 -> "1 1/2", 0.333 -> "1/3".
+ */
+export function formatKitchenQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = Math.round((quantity - whole) * 1000) / 1000;
+  const label = FRACTION_LABELS[fraction];
+  if (!label) return String(Math.round(quantity * 100) / 100);
+  return whole > 0 ? `${whole} ${label}` : label;
+}
+
+function parseQuantity(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : null;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Scales stored ingredient rows by `factor`. Rows without a numeric quantity are returned unchanged.
+ * Metric quantities that grow past 1000 are promoted to kg / l.
+ */
+export function scaleIngredients(ingredients: unknown, factor: number): Array<Record<string, unknown>> {
+  if (!Array.isArray(ingredients)) return [];
+  const out: Array<Record<string, unknown>> = [];
+  for (const raw of ingredients) {
+    if (typeof raw === 'string') {
+      out.push({ name: raw });
+      continue;
+    }
+    if (!raw || typeof raw !== 'object') continue;
+    const row = raw as Record<string, unknown>;
+    const quantity = parseQuantity(row.quantity);
+    if (quantity == null) {
+      out.push({ ...row });
+      continue;
+    }
+
+    let scaled = quantity * factor;
+    let unit = typeof row.unit === 'string' ? row.unit : '';
+    const normalized = normalizeUnit(unit);
+    if (normalized === 'g' || normalized === 'ml') {
+      const display = toDisplayQuantity(scaled, normalized);
+      scaled = display.quantity;
+      unit = display.unit;
+    }
+
+    const rounded = roundToKitchenFraction(scaled, unit);
+    const item: Record<string, unknown> = { ...row, quantity: rounded, quantityLabel: formatKitchenQuantity(rounded) };
+    if (unit) item.unit = unit;
+    out.push(item);
+  }
+  return out;
+}
+
+function pickNutritionValues(nutrition: NutritionFacts, multiplier: number): NutritionFacts {
+  const out: NutritionFacts = {};
+  for (const key of NUTRITION_KEYS) {
+    const value = nutrition[key];
+    if (typeof value === 'number' && Number.isFinite(value)) out[key] = Math.round(value * multiplier * 10) / 10;
+  }
+  return out;
+}
+
+/**
+ * Derives per-serving and whole-recipe nutrition for `targetServings`.
+ * Stored nutrition is either per serving (`perServing: true`) or for the whole recipe at `baseServings`.
+ */
+export function scaleNutrition(
+  nutrition: unknown,
+  baseServings: number,
+  targetServings: number,
+): { total: NutritionFacts; perServing: NutritionFacts } | null {
+  if (!nutrition || typeof nutrition !== 'object' || Array.isArray(nutrition)) return null;
+  const facts = nutrition as NutritionFacts;
+
+  const perServingMultiplier = facts.perServing === true ? 1 : 1 / baseServings;
+  const perServing = pickNutritionValues(facts, perServingMultiplier);
+  if (Object.keys(perServing).length === 0) return null;
+
+  const total = pickNutritionValues(facts, perServingMultiplier * targetServings);
+  const shared = { isEstimate: facts.isEstimate, computedAt: facts.computedAt };
+  return {
+    total: { ...total, ...shared, perServing: false, servings: targetServings },
+    perServing: { ...perServing, ...shared, perServing: true, servings: targetServings },
+  };
+}
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import { convertQuantity, getUnitDimension, normalizeUnit, toBaseQuantity, toDisplayQuantity } from './unitConversion';
+
+test('normalizeUnit maps synonyms and leaves unknown units undefined', () => {
+  assert.equal(normalizeUnit(' Tablespoons '), 'tbsp');
+  assert.equal(normalizeUnit('lbs.'), 'lb');
+  assert.equal(normalizeUnit('bunch'), undefined);
+  assert.equal(getUnitDimension('kg'), 'mass');
+  assert.equal(getUnitDimension('cups'), 'volume');
+  assert.equal(getUnitDimension('can'), 'count');
+});
+
+test('convertQuantity converts within a dimension and uses density hints across mass/volume', () => {
+  assert.equal(convertQuantity(2, 'kg', 'g'), 2000);
+  assert.equal(Math.round(convertQuantity(0.5, 'lb', 'g') ?? 0), 227);
+  assert.equal(convertQuantity(3, 'tsp', 'tbsp')?.toFixed(2), '1.00');
+  assert.equal(convertQuantity(1, 'cup', 'g'), null);
+  assert.equal(Math.round(convertQuantity(1, 'cup', 'g', { ingredientName: 'All-purpose flour' }) ?? 0), 125);
+  assert.equal(convertQuantity(2, 'piece', 'g', { ingredientName: 'Egg' }), null);
+  assert.equal(convertQuantity(2, 'Bunch', 'bunch'), 2);
+});
+
+test('toBaseQuantity and toDisplayQuantity round-trip to readable units', () => {
+  assert.deepEqual(toBaseQuantity(1.5, 'L'), { quantity: 1500, unit: 'ml', dimension: 'volume' });
+  assert.deepEqual(toBaseQuantity(2, 'Pieces'), { quantity: 2, unit: 'piece', dimension: 'count' });
+  assert.deepEqual(toDisplayQuantity(1500, 'ml'), { quantity: 1.5, unit: 'l' });
+  assert.deepEqual(toDisplayQuantity(450, 'g'), { quantity: 450, unit: 'g' });
+});
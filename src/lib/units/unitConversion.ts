@@ -0,0 +1,224 @@
+import { normalizeWhitespace } from '@/lib/normalizeMeal';
+import { stripControlChars } from '@/lib/validation';
+
+export const ALLOWED_UNITS = [
+  'g',
+  'kg',
+  'oz',
+  'lb',
+  'ml',
+  'l',
+  'cup',
+  'tbsp',
+  'tsp',
+  'slice',
+  'loaf',
+  'piece',
+  'can',
+  'pkg',
+  'whole',
+] as const;
+
+export type Unit = (typeof ALLOWED_UNITS)[number];
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+const UNIT_SYNONYMS: Record<string, Unit> = {
+  gram: 'g',
+  grams: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  cups: 'cup',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  slices: 'slice',
+  pieces: 'piece',
+  cans: 'can',
+  package: 'pkg',
+  packages: 'pkg',
+  pack: 'pkg',
+  packs: 'pkg',
+  stalk: 'piece',
+  stalks: 'piece',
+  stock: 'piece',
+  stocks: 'piece',
+};
+
+function normalizeKey(value: string): string {
+  return normalizeWhitespace(stripControlChars(value)).toLowerCase();
+}
+
+const UNIT_BY_KEY = new Map<string, Unit>(ALLOWED_UNITS.map((unit) => [normalizeKey(unit), unit]));
+
+export function normalizeUnit(raw: unknown): Unit | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const trimmed = normalizeWhitespace(stripControlChars(raw));
+  if (!trimmed) return undefined;
+
+  const normalized = normalizeKey(trimmed.replace(/[()]/g, ' ').replace(/\./g, ' '));
+  const direct = UNIT_BY_KEY.get(normalized);
+  if (direct) return direct;
+
+  const synonym = UNIT_SYNONYMS[normalized];
+  if (synonym) return synonym;
+
+  return undefined;
+}
+
+export function inferUnitFromIngredient(name: string, category?: string): Unit {
+  const key = normalizeKey(name);
+
+  // More specific name-based rules first.
+  if (/\b(oil|vinegar)\b/.test(key)) return 'tbsp';
+  if (/\b(soy sauce|fish sauce|oyster sauce)\b/.test(key)) return 'tbsp';
+  if (/\b(water|milk|cream|broth|stock|juice|wine)\b/.test(key)) return 'ml';
+  if (/\b(salt|pepper|spice|powder|seasoning|cinnamon|paprika|cumin|oregano|basil|chili)\b/.test(key)) return 'tsp';
+
+  if (/\b(loaf)\b/.test(key)) return 'loaf';
+  if (/\b(bread)\b/.test(key)) return 'slice';
+  if (/\b(egg|eggs)\b/.test(key)) return 'piece';
+  if (/\b(canned|tin)\b/.test(key)) return 'can';
+
+  // Category-based fallback.
+  const cat = normalizeKey(category ?? '');
+  if (cat === 'produce') return 'piece';
+  if (cat === 'bakery') return 'slice';
+  if (cat === 'meat') return 'g';
+  if (cat === 'dairy') return 'g';
+  if (cat === 'pantry') return 'g';
+
+  // Ingredient-name fallback for common solids.
+  if (/\b(rice|pasta|flour|sugar|cheese|beef|chicken|pork|fish|shrimp|tofu|quinoa|lentil|bean|butter)\b/.test(key)) {
+    return 'g';
+  }
+
+  // Safe default that works for many produce items (onions, herbs, etc.).
+  return 'piece';
+}
+
+const GRAMS_PER_UNIT: Partial<Record<Unit, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const ML_PER_UNIT: Partial<Record<Unit, number>> = {
+  ml: 1,
+  l: 1000,
+  cup: 236.588,
+  tbsp: 14.787,
+  tsp: 4.929,
+};
+
+// Approximate densities (g per ml) so volume-measured ingredients can be compared with weighed ones.
+// Checked in order, so more specific names go first.
+const DENSITY_HINTS: Array<{ pattern: RegExp; gramsPerMl: number }> = [
+  { pattern: /\b(brown sugar)\b/, gramsPerMl: 0.93 },
+  { pattern: /\b(icing sugar|powdered sugar)\b/, gramsPerMl: 0.56 },
+  { pattern: /\b(sugar)\b/, gramsPerMl: 0.85 },
+  { pattern: /\b(flour)\b/, gramsPerMl: 0.53 },
+  { pattern: /\b(oats|oat)\b/, gramsPerMl: 0.41 },
+  { pattern: /\b(rice)\b/, gramsPerMl: 0.85 },
+  { pattern: /\b(salt)\b/, gramsPerMl: 1.2 },
+  { pattern: /\b(honey|syrup)\b/, gramsPerMl: 1.42 },
+  { pattern: /\b(butter)\b/, gramsPerMl: 0.96 },
+  { pattern: /\b(oil)\b/, gramsPerMl: 0.92 },
+  { pattern: /\b(cream)\b/, gramsPerMl: 1.0 },
+  { pattern: /\b(milk|yogurt|yoghurt)\b/, gramsPerMl: 1.03 },
+  { pattern: /\b(water|broth|stock|juice|wine|vinegar)\b/, gramsPerMl: 1.0 },
+  { pattern: /\b(soy sauce|fish sauce)\b/, gramsPerMl: 1.15 },
+];
+
+export function getUnitDimension(unit: unknown): UnitDimension {
+  const normalized = normalizeUnit(unit);
+  if (!normalized) return 'count';
+  if (GRAMS_PER_UNIT[normalized] != null) return 'mass';
+  if (ML_PER_UNIT[normalized] != null) return 'volume';
+  return 'count';
+}
+
+export function getDensityGramsPerMl(ingredientName: string): number | undefined {
+  const key = normalizeKey(ingredientName);
+  if (!key) return undefined;
+  return DENSITY_HINTS.find((hint) => hint.pattern.test(key))?.gramsPerMl;
+}
+
+function unitFactor(unit: Unit): number | undefined {
+  return GRAMS_PER_UNIT[unit] ?? ML_PER_UNIT[unit];
+}
+
+/**
+ * Converts a quantity between two units.
+ * Mass <-> volume conversions need an ingredient name with a known density; count units only convert to themselves.
+ * Returns null when the units are not convertible.
+ */
+export function convertQuantity(
+  quantity: number,
+  fromUnit: unknown,
+  toUnit: unknown,
+  options?: { ingredientName?: string },
+): number | null {
+  if (!Number.isFinite(quantity)) return null;
+
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (!from || !to) {
+    const fromKey = typeof fromUnit === 'string' ? normalizeKey(fromUnit) : '';
+    const toKey = typeof toUnit === 'string' ? normalizeKey(toUnit) : '';
+    return fromKey === toKey ? quantity : null;
+  }
+  if (from === to) return quantity;
+
+  const fromDimension = getUnitDimension(from);
+  const toDimension = getUnitDimension(to);
+  const fromFactor = unitFactor(from);
+  const toFactor = unitFactor(to);
+  if (fromFactor == null || toFactor == null) return null;
+
+  const base = quantity * fromFactor;
+  if (fromDimension === toDimension) return base / toFactor;
+
+  const density = options?.ingredientName ? getDensityGramsPerMl(options.ingredientName) : undefined;
+  if (!density) return null;
+  if (fromDimension === 'volume' && toDimension === 'mass') return (base * density) / toFactor;
+  if (fromDimension === 'mass' && toDimension === 'volume') return base / density / toFactor;
+  return null;
+}
+
+/**
+ * Converts a quantity to its dimension's base unit (g for mass, ml for volume).
+ * Count-like and unknown units are returned unchanged, with the unit normalized where possible.
+ */
+export function toBaseQuantity(quantity: number, unit: unknown): { quantity: number; unit: string; dimension: UnitDimension } {
+  const normalized = normalizeUnit(unit);
+  const dimension = getUnitDimension(normalized);
+  if (normalized && dimension === 'mass') return { quantity: quantity * (GRAMS_PER_UNIT[normalized] ?? 1), unit: 'g', dimension };
+  if (normalized && dimension === 'volume') return { quantity: quantity * (ML_PER_UNIT[normalized] ?? 1), unit: 'ml', dimension };
+  const raw = typeof unit === 'string' ? normalizeKey(unit) : '';
+  return { quantity, unit: normalized ?? raw, dimension };
+}
+
+/**
+ * Picks a readable unit for a base quantity (e.g. 1500 g -> 1.5 kg, 2000 ml -> 2 l).
+ */
+export function toDisplayQuantity(quantity: number, unit: string): { quantity: number; unit: string } {
+  if (unit === 'g' && quantity >= 1000) return { quantity: quantity / 1000, unit: 'kg' };
+  if (unit === 'ml' && quantity >= 1000) return { quantity: quantity / 1000, unit: 'l' };
+  return { quantity, unit };
+}
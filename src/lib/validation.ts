@@ -57,6 +57,16 @@ export function validateInviteToken(value: unknown): string | null {
   return token;
 }
 
+export const EMAIL_MAX_LENGTH = 254;
+export function validateEmail(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const email = value.trim().toLowerCase();
+  if (!email || email.length > EMAIL_MAX_LENGTH) return null;
+  // Deliberately loose: one @, no whitespace, a dot in the domain. Delivery is the real check.
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return null;
+  return email;
+}
+
 export const SHARE_TOKEN_MAX_LENGTH = 128;
 export const SHARE_TOKEN_MIN_LENGTH = 6;
 export function validateShareToken(value: unknown): string | null {
@@ -88,6 +98,27 @@ export function validateMealDescription(value: unknown): string | undefined {
   return cleaned.slice(0, MEAL_DESCRIPTION_MAX_LENGTH);
 }
 
+export const MEAL_TAG_MAX_LENGTH = 30;
+export const MAX_MEAL_TAGS = 20;
+export function validateMealTag(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const cleaned = normalizeWhitespace(stripControlChars(value)).toLowerCase();
+  if (!cleaned || cleaned.length > MEAL_TAG_MAX_LENGTH) return null;
+  return cleaned;
+}
+
+// Returns null when the value isn't a list of valid tags; duplicates are dropped.
+export function sanitizeMealTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_MEAL_TAGS) return null;
+  const out: string[] = [];
+  for (const raw of value) {
+    const tag = validateMealTag(raw);
+    if (!tag) return null;
+    if (!out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
 export function validatePlanDate(value: unknown): string | null {
   if (typeof value !== 'string') return null;
   const trimmed = value.trim();
@@ -98,6 +129,22 @@ export function validatePlanDate(value: unknown): string | null {
   return trimmed;
 }
 
+export function validateServings(value: unknown): number | null {
+  const n = typeof value === 'string' && value.trim() ? Number(value.trim()) : value;
+  if (typeof n !== 'number' || !Number.isInteger(n)) return null;
+  if (n < 1 || n > 100) return null;
+  return n;
+}
+
+export const PLAN_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+export type PlanSlot = (typeof PLAN_SLOTS)[number];
+
+export function validatePlanSlot(value: unknown): PlanSlot | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return (PLAN_SLOTS as readonly string[]).includes(normalized) ? (normalized as PlanSlot) : null;
+}
+
 export function getContentLength(req: Request): number | null {
   const raw = req.headers.get('content-length');
   if (!raw) return null;